@@ -0,0 +1,41 @@
+// GitHub App authentication shared by both workers: worker-reviewer reviews as an installation, and worker-webhook
+// reads pull requests as one for manual review requests.
+
+// RS256 JWT identifying the app. `iat` is backdated a minute to tolerate clock drift; GitHub rejects lifetimes over ten minutes.
+export async function createAppJwt(appId: string, privateKeyPem: string, now: number = Date.now()): Promise<string> {
+	const issuedAt = Math.floor(now / 1000) - 60;
+	const header = base64UrlEncode(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+	const payload = base64UrlEncode(JSON.stringify({ iat: issuedAt, exp: issuedAt + 9 * 60, iss: appId }));
+	const key = await crypto.subtle.importKey('pkcs8', pemToPkcs8(privateKeyPem), { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['sign']);
+	const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(`${header}.${payload}`));
+	return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// GitHub issues PKCS#1 keys ("BEGIN RSA PRIVATE KEY"), which WebCrypto cannot import; they are wrapped into PKCS#8.
+function pemToPkcs8(pem: string): ArrayBuffer {
+	const normalised = pem.replace(/\\n/g, '\n');
+	const der = Uint8Array.from(atob(normalised.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '')), c => c.charCodeAt(0));
+	if (der.length === 0) throw new Error('no key data found');
+	if (!normalised.includes('BEGIN RSA PRIVATE KEY')) return der.buffer;
+
+	// AlgorithmIdentifier for rsaEncryption (1.2.840.113549.1.1.1) with NULL parameters.
+	const algorithm = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+	const version = [0x02, 0x01, 0x00];
+	const octetString = [0x04, ...derLength(der.length), ...der];
+	const body = [...version, ...algorithm, ...octetString];
+	return new Uint8Array([0x30, ...derLength(body.length), ...body]).buffer;
+}
+
+function derLength(length: number): number[] {
+	if (length < 0x80) return [length];
+	const bytes: number[] = [];
+	for (let remaining = length; remaining > 0; remaining >>= 8) bytes.unshift(remaining & 0xff);
+	return [0x80 | bytes.length, ...bytes];
+}
+
+function base64UrlEncode(input: string | Uint8Array): string {
+	const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+	let binary = '';
+	bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
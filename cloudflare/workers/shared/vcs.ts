@@ -0,0 +1,524 @@
+// Inbound half of each VCS provider, shared by worker-webhook and worker-reviewer: verifying a webhook delivery,
+// deciding whether and how it is reviewed, and normalising its payload to the pull or merge request it concerns.
+// worker-reviewer adds the outbound half (fetching diffs, posting comments, summaries and statuses) in vcs-providers.ts.
+
+export type VcsSource = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+export const VCS_SOURCES: VcsSource[] = ['github', 'gitlab', 'bitbucket', 'gitea'];
+
+// Slash command parsed from a PR/MR comment (`/review [type]`, `/ai explain [path[:line]] question`).
+export type ReviewCommand =
+	| { type: 'review'; reviewType?: 'detailed' | 'general' }
+	| { type: 'explain'; question: string; filePath?: string; lineNumber?: number };
+
+// A reply in an inline review thread; worker-reviewer answers it when the thread was started by the bot.
+export interface ThreadReply {
+	commentId: number;
+	// GitHub: id of the thread's first review comment. GitLab: discussion id.
+	threadId: number | string;
+}
+
+export interface GitlabDiffRefs { baseSha: string; startSha: string; headSha: string; }
+
+// The repository and pull/merge request a webhook concerns, in the same shape for every host.
+export interface ReviewTarget {
+	source: VcsSource;
+	// webUrl: repository page, used to locate the API of self-hosted Gitea/Forgejo instances.
+	repository: { fullName: string; id: number | string; defaultBranch: string; webUrl?: string; };
+	pullRequest?: { id: number; number: number; headSha: string; diffUrl: string; commentsUrl: string; };
+	mergeRequest?: {
+		id: number; iid: number; projectId: number; headSha: string; diffUrl: string; notesUrl: string;
+		// SHAs GitLab expects in diff-note positions; fetched from the merge request before posting.
+		diffRefs?: GitlabDiffRefs;
+	};
+	// GitHub App installation that sent the webhook, when the app is installed on the repository.
+	installationId?: number;
+}
+
+// Settings read while handling a webhook; worker-webhook's Env provides them.
+export interface WebhookSettings {
+	GITHUB_WEBHOOK_SECRET?: string;
+	GITLAB_WEBHOOK_SECRET?: string;
+	BITBUCKET_WEBHOOK_SECRET?: string;
+	GITEA_WEBHOOK_SECRET?: string;
+	GITLAB_TENANTS_KV?: KVNamespace;
+	REVIEW_COMMAND_USERS?: string;
+}
+
+// Settings needed to normalise a payload; worker-reviewer's Env (after tenant resolution) provides them.
+export interface TargetSettings {
+	GITLAB_BASE_URL?: string;
+}
+
+export interface VcsWebhookProvider {
+	source: VcsSource;
+	verifySignature(headers: Headers, rawBody: string, payload: any, settings: WebhookSettings): Promise<boolean>;
+	// Why a pull/merge request event should not be reviewed, or null when it should be enqueued.
+	getSkipReason(payload: any, headers: Headers): string | null;
+	// Stable id used to drop duplicate deliveries.
+	generateEventId(payload: any, headers: Headers): string;
+	normalise(payload: any, settings: TargetSettings): ReviewTarget;
+	// Comment commands and thread replies; hosts without them leave these out.
+	getCommentCommand?(payload: any, headers: Headers): ReviewCommand | null;
+	getThreadReply?(payload: any, headers: Headers): ThreadReply | null;
+	// Why a comment command or thread reply should not be handled, or null when it should be enqueued.
+	getCommentSkipReason?(payload: any, settings: WebhookSettings): string | null;
+}
+
+export function gitlabApiBase(settings: TargetSettings): string {
+	return `${(settings.GITLAB_BASE_URL || 'https://gitlab.com').replace(/\/+$/, '')}/api/v4`;
+}
+
+// Registry keys are "<host>" or "<host>/<namespace>"; the project's own namespace wins over parent groups and the host.
+export function gitlabTenantKeys(webUrl?: string, pathWithNamespace?: string): string[] {
+	if (!webUrl) return [];
+	let host: string;
+	try {
+		host = new URL(webUrl).host;
+	} catch {
+		return [];
+	}
+	const segments = (pathWithNamespace || '').split('/').filter(Boolean).slice(0, -1);
+	const keys: string[] = [];
+	for (let i = segments.length; i > 0; i--) keys.push(`${host}/${segments.slice(0, i).join('/')}`);
+	keys.push(host);
+	return keys;
+}
+
+// Latest head commit of each pull/merge request, kept in PROCESSED_EVENTS_KV. worker-webhook writes it for every
+// pushed commit; worker-reviewer drops tasks whose head commit is no longer the latest.
+export const LATEST_HEAD_TTL_SECONDS = 7 * 24 * 3600;
+
+export function latestHeadKey(target: Pick<ReviewTarget, 'pullRequest' | 'mergeRequest' | 'repository'> & { source: string }): string | null {
+	const number = target.pullRequest?.number ?? target.mergeRequest?.iid;
+	if (number === undefined || !target.repository.fullName) return null;
+	return `latest-head:${target.source}:${target.repository.fullName}:${number}`;
+}
+
+export function headShaOf(target: Pick<ReviewTarget, 'pullRequest' | 'mergeRequest'>): string | undefined {
+	return target.pullRequest?.headSha || target.mergeRequest?.headSha || undefined;
+}
+
+// Key of a review outcome in worker-reviewer's REVIEW_RESULTS_KV; worker-webhook hands it to manual review callers.
+export const REVIEW_RESULT_KEY_PREFIX = 'review:';
+
+export function reviewResultKey(source: string, repository: string, number: string | number | undefined, eventId: string): string {
+	return `${REVIEW_RESULT_KEY_PREFIX}${source}:${repository}:${number}:${eventId}`;
+}
+
+export async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		'raw',
+		encoder.encode(secret),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign']
+	);
+	const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+	return Array.from(new Uint8Array(mac)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Compares HMACs rather than the raw strings so the check takes the same time wherever the token differs.
+export async function tokenMatches(provided: string, token: string): Promise<boolean> {
+	return await hmacSha256Hex(token, provided) === await hmacSha256Hex(token, token);
+}
+
+// Recognises `/review`, `/review detailed|general` and `/ai explain [path[:line]] <question>` at the start of any line.
+export function parseReviewCommand(text: string): ReviewCommand | null {
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = rawLine.trim();
+		const review = /^\/review(?:\s+(\S+))?\s*$/i.exec(line);
+		if (review) {
+			const mode = review[1]?.toLowerCase();
+			if (!mode) return { type: 'review' };
+			if (mode === 'detailed' || mode === 'general') return { type: 'review', reviewType: mode };
+			continue;
+		}
+		const explain = /^\/ai\s+explain\s+(.+)$/i.exec(line);
+		if (explain) {
+			const [first, ...rest] = explain[1].trim().split(/\s+/);
+			const location = /^([\w.\/-]*[./][\w.\/-]*?)(?::(\d+))?$/.exec(first);
+			if (location && rest.length > 0) {
+				return { type: 'explain', filePath: location[1], lineNumber: location[2] ? parseInt(location[2], 10) : undefined, question: rest.join(' ') };
+			}
+			return { type: 'explain', question: explain[1].trim() };
+		}
+	}
+	return null;
+}
+
+function isAllowedCommandUser(settings: WebhookSettings, username: string | undefined): boolean | undefined {
+	const allowed = (settings.REVIEW_COMMAND_USERS || '').split(',').map(u => u.trim().toLowerCase()).filter(Boolean);
+	if (allowed.length === 0) return undefined;
+	return !!username && allowed.includes(username.toLowerCase());
+}
+
+// `sha256=<hex>` signatures, as sent by GitHub (X-Hub-Signature-256) and Bitbucket Cloud (X-Hub-Signature).
+async function verifyPrefixedHmac(headers: Headers, header: string, label: string, secretName: string, secret: string | undefined, rawBody: string): Promise<boolean> {
+	const signatureHeader = headers.get(header);
+	if (!signatureHeader) {
+		console.warn(`${label} webhook missing ${header} header.`);
+		return false;
+	}
+	if (!secret) {
+		console.error(`${secretName} is not set. Cannot verify ${label} signature.`);
+		return false;
+	}
+	const [algorithm, signatureHex] = signatureHeader.split('=');
+	if (algorithm !== 'sha256') {
+		console.warn(`Unsupported ${label} signature algorithm: ${algorithm}`);
+		return false;
+	}
+	return await hmacSha256Hex(secret, rawBody) === signatureHex;
+}
+
+const GITHUB_REVIEWABLE_ACTIONS = ['opened', 'synchronize', 'reopened', 'ready_for_review'];
+const GITHUB_TRUSTED_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+export const githubWebhookProvider: VcsWebhookProvider = {
+	source: 'github',
+
+	verifySignature(headers, rawBody, _payload, settings) {
+		return verifyPrefixedHmac(headers, 'X-Hub-Signature-256', 'GitHub', 'GITHUB_WEBHOOK_SECRET', settings.GITHUB_WEBHOOK_SECRET, rawBody);
+	},
+
+	getSkipReason(payload, headers) {
+		const event = headers.get('X-GitHub-Event') || (payload.pull_request ? 'pull_request' : null);
+		if (event !== 'pull_request') {
+			return `GitHub event "${event || 'unknown'}" is not reviewable.`;
+		}
+		if (!GITHUB_REVIEWABLE_ACTIONS.includes(payload.action)) {
+			return `GitHub pull_request action "${payload.action || 'unknown'}" is not reviewable.`;
+		}
+		if (payload.pull_request?.state === 'closed') {
+			return 'Pull request is closed.';
+		}
+		if (payload.pull_request?.draft) {
+			return 'Pull request is a draft.';
+		}
+		return null;
+	},
+
+	generateEventId(payload, headers) {
+		if (payload.comment && payload.comment.node_id && payload.pull_request) {
+			return `gh_review_comment_${payload.comment.node_id}`;
+		}
+		if (payload.pull_request && payload.pull_request.node_id && payload.action) {
+			return `gh_pr_${payload.pull_request.node_id}_${payload.action}_${payload.pull_request.head?.sha || payload.after || 'unknown_sha'}`;
+		}
+		if (payload.ref && payload.after && payload.repository && payload.repository.node_id) {
+			return `gh_push_${payload.repository.node_id}_${payload.ref}_${payload.after}`;
+		}
+		if (payload.comment && payload.comment.node_id && payload.issue && payload.issue.node_id) {
+			return `gh_comment_${payload.comment.node_id}_on_issue_${payload.issue.node_id}`;
+		}
+		const deliveryId = headers.get('X-GitHub-Delivery');
+		if (deliveryId) return `gh_delivery_${deliveryId}`;
+		console.warn('Could not determine a stable event ID for GitHub payload:', JSON.stringify(payload).substring(0,200));
+		return `gh_unknown_${crypto.randomUUID()}`;
+	},
+
+	normalise(payload) {
+		const pr = payload.pull_request;
+		return {
+			source: 'github',
+			installationId: payload.installation?.id,
+			repository: {
+				fullName: payload.repository?.full_name || 'unknown/repo', id: payload.repository?.id || 0,
+				defaultBranch: payload.repository?.default_branch || 'main', webUrl: payload.repository?.html_url,
+			},
+			pullRequest: pr ? {
+				id: pr.id, number: pr.number, headSha: pr.head?.sha,
+				diffUrl: pr.diff_url, commentsUrl: pr.comments_url,
+			} : payload.issue?.pull_request ? {
+				// Issue comment on a pull request: worker-reviewer looks up the head commit.
+				id: payload.issue.id, number: payload.issue.number, headSha: '',
+				diffUrl: payload.issue.pull_request.diff_url, commentsUrl: payload.issue.comments_url,
+			} : undefined,
+		};
+	},
+
+	getCommentCommand(payload, headers) {
+		const event = headers.get('X-GitHub-Event') || (payload.comment && payload.issue ? 'issue_comment' : null);
+		if (event !== 'issue_comment' || typeof payload.comment?.body !== 'string') return null;
+		return parseReviewCommand(payload.comment.body);
+	},
+
+	getThreadReply(payload, headers) {
+		const event = headers.get('X-GitHub-Event') || (payload.comment && payload.pull_request ? 'pull_request_review_comment' : null);
+		if (event !== 'pull_request_review_comment' || !payload.comment?.in_reply_to_id) return null;
+		return { commentId: payload.comment.id, threadId: payload.comment.in_reply_to_id };
+	},
+
+	getCommentSkipReason(payload, settings) {
+		const event = payload.issue ? 'issue_comment' : 'pull_request_review_comment';
+		if (payload.action !== 'created') {
+			return `GitHub ${event} action "${payload.action || 'unknown'}" does not run commands.`;
+		}
+		const pullRequest = payload.issue ? payload.issue.pull_request && payload.issue : payload.pull_request;
+		if (!pullRequest) {
+			return 'Comment is not on a pull request.';
+		}
+		if (pullRequest.state === 'closed') {
+			return 'Pull request is closed.';
+		}
+		const login = payload.comment.user?.login;
+		if (payload.comment.user?.type === 'Bot') {
+			return 'Comments from bots do not run commands.';
+		}
+		const allowed = isAllowedCommandUser(settings, login) ?? GITHUB_TRUSTED_ASSOCIATIONS.includes(payload.comment.author_association);
+		return allowed ? null : `User "${login || 'unknown'}" is not allowed to run review commands.`;
+	},
+};
+
+const GITLAB_REVIEWABLE_ACTIONS = ['open', 'reopen', 'update'];
+
+async function findGitlabTenant(settings: WebhookSettings, payload: any): Promise<{ key: string; secret?: string } | null> {
+	if (!settings.GITLAB_TENANTS_KV) return null;
+	for (const key of gitlabTenantKeys(payload?.project?.web_url, payload?.project?.path_with_namespace)) {
+		const tenant = await settings.GITLAB_TENANTS_KV.get(key, 'json') as { webhookSecret?: string } | null;
+		if (tenant) return { key, secret: tenant.webhookSecret };
+	}
+	return null;
+}
+
+export const gitlabWebhookProvider: VcsWebhookProvider = {
+	source: 'gitlab',
+
+	async verifySignature(headers, _rawBody, payload, settings) {
+		const tokenHeader = headers.get('X-Gitlab-Token');
+		if (!tokenHeader) {
+			console.warn('GitLab webhook missing X-Gitlab-Token header.');
+			return false;
+		}
+		const tenant = await findGitlabTenant(settings, payload);
+		if (tenant) {
+			if (!tenant.secret) {
+				console.error(`GitLab tenant "${tenant.key}" has no webhookSecret. Cannot verify GitLab token.`);
+				return false;
+			}
+			return tokenHeader === tenant.secret;
+		}
+		if (!settings.GITLAB_WEBHOOK_SECRET) {
+			console.error('GITLAB_WEBHOOK_SECRET is not set. Cannot verify GitLab token.');
+			return false;
+		}
+		return tokenHeader === settings.GITLAB_WEBHOOK_SECRET;
+	},
+
+	getSkipReason(payload, headers) {
+		const event = headers.get('X-Gitlab-Event');
+		if (payload.object_kind !== 'merge_request' || (event && event !== 'Merge Request Hook')) {
+			return `GitLab event "${event || payload.object_kind || 'unknown'}" is not reviewable.`;
+		}
+		const attributes = payload.object_attributes || {};
+		if (!GITLAB_REVIEWABLE_ACTIONS.includes(attributes.action)) {
+			return `GitLab merge_request action "${attributes.action || 'unknown'}" is not reviewable.`;
+		}
+		if (attributes.state === 'closed' || attributes.state === 'merged') {
+			return `Merge request is ${attributes.state}.`;
+		}
+		if (attributes.draft || attributes.work_in_progress) {
+			return 'Merge request is a draft.';
+		}
+		if (attributes.action === 'update') {
+			// An update is only worth reviewing if it pushed new commits (oldrev is set) or marked the MR ready.
+			const changes = payload.changes || {};
+			const markedReady = changes.draft?.current === false || changes.work_in_progress?.current === false;
+			if (!attributes.oldrev && !markedReady) {
+				return 'Merge request update did not add new commits.';
+			}
+		}
+		return null;
+	},
+
+	generateEventId(payload, headers) {
+		const deliveryId = headers.get('X-Gitlab-Event-UUID');
+		if (deliveryId) return `gl_delivery_${deliveryId}`;
+
+		if (payload.object_kind === 'merge_request' && payload.project && payload.project.id && payload.object_attributes && payload.object_attributes.iid && payload.object_attributes.last_commit && payload.object_attributes.last_commit.id) {
+			return `gl_mr_${payload.project.id}_${payload.object_attributes.iid}_${payload.object_attributes.last_commit.id}`;
+		}
+		if (payload.object_kind === 'push' && payload.project_id && payload.ref && payload.after) {
+			return `gl_push_${payload.project_id}_${payload.ref}_${payload.after}`;
+		}
+		if (payload.object_kind === 'note' && payload.project && payload.project.id && payload.object_attributes && payload.object_attributes.id) {
+			return `gl_note_${payload.project.id}_${payload.object_attributes.id}`;
+		}
+		console.warn('Could not determine a stable event ID for GitLab payload:', JSON.stringify(payload).substring(0,200));
+		return `gl_unknown_${crypto.randomUUID()}`;
+	},
+
+	normalise(payload, settings) {
+		const project = payload.project || {};
+		// Merge request events carry the MR in object_attributes; note events carry it alongside the note.
+		const mr = payload.object_kind === 'merge_request' ? payload.object_attributes
+			: payload.object_kind === 'note' ? payload.merge_request : undefined;
+		return {
+			source: 'gitlab',
+			repository: {
+				fullName: project.path_with_namespace || 'unknown/repo', id: project.id || 0,
+				defaultBranch: project.default_branch || 'main', webUrl: project.web_url,
+			},
+			mergeRequest: mr ? {
+				id: mr.id, iid: mr.iid, projectId: project.id,
+				headSha: mr.last_commit?.id || mr.diff_head_sha,
+				diffUrl: `${project.web_url}/-/merge_requests/${mr.iid}/diffs.json`,
+				notesUrl: `${gitlabApiBase(settings)}/projects/${project.id}/merge_requests/${mr.iid}/notes`,
+			} : undefined,
+		};
+	},
+
+	getCommentCommand(payload) {
+		if (payload.object_kind !== 'note' || typeof payload.object_attributes?.note !== 'string') return null;
+		return parseReviewCommand(payload.object_attributes.note);
+	},
+
+	getThreadReply(payload) {
+		const attributes = payload.object_attributes || {};
+		if (payload.object_kind !== 'note' || !attributes.discussion_id) return null;
+		if (attributes.type !== 'DiffNote' && attributes.type !== 'DiscussionNote') return null;
+		return { commentId: attributes.id, threadId: attributes.discussion_id };
+	},
+
+	getCommentSkipReason(payload, settings) {
+		if (payload.object_attributes.noteable_type !== 'MergeRequest' || !payload.merge_request) {
+			return 'Comment is not on a merge request.';
+		}
+		if (payload.merge_request.state === 'closed' || payload.merge_request.state === 'merged') {
+			return `Merge request is ${payload.merge_request.state}.`;
+		}
+		// GitLab note payloads carry no access level, so commands require an explicit allowlist.
+		const username = payload.user?.username;
+		return isAllowedCommandUser(settings, username) ? null : `User "${username || 'unknown'}" is not allowed to run review commands.`;
+	},
+};
+
+const BITBUCKET_REVIEWABLE_EVENTS = ['pullrequest:created', 'pullrequest:updated'];
+
+export const bitbucketWebhookProvider: VcsWebhookProvider = {
+	source: 'bitbucket',
+
+	verifySignature(headers, rawBody, _payload, settings) {
+		// Bitbucket Cloud signs like GitHub, but in X-Hub-Signature.
+		return verifyPrefixedHmac(headers, 'X-Hub-Signature', 'Bitbucket', 'BITBUCKET_WEBHOOK_SECRET', settings.BITBUCKET_WEBHOOK_SECRET, rawBody);
+	},
+
+	getSkipReason(payload, headers) {
+		const event = headers.get('X-Event-Key');
+		if (!event || !BITBUCKET_REVIEWABLE_EVENTS.includes(event) || !payload.pullrequest) {
+			return `Bitbucket event "${event || 'unknown'}" is not reviewable.`;
+		}
+		if (payload.pullrequest.state !== 'OPEN') {
+			return `Pull request is ${String(payload.pullrequest.state || 'unknown').toLowerCase()}.`;
+		}
+		if (payload.pullrequest.draft) {
+			return 'Pull request is a draft.';
+		}
+		return null;
+	},
+
+	generateEventId(payload, headers) {
+		// pullrequest:updated also fires for title and description edits; keying on the head commit drops those repeats.
+		const pr = payload.pullrequest;
+		if (pr && pr.id && pr.source?.commit?.hash && payload.repository?.uuid) {
+			return `bb_pr_${payload.repository.uuid}_${pr.id}_${pr.source.commit.hash}`;
+		}
+		const deliveryId = headers.get('X-Request-UUID');
+		if (deliveryId) return `bb_delivery_${deliveryId}`;
+		console.warn('Could not determine a stable event ID for Bitbucket payload:', JSON.stringify(payload).substring(0,200));
+		return `bb_unknown_${crypto.randomUUID()}`;
+	},
+
+	normalise(payload) {
+		const pr = payload.pullrequest;
+		return {
+			source: 'bitbucket',
+			repository: {
+				fullName: payload.repository?.full_name || 'unknown/repo', id: payload.repository?.uuid || 0,
+				defaultBranch: payload.repository?.mainbranch?.name || 'main', webUrl: payload.repository?.links?.html?.href,
+			},
+			// Pull requests are identified by their id within the repository.
+			pullRequest: pr ? {
+				id: pr.id, number: pr.id, headSha: pr.source?.commit?.hash,
+				diffUrl: pr.links?.diff?.href, commentsUrl: pr.links?.comments?.href,
+			} : undefined,
+		};
+	},
+};
+
+const GITEA_REVIEWABLE_ACTIONS = ['opened', 'reopened', 'synchronized'];
+
+// Also serves Forgejo, which sends the same payloads under X-Forgejo-* headers.
+export const giteaWebhookProvider: VcsWebhookProvider = {
+	source: 'gitea',
+
+	async verifySignature(headers, rawBody, _payload, settings) {
+		// Gitea and Forgejo send the bare hex digest.
+		const signature = headers.get('X-Gitea-Signature') || headers.get('X-Forgejo-Signature');
+		if (!signature) {
+			console.warn('Gitea webhook missing X-Gitea-Signature header.');
+			return false;
+		}
+		if (!settings.GITEA_WEBHOOK_SECRET) {
+			console.error('GITEA_WEBHOOK_SECRET is not set. Cannot verify Gitea signature.');
+			return false;
+		}
+		return await hmacSha256Hex(settings.GITEA_WEBHOOK_SECRET, rawBody) === signature;
+	},
+
+	getSkipReason(payload, headers) {
+		const event = headers.get('X-Gitea-Event') || headers.get('X-Forgejo-Event') || (payload.pull_request ? 'pull_request' : null);
+		if (event !== 'pull_request' || !payload.pull_request) {
+			return `Gitea event "${event || 'unknown'}" is not reviewable.`;
+		}
+		if (!GITEA_REVIEWABLE_ACTIONS.includes(payload.action)) {
+			return `Gitea pull_request action "${payload.action || 'unknown'}" is not reviewable.`;
+		}
+		if (payload.pull_request.state === 'closed' || payload.pull_request.merged) {
+			return 'Pull request is closed.';
+		}
+		if (payload.pull_request.draft) {
+			return 'Pull request is a draft.';
+		}
+		return null;
+	},
+
+	generateEventId(payload, headers) {
+		const pr = payload.pull_request;
+		if (pr && pr.id && pr.head?.sha && payload.action) {
+			return `gitea_pr_${pr.id}_${payload.action}_${pr.head.sha}`;
+		}
+		const deliveryId = headers.get('X-Gitea-Delivery') || headers.get('X-Forgejo-Delivery');
+		if (deliveryId) return `gitea_delivery_${deliveryId}`;
+		console.warn('Could not determine a stable event ID for Gitea payload:', JSON.stringify(payload).substring(0,200));
+		return `gitea_unknown_${crypto.randomUUID()}`;
+	},
+
+	normalise(payload) {
+		const pr = payload.pull_request;
+		return {
+			source: 'gitea',
+			repository: {
+				fullName: payload.repository?.full_name || 'unknown/repo', id: payload.repository?.id || 0,
+				defaultBranch: payload.repository?.default_branch || 'main', webUrl: payload.repository?.html_url,
+			},
+			pullRequest: pr ? {
+				id: pr.id, number: pr.number, headSha: pr.head?.sha,
+				diffUrl: pr.diff_url, commentsUrl: pr.comments_url,
+			} : undefined,
+		};
+	},
+};
+
+const WEBHOOK_PROVIDERS: Record<VcsSource, VcsWebhookProvider> = {
+	github: githubWebhookProvider,
+	gitlab: gitlabWebhookProvider,
+	bitbucket: bitbucketWebhookProvider,
+	gitea: giteaWebhookProvider,
+};
+
+export function getWebhookProvider(source: string): VcsWebhookProvider | undefined {
+	return VCS_SOURCES.includes(source as VcsSource) ? WEBHOOK_PROVIDERS[source as VcsSource] : undefined;
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { setupServer } from 'msw/node';
+import { HttpResponse, http } from 'msw';
+
+const { execFileSync, readFileSync } = vi.hoisted(() => ({ execFileSync: vi.fn(), readFileSync: vi.fn() }));
+vi.mock('node:child_process', () => ({ execFileSync }));
+vi.mock('node:fs', async (importOriginal) => ({ ...(await importOriginal<typeof import('node:fs')>()), readFileSync }));
+
+import { parseArgs, run } from '../review-diff';
+
+const server = setupServer();
+const URL = 'https://reviewer.example.com';
+const ENV = { AI_REVIEW_URL: URL, AI_REVIEW_TOKEN: 'direct-token' };
+const DIFF = 'diff --git a/a.ts b/a.ts\n--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-a\n+b\n';
+
+const outcome = (status: string, comments: any[] = []) => ({ taskId: 'direct_1', status, repository: 'local', comments, summary: 'Done.' });
+
+describe('review-diff CLI', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  beforeEach(() => {
+    execFileSync.mockImplementation((_file: string, args: string[]) => {
+      if (args[0] === 'diff') return DIFF;
+      throw new Error('not a git repository');
+    });
+    readFileSync.mockReturnValue(DIFF);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+  afterAll(() => server.close());
+
+  describe('parseArgs', () => {
+    it('should read options, the URL from the environment and git diff arguments', () => {
+      expect(parseArgs([], ENV)).toEqual({ url: URL, async: false, json: false, stdin: false, gitArgs: [] });
+      expect(parseArgs(['--url', 'https://other.example', '--type', 'detailed', '--repo', 'app', '--config', 'c.yml',
+        '--fail-on', 'major', '--async', '--json', '--', 'origin/main...HEAD', '--stat'], ENV)).toEqual({
+        url: 'https://other.example', reviewType: 'detailed', repository: 'app', configPath: 'c.yml', failOn: 'major',
+        async: true, json: true, stdin: false, gitArgs: ['origin/main...HEAD', '--stat'],
+      });
+      expect(parseArgs(['-'], ENV)?.stdin).toBe(true);
+      expect(parseArgs(['--stdin'], ENV)?.stdin).toBe(true);
+      expect(parseArgs(['--json', '-h'], ENV)).toBeNull();
+    });
+
+    it('should reject invalid arguments', () => {
+      expect(() => parseArgs(['--verbose'], ENV)).toThrow('Unknown option --verbose.');
+      expect(() => parseArgs(['--url'], ENV)).toThrow('--url needs a value.');
+      expect(() => parseArgs(['--type', 'quick'], ENV)).toThrow('--type must be');
+      expect(() => parseArgs(['--fail-on', 'critical'], ENV)).toThrow('--fail-on must be one of blocker, major, minor, nit.');
+      expect(() => parseArgs(['--stdin', '--', 'HEAD~1'], ENV)).toThrow('--stdin cannot be combined');
+    });
+  });
+
+  describe('exit codes', () => {
+    const answer = (body: any, status = 200) => {
+      const submissions: any[] = [];
+      server.use(http.post(`${URL}/diff-reviews`, async ({ request }) => {
+        expect(request.headers.get('Authorization')).toBe('Bearer direct-token');
+        submissions.push(await request.json());
+        return HttpResponse.json(body, { status });
+      }));
+      return submissions;
+    };
+
+    it('should exit with 0 after reviewing git diff HEAD, without reading stdin unless asked to', async () => {
+      const submissions = answer({ jobId: 'direct_1', status: 'completed', outcome: outcome('completed', [{ filePath: 'a.ts', lineNumber: 1, comment: 'Nit.', severity: 'nit' }]) });
+
+      expect(await run(['--fail-on', 'major'], { ...ENV, INIT_CWD: '/work/app' })).toBe(0);
+      expect(execFileSync).toHaveBeenCalledWith('git', ['diff', 'HEAD'], expect.objectContaining({ cwd: '/work/app' }));
+      expect(readFileSync).not.toHaveBeenCalled();
+      expect(submissions[0]).toMatchObject({ diff: DIFF, async: false });
+
+      execFileSync.mockClear();
+      expect(await run(['-'], ENV)).toBe(0);
+      expect(readFileSync).toHaveBeenCalledWith(0, 'utf8');
+      expect(execFileSync).not.toHaveBeenCalledWith('git', ['diff', 'HEAD'], expect.anything());
+    });
+
+    it('should exit with 1 when a finding is at or above --fail-on', async () => {
+      answer({ jobId: 'direct_1', status: 'completed', outcome: outcome('completed', [{ filePath: 'a.ts', lineNumber: 1, comment: 'Avoid eval.', severity: 'blocker' }]) });
+
+      expect(await run(['--fail-on', 'major'], ENV)).toBe(1);
+      expect(console.error).toHaveBeenCalledWith('1 finding at or above major.');
+    });
+
+    it('should exit with 2 when the review cannot be done', async () => {
+      expect(await run([], { AI_REVIEW_URL: URL })).toBe(2);
+      expect(console.error).toHaveBeenCalledWith('Set --url (or AI_REVIEW_URL) and AI_REVIEW_TOKEN.');
+      expect(await run(['--type', 'quick'], ENV)).toBe(2);
+
+      answer({ error: 'Unauthorized.' }, 401);
+      expect(await run([], ENV)).toBe(2);
+      expect(console.error).toHaveBeenCalledWith('worker-reviewer answered 401: Unauthorized.');
+    });
+
+    it('should stop polling a queued review once it ends with error_calling_llm', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout'] });
+      answer({ jobId: 'direct_1', status: 'queued' }, 202);
+      const polls = [{ jobId: 'direct_1', status: 'failed', outcome: outcome('failed') }, { jobId: 'direct_1', status: 'error_calling_llm', outcome: outcome('error_calling_llm') }];
+      server.use(http.get(`${URL}/diff-reviews/direct_1`, () => HttpResponse.json(polls.shift())));
+
+      const exitCode = run(['--async'], ENV);
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      expect(await exitCode).toBe(2);
+      expect(polls).toEqual([]);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('ended with status error_calling_llm'));
+    });
+  });
+});
@@ -0,0 +1,210 @@
+// Reviews local changes with worker-reviewer's direct review API and prints the findings, e.g. before pushing or in
+// CI pipelines that are not hooked up to a VCS webhook. Runs on Node 18+ with `npm run review-diff --`.
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { LLMComment, ReviewOutcome } from '../src/types';
+
+const USAGE = `Usage: review-diff [options] [-- <git diff arguments>]
+
+Reviews the output of "git diff" (default: git diff HEAD), or with - or --stdin a diff read from stdin.
+
+Options:
+  -, --stdin             review the diff read from stdin instead of running git diff
+  --url <url>            worker-reviewer URL (default: $AI_REVIEW_URL)
+  --type <type>          detailed or general (default: review_type from .ai-review.yml, else general)
+  --repo <name>          repository name shown to the LLM (default: name of the git top-level directory)
+  --config <path>        .ai-review.yml to apply (default: the one at the repository root, if any)
+  --fail-on <severity>   exit with 1 when a finding is at or above blocker, major, minor or nit
+  --async                queue the review and poll for the result, for changes that take long to review
+  --json                 print the ReviewOutcome as JSON instead of text
+  -h, --help             show this help
+
+The API token is read from $AI_REVIEW_TOKEN (worker-reviewer's DIRECT_REVIEW_TOKEN).
+Exit codes: 0 reviewed, 1 findings at or above --fail-on, 2 the review could not be done.`;
+
+// Most severe first, as in src/findings.ts.
+const SEVERITIES = ['blocker', 'major', 'minor', 'nit'];
+const POLL_INTERVAL_MS = 5000;
+const POLL_TIMEOUT_MS = 15 * 60 * 1000;
+
+export interface CliOptions {
+	url?: string;
+	reviewType?: string;
+	repository?: string;
+	configPath?: string;
+	failOn?: string;
+	async: boolean;
+	json: boolean;
+	stdin: boolean;
+	gitArgs: string[];
+}
+
+interface DirectReviewResponse {
+	jobId?: string;
+	status?: string;
+	outcome?: ReviewOutcome;
+	error?: string;
+}
+
+class CliError extends Error {}
+
+// Returns null when the usage was asked for; throws CliError on invalid arguments.
+export function parseArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): CliOptions | null {
+	const options: CliOptions = { url: env.AI_REVIEW_URL, async: false, json: false, stdin: false, gitArgs: [] };
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		const value = () => {
+			if (i + 1 >= argv.length) throw new CliError(`${arg} needs a value.`);
+			return argv[++i];
+		};
+		switch (arg) {
+			case '--url': options.url = value(); break;
+			case '--type': options.reviewType = value(); break;
+			case '--repo': options.repository = value(); break;
+			case '--config': options.configPath = value(); break;
+			case '--fail-on': options.failOn = value(); break;
+			case '--async': options.async = true; break;
+			case '--json': options.json = true; break;
+			case '-': case '--stdin': options.stdin = true; break;
+			case '-h': case '--help': return null;
+			case '--': options.gitArgs = argv.slice(i + 1); i = argv.length; break;
+			default: throw new CliError(`Unknown option ${arg}.`);
+		}
+	}
+	if (options.reviewType && options.reviewType !== 'detailed' && options.reviewType !== 'general') {
+		throw new CliError('--type must be "detailed" or "general".');
+	}
+	if (options.failOn && !SEVERITIES.includes(options.failOn)) {
+		throw new CliError(`--fail-on must be one of ${SEVERITIES.join(', ')}.`);
+	}
+	if (options.stdin && options.gitArgs.length > 0) {
+		throw new CliError('--stdin cannot be combined with git diff arguments.');
+	}
+	return options;
+}
+
+function git(args: string[], cwd: string): string {
+	return execFileSync('git', args, { cwd, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 });
+}
+
+function readStdin(): string {
+	return readFileSync(0, 'utf8');
+}
+
+async function request(options: CliOptions, token: string, path: string, init: RequestInit = {}): Promise<DirectReviewResponse> {
+	const response = await fetch(`${options.url!.replace(/\/+$/, '')}${path}`, {
+		...init,
+		headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+	});
+	const body = await response.json().catch(() => ({})) as DirectReviewResponse;
+	if (!response.ok && response.status !== 202) {
+		throw new CliError(`worker-reviewer answered ${response.status}: ${body.error || response.statusText}`);
+	}
+	return body;
+}
+
+async function review(options: CliOptions, token: string, submission: Record<string, any>): Promise<DirectReviewResponse> {
+	const submitted = await request(options, token, '/diff-reviews', { method: 'POST', body: JSON.stringify({ ...submission, async: options.async }) });
+	if (!options.async) return submitted;
+
+	process.stderr.write(`Queued review ${submitted.jobId}`);
+	const deadline = Date.now() + POLL_TIMEOUT_MS;
+	let job = submitted;
+	// Retryable failures are retried by the queue, so only a final status ends the wait; worker-reviewer stores
+	// error_calling_llm once the queue's retries are used up.
+	while (job.status === 'queued' || job.status === 'failed') {
+		if (Date.now() > deadline) throw new CliError(`Review ${submitted.jobId} did not finish in time; last status ${job.status}.`);
+		await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+		process.stderr.write('.');
+		job = await request(options, token, `/diff-reviews/${submitted.jobId}`);
+	}
+	process.stderr.write('\n');
+	return job;
+}
+
+function formatComment(comment: LLMComment): string {
+	const location = comment.lineNumber ? `${comment.filePath}:${comment.lineNumber}` : comment.filePath || '(general)';
+	const labels = [comment.severity, comment.category].filter(Boolean).join(' ');
+	const lines = [`${location}${labels ? `  [${labels}]` : ''}`, ...comment.comment.split('\n').map(line => `  ${line}`)];
+	if (comment.suggestion) {
+		lines.push('  Suggestion:', ...comment.suggestion.split('\n').map(line => `    ${line}`));
+	}
+	return lines.join('\n');
+}
+
+function printOutcome(outcome: ReviewOutcome): void {
+	const comments = outcome.comments || [];
+	for (const comment of comments) console.log(`${formatComment(comment)}\n`);
+	if (outcome.summary) console.log(`Summary:\n${outcome.summary}\n`);
+	const counts = SEVERITIES.map(severity => [severity, comments.filter(c => c.severity === severity).length] as const).filter(([, count]) => count > 0);
+	console.log(`${comments.length} finding${comments.length === 1 ? '' : 's'}${counts.length ? ` (${counts.map(([s, n]) => `${n} ${s}`).join(', ')})` : ''}.`);
+}
+
+async function main(argv: string[], env: NodeJS.ProcessEnv): Promise<number> {
+	const options = parseArgs(argv, env);
+	if (!options) {
+		console.log(USAGE);
+		return 0;
+	}
+	const token = env.AI_REVIEW_TOKEN;
+	if (!options.url || !token) throw new CliError('Set --url (or AI_REVIEW_URL) and AI_REVIEW_TOKEN.');
+
+	// `npm run review-diff` runs in this package's directory; INIT_CWD is where it was started.
+	const cwd = env.INIT_CWD || process.cwd();
+	// Stdin is only read when asked for: CI runners often attach an empty, non-TTY stdin.
+	const diff = options.stdin ? readStdin() : git(['diff', ...(options.gitArgs.length ? options.gitArgs : ['HEAD'])], cwd);
+	if (!diff.trim()) {
+		console.log('No changes to review.');
+		return 0;
+	}
+
+	let root: string | undefined;
+	try {
+		root = git(['rev-parse', '--show-toplevel'], cwd).trim();
+	} catch {
+		root = undefined;
+	}
+	const configPath = options.configPath ? resolve(cwd, options.configPath) : (root && existsSync(join(root, '.ai-review.yml')) ? join(root, '.ai-review.yml') : undefined);
+	const submission: Record<string, any> = {
+		diff,
+		reviewType: options.reviewType,
+		repository: options.repository || (root ? basename(root) : undefined),
+		config: configPath ? readFileSync(configPath, 'utf8') : undefined,
+	};
+
+	const result = await review(options, token, submission);
+	const outcome = result.outcome;
+	if (!outcome) throw new CliError(`Review ${result.jobId} returned no outcome (status ${result.status}).`);
+	if (options.json) console.log(JSON.stringify(outcome, null, 2));
+	else printOutcome(outcome);
+
+	if (outcome.status !== 'completed' && outcome.status !== 'skipped') {
+		console.error(`Review ${result.jobId} ended with status ${outcome.status}: ${outcome.error || 'no details'}`);
+		return 2;
+	}
+	if (options.failOn) {
+		const limit = SEVERITIES.indexOf(options.failOn);
+		const blocking = (outcome.comments || []).filter(c => c.severity && SEVERITIES.indexOf(c.severity) <= limit);
+		if (blocking.length > 0) {
+			console.error(`${blocking.length} finding${blocking.length === 1 ? '' : 's'} at or above ${options.failOn}.`);
+			return 1;
+		}
+	}
+	return 0;
+}
+
+// Runs the CLI with the given arguments (without the node and script paths) and resolves to its exit code.
+export async function run(argv: string[], env: NodeJS.ProcessEnv = process.env): Promise<number> {
+	try {
+		return await main(argv, env);
+	} catch (error: any) {
+		console.error(error instanceof CliError ? error.message : `review-diff failed: ${error?.message || error}`);
+		return 2;
+	}
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+	run(process.argv.slice(2)).then(code => process.exit(code));
+}
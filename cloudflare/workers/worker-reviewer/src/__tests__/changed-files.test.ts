@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import { fetchChangedFiles } from '../changed-files';
+import { githubProvider } from '../vcs-github';
+import { gitlabProvider } from '../vcs-gitlab';
+import type { Env as ReviewerEnv } from '../index';
+import { setupServer } from 'msw/node';
+import { HttpResponse, http } from 'msw';
+
+const getMiniflareBindings = (): ReviewerEnv => ({
+  REVIEW_TASKS_QUEUE: { send: vi.fn() } as any,
+  REVIEW_RESULTS_KV: { put: vi.fn(), get: vi.fn() } as any,
+  LLM_API_KEY: 'test_llm_api_key',
+  GITHUB_TOKEN: 'test_github_token',
+  GITLAB_TOKEN: 'test_gitlab_token',
+  LLM_ENDPOINT: 'https://api.openai.com/v1/chat/completions',
+});
+
+const server = setupServer();
+
+describe('fetchChangedFiles', () => {
+  let env: ReviewerEnv;
+  let githubTask: any;
+  let gitlabTask: any;
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    env = getMiniflareBindings();
+    githubTask = {
+      source: 'github',
+      eventId: 'test-files-event',
+      repository: { fullName: 'test-owner/test-repo', id: 123, defaultBranch: 'main' },
+      pullRequest: { id: 456, number: 7, headSha: 'test-sha', diffUrl: 'test-diff-url', commentsUrl: 'test-comments-url' },
+      reviewType: 'detailed',
+      filesToReview: [],
+    };
+    gitlabTask = {
+      source: 'gitlab',
+      eventId: 'test-files-event',
+      repository: { fullName: 'test-group/test-project', id: 789, defaultBranch: 'main' },
+      mergeRequest: { id: 101, iid: 42, projectId: 789, headSha: 'gitlab-sha', diffUrl: 'test-diff-url', notesUrl: 'test-notes-url' },
+      reviewType: 'detailed',
+      filesToReview: [],
+    };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+  });
+
+  it('should map GitHub pull request files to path, status and patch', async () => {
+    server.use(
+      http.get('https://api.github.com/repos/test-owner/test-repo/pulls/7/files', ({ request }) => {
+        expect(request.headers.get('Authorization')).toBe('Bearer test_github_token');
+        return HttpResponse.json([
+          { filename: 'src/a.ts', status: 'modified', patch: '@@ -1 +1 @@\n-a\n+b' },
+          { filename: 'src/b.ts', status: 'renamed', previous_filename: 'src/old-b.ts', patch: '@@ -1 +1 @@\n-c\n+d' },
+          { filename: 'logo.png', status: 'added' },
+        ]);
+      })
+    );
+
+    const result = await fetchChangedFiles(githubTask, env);
+
+    expect(result).toEqual({
+      success: true,
+      files: [
+        { path: 'src/a.ts', status: 'modified', previousPath: undefined, diff: '@@ -1 +1 @@\n-a\n+b' },
+        { path: 'src/b.ts', status: 'renamed', previousPath: 'src/old-b.ts', diff: '@@ -1 +1 @@\n-c\n+d' },
+        { path: 'logo.png', status: 'added', previousPath: undefined, diff: undefined },
+      ],
+    });
+  });
+
+  it('should follow GitHub pagination until a short page is returned', async () => {
+    const fullPage = Array.from({ length: 100 }, (_, i) => ({ filename: `file${i}.ts`, status: 'added', patch: '+x' }));
+    server.use(
+      http.get('https://api.github.com/repos/test-owner/test-repo/pulls/7/files', ({ request }) => {
+        const page = new URL(request.url).searchParams.get('page');
+        return HttpResponse.json(page === '1' ? fullPage : [{ filename: 'last.ts', status: 'added', patch: '+y' }]);
+      })
+    );
+
+    const result = await fetchChangedFiles(githubTask, env);
+
+    expect(result.success).toBe(true);
+    expect(result.files).toHaveLength(101);
+    expect(result.files?.[100].path).toBe('last.ts');
+  });
+
+  it('should report GitHub 5xx errors as retryable and 4xx errors as non-retryable', async () => {
+    server.use(
+      http.get('https://api.github.com/repos/test-owner/test-repo/pulls/7/files', () => {
+        return HttpResponse.json({ message: 'Bad credentials' }, { status: 401 });
+      })
+    );
+    const unauthorized = await fetchChangedFiles(githubTask, env);
+    expect(unauthorized.success).toBe(false);
+    expect(unauthorized.isRetryable).toBe(false);
+    expect(unauthorized.error).toContain('Changed files API error 401');
+
+    server.use(
+      http.get('https://api.github.com/repos/test-owner/test-repo/pulls/7/files', () => {
+        return HttpResponse.json({ message: 'Server Error' }, { status: 503 });
+      })
+    );
+    const unavailable = await fetchChangedFiles(githubTask, env);
+    expect(unavailable.success).toBe(false);
+    expect(unavailable.isRetryable).toBe(true);
+  });
+
+  it('should map GitLab merge request diffs and derive file status', async () => {
+    env.GITLAB_BASE_URL = 'https://gitlab.example.com/';
+    server.use(
+      http.get('https://gitlab.example.com/api/v4/projects/789/merge_requests/42/diffs', () => {
+        return HttpResponse.json([
+          { old_path: 'a.py', new_path: 'a.py', diff: '@@ -1 +1 @@\n-a\n+b' },
+          { old_path: 'new.py', new_path: 'new.py', new_file: true, diff: '@@ -0,0 +1 @@\n+x' },
+          { old_path: 'old.py', new_path: 'moved.py', renamed_file: true, diff: '' },
+          { old_path: 'gone.py', new_path: 'gone.py', deleted_file: true, diff: '@@ -1 +0,0 @@\n-y' },
+        ]);
+      })
+    );
+
+    const result = await fetchChangedFiles(gitlabTask, env);
+
+    expect(result.success).toBe(true);
+    expect(result.files?.map(f => [f.path, f.status, f.previousPath])).toEqual([
+      ['a.py', 'modified', undefined],
+      ['new.py', 'added', undefined],
+      ['moved.py', 'renamed', 'old.py'],
+      ['gone.py', 'removed', undefined],
+    ]);
+  });
+
+  it('should fall back to the GitLab changes API when the diffs endpoint is unavailable', async () => {
+    server.use(
+      http.get('https://gitlab.com/api/v4/projects/789/merge_requests/42/diffs', () => {
+        return HttpResponse.json({ message: '404 Not found' }, { status: 404 });
+      }),
+      http.get('https://gitlab.com/api/v4/projects/789/merge_requests/42/changes', () => {
+        return HttpResponse.json({ changes: [{ old_path: 'main.py', new_path: 'main.py', diff: '@@ -1 +1 @@\n-a\n+b' }] });
+      })
+    );
+
+    const result = await fetchChangedFiles(gitlabTask, env);
+
+    expect(result).toEqual({
+      success: true,
+      files: [{ path: 'main.py', status: 'modified', previousPath: undefined, diff: '@@ -1 +1 @@\n-a\n+b' }],
+    });
+  });
+
+  it('should return no files when the task has no pull or merge request', async () => {
+    githubTask.pullRequest = undefined;
+
+    const result = await fetchChangedFiles(githubTask, env);
+
+    expect(result).toEqual({ success: true, files: [] });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Cannot fetch changed files for task test-files-event'));
+  });
+
+  it('should read base, start and head SHAs from the GitLab merge request diff_refs', async () => {
+    server.use(
+      http.get('https://gitlab.com/api/v4/projects/789/merge_requests/42', () => {
+        return HttpResponse.json({ iid: 42, diff_refs: { base_sha: 'b', start_sha: 's', head_sha: 'h' } });
+      })
+    );
+
+    const result = await gitlabProvider.fetchDiffRefs!(gitlabTask, env);
+
+    expect(result).toEqual({ success: true, diffRefs: { baseSha: 'b', startSha: 's', headSha: 'h' } });
+  });
+
+  it('should report a non-retryable error when the merge request has no diff_refs', async () => {
+    server.use(
+      http.get('https://gitlab.com/api/v4/projects/789/merge_requests/42', () => HttpResponse.json({ iid: 42, diff_refs: null }))
+    );
+
+    const result = await gitlabProvider.fetchDiffRefs!(gitlabTask, env);
+
+    expect(result).toEqual({ success: false, error: 'Merge request !42 has no diff_refs.', isRetryable: false });
+  });
+
+  it('should fetch and split a Bitbucket pull request diff', async () => {
+    env.BITBUCKET_TOKEN = 'test_bitbucket_token';
+    const bitbucketTask = { ...githubTask, source: 'bitbucket', repository: { ...githubTask.repository, fullName: 'team/repo' } };
+    server.use(
+      http.get('https://api.bitbucket.org/2.0/repositories/team/repo/pullrequests/7/diff', ({ request }) => {
+        expect(request.headers.get('Authorization')).toBe('Bearer test_bitbucket_token');
+        return new HttpResponse('diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-a\n+b\n');
+      })
+    );
+
+    const result = await fetchChangedFiles(bitbucketTask, env);
+
+    expect(result).toEqual({ success: true, files: [{ path: 'src/a.ts', status: 'modified', previousPath: undefined, diff: '@@ -1 +1 @@\n-a\n+b' }] });
+  });
+
+  it('should fetch a Gitea pull request diff from the host of the repository', async () => {
+    env.GITEA_TOKEN = 'test_gitea_token';
+    const giteaTask = { ...githubTask, source: 'gitea', repository: { ...githubTask.repository, webUrl: 'https://git.example.com/test-owner/test-repo' } };
+    server.use(
+      http.get('https://git.example.com/api/v1/repos/test-owner/test-repo/pulls/7.diff', ({ request }) => {
+        expect(request.headers.get('Authorization')).toBe('token test_gitea_token');
+        return new HttpResponse('diff --git a/b.go b/b.go\nnew file mode 100644\n--- /dev/null\n+++ b/b.go\n@@ -0,0 +1 @@\n+package b\n');
+      })
+    );
+
+    const result = await fetchChangedFiles(giteaTask, env);
+
+    expect(result).toEqual({ success: true, files: [{ path: 'b.go', status: 'added', previousPath: undefined, diff: '@@ -0,0 +1 @@\n+package b' }] });
+  });
+
+  it('should report a retryable error when Gitea returns 502', async () => {
+    env.GITEA_BASE_URL = 'https://forgejo.internal/';
+    const giteaTask = { ...githubTask, source: 'gitea' };
+    server.use(
+      http.get('https://forgejo.internal/api/v1/repos/test-owner/test-repo/pulls/7.diff', () => new HttpResponse('bad gateway', { status: 502 }))
+    );
+
+    const result = await fetchChangedFiles(giteaTask, env);
+
+    expect(result.success).toBe(false);
+    expect(result.isRetryable).toBe(true);
+  });
+
+  it('should read the head commit of a GitHub pull request', async () => {
+    server.use(
+      http.get('https://api.github.com/repos/test-owner/test-repo/pulls/7', () => {
+        return HttpResponse.json({ id: 456, number: 7, head: { sha: 'fresh-sha' }, diff_url: 'diff', comments_url: 'comments' });
+      })
+    );
+
+    const result = await githubProvider.fetchPullRequest!(githubTask, env);
+
+    expect(result).toEqual({ success: true, pullRequest: { id: 456, number: 7, headSha: 'fresh-sha', diffUrl: 'diff', commentsUrl: 'comments' } });
+  });
+
+  it('should name the requested data in API errors', async () => {
+    server.use(
+      http.get('https://api.github.com/repos/test-owner/test-repo/pulls/7', () => HttpResponse.json({ message: 'Not Found' }, { status: 404 })),
+      http.get('https://gitlab.com/api/v4/projects/789/merge_requests/42', () => HttpResponse.error()),
+    );
+
+    expect((await githubProvider.fetchPullRequest!(githubTask, env)).error).toBe('Pull request API error 404: {"message":"Not Found"}');
+    expect((await gitlabProvider.fetchDiffRefs!(gitlabTask, env)).error).toMatch(/^Error fetching merge request diff refs: /);
+  });
+});
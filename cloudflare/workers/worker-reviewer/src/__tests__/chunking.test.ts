@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, planReviewChunks, mapWithConcurrency, mergeLLMResponses, formatFileSection, contextBudget } from '../chunking';
+
+const diffOf = (size: number, start = 1) => `@@ -${start},1 +${start},1 @@\n-${'a'.repeat(size)}\n+${'b'.repeat(size)}`;
+
+describe('chunking', () => {
+  describe('planReviewChunks', () => {
+    it('should keep everything in one chunk when it fits the budget', () => {
+      const files = [{ path: 'a.ts', diff: diffOf(10) }, { path: 'b.ts', diff: diffOf(10) }];
+
+      expect(planReviewChunks(files, 1000)).toEqual([files]);
+    });
+
+    it('should pack files in order into chunks that stay under the budget', () => {
+      const files = ['a.ts', 'b.ts', 'c.ts'].map(path => ({ path, diff: diffOf(180) }));
+      const budget = estimateTokens(formatFileSection(files[0])) * 2;
+
+      const chunks = planReviewChunks(files, budget);
+
+      expect(chunks.map(chunk => chunk.map(f => f.path))).toEqual([['a.ts', 'b.ts'], ['c.ts']]);
+      for (const chunk of chunks) {
+        expect(chunk.reduce((sum, f) => sum + estimateTokens(formatFileSection(f)), 0)).toBeLessThanOrEqual(budget);
+      }
+    });
+
+    it('should split an oversized file by hunk and truncate a hunk that is too large on its own', () => {
+      const file = { path: 'big.ts', status: 'modified', diff: [diffOf(300, 1), diffOf(300, 50), diffOf(3000, 100)].join('\n') };
+
+      const chunks = planReviewChunks([file], 200);
+
+      expect(chunks).toHaveLength(3);
+      expect(chunks.every(chunk => chunk.length === 1 && chunk[0].path === 'big.ts' && chunk[0].status === 'modified')).toBe(true);
+      expect(chunks[0][0].diff).toMatch(/^@@ -1,1 \+1,1 @@/);
+      expect(chunks[1][0].diff).toMatch(/^@@ -50,1 \+50,1 @@/);
+      expect(chunks[2][0].diff).toContain('(hunk truncated to fit the review budget)');
+      expect(estimateTokens(formatFileSection(chunks[2][0]))).toBeLessThanOrEqual(200);
+    });
+  });
+
+  it('should read the budget from the environment with a default', () => {
+    expect(contextBudget({ LLM_CONTEXT_TOKENS: '500' } as any)).toBe(500);
+    expect(contextBudget({ LLM_CONTEXT_TOKENS: 'lots' } as any)).toBe(12000);
+  });
+
+  it('should never run more than the concurrency limit at once and keep result order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (delay, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(peak).toBe(2);
+  });
+
+  describe('mergeLLMResponses', () => {
+    it('should concatenate comments and summaries of successful chunks', () => {
+      const merged = mergeLLMResponses([
+        { success: true, comments: [{ filePath: 'a.ts', lineNumber: 1, comment: 'one' }], summary: 'Part one.', rawResponse: 'r1', prompt: 'p1' },
+        { success: true, comments: [{ filePath: 'b.ts', lineNumber: 2, comment: 'two' }], summary: 'Part two.', rawResponse: 'r2', prompt: 'p2' },
+      ]);
+
+      expect(merged).toEqual({
+        success: true,
+        comments: [{ filePath: 'a.ts', lineNumber: 1, comment: 'one' }, { filePath: 'b.ts', lineNumber: 2, comment: 'two' }],
+        summary: 'Part one.\n\nPart two.',
+        rawResponse: ['r1', 'r2'],
+        prompt: ['p1', 'p2'],
+        isRetryable: false,
+      });
+    });
+
+    it('should fail the whole review when any chunk failed with a retryable error', () => {
+      const merged = mergeLLMResponses([
+        { success: true, comments: [], summary: 'ok' },
+        { success: false, error: 'LLM API error 503', isRetryable: true },
+      ]);
+
+      expect(merged.success).toBe(false);
+      expect(merged.isRetryable).toBe(true);
+      expect(merged.error).toBe('LLM API error 503');
+    });
+
+    it('should keep successful chunks and note permanently failed ones in the summary', () => {
+      const merged = mergeLLMResponses([
+        { success: true, comments: [], summary: 'ok' },
+        { success: false, error: 'LLM API error 400: context length', isRetryable: false },
+      ]);
+
+      expect(merged.success).toBe(true);
+      expect(merged.summary).toBe('ok\n\n_1 of 2 parts of this change could not be reviewed: LLM API error 400: context length_');
+    });
+  });
+});
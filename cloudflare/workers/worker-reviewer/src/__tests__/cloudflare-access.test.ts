@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { setupServer } from 'msw/node';
+import { HttpResponse, http } from 'msw';
+import { accessIssuer, accessJwtFrom, verifyAccessJwt } from '../cloudflare-access';
+
+const server = setupServer();
+
+const TEAM = 'https://myteam.cloudflareaccess.com';
+const AUD = 'dashboard-aud';
+const NOW = Date.parse('2024-05-01T12:00:00Z');
+
+const base64Url = (input: string | ArrayBuffer) => {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : new Uint8Array(input);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+let keyPair: CryptoKeyPair;
+
+async function signJwt(payload: Record<string, any>, kid: string = 'key-1', key: CryptoKey = keyPair.privateKey): Promise<string> {
+  const signingInput = `${base64Url(JSON.stringify({ alg: 'RS256', kid }))}.${base64Url(JSON.stringify(payload))}`;
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64Url(signature)}`;
+}
+
+const validClaims = { iss: TEAM, aud: [AUD], exp: NOW / 1000 + 600, email: 'dev@example.com', sub: 'user-1' };
+
+describe('cloudflare-access', () => {
+  beforeAll(async () => {
+    keyPair = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true, ['sign', 'verify'],
+    ) as CryptoKeyPair;
+    server.listen({ onUnhandledRequest: 'error' });
+  });
+  beforeEach(async () => {
+    const jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    server.use(http.get(`${TEAM}/cdn-cgi/access/certs`, () => HttpResponse.json({ keys: [{ ...jwk, kid: 'key-1' }] })));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+  });
+  afterAll(() => server.close());
+
+  it('should accept a token signed by the team for the application audience', async () => {
+    expect(await verifyAccessJwt(await signJwt(validClaims), 'myteam.cloudflareaccess.com', AUD, NOW)).toEqual({ email: 'dev@example.com', sub: 'user-1' });
+  });
+
+  it('should reject tokens for another audience or issuer, expired tokens and unknown keys', async () => {
+    expect(await verifyAccessJwt(await signJwt({ ...validClaims, aud: ['other-app'] }), TEAM, AUD, NOW)).toBeNull();
+    expect(await verifyAccessJwt(await signJwt({ ...validClaims, iss: 'https://evil.cloudflareaccess.com' }), TEAM, AUD, NOW)).toBeNull();
+    expect(await verifyAccessJwt(await signJwt({ ...validClaims, exp: NOW / 1000 - 1 }), TEAM, AUD, NOW)).toBeNull();
+    expect(await verifyAccessJwt(await signJwt(validClaims, 'key-2'), TEAM, AUD, NOW)).toBeNull();
+  });
+
+  it('should reject forged signatures and malformed tokens', async () => {
+    const other = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      false, ['sign', 'verify'],
+    ) as CryptoKeyPair;
+    const [header, payload, signature] = (await signJwt(validClaims)).split('.');
+    const tampered = `${header}.${base64Url(JSON.stringify({ ...validClaims, email: 'admin@example.com' }))}.${signature}`;
+
+    expect(await verifyAccessJwt(await signJwt(validClaims, 'key-1', other.privateKey), TEAM, AUD, NOW)).toBeNull();
+    expect(await verifyAccessJwt(tampered, TEAM, AUD, NOW)).toBeNull();
+    expect(await verifyAccessJwt(`${base64Url(JSON.stringify({ alg: 'none', kid: 'key-1' }))}.${payload}.`, TEAM, AUD, NOW)).toBeNull();
+    expect(await verifyAccessJwt('not-a-jwt', TEAM, AUD, NOW)).toBeNull();
+  });
+
+  it('should treat unavailable signing keys as unauthenticated', async () => {
+    server.use(http.get(`${TEAM}/cdn-cgi/access/certs`, () => new HttpResponse('unavailable', { status: 503 })));
+    expect(await verifyAccessJwt(await signJwt(validClaims), TEAM, AUD, NOW)).toBeNull();
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('certs request to https://myteam.cloudflareaccess.com failed: 503'));
+  });
+
+  it('should read the token from the Access header or cookie', () => {
+    expect(accessJwtFrom(new Request('https://x.test', { headers: { 'Cf-Access-Jwt-Assertion': 'from-header' } }))).toBe('from-header');
+    expect(accessJwtFrom(new Request('https://x.test', { headers: { Cookie: 'theme=dark; CF_Authorization=from-cookie' } }))).toBe('from-cookie');
+    expect(accessJwtFrom(new Request('https://x.test'))).toBeUndefined();
+    expect(accessIssuer('https://myteam.cloudflareaccess.com/')).toBe(TEAM);
+  });
+});
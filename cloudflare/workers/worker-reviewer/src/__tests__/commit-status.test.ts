@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { setupServer } from 'msw/node';
+import { HttpResponse, http } from 'msw';
+import { buildStatusReport, startCommitStatus, finishCommitStatus, shouldReportStatus } from '../commit-status';
+import type { Env, ReviewOutcome, ReviewTask } from '../types';
+
+const server = setupServer();
+
+const env = { GITHUB_TOKEN: 'gh-token', GITLAB_TOKEN: 'gl-token', GITHUB_STATUS_MODE: 'check_run' } as unknown as Env;
+
+const task: ReviewTask = {
+  source: 'github',
+  eventId: 'evt-1',
+  repository: { fullName: 'owner/repo', id: 1, defaultBranch: 'main' },
+  pullRequest: { id: 10, number: 7, headSha: 'abc123', diffUrl: '', commentsUrl: '' },
+  reviewType: 'detailed',
+  filesToReview: [],
+};
+
+const CHECK_RUNS_FOR_HEAD = 'https://api.github.com/repos/owner/repo/commits/abc123/check-runs';
+
+const outcome = (overrides: Partial<ReviewOutcome>): ReviewOutcome => ({
+  taskId: 'evt-1', status: 'completed', repository: 'owner/repo', reviewType: 'detailed', timestamp: '2024-01-01T00:00:00.000Z', ...overrides,
+});
+
+describe('commit-status', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+  });
+  afterAll(() => server.close());
+
+  describe('buildStatusReport', () => {
+    it('should map outcomes to states', () => {
+      expect(buildStatusReport(outcome({ status: 'skipped', summary: 'Reviews are disabled by .ai-review.yml.' }), task))
+        .toEqual({ state: 'neutral', description: 'Reviews are disabled by .ai-review.yml.' });
+      expect(buildStatusReport(outcome({ status: 'superseded', summary: 'Superseded by newer commit abc.' }), task))
+        .toEqual({ state: 'neutral', description: 'Superseded by newer commit abc.' });
+      expect(buildStatusReport(outcome({ status: 'error_calling_llm', error: 'LLM API error 400' }), task))
+        .toEqual({ state: 'failure', description: 'Review failed: LLM API error 400' });
+      expect(buildStatusReport(outcome({ comments: [{ filePath: 'a.ts', comment: 'x', severity: 'minor' }], summary: 'Fine.' }), task))
+        .toEqual({ state: 'success', description: '1 finding(s) (1 minor)', summary: 'Fine.' });
+    });
+
+    it('should only fail on graded findings at or above fail_on_severity', () => {
+      const gated = { ...task, config: { enabled: true, include: [], exclude: [], failOnSeverity: 'major' as const } };
+      const comments = [{ filePath: 'a.ts', comment: 'x', severity: 'minor' as const }, { filePath: 'a.ts', comment: 'y' }];
+
+      expect(buildStatusReport(outcome({ comments }), gated).state).toBe('success');
+      expect(buildStatusReport(outcome({ comments: [...comments, { filePath: 'a.ts', comment: 'z', severity: 'major' }] }), gated).state).toBe('failure');
+    });
+  });
+
+  it('should not report status for thread replies, explain commands or when disabled', () => {
+    expect(shouldReportStatus({ ...task, reply: { commentId: 1, threadId: 1 } }, env)).toBe(false);
+    expect(shouldReportStatus({ ...task, command: { type: 'explain', question: 'why?' } }, env)).toBe(false);
+    expect(shouldReportStatus(task, { ...env, REPORT_COMMIT_STATUS: 'false' })).toBe(false);
+    expect(shouldReportStatus(task, env)).toBe(true);
+  });
+
+  it('should create an in-progress check run and complete the same run', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const requests: any[] = [];
+    server.use(
+      http.get(CHECK_RUNS_FOR_HEAD, () => HttpResponse.json({ total_count: 0, check_runs: [] })),
+      http.post('https://api.github.com/repos/owner/repo/check-runs', async ({ request }) => {
+        requests.push(await request.json());
+        return HttpResponse.json({ id: 99 }, { status: 201 });
+      }),
+      http.patch('https://api.github.com/repos/owner/repo/check-runs/99', async ({ request }) => {
+        requests.push(await request.json());
+        return HttpResponse.json({ id: 99 });
+      })
+    );
+
+    const handle = await startCommitStatus(task, env);
+    await finishCommitStatus(task, outcome({ status: 'skipped', summary: 'Disabled.' }), env, handle);
+
+    expect(handle).toEqual({ checkRunId: 99 });
+    expect(requests[0]).toMatchObject({ name: 'AI Code Review', head_sha: 'abc123', status: 'in_progress' });
+    expect(requests[1]).toMatchObject({ status: 'completed', conclusion: 'neutral', output: { title: 'Disabled.', summary: 'Disabled.' } });
+  });
+
+  it('should reuse the check run a previous attempt left in progress on the head commit', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    let query: URLSearchParams | undefined;
+    const created = vi.fn();
+    server.use(
+      http.get(CHECK_RUNS_FOR_HEAD, ({ request }) => {
+        query = new URL(request.url).searchParams;
+        return HttpResponse.json({ total_count: 1, check_runs: [{ id: 42, name: 'AI Code Review', status: 'in_progress' }] });
+      }),
+      http.post('https://api.github.com/repos/owner/repo/check-runs', () => { created(); return HttpResponse.json({ id: 99 }, { status: 201 }); })
+    );
+
+    await expect(startCommitStatus(task, env)).resolves.toEqual({ checkRunId: 42 });
+    expect(query?.get('check_name')).toBe('AI Code Review');
+    expect(query?.get('status')).toBe('in_progress');
+    expect(created).not.toHaveBeenCalled();
+  });
+
+  it('should log and carry on when the check run cannot be created', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server.use(http.get(CHECK_RUNS_FOR_HEAD, () => HttpResponse.json({ total_count: 0, check_runs: [] })));
+    server.use(http.post('https://api.github.com/repos/owner/repo/check-runs', () => HttpResponse.json({ message: 'Resource not accessible by personal access token' }, { status: 403 })));
+
+    await expect(startCommitStatus(task, env)).resolves.toEqual({});
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Failed to create check run for task evt-1: 403'));
+  });
+});
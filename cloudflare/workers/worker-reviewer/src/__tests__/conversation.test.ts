@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import { fetchThread, shouldAnswerThread, buildThreadPrompt, postThreadReply } from '../conversation';
+import type { Env as ReviewerEnv } from '../index';
+import { setupServer } from 'msw/node';
+import { HttpResponse, http } from 'msw';
+
+const getMiniflareBindings = (): ReviewerEnv => ({
+  REVIEW_TASKS_QUEUE: { send: vi.fn() } as any,
+  REVIEW_RESULTS_KV: { put: vi.fn(), get: vi.fn() } as any,
+  LLM_API_KEY: 'test_llm_api_key',
+  GITHUB_TOKEN: 'test_github_token',
+  GITLAB_TOKEN: 'test_gitlab_token',
+  LLM_ENDPOINT: 'https://api.openai.com/v1/chat/completions',
+});
+
+const server = setupServer();
+
+describe('conversation', () => {
+  let env: ReviewerEnv;
+  let githubTask: any;
+  let gitlabTask: any;
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    env = getMiniflareBindings();
+    githubTask = {
+      source: 'github',
+      eventId: 'test-thread-event',
+      repository: { fullName: 'test-owner/test-repo', id: 123, defaultBranch: 'main' },
+      pullRequest: { id: 456, number: 7, headSha: 'test-sha', diffUrl: 'test-diff-url', commentsUrl: 'test-comments-url' },
+      reviewType: 'general',
+      filesToReview: [],
+      reply: { commentId: 12, threadId: 10 },
+    };
+    gitlabTask = {
+      source: 'gitlab',
+      eventId: 'test-thread-event',
+      repository: { fullName: 'test-group/test-project', id: 789, defaultBranch: 'main' },
+      mergeRequest: { id: 101, iid: 42, projectId: 789, headSha: 'gitlab-sha', diffUrl: 'test-diff-url', notesUrl: 'test-notes-url' },
+      reviewType: 'general',
+      filesToReview: [],
+      reply: { commentId: 3, threadId: 'disc-1' },
+    };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+  });
+
+  it('should collect the GitHub thread root and its replies with the diff hunk', async () => {
+    server.use(
+      http.get('https://api.github.com/user', () => HttpResponse.json({ login: 'review-bot' })),
+      http.get('https://api.github.com/repos/test-owner/test-repo/pulls/7/comments', () => {
+        return HttpResponse.json([
+          { id: 10, path: 'src/a.ts', line: 5, side: 'RIGHT', diff_hunk: '@@ -1 +1,5 @@\n+x', body: 'Possible null dereference.', user: { login: 'review-bot' } },
+          { id: 11, path: 'src/b.ts', line: 1, body: 'Unrelated thread', user: { login: 'alice' } },
+          { id: 12, in_reply_to_id: 10, path: 'src/a.ts', body: 'It is checked by the caller.', user: { login: 'alice' } },
+        ]);
+      })
+    );
+
+    const result = await fetchThread(githubTask, env);
+
+    expect(result).toEqual({
+      success: true,
+      thread: {
+        botUsername: 'review-bot',
+        filePath: 'src/a.ts',
+        lineNumber: 5,
+        side: 'RIGHT',
+        diffHunk: '@@ -1 +1,5 @@\n+x',
+        messages: [
+          { author: 'review-bot', body: 'Possible null dereference.' },
+          { author: 'alice', body: 'It is checked by the caller.' },
+        ],
+      },
+    });
+    expect(shouldAnswerThread(result.thread!)).toBe(true);
+  });
+
+  it('should read a GitLab discussion and cut the hunk out of the merge request diff', async () => {
+    server.use(
+      http.get('https://gitlab.com/api/v4/user', () => HttpResponse.json({ username: 'review-bot' })),
+      http.get('https://gitlab.com/api/v4/projects/789/merge_requests/42/discussions/disc-1', () => {
+        return HttpResponse.json({
+          id: 'disc-1',
+          notes: [
+            { id: 1, body: 'Consider a guard clause.', author: { username: 'review-bot' }, position: { new_path: 'main.py', old_path: 'main.py', new_line: 2 } },
+            { id: 2, body: 'changed the line', system: true, author: { username: 'alice' } },
+            { id: 3, body: 'Why?', author: { username: 'alice' } },
+          ],
+        });
+      }),
+      http.get('https://gitlab.com/api/v4/projects/789/merge_requests/42/diffs', () => {
+        return HttpResponse.json([{ old_path: 'main.py', new_path: 'main.py', diff: '@@ -1 +1,2 @@\n a\n+b' }]);
+      })
+    );
+
+    const result = await fetchThread(gitlabTask, env);
+
+    expect(result.success).toBe(true);
+    expect(result.thread).toEqual({
+      botUsername: 'review-bot',
+      filePath: 'main.py',
+      lineNumber: 2,
+      side: 'RIGHT',
+      diffHunk: '@@ -1 +1,2 @@\n a\n+b',
+      messages: [
+        { author: 'review-bot', body: 'Consider a guard clause.' },
+        { author: 'alice', body: 'Why?' },
+      ],
+    });
+  });
+
+  it('should follow nested Bitbucket replies and answer with a reply to the thread root', async () => {
+    env.BITBUCKET_TOKEN = 'test_bitbucket_token';
+    const bitbucketTask = { ...githubTask, source: 'bitbucket', reply: { commentId: 13, threadId: 10 } };
+    let posted: any;
+    server.use(
+      http.get('https://api.bitbucket.org/2.0/user', () => HttpResponse.json({ nickname: 'review-bot' })),
+      http.get('https://api.bitbucket.org/2.0/repositories/test-owner/test-repo/pullrequests/7/comments', ({ request }) => {
+        if (new URL(request.url).searchParams.get('page') === '2') {
+          return HttpResponse.json({ values: [{ id: 13, parent: { id: 12 }, content: { raw: 'Any update?' }, user: { nickname: 'bob' } }] });
+        }
+        return HttpResponse.json({
+          values: [
+            { id: 10, inline: { path: 'app.py', from: null, to: 2 }, content: { raw: 'Magic number.' }, user: { nickname: 'review-bot' } },
+            { id: 11, content: { raw: 'Unrelated.' }, user: { nickname: 'alice' } },
+            { id: 12, parent: { id: 10 }, content: { raw: 'It is a constant.' }, user: { nickname: 'alice' } },
+          ],
+          next: 'https://api.bitbucket.org/2.0/repositories/test-owner/test-repo/pullrequests/7/comments?pagelen=100&page=2',
+        });
+      }),
+      http.get('https://api.bitbucket.org/2.0/repositories/test-owner/test-repo/pullrequests/7/diff', () => {
+        return new HttpResponse('diff --git a/app.py b/app.py\n--- a/app.py\n+++ b/app.py\n@@ -1 +1,2 @@\n a = 1\n+b = 2\n');
+      }),
+      http.post('https://api.bitbucket.org/2.0/repositories/test-owner/test-repo/pullrequests/7/comments', async ({ request }) => {
+        posted = await request.json();
+        return HttpResponse.json({ id: 14 }, { status: 201 });
+      })
+    );
+
+    const result = await fetchThread(bitbucketTask, env);
+
+    expect(result.thread).toEqual({
+      botUsername: 'review-bot',
+      filePath: 'app.py',
+      lineNumber: 2,
+      side: 'RIGHT',
+      diffHunk: '@@ -1 +1,2 @@\n a = 1\n+b = 2',
+      messages: [
+        { author: 'review-bot', body: 'Magic number.' },
+        { author: 'alice', body: 'It is a constant.' },
+        { author: 'bob', body: 'Any update?' },
+      ],
+    });
+    expect(await postThreadReply(bitbucketTask, result.thread!, 'Then name it.', env)).toBe(true);
+    expect(posted).toEqual({ content: { raw: 'Then name it.' }, parent: { id: 10 } });
+  });
+
+  it('should group Gitea review comments on the root comment\'s line and reply on that line', async () => {
+    env.GITEA_BASE_URL = 'https://gitea.internal';
+    const giteaTask = { ...githubTask, source: 'gitea', reply: { commentId: 21, threadId: 20 } };
+    let posted: any;
+    server.use(
+      http.get('https://gitea.internal/api/v1/user', () => HttpResponse.json({ login: 'review-bot' })),
+      http.get('https://gitea.internal/api/v1/repos/test-owner/test-repo/pulls/7/reviews', () => {
+        return HttpResponse.json([{ id: 1, comments_count: 2 }, { id: 2, comments_count: 0 }, { id: 3, comments_count: 1 }]);
+      }),
+      http.get('https://gitea.internal/api/v1/repos/test-owner/test-repo/pulls/7/reviews/1/comments', () => HttpResponse.json([
+        { id: 20, path: 'lib.go', position: 0, original_position: 4, diff_hunk: '@@ -4 +3 @@\n-var A = 1', body: 'Removed too early?', user: { login: 'review-bot' } },
+        { id: 19, path: 'lib.go', position: 7, original_position: 0, body: 'Other line.', user: { login: 'review-bot' } },
+      ])),
+      http.get('https://gitea.internal/api/v1/repos/test-owner/test-repo/pulls/7/reviews/3/comments', () => HttpResponse.json([
+        { id: 21, path: 'lib.go', position: 0, original_position: 4, body: 'No, it moved.', user: { login: 'alice' } },
+      ])),
+      http.post('https://gitea.internal/api/v1/repos/test-owner/test-repo/pulls/7/reviews', async ({ request }) => {
+        posted = await request.json();
+        return HttpResponse.json({ id: 4 });
+      })
+    );
+
+    const result = await fetchThread(giteaTask, env);
+
+    expect(result.thread).toEqual({
+      botUsername: 'review-bot',
+      filePath: 'lib.go',
+      lineNumber: 4,
+      side: 'LEFT',
+      diffHunk: '@@ -4 +3 @@\n-var A = 1',
+      messages: [
+        { author: 'review-bot', body: 'Removed too early?' },
+        { author: 'alice', body: 'No, it moved.' },
+      ],
+    });
+    expect(await postThreadReply(giteaTask, result.thread!, 'Thanks.', env)).toBe(true);
+    expect(posted).toEqual({
+      commit_id: 'test-sha', body: '', event: 'COMMENT',
+      comments: [{ path: 'lib.go', body: 'Thanks.', new_position: 0, old_position: 4 }],
+    });
+  });
+
+  it('should only answer threads the bot started and never its own replies', () => {
+    const thread = { botUsername: 'bot', messages: [{ author: 'alice', body: 'q' }, { author: 'bot', body: 'a' }] };
+    expect(shouldAnswerThread(thread)).toBe(false);
+    thread.messages = [{ author: 'bot', body: 'finding' }, { author: 'bot', body: 'follow-up' }];
+    expect(shouldAnswerThread(thread)).toBe(false);
+    thread.messages.push({ author: 'alice', body: 'ok?' });
+    expect(shouldAnswerThread(thread)).toBe(true);
+  });
+
+  it('should include the original comment, diff hunk and thread history in the prompt', () => {
+    const prompt = buildThreadPrompt({ ...githubTask, config: { language: 'English' } }, {
+      botUsername: 'bot',
+      filePath: 'src/a.ts',
+      lineNumber: 5,
+      diffHunk: '@@ -1 +1 @@\n+x',
+      messages: [{ author: 'bot', body: 'Possible bug.' }, { author: 'alice', body: 'Where?' }],
+    });
+
+    expect(prompt).toContain('Pull Request: #7');
+    expect(prompt).toContain('File: src/a.ts (line 5)\nDiff hunk:\n@@ -1 +1 @@\n+x');
+    expect(prompt).toContain('You: Possible bug.\n@alice: Where?\n');
+    expect(prompt).toContain('Write the reply in English.');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import worker from '../index';
+import { computeRepositoryStats } from '../dashboard';
+import type { Env } from '../types';
+
+const TOKEN = 'dashboard-token';
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600 * 1000).toISOString();
+
+function memoryKV(entries: Record<string, { value: any; metadata?: any }>) {
+  const names = Object.keys(entries).sort();
+  return {
+    list: vi.fn(async ({ prefix = '', cursor }: { prefix?: string; cursor?: string }) => {
+      const matching = names.filter(name => name.startsWith(prefix));
+      const start = cursor ? Number(cursor) : 0;
+      const keys = matching.slice(start, start + 2).map(name => ({ name, metadata: entries[name].metadata }));
+      const listComplete = start + 2 >= matching.length;
+      return { keys, list_complete: listComplete, cursor: listComplete ? undefined : String(start + 2) };
+    }),
+    get: vi.fn(async (key: string) => entries[key]?.value ?? null),
+  };
+}
+
+const stored = (status: string, timestamp: string, extra: Record<string, any> = {}) => ({
+  value: { taskId: 'evt', status, repository: 'o/r', reviewType: 'general', timestamp, ...extra },
+  metadata: { status, timestamp },
+});
+
+const kv = memoryKV({
+  'review:github:o/r:1:evt-ok': stored('completed', hoursAgo(1), {
+    comments: [{ filePath: 'a.ts', lineNumber: 3, comment: 'Use <strong> sparingly', severity: 'minor', category: 'style' }],
+    summary: 'Looks fine.',
+    llmPrompt: ['Please review part 1 <script>alert(1)</script>', 'Please review part 2'],
+    llmRawResponse: [{ choices: [{ message: { content: '{"success":true}' } }] }],
+  }),
+  'review:github:o/r:2:evt-llm': stored('error_calling_llm', hoursAgo(2), { error: 'LLM output format error: <img src=x onerror=alert(1)>' }),
+  'review:github:o/r:3:evt-skip': stored('skipped', hoursAgo(3)),
+  'review:gitlab:g/p:4:evt-post': stored('error_posting_comment', hoursAgo(4), { error: 'GitLab API error 403' }),
+  'review:gitlab:g/p:5:evt-old': stored('failed', hoursAgo(24 * 10), { error: 'Ancient failure' }),
+  'github-app-token:77': { value: { token: 'ghs_secret' } },
+});
+
+const env = { REVIEW_RESULTS_KV: kv, DASHBOARD_TOKEN: TOKEN } as unknown as Env;
+
+const basic = (password: string) => `Basic ${btoa(`anyone:${password}`)}`;
+const get = (path: string, authorization: string | null = basic(TOKEN), targetEnv: Env = env) =>
+  worker.fetch(new Request(`https://reviewer.example.com${path}`, { headers: authorization ? { Authorization: authorization } : {} }), targetEnv);
+
+describe('dashboard', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should be disabled until a token or Cloudflare Access is configured', async () => {
+    expect((await get('/dashboard', basic(TOKEN), { REVIEW_RESULTS_KV: kv } as unknown as Env)).status).toBe(404);
+  });
+
+  it('should ask the browser for the dashboard token and reject a wrong one', async () => {
+    const anonymous = await get('/dashboard', null);
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('WWW-Authenticate')).toContain('Basic realm=');
+    expect((await get('/dashboard', basic('guess'))).status).toBe(401);
+    expect((await get('/dashboard', `Bearer ${TOKEN}`)).status).toBe(401);
+    expect((await get('/dashboard', 'Basic !!!')).status).toBe(401);
+  });
+
+  it('should show per-repository success rates and recent reviews within the window', async () => {
+    const response = await get('/dashboard');
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    expect(response.headers.get('Content-Security-Policy')).toContain("default-src 'none'");
+    // o/r: 1 completed, 1 failed, 1 skipped; g/p: 1 failed in the window.
+    expect(html).toMatch(/o\/r<\/a> <span class="muted">github<\/span><\/td>\s*<td>3<\/td><td>1<\/td><td>1<\/td><td>1<\/td>\s*<td>50%<\/td>/);
+    expect(html).toMatch(/g\/p<\/a> <span class="muted">gitlab<\/span><\/td>\s*<td>1<\/td><td>0<\/td><td>1<\/td><td>0<\/td>\s*<td>0%<\/td>/);
+    expect(html).toContain('overall success rate 33%');
+    expect(html).toContain('GitLab API error 403');
+    expect(html).not.toContain('Ancient failure');
+    expect(html).not.toContain('<img src=x');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain(`href="/dashboard/reviews/${encodeURIComponent('review:github:o/r:1:evt-ok')}"`);
+    expect(kv.get).not.toHaveBeenCalledWith('github-app-token:77', expect.anything());
+  });
+
+  it('should filter by repository and status and widen the window on request', async () => {
+    const failures = await (await get('/dashboard?days=30&status=failed')).text();
+    expect(failures).toContain('Ancient failure');
+    expect(failures).not.toContain('GitLab API error 403');
+
+    const repo = await (await get(`/dashboard?repo=${encodeURIComponent('gitlab:g/p')}`)).text();
+    expect(repo).toContain('GitLab API error 403');
+    expect(repo).not.toContain('evt-llm');
+  });
+
+  it('should show a review with its comments, prompts and raw LLM response', async () => {
+    const response = await get(`/dashboard/reviews/${encodeURIComponent('review:github:o/r:1:evt-ok')}`);
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(html).toContain('Use &lt;strong&gt; sparingly');
+    expect(html).toContain('Prompt 1 of 2');
+    expect(html).toContain('Please review part 1 &lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&quot;content&quot;: &quot;{\\&quot;success\\&quot;:true}&quot;');
+  });
+
+  it('should only show review records', async () => {
+    expect((await get(`/dashboard/reviews/${encodeURIComponent('github-app-token:77')}`)).status).toBe(404);
+    expect((await get(`/dashboard/reviews/${encodeURIComponent('review:github:o/r:9:missing')}`)).status).toBe(404);
+  });
+
+  it('should count only completed and failed reviews towards the success rate', () => {
+    expect(computeRepositoryStats([
+      { key: 'k1', source: 'github', repository: 'o/r', number: '1', eventId: 'a', status: 'completed', timestamp: '2024-05-01T00:00:00Z' },
+      { key: 'k2', source: 'github', repository: 'o/r', number: '1', eventId: 'b', status: 'superseded', timestamp: '2024-05-02T00:00:00Z' },
+      { key: 'k3', source: 'github', repository: 'o/r', number: '2', eventId: 'c', status: 'error_calling_llm', timestamp: '2024-04-30T00:00:00Z' },
+    ])).toEqual([{ source: 'github', repository: 'o/r', total: 3, completed: 1, failed: 1, other: 1, lastReviewAt: '2024-05-02T00:00:00Z' }]);
+  });
+});
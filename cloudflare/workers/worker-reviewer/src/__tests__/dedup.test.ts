@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { setupServer } from 'msw/node';
+import { HttpResponse, http } from 'msw';
+import { fingerprintComments, normaliseFindingText, resolveFixedFindings, skipPostedFindings, type FindingThread } from '../dedup';
+import { formatFindingBody, parseFindingMarker } from '../findings';
+import { gitlabProvider } from '../vcs-gitlab';
+import type { Env, ReviewOutcome, ReviewTask } from '../types';
+
+const server = setupServer();
+
+const DIFF = '@@ -1,3 +1,3 @@\n const a = 1;\n-let total = 0\n+let total = 1\n return total;';
+// The same lines three further down, as after an unrelated insertion above them.
+const SHIFTED_DIFF = '@@ -4,3 +4,3 @@\n const a = 1;\n-let total = 0\n+let total = 1\n return total;';
+
+const discussionsUrl = 'https://gitlab.com/api/v4/projects/7/merge_requests/4/discussions';
+
+const gitlabTask = (diff: string, overrides: Partial<ReviewTask> = {}): ReviewTask => ({
+  source: 'gitlab', eventId: 'evt', reviewType: 'general',
+  repository: { fullName: 'group/project', id: 7, defaultBranch: 'main' },
+  mergeRequest: { id: 1, iid: 4, projectId: 7, headSha: 'sha', diffUrl: '', notesUrl: '' },
+  filesToReview: [{ path: 'calc.ts', status: 'modified', diff }],
+  ...overrides,
+});
+
+const outcome = (comments: ReviewOutcome['comments']): ReviewOutcome => ({
+  taskId: 'evt', status: 'completed', repository: 'group/project', reviewType: 'general', timestamp: 'now', comments,
+});
+
+const env = { GITLAB_TOKEN: 'gl-token' } as Env;
+
+describe('dedup', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+  });
+  afterAll(() => server.close());
+
+  describe('fingerprintComments', () => {
+    it('should ignore case, punctuation and where the commented line moved to', async () => {
+      const [first] = await fingerprintComments([{ filePath: 'calc.ts', lineNumber: 2, side: 'RIGHT', comment: 'Should `total` start at 0?' }], [{ path: 'calc.ts', diff: DIFF }]);
+      const [again] = await fingerprintComments([{ filePath: 'calc.ts', lineNumber: 5, side: 'RIGHT', comment: 'should total start at 0' }], [{ path: 'calc.ts', diff: SHIFTED_DIFF }]);
+
+      expect(first.fingerprint).toMatch(/^[0-9a-f]{16}$/);
+      expect(again.fingerprint).toBe(first.fingerprint);
+      expect(again.lineFingerprint).toBe(first.lineFingerprint);
+      expect(normaliseFindingText('**Off-by-one** here!')).toBe('off by one here');
+    });
+
+    it('should tell findings on different lines or with different text apart', async () => {
+      const files = [{ path: 'calc.ts', diff: DIFF }];
+      const [onAdded, onDeleted, otherText] = await fingerprintComments([
+        { filePath: 'calc.ts', lineNumber: 2, side: 'RIGHT', comment: 'Check this.' },
+        { filePath: 'calc.ts', lineNumber: 2, side: 'LEFT', comment: 'Check this.' },
+        { filePath: 'calc.ts', lineNumber: 2, side: 'RIGHT', comment: 'Check that.' },
+      ], files);
+
+      expect(onDeleted.fingerprint).not.toBe(onAdded.fingerprint);
+      expect(otherText.fingerprint).not.toBe(onAdded.fingerprint);
+      expect(otherText.lineFingerprint).toBe(onAdded.lineFingerprint);
+    });
+
+    it('should round-trip through the marker in the posted body, except on Bitbucket', async () => {
+      const [comment] = await fingerprintComments([{ filePath: 'calc.ts', lineNumber: 2, side: 'RIGHT', comment: 'Check this.' }], [{ path: 'calc.ts', diff: DIFF }]);
+
+      expect(parseFindingMarker(formatFindingBody(comment, 'gitlab'))).toEqual({ fingerprint: comment.fingerprint, lineFingerprint: comment.lineFingerprint });
+      expect(formatFindingBody(comment, 'bitbucket')).toBe('Check this.');
+      expect(parseFindingMarker('A human comment')).toBeNull();
+    });
+  });
+
+  describe('skipPostedFindings', () => {
+    it('should drop findings already posted and persist every fingerprint', async () => {
+      const [posted] = await fingerprintComments([{ filePath: 'calc.ts', lineNumber: 2, side: 'RIGHT', comment: 'Check this.' }], [{ path: 'calc.ts', diff: DIFF }]);
+      server.use(http.get(discussionsUrl, () => HttpResponse.json([
+        { id: 'd1', notes: [{ body: formatFindingBody(posted, 'gitlab'), resolvable: true, resolved: false, position: { new_path: 'calc.ts' } }] },
+        { id: 'd2', notes: [{ body: 'Human discussion', resolvable: true, resolved: false }] },
+      ])));
+      const result = outcome([
+        { filePath: 'calc.ts', lineNumber: 2, side: 'RIGHT', comment: 'check this' },
+        { filePath: 'calc.ts', lineNumber: 3, side: 'RIGHT', comment: 'New finding.' },
+      ]);
+
+      const threads = await skipPostedFindings(gitlabTask(DIFF), result, env);
+
+      expect(threads).toEqual([{ id: 'd1', fingerprint: posted.fingerprint, lineFingerprint: posted.lineFingerprint, filePath: 'calc.ts', resolved: false }]);
+      expect(result.comments!.map(c => c.comment)).toEqual(['New finding.']);
+      expect(result.duplicateComments).toBe(1);
+      expect(result.fingerprints).toHaveLength(2);
+      expect(result.fingerprints![0]).toBe(posted.fingerprint);
+    });
+
+    it('should recognise the findings GitLab stored from what postComments sent', async () => {
+      const task = gitlabTask(DIFF, { mergeRequest: { id: 1, iid: 4, projectId: 7, headSha: 'sha', diffUrl: '', notesUrl: discussionsUrl.replace(/discussions$/, 'notes') } });
+      const [line, general] = await fingerprintComments([
+        { filePath: 'calc.ts', lineNumber: 2, side: 'RIGHT', comment: 'Check this.' },
+        { filePath: '', comment: 'Add tests.' },
+      ], task.filesToReview);
+      // What GitLab keeps: a resolvable DiffNote discussion per positioned finding, an individual note otherwise.
+      const discussions: any[] = [];
+      server.use(
+        http.post(discussionsUrl, async ({ request }) => {
+          const { body, position }: any = await request.json();
+          discussions.push({ id: `d${discussions.length}`, individual_note: false, notes: [{ type: 'DiffNote', body, position, resolvable: true, resolved: false }] });
+          return HttpResponse.json(discussions[discussions.length - 1], { status: 201 });
+        }),
+        http.post(task.mergeRequest!.notesUrl, async ({ request }) => {
+          const { body }: any = await request.json();
+          discussions.push({ id: `n${discussions.length}`, individual_note: true, notes: [{ type: null, body, resolvable: false }] });
+          return HttpResponse.json(discussions[discussions.length - 1].notes[0], { status: 201 });
+        }),
+        http.get(discussionsUrl, () => HttpResponse.json(discussions)),
+      );
+
+      await gitlabProvider.postComments(task, [line, general], env);
+      const result = outcome([{ filePath: 'calc.ts', lineNumber: 2, side: 'RIGHT', comment: 'Check this.' }]);
+      const threads = await skipPostedFindings(task, result, env);
+
+      expect(discussions.map(d => d.id)).toEqual(['d0', 'n1']);
+      expect(threads).toEqual([{ id: 'd0', fingerprint: line.fingerprint, lineFingerprint: line.lineFingerprint, filePath: 'calc.ts', resolved: false }]);
+      expect(result.comments).toEqual([]);
+      expect(result.duplicateComments).toBe(1);
+    });
+
+    it('should post every finding when earlier findings cannot be listed', async () => {
+      server.use(http.get(discussionsUrl, () => new HttpResponse('forbidden', { status: 403 })));
+      const result = outcome([{ filePath: 'calc.ts', lineNumber: 2, side: 'RIGHT', comment: 'Check this.' }]);
+
+      expect(await skipPostedFindings(gitlabTask(DIFF), result, env)).toBeUndefined();
+      expect(result.comments).toHaveLength(1);
+      expect(result.duplicateComments).toBeUndefined();
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Discussions API error 403'));
+    });
+  });
+
+  describe('resolveFixedFindings', () => {
+    const threadOn = async (line: number, diff: string, id: string, overrides: Partial<FindingThread> = {}): Promise<FindingThread> => {
+      const [c] = await fingerprintComments([{ filePath: 'calc.ts', lineNumber: line, side: 'RIGHT', comment: `Finding ${id}` }], [{ path: 'calc.ts', diff }]);
+      return { id, fingerprint: c.fingerprint!, lineFingerprint: c.lineFingerprint, filePath: 'calc.ts', resolved: false, ...overrides };
+    };
+
+    it('should resolve open threads whose line was rewritten, and leave moved, re-reported and resolved ones alone', async () => {
+      const resolved: string[] = [];
+      server.use(http.put(`${discussionsUrl}/:id`, ({ params, request }) => {
+        expect(new URL(request.url).searchParams.get('resolved')).toBe('true');
+        resolved.push(params.id as string);
+        return HttpResponse.json({});
+      }));
+      const earlierDiff = '@@ -1,2 +1,3 @@\n const a = 1;\n+let total = 0\n+const moved = true;';
+      const rewritten = await threadOn(2, earlierDiff, 'rewritten');
+      const moved = await threadOn(3, earlierDiff, 'moved');
+      const reported = await threadOn(2, earlierDiff, 'reported');
+      const alreadyResolved = await threadOn(2, earlierDiff, 'already', { resolved: true });
+      // The next push rewrites "let total = 0" and moves "const moved = true;" down a line.
+      const delta = '@@ -1,3 +1,4 @@\n const a = 1;\n-let total = 0\n-const moved = true;\n+let total = 1\n+\n+const moved = true;';
+      const result = outcome([]);
+      result.fingerprints = [reported.fingerprint];
+
+      const count = await resolveFixedFindings(gitlabTask(delta), result, [rewritten, moved, reported, alreadyResolved], env);
+
+      expect(count).toBe(1);
+      expect(resolved).toEqual(['rewritten']);
+    });
+
+    it('should resolve threads on deleted files but not on files outside the review', async () => {
+      const resolved: string[] = [];
+      server.use(http.put(`${discussionsUrl}/:id`, ({ params }) => { resolved.push(params.id as string); return HttpResponse.json({}); }));
+      const onDeleted = await threadOn(2, DIFF, 'deleted');
+      const elsewhere = await threadOn(2, DIFF, 'elsewhere', { filePath: 'other.ts' });
+      const task = gitlabTask('', { filesToReview: [{ path: 'calc.ts', status: 'removed', diff: '@@ -1 +0,0 @@\n-gone' }] });
+
+      expect(await resolveFixedFindings(task, outcome([]), [onDeleted, elsewhere], env)).toBe(1);
+      expect(resolved).toEqual(['deleted']);
+    });
+  });
+
+  describe('GitHub review threads', () => {
+    const githubTask: ReviewTask = {
+      source: 'github', eventId: 'evt', reviewType: 'general', filesToReview: [{ path: 'calc.ts', diff: DIFF }],
+      repository: { fullName: 'o/r', id: 1, defaultBranch: 'main' },
+      pullRequest: { id: 1, number: 9, headSha: 'sha', diffUrl: '', commentsUrl: '' },
+    };
+
+    it('should page through review threads over GraphQL and resolve them with a mutation', async () => {
+      const [posted] = await fingerprintComments([{ filePath: 'calc.ts', lineNumber: 2, side: 'RIGHT', comment: 'Check this.' }], [{ path: 'calc.ts', diff: DIFF }]);
+      const requests: any[] = [];
+      server.use(http.post('https://api.github.com/graphql', async ({ request }) => {
+        const body: any = await request.json();
+        requests.push(body);
+        if (body.query.includes('resolveReviewThread')) return HttpResponse.json({ data: { resolveReviewThread: { thread: { isResolved: true } } } });
+        const page = body.variables.cursor
+          ? { pageInfo: { hasNextPage: false }, nodes: [{ id: 'T2', isResolved: false, path: 'calc.ts', comments: { nodes: [{ body: formatFindingBody(posted, 'github') }] } }] }
+          : { pageInfo: { hasNextPage: true, endCursor: 'c1' }, nodes: [{ id: 'T1', isResolved: false, path: 'calc.ts', comments: { nodes: [{ body: 'Human thread' }] } }] };
+        return HttpResponse.json({ data: { repository: { pullRequest: { reviewThreads: page } } } });
+      }));
+      const result = outcome([{ filePath: 'calc.ts', lineNumber: 2, side: 'RIGHT', comment: 'Check this.' }]);
+
+      const threads = await skipPostedFindings(githubTask, result, { GITHUB_TOKEN: 't' } as Env);
+      expect(threads).toEqual([{ id: 'T2', fingerprint: posted.fingerprint, lineFingerprint: posted.lineFingerprint, filePath: 'calc.ts', resolved: false }]);
+      expect(result.comments).toEqual([]);
+      expect(requests[0].variables).toEqual({ owner: 'o', name: 'r', number: 9, cursor: null });
+      expect(requests[1].variables.cursor).toBe('c1');
+
+      const delta = { ...githubTask, filesToReview: [{ path: 'calc.ts', diff: '@@ -2 +2 @@\n-let total = 1\n+let total = 2' }] };
+      expect(await resolveFixedFindings(delta, outcome([]), threads!, { GITHUB_TOKEN: 't' } as Env)).toBe(1);
+      expect(requests[2].variables).toEqual({ threadId: 'T2' });
+    });
+
+    it('should report GraphQL errors as a failed listing', async () => {
+      server.use(http.post('https://api.github.com/graphql', () => HttpResponse.json({ errors: [{ message: 'Resource not accessible by integration' }] })));
+      expect(await skipPostedFindings(githubTask, outcome([]), { GITHUB_TOKEN: 't' } as Env)).toBeUndefined();
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Resource not accessible by integration'));
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { parseUnifiedDiff, anchorComments, formatRejectedComments, extractHunk, splitDiffByFile } from '../diff-parser';
+
+const PATCH = [
+  '@@ -1,4 +1,4 @@',
+  ' line one',
+  '-line two',
+  '+line 2',
+  ' line three',
+  ' line four',
+  '@@ -20,3 +20,4 @@ function foo() {',
+  ' ctx 20',
+  '+added 21',
+  ' ctx 22',
+  ' ctx 23',
+].join('\n');
+
+describe('diff-parser', () => {
+  describe('parseUnifiedDiff', () => {
+    it('should number old and new lines per hunk', () => {
+      const parsed = parseUnifiedDiff(PATCH);
+
+      expect(parsed.byNewLine.get(2)).toEqual({ type: 'add', content: 'line 2', newLine: 2, position: 3 });
+      expect(parsed.byOldLine.get(2)).toEqual({ type: 'del', content: 'line two', oldLine: 2, position: 2 });
+      expect(parsed.byNewLine.get(3)).toEqual({ type: 'context', content: 'line three', oldLine: 3, newLine: 3, position: 4 });
+      expect(parsed.byNewLine.get(21)).toEqual({ type: 'add', content: 'added 21', newLine: 21, position: 8 });
+      expect(parsed.byNewLine.has(10)).toBe(false);
+    });
+
+    it('should count later hunk headers as GitHub positions', () => {
+      const parsed = parseUnifiedDiff(PATCH);
+
+      expect(parsed.byPosition.get(6)).toBeUndefined();
+      expect(parsed.byPosition.get(7)).toEqual({ type: 'context', content: 'ctx 20', oldLine: 20, newLine: 20, position: 7 });
+    });
+
+    it('should skip file headers and "no newline" markers', () => {
+      const parsed = parseUnifiedDiff('diff --git a/x b/x\n--- a/x\n+++ b/x\n@@ -1 +1 @@\n-old\n\\ No newline at end of file\n+new\n');
+
+      expect(parsed.lines).toEqual([
+        { type: 'del', content: 'old', oldLine: 1, position: 1 },
+        { type: 'add', content: 'new', newLine: 1, position: 3 },
+      ]);
+    });
+  });
+
+  describe('anchorComments', () => {
+    const files = [{ path: 'a.ts', diff: PATCH }, { path: 'binary.png' }];
+
+    it('should keep comments on commentable lines and mark their side', () => {
+      const { anchored, rejected } = anchorComments([
+        { filePath: 'a.ts', lineNumber: 2, comment: 'added' },
+        { filePath: 'a.ts', lineNumber: 3, comment: 'context' },
+        { filePath: 'a.ts', lineNumber: 2, side: 'LEFT', comment: 'removed' },
+      ], files);
+
+      expect(rejected).toEqual([]);
+      expect(anchored).toEqual([
+        { filePath: 'a.ts', lineNumber: 2, oldLineNumber: undefined, side: 'RIGHT', comment: 'added' },
+        { filePath: 'a.ts', lineNumber: 3, oldLineNumber: 3, side: 'RIGHT', comment: 'context' },
+        { filePath: 'a.ts', lineNumber: 2, oldLineNumber: 2, side: 'LEFT', comment: 'removed' },
+      ]);
+    });
+
+    it('should convert GitHub positions into line numbers', () => {
+      const { anchored } = anchorComments([{ filePath: 'a.ts', position: 2, comment: 'by position' }], files);
+
+      expect(anchored).toEqual([{ filePath: 'a.ts', lineNumber: 2, oldLineNumber: 2, side: 'LEFT', comment: 'by position' }]);
+    });
+
+    it('should snap comments a few lines outside a hunk and reject the rest', () => {
+      const { anchored, rejected } = anchorComments([
+        { filePath: 'a.ts', lineNumber: 25, comment: 'near' },
+        { filePath: 'a.ts', lineNumber: 10, comment: 'far' },
+        { filePath: 'binary.png', lineNumber: 1, comment: 'no diff' },
+        { filePath: 'missing.ts', lineNumber: 1, comment: 'not in review' },
+      ], files);
+
+      expect(anchored).toEqual([{ filePath: 'a.ts', lineNumber: 23, oldLineNumber: 22, side: 'RIGHT', comment: 'near' }]);
+      expect(rejected.map(c => c.comment)).toEqual(['far', 'no diff', 'not in review']);
+    });
+
+    it('should pass general comments through untouched', () => {
+      const general = [{ filePath: '', comment: 'overall' }, { filePath: 'a.ts', comment: 'file level' }];
+
+      expect(anchorComments(general, files)).toEqual({ anchored: general, rejected: [] });
+    });
+  });
+
+  describe('formatRejectedComments', () => {
+    it('should list rejected comments with their original location', () => {
+      expect(formatRejectedComments([{ filePath: 'a.ts', lineNumber: 10, comment: 'far' }]))
+        .toBe('**Comments outside the changed lines:**\n- `a.ts:10`: far');
+    });
+  });
+
+  describe('extractHunk', () => {
+    it('should return the hunk covering a new or old line', () => {
+      expect(extractHunk(PATCH, 21)).toBe('@@ -20,3 +20,4 @@ function foo() {\n ctx 20\n+added 21\n ctx 22\n ctx 23');
+      expect(extractHunk(PATCH, 2, 'LEFT')).toBe('@@ -1,4 +1,4 @@\n line one\n-line two\n+line 2\n line three\n line four');
+      expect(extractHunk(PATCH, 10)).toBeUndefined();
+    });
+  });
+
+  describe('splitDiffByFile', () => {
+    it('should split a whole pull request diff into files with status and hunks', () => {
+      const diff = [
+        'diff --git a/src/a.ts b/src/a.ts',
+        'index 1111111..2222222 100644',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1 +1 @@',
+        '-a',
+        '+b',
+        'diff --git a/src/new.ts b/src/new.ts',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/src/new.ts',
+        '@@ -0,0 +1 @@',
+        '+created',
+        'diff --git a/src/gone.ts b/src/gone.ts',
+        'deleted file mode 100644',
+        '--- a/src/gone.ts',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-removed',
+        'diff --git a/old-name.ts b/new-name.ts',
+        'similarity index 100%',
+        'rename from old-name.ts',
+        'rename to new-name.ts',
+        'diff --git a/logo.png b/logo.png',
+        'Binary files a/logo.png and b/logo.png differ',
+        '',
+      ].join('\n');
+
+      expect(splitDiffByFile(diff)).toEqual([
+        { path: 'src/a.ts', status: 'modified', previousPath: undefined, diff: '@@ -1 +1 @@\n-a\n+b' },
+        { path: 'src/new.ts', status: 'added', previousPath: undefined, diff: '@@ -0,0 +1 @@\n+created' },
+        { path: 'src/gone.ts', status: 'removed', previousPath: undefined, diff: '@@ -1 +0,0 @@\n-removed' },
+        { path: 'new-name.ts', status: 'renamed', previousPath: 'old-name.ts', diff: undefined },
+        { path: 'logo.png', status: 'modified', previousPath: undefined, diff: undefined },
+      ]);
+    });
+
+    it('should return no files for an empty diff', () => {
+      expect(splitDiffByFile('')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import type { ExecutionContext, MessageBatch } from '@cloudflare/workers-types';
+import { setupServer } from 'msw/node';
+import { HttpResponse, http } from 'msw';
+import worker from '../index';
+import { buildDirectReviewTask } from '../direct-review';
+import type { Env } from '../types';
+
+const server = setupServer();
+const TOKEN = 'direct-token';
+const LLM_ENDPOINT = 'https://api.openai.com/v1/chat/completions';
+
+const DIFF = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,2 +1,3 @@',
+  ' const a = 1;',
+  '+const b = eval(input);',
+  ' export { a };',
+  'diff --git a/docs/notes.md b/docs/notes.md',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ b/docs/notes.md',
+  '@@ -0,0 +1 @@',
+  '+Notes',
+  '',
+].join('\n');
+
+// KV namespace holding JSON values, enough for the job records.
+function memoryKV() {
+  const values = new Map<string, string>();
+  return {
+    values,
+    get: vi.fn(async (key: string, type?: string) => {
+      const value = values.get(key);
+      return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+    }),
+    put: vi.fn(async (key: string, value: string) => { values.set(key, value); }),
+  };
+}
+
+const llmReplies = (...contents: any[]) => {
+  const prompts: string[] = [];
+  server.use(http.post(LLM_ENDPOINT, async ({ request }) => {
+    const body: any = await request.json();
+    prompts.push(body.messages.map((m: any) => m.content).join('\n'));
+    const content = contents.shift();
+    return content instanceof Response ? content : HttpResponse.json({ choices: [{ message: { content: JSON.stringify(content) } }] });
+  }));
+  return prompts;
+};
+
+describe('direct review API', () => {
+  let env: Env;
+  let kv: ReturnType<typeof memoryKV>;
+
+  const request = (method: string, path: string, body?: any, token: string | null = TOKEN) =>
+    worker.fetch(new Request(`https://reviewer.example.com${path}`, {
+      method,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+    }), env);
+
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  beforeEach(() => {
+    kv = memoryKV();
+    env = {
+      REVIEW_RESULTS_KV: kv, REVIEW_TASKS_QUEUE: { send: vi.fn() },
+      LLM_API_KEY: 'test-key', LLM_ENDPOINT, DIRECT_REVIEW_TOKEN: TOKEN,
+    } as unknown as Env;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+  });
+  afterAll(() => server.close());
+
+  it('should be disabled until a token is configured and require it', async () => {
+    const { DIRECT_REVIEW_TOKEN, ...withoutToken } = env;
+    env = withoutToken as Env;
+    expect((await request('POST', '/diff-reviews', { diff: DIFF })).status).toBe(404);
+    env.DIRECT_REVIEW_TOKEN = DIRECT_REVIEW_TOKEN;
+    expect((await request('POST', '/diff-reviews', { diff: DIFF }, null)).status).toBe(401);
+    expect((await request('POST', '/diff-reviews', { diff: DIFF }, 'guess')).status).toBe(401);
+    const wrongMethod = await request('GET', '/diff-reviews');
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('Allow')).toBe('POST');
+  });
+
+  it('should review a raw diff synchronously without posting anywhere', async () => {
+    const prompts = llmReplies({
+      success: true,
+      summary: 'One risky call.',
+      comments: [
+        { filePath: 'src/app.ts', lineNumber: 2, comment: 'Avoid eval.', severity: 'blocker', category: 'security' },
+        { filePath: 'src/app.ts', lineNumber: 40, comment: 'Not in the diff.', severity: 'minor', category: 'style' },
+      ],
+    });
+
+    const response = await request('POST', '/diff-reviews', { diff: DIFF, reviewType: 'detailed', repository: 'acme/app' });
+    const body: any = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.status).toBe('completed');
+    expect(body.jobId).toMatch(/^direct_/);
+    expect(body.outcome).toMatchObject({ repository: 'acme/app', reviewType: 'detailed' });
+    expect(body.outcome.comments).toEqual([expect.objectContaining({ filePath: 'src/app.ts', lineNumber: 2, side: 'RIGHT', comment: 'Avoid eval.' })]);
+    expect(body.outcome.summary).toContain('Not in the diff.');
+    expect(prompts[0]).toContain('Source: direct');
+    expect(prompts[0]).toContain('docs/notes.md');
+
+    const stored: any = await (await request('GET', `/diff-reviews/${body.jobId}`)).json();
+    expect(stored).toEqual(body);
+    expect(kv.put).toHaveBeenCalledWith(`direct-review:${body.jobId}`, expect.any(String), { expirationTtl: 7 * 24 * 3600 });
+  });
+
+  it('should apply the submitted .ai-review.yml to files and findings', async () => {
+    const prompts = llmReplies({
+      success: true,
+      summary: 'Minor things.',
+      comments: [{ filePath: 'src/app.ts', lineNumber: 2, comment: 'Nit.', severity: 'nit', category: 'style' }],
+    });
+
+    const response = await request('POST', '/diff-reviews', {
+      files: [{ path: 'src/app.ts', diff: '@@ -1 +1,2 @@\n a\n+b', content: 'a\nb' }, { path: 'dist/app.js', content: 'minified' }],
+      config: 'exclude: ["dist/**"]\nlanguage: German\nmin_severity: minor\n',
+    });
+    const body: any = await response.json();
+
+    expect(body.status).toBe('completed');
+    expect(body.outcome.comments).toEqual([]);
+    expect(prompts[0]).not.toContain('dist/app.js');
+    expect(prompts[0]).toContain('Write all comments and the summary in German.');
+
+    const skipped: any = await (await request('POST', '/diff-reviews', { files: [{ path: 'dist/app.js', content: 'x' }], config: 'exclude: ["dist/**"]' })).json();
+    expect(skipped.status).toBe('skipped');
+  });
+
+  it('should keep line comments on submitted files that have content but no diff', async () => {
+    llmReplies({
+      success: true,
+      summary: 'New file.',
+      comments: [
+        { filePath: 'src/new.ts', lineNumber: 2, comment: 'Name this constant.', severity: 'minor', category: 'style' },
+        { filePath: 'src/new.ts', lineNumber: 9, comment: 'Past the end.', severity: 'minor', category: 'style' },
+      ],
+    });
+
+    const body: any = await (await request('POST', '/diff-reviews', { files: [{ path: 'src/new.ts', content: 'const a = 1;\nconst b = 42;\nexport { a, b };' }] })).json();
+
+    expect(body.status).toBe('completed');
+    expect(body.outcome.comments).toEqual([expect.objectContaining({ filePath: 'src/new.ts', lineNumber: 2, side: 'RIGHT', comment: 'Name this constant.' })]);
+    expect(body.outcome.rejectedComments).toEqual([expect.objectContaining({ filePath: 'src/new.ts', lineNumber: 9 })]);
+    expect(body.outcome.summary).toContain('Past the end.');
+  });
+
+  it('should reject submissions it cannot review', async () => {
+    expect(buildDirectReviewTask({ diff: DIFF, files: [] }, 'j').error).toContain('either "diff"');
+    expect(buildDirectReviewTask({}, 'j').error).toContain('either "diff"');
+    expect(buildDirectReviewTask({ diff: 'just some text' }, 'j').error).toContain('no file diffs');
+    expect(buildDirectReviewTask({ files: [{ path: 'a.ts', diff: 1 }] }, 'j').error).toContain('(entry 0 is not)');
+    expect(buildDirectReviewTask({ diff: DIFF, reviewType: 'quick' }, 'j').error).toContain('"reviewType"');
+    expect(buildDirectReviewTask({ diff: DIFF, config: 'exclude: [' }, 'j').error).toContain('Invalid .ai-review.yml');
+    expect((await request('POST', '/diff-reviews', '{oops')).status).toBe(400);
+    expect((await request('POST', '/diff-reviews', { diff: 'x'.repeat(2 * 1024 * 1024) })).status).toBe(413);
+    expect((await request('GET', '/diff-reviews/direct_unknown')).status).toBe(404);
+  });
+
+  it('should queue asynchronous reviews and retry retryable LLM failures', async () => {
+    const submitted = await request('POST', '/diff-reviews', { diff: DIFF, async: true });
+    const { jobId }: any = await submitted.json();
+
+    expect(submitted.status).toBe(202);
+    expect(env.REVIEW_TASKS_QUEUE.send).toHaveBeenCalledWith({ directReviewJobId: jobId });
+    const queued: any = await (await request('GET', `/diff-reviews/${jobId}`)).json();
+    expect(queued).toEqual({ jobId, status: 'queued', submittedAt: expect.any(String) });
+
+    llmReplies(new HttpResponse('overloaded', { status: 503 }), { success: true, summary: 'Fine.', comments: [] });
+    const message = () => ({ id: 'm1', body: { directReviewJobId: jobId }, attempts: 1, ack: vi.fn(), retry: vi.fn() });
+    const ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as unknown as ExecutionContext;
+
+    const first = message();
+    await worker.queue!({ messages: [first] } as unknown as MessageBatch<any>, env, ctx);
+    expect(first.retry).toHaveBeenCalled();
+    expect(((await (await request('GET', `/diff-reviews/${jobId}`)).json()) as any).status).toBe('failed');
+
+    const second = message();
+    await worker.queue!({ messages: [second] } as unknown as MessageBatch<any>, env, ctx);
+    expect(second.ack).toHaveBeenCalled();
+    const done: any = await (await request('GET', `/diff-reviews/${jobId}`)).json();
+    expect(done.status).toBe('completed');
+    expect(done.outcome.summary).toBe('Fine.');
+    expect(JSON.parse(kv.values.get(`direct-review:${jobId}`)!).task).toBeUndefined();
+  });
+
+  it('should store a final error once the queue has used up its retries', async () => {
+    const { jobId }: any = await (await request('POST', '/diff-reviews', { diff: DIFF, async: true })).json();
+    llmReplies(new HttpResponse('overloaded', { status: 503 }));
+    const last = { id: 'm1', body: { directReviewJobId: jobId }, attempts: 4, ack: vi.fn(), retry: vi.fn() };
+
+    await worker.queue!({ messages: [last] } as unknown as MessageBatch<any>, env, { waitUntil: vi.fn() } as unknown as ExecutionContext);
+
+    expect(last.ack).toHaveBeenCalled();
+    expect(last.retry).not.toHaveBeenCalled();
+    const stored: any = await (await request('GET', `/diff-reviews/${jobId}`)).json();
+    expect(stored.status).toBe('error_calling_llm');
+    expect(stored.outcome.status).toBe('error_calling_llm');
+    expect(stored.outcome.error).toContain('gave up after 4 attempts');
+    expect(JSON.parse(kv.values.get(`direct-review:${jobId}`)!).task).toBeUndefined();
+  });
+
+  it('should take the retry limit from QUEUE_MAX_RETRIES', async () => {
+    env.QUEUE_MAX_RETRIES = '1';
+    const { jobId }: any = await (await request('POST', '/diff-reviews', { diff: DIFF, async: true })).json();
+    llmReplies(new HttpResponse('overloaded', { status: 503 }));
+    const second = { id: 'm1', body: { directReviewJobId: jobId }, attempts: 2, ack: vi.fn(), retry: vi.fn() };
+
+    await worker.queue!({ messages: [second] } as unknown as MessageBatch<any>, env, { waitUntil: vi.fn() } as unknown as ExecutionContext);
+
+    expect(second.ack).toHaveBeenCalled();
+    const stored: any = await (await request('GET', `/diff-reviews/${jobId}`)).json();
+    expect(stored.status).toBe('error_calling_llm');
+    expect(stored.outcome.error).toContain('gave up after 2 attempts');
+  });
+});
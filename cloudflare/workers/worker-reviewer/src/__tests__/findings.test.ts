@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { filterBySeverity, sortBySeverity, formatFindingBody, formatFindingText, formatSeverityCounts } from '../findings';
+import type { LLMComment } from '../types';
+
+const finding = (overrides: Partial<LLMComment>): LLMComment => ({ filePath: 'a.ts', lineNumber: 3, comment: 'Use const.', ...overrides });
+
+describe('findings', () => {
+  describe('formatFindingBody', () => {
+    it('should label the finding and render a GitHub suggestion block', () => {
+      const body = formatFindingBody(finding({ severity: 'minor', category: 'style', suggestion: 'const x = 1;\n' }), 'github');
+
+      expect(body).toBe('**[🟡 minor · style]** Use const.\n\n```suggestion\nconst x = 1;\n```');
+    });
+
+    it('should render a GitLab suggestion that replaces only the commented line', () => {
+      expect(formatFindingBody(finding({ suggestion: 'const x = 1;' }), 'gitlab')).toBe('Use const.\n\n```suggestion:-0+0\nconst x = 1;\n```');
+    });
+
+    it('should fall back to a plain code block where a suggestion cannot be applied', () => {
+      expect(formatFindingBody(finding({ side: 'LEFT', suggestion: 'x' }), 'github')).toBe('Use const.\n\n```\nx\n```');
+      expect(formatFindingBody(finding({ lineNumber: undefined, position: 2, suggestion: 'x' }), 'gitlab')).toBe('Use const.\n\n```\nx\n```');
+    });
+  });
+
+  describe('severity helpers', () => {
+    const comments = [
+      finding({ comment: 'a', severity: 'nit' }),
+      finding({ comment: 'b' }),
+      finding({ comment: 'c', severity: 'blocker', category: 'security' }),
+      finding({ comment: 'd', severity: 'minor' }),
+      finding({ comment: 'e', severity: 'blocker' }),
+    ];
+
+    it('should keep findings at or above the minimum severity and ungraded findings', () => {
+      expect(filterBySeverity(comments, 'minor').map(c => c.comment)).toEqual(['b', 'c', 'd', 'e']);
+      expect(filterBySeverity(comments, undefined)).toBe(comments);
+    });
+
+    it('should sort most severe first, keeping the original order within a severity', () => {
+      expect(sortBySeverity(comments).map(c => c.comment)).toEqual(['c', 'e', 'd', 'b', 'a']);
+    });
+
+    it('should count findings per severity and label list items', () => {
+      expect(formatSeverityCounts(comments)).toBe('2 blocker, 1 minor, 1 nit');
+      expect(formatSeverityCounts([finding({})])).toBe('');
+      expect(formatFindingText(comments[2])).toBe('**[🛑 blocker · security]** c');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach, beforeEach, type Mock } from 'vitest';
+import { setupServer } from 'msw/node';
+import { HttpResponse, http } from 'msw';
+import { createAppJwt, resolveGithubAuth } from '../github-app';
+import type { Env, ReviewTask } from '../types';
+
+const server = setupServer();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const toPem = (label: string, bytes: Uint8Array) => `-----BEGIN ${label}-----\n${toBase64(bytes).match(/.{1,64}/g)!.join('\n')}\n-----END ${label}-----\n`;
+const fromBase64Url = (text: string) => Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+let keyPair: CryptoKeyPair;
+let pkcs8Pem: string;
+let pkcs1Pem: string;
+
+const task: ReviewTask = {
+  source: 'github',
+  eventId: 'evt-app',
+  installationId: 42,
+  repository: { fullName: 'owner/repo', id: 1, defaultBranch: 'main' },
+  pullRequest: { id: 10, number: 7, headSha: 'abc123', diffUrl: '', commentsUrl: '' },
+  reviewType: 'detailed',
+  filesToReview: [],
+};
+
+describe('github-app', () => {
+  let env: Env;
+
+  beforeAll(async () => {
+    server.listen({ onUnhandledRequest: 'error' });
+    keyPair = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    const pkcs8 = new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey) as ArrayBuffer);
+    pkcs8Pem = toPem('PRIVATE KEY', pkcs8);
+    // A 2048-bit PKCS#8 key is the PKCS#1 key behind a 26-byte header, which is how GitHub hands out app keys.
+    pkcs1Pem = toPem('RSA PRIVATE KEY', pkcs8.slice(26));
+  });
+  beforeEach(() => {
+    env = {
+      GITHUB_TOKEN: 'pat-token', GITHUB_APP_ID: '1234', GITHUB_APP_PRIVATE_KEY: pkcs1Pem,
+      REVIEW_RESULTS_KV: { get: vi.fn().mockResolvedValue(null), put: vi.fn() },
+    } as unknown as Env;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+  });
+  afterAll(() => server.close());
+
+  describe('createAppJwt', () => {
+    it.each([['PKCS#1', () => pkcs1Pem], ['PKCS#8', () => pkcs8Pem]])('should sign a verifiable RS256 token from a %s key', async (_, pem) => {
+      const jwt = await createAppJwt('1234', pem(), Date.UTC(2024, 0, 1));
+      const [header, payload, signature] = jwt.split('.');
+
+      expect(JSON.parse(new TextDecoder().decode(fromBase64Url(header)))).toEqual({ alg: 'RS256', typ: 'JWT' });
+      const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+      expect(claims).toEqual({ iss: '1234', iat: Date.UTC(2024, 0, 1) / 1000 - 60, exp: Date.UTC(2024, 0, 1) / 1000 + 480 });
+      const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', keyPair.publicKey, fromBase64Url(signature), new TextEncoder().encode(`${header}.${payload}`));
+      expect(valid).toBe(true);
+    });
+
+    it('should accept keys stored with escaped newlines', async () => {
+      await expect(createAppJwt('1234', pkcs1Pem.replace(/\n/g, '\\n'))).resolves.toMatch(/^[\w-]+\.[\w-]+\.[\w-]+$/);
+    });
+  });
+
+  describe('resolveGithubAuth', () => {
+    it('should keep the PAT when the app is not configured or the event has no installation', async () => {
+      const withoutApp = { ...env, GITHUB_APP_ID: undefined };
+
+      expect((await resolveGithubAuth(task, withoutApp)).env).toBe(withoutApp);
+      expect((await resolveGithubAuth({ ...task, installationId: undefined }, env)).env?.GITHUB_TOKEN).toBe('pat-token');
+    });
+
+    it('should exchange the app JWT for an installation token and cache it until shortly before expiry', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      server.use(
+        http.post('https://api.github.com/app/installations/42/access_tokens', ({ request }) => {
+          expect(request.headers.get('Authorization')).toMatch(/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/);
+          return HttpResponse.json({ token: 'ghs_installation', expires_at: expiresAt }, { status: 201 });
+        }),
+        http.get('https://api.github.com/app', () => HttpResponse.json({ slug: 'review-bot' }))
+      );
+
+      const result = await resolveGithubAuth(task, env);
+
+      expect(result.env).toMatchObject({ GITHUB_TOKEN: 'ghs_installation', GITHUB_BOT_LOGIN: 'review-bot[bot]' });
+      expect(env.REVIEW_RESULTS_KV.put).toHaveBeenCalledWith(
+        'github-app-token:42',
+        JSON.stringify({ token: 'ghs_installation', expiresAt, botLogin: 'review-bot[bot]' }),
+        { expiration: Math.floor((Date.parse(expiresAt) - 5 * 60 * 1000) / 1000) }
+      );
+    });
+
+    it('should reuse a cached token without calling GitHub', async () => {
+      (env.REVIEW_RESULTS_KV.get as Mock).mockResolvedValue({ token: 'ghs_cached', expiresAt: new Date(Date.now() + 30 * 60 * 1000).toISOString() });
+
+      expect((await resolveGithubAuth(task, env)).env?.GITHUB_TOKEN).toBe('ghs_cached');
+    });
+
+    it('should classify token errors as retryable only for server errors', async () => {
+      server.use(http.post('https://api.github.com/app/installations/42/access_tokens', () => HttpResponse.json({ message: 'Bad credentials' }, { status: 401 })));
+      expect(await resolveGithubAuth(task, env)).toMatchObject({ success: false, isRetryable: false });
+
+      server.use(http.post('https://api.github.com/app/installations/42/access_tokens', () => HttpResponse.json({}, { status: 502 })));
+      expect(await resolveGithubAuth(task, env)).toMatchObject({ success: false, isRetryable: true });
+
+      expect(await resolveGithubAuth(task, { ...env, GITHUB_APP_PRIVATE_KEY: 'not a key' })).toMatchObject({ success: false, isRetryable: false });
+    });
+  });
+});
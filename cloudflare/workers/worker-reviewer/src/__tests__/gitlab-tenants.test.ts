@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { gitlabTenantKeys, resolveGitlabTenant } from '../gitlab-tenants';
+import type { Env } from '../types';
+
+const payload = { project: { web_url: 'https://git.corp.example/platform/api/service', path_with_namespace: 'platform/api/service' } };
+
+const envWith = (tenants: Record<string, any>): Env => ({
+  GITLAB_TOKEN: 'global-token',
+  GITLAB_TENANTS_KV: { get: vi.fn(async (key: string) => tenants[key] ?? null) },
+} as unknown as Env);
+
+describe('gitlab-tenants', () => {
+  it('should list namespace keys from most to least specific, ending with the host', () => {
+    expect(gitlabTenantKeys(payload.project.web_url, payload.project.path_with_namespace))
+      .toEqual(['git.corp.example/platform/api', 'git.corp.example/platform', 'git.corp.example']);
+    expect(gitlabTenantKeys('not a url', 'a/b')).toEqual([]);
+  });
+
+  it('should use the most specific tenant and default its base URL to the project host', async () => {
+    const env = envWith({ 'git.corp.example': { token: 'host-token' }, 'git.corp.example/platform': { token: 'platform-token' } });
+
+    const result = await resolveGitlabTenant(payload, env);
+
+    expect(result.env).toMatchObject({ GITLAB_BASE_URL: 'https://git.corp.example', GITLAB_TOKEN: 'platform-token' });
+  });
+
+  it('should keep the global settings when no tenant matches or no registry is bound', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const env = envWith({});
+
+    expect((await resolveGitlabTenant(payload, env)).env).toBe(env);
+    expect(console.warn).toHaveBeenCalledWith('No GitLab tenant registered for git.corp.example; using GITLAB_BASE_URL (gitlab.com).');
+    const unbound = { GITLAB_TOKEN: 'global-token' } as Env;
+    expect((await resolveGitlabTenant(payload, unbound)).env).toBe(unbound);
+  });
+
+  it('should fail retryably when the registry cannot be read and permanently for tenants without a token', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = { GITLAB_TENANTS_KV: { get: vi.fn().mockRejectedValue(new Error('KV unavailable')) } } as unknown as Env;
+
+    expect(await resolveGitlabTenant(payload, broken)).toMatchObject({ success: false, isRetryable: true });
+    expect(await resolveGitlabTenant(payload, envWith({ 'git.corp.example': { baseUrl: 'https://git.corp.example' } })))
+      .toEqual({ success: false, error: 'GitLab tenant "git.corp.example" has no token.', isRetryable: false });
+  });
+});
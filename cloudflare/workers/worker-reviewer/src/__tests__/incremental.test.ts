@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { setupServer } from 'msw/node';
+import { HttpResponse, http } from 'msw';
+import { anchorIncrementalComments, prepareIncrementalReview, saveLastReview, shouldReviewIncrementally } from '../incremental';
+import type { Env, ReviewTask } from '../types';
+
+const server = setupServer();
+
+const gitlabTask = (overrides: Partial<ReviewTask> = {}): ReviewTask => ({
+  source: 'gitlab', eventId: 'evt', reviewType: 'general',
+  repository: { fullName: 'group/project', id: 7, defaultBranch: 'main' },
+  mergeRequest: { id: 1, iid: 4, projectId: 7, headSha: 'new-sha', diffUrl: '', notesUrl: '' },
+  filesToReview: [{ path: 'a.ts', diff: 'full a' }, { path: 'b.ts', diff: 'full b' }],
+  ...overrides,
+});
+
+const envWithLastReview = (lastReview: any): Env => ({
+  GITLAB_TOKEN: 'gl-token',
+  REVIEW_RESULTS_KV: { get: vi.fn().mockResolvedValue(lastReview), put: vi.fn() },
+} as any);
+
+describe('incremental reviews', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+  });
+  afterAll(() => server.close());
+
+  it('should only apply to pushes and respect INCREMENTAL_REVIEW=false', () => {
+    expect(shouldReviewIncrementally(gitlabTask(), {} as Env)).toBe(true);
+    expect(shouldReviewIncrementally(gitlabTask({ command: { type: 'review' } }), {} as Env)).toBe(false);
+    expect(shouldReviewIncrementally(gitlabTask(), { INCREMENTAL_REVIEW: 'false' } as Env)).toBe(false);
+  });
+
+  it('should compare the merge request head with the last reviewed commit', async () => {
+    server.use(http.get('https://gitlab.com/api/v4/projects/7/repository/compare', ({ request }) => {
+      const url = new URL(request.url);
+      expect([url.searchParams.get('from'), url.searchParams.get('to')]).toEqual(['old-sha', 'new-sha']);
+      return HttpResponse.json({ diffs: [{ new_path: 'b.ts', old_path: 'b.ts', diff: 'delta b' }] });
+    }));
+    const env = envWithLastReview({ headSha: 'old-sha', eventId: 'e', timestamp: 't', findings: [] });
+
+    const result = await prepareIncrementalReview(gitlabTask(), env);
+
+    expect(env.REVIEW_RESULTS_KV.get).toHaveBeenCalledWith('last-review:gitlab:group/project:4', 'json');
+    expect(result.lastReview?.headSha).toBe('old-sha');
+    expect(result.files).toEqual([{ path: 'b.ts', status: 'modified', previousPath: undefined, diff: 'delta b' }]);
+  });
+
+  it('should review the whole change on the first review, a re-delivered head or a failed comparison', async () => {
+    expect(await prepareIncrementalReview(gitlabTask(), envWithLastReview(null))).toEqual({ success: true });
+    expect(await prepareIncrementalReview(gitlabTask(), envWithLastReview({ headSha: 'new-sha', findings: [] }))).toEqual({ success: true });
+
+    server.use(http.get('https://gitlab.com/api/v4/projects/7/repository/compare', () => new HttpResponse('missing', { status: 404 })));
+    expect(await prepareIncrementalReview(gitlabTask(), envWithLastReview({ headSha: 'gone-sha', findings: [] }))).toEqual({ success: true });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('reviewing the whole change'));
+  });
+
+  it('should review the whole change when the GitHub head no longer descends from the last reviewed commit', async () => {
+    server.use(http.get('https://api.github.com/repos/o/r/compare/old-sha...new-sha', () => HttpResponse.json({ status: 'diverged', files: [] })));
+    const task = gitlabTask({
+      source: 'github', mergeRequest: undefined, repository: { fullName: 'o/r', id: 1, defaultBranch: 'main' },
+      pullRequest: { id: 1, number: 2, headSha: 'new-sha', diffUrl: '', commentsUrl: '' },
+    });
+
+    const result = await prepareIncrementalReview(task, { ...envWithLastReview({ headSha: 'old-sha', findings: [] }), GITHUB_TOKEN: 't' });
+
+    expect(result).toEqual({ success: true });
+  });
+
+  it('should hand back retryable comparison errors', async () => {
+    server.use(http.get('https://gitlab.com/api/v4/projects/7/repository/compare', () => new HttpResponse('busy', { status: 503 })));
+    const result = await prepareIncrementalReview(gitlabTask(), envWithLastReview({ headSha: 'old-sha', findings: [] }));
+    expect(result).toMatchObject({ success: false, isRetryable: true });
+  });
+
+  it('should not compare on hosts without a compare API', async () => {
+    const task = gitlabTask({
+      source: 'gitea', mergeRequest: undefined,
+      pullRequest: { id: 1, number: 2, headSha: 'new-sha', diffUrl: '', commentsUrl: '' },
+    });
+    const env = envWithLastReview({ headSha: 'old-sha', findings: [] });
+    expect(await prepareIncrementalReview(task, env)).toEqual({ success: true });
+    expect(env.REVIEW_RESULTS_KV.get).not.toHaveBeenCalled();
+  });
+
+  it('should position findings on the delta against the whole merge request diff', () => {
+    // Base "h a b c d e"; the last reviewed commit "a B1 c d x e"; the head "a B2 c d e".
+    const task = gitlabTask({
+      filesToReview: [{ path: 'a.ts', diff: '@@ -1,6 +1,5 @@\n a\n-B1\n+B2\n c\n d\n-x\n e' }],
+      incremental: { baseSha: 'old-sha', priorFindings: [], changeFiles: [{ path: 'a.ts', diff: '@@ -1,6 +1,5 @@\n-h\n a\n-b\n+B2\n c\n d\n e' }] },
+    });
+
+    const { anchored, rejected } = anchorIncrementalComments([
+      { filePath: 'a.ts', lineNumber: 2, side: 'RIGHT', comment: 'On the added line.' },
+      { filePath: 'a.ts', lineNumber: 3, side: 'RIGHT', comment: 'On a context line.' },
+      { filePath: 'a.ts', lineNumber: 2, side: 'LEFT', comment: 'On B1, deleted since the last review.' },
+      { filePath: 'a.ts', lineNumber: 5, side: 'LEFT', comment: 'On x, deleted since the last review.' },
+    ], task);
+
+    expect(anchored).toEqual([
+      { filePath: 'a.ts', lineNumber: 2, oldLineNumber: undefined, side: 'RIGHT', comment: 'On the added line.' },
+      // "c" is line 4 of the merge request base; it is line 3 of the last reviewed commit, which the delta starts from.
+      { filePath: 'a.ts', lineNumber: 3, oldLineNumber: 4, side: 'RIGHT', comment: 'On a context line.' },
+    ]);
+    expect(rejected).toEqual([
+      { filePath: 'a.ts', comment: 'On B1, deleted since the last review.' },
+      { filePath: 'a.ts', comment: 'On x, deleted since the last review.' },
+    ]);
+  });
+
+  it('should record new findings ahead of earlier ones and cap them', async () => {
+    const env = envWithLastReview(null);
+    const priorFindings = Array.from({ length: 60 }, (_, i) => ({ comment: `old ${i}` }));
+    const task = gitlabTask({ incremental: { baseSha: 'old-sha', priorFindings } });
+
+    await saveLastReview(task, {
+      taskId: 'evt', status: 'completed', repository: 'group/project', reviewType: 'general', timestamp: 'now',
+      comments: [{ filePath: 'b.ts', lineNumber: 3, comment: 'x'.repeat(300), severity: 'nit' }],
+    }, env);
+
+    const [key, value, options] = (env.REVIEW_RESULTS_KV.put as any).mock.calls[0];
+    const saved = JSON.parse(value);
+    expect(key).toBe('last-review:gitlab:group/project:4');
+    expect(options).toEqual({ expirationTtl: 90 * 24 * 3600 });
+    expect(saved).toMatchObject({ headSha: 'new-sha', eventId: 'evt', timestamp: 'now' });
+    expect(saved.findings).toHaveLength(50);
+    expect(saved.findings[0]).toEqual({ filePath: 'b.ts', lineNumber: 3, severity: 'nit', comment: `${'x'.repeat(200)}…` });
+    expect(saved.findings[1]).toEqual({ comment: 'old 0' });
+  });
+});
@@ -1,15 +1,25 @@
 import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll, type Mock } from 'vitest';
 import type { ExecutionContext, MessageBatch, Queue, KVNamespace, Message } from '@cloudflare/workers-types'; 
 import worker, { Env as ReviewerEnv, callLLM, postCommentsToVCS, LLMComment } from '../index';
+import { SUMMARY_MARKER } from '../summary-comment';
 import { setupServer } from 'msw/node';
 import { HttpResponse, http } from 'msw';
 
+// Posted findings end with the hidden fingerprint marker used to recognise them on re-review.
+const withMarker = (body: string) =>
+  expect.stringMatching(new RegExp(`^${body.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\n\n<!-- ai-review-finding:[0-9a-f]{16} line:[0-9a-f]{16} -->$`));
+
+// GitLab findings with a line start a diff discussion on the merge request of the postCommentsToVCS tests.
+const GITLAB_DISCUSSIONS_URL = 'https://gitlab.com/api/v4/projects/987/merge_requests/42/discussions';
+
 interface TestWebhookQueueMessage {
-  source: 'github' | 'gitlab'; 
+  source: 'github' | 'gitlab' | 'bitbucket' | 'gitea';
   eventId: string;
   originalPayload: any; 
   reviewType?: 'detailed' | 'general'; 
   filesToReview?: Array<{ path: string; content?: string; diff?: string }>;
+  command?: any;
+  reply?: any;
 }
 
 interface UnsupportedSourceWebhookQueueMessage extends Omit<TestWebhookQueueMessage, 'source'> {
@@ -33,7 +43,23 @@ const getMiniflareBindings = (): ReviewerEnv => ({
   LLM_MODEL_NAME: 'gpt-test-model', 
 });
 
-const server = setupServer();
+// Repositories under test have no .ai-review.yml, no earlier summary comment and no earlier findings unless a test overrides these handlers.
+const server = setupServer(
+  http.get('https://api.github.com/user', () => HttpResponse.json({ login: 'review-bot' })),
+  http.get('https://gitlab.com/api/v4/user', () => HttpResponse.json({ username: 'review-bot' })),
+  http.post('https://api.github.com/repos/:owner/:repo/statuses/:sha', () => HttpResponse.json({ id: 1 }, { status: 201 })),
+  http.post('https://gitlab.com/api/v4/projects/:projectId/statuses/:sha', () => HttpResponse.json({ id: 1 }, { status: 201 })),
+  http.get('https://api.github.com/repos/:owner/:repo/contents/.ai-review.yml', () => new HttpResponse(null, { status: 404 })),
+  http.get('https://gitlab.com/api/v4/projects/:projectId/repository/files/:path/raw', () => new HttpResponse(null, { status: 404 })),
+  http.get('https://api.github.com/repos/:owner/:repo/issues/:number/comments', () => HttpResponse.json([])),
+  http.post('https://api.github.com/repos/:owner/:repo/issues/:number/comments', () => HttpResponse.json({ id: 1 }, { status: 201 })),
+  http.get('https://gitlab.com/api/v4/projects/:projectId/merge_requests/:iid/notes', () => HttpResponse.json([])),
+  http.get('https://gitlab.com/api/v4/projects/:projectId/merge_requests/:iid/discussions', () => HttpResponse.json([])),
+  http.post('https://api.github.com/graphql', () => HttpResponse.json({ data: { repository: { pullRequest: { reviewThreads: { pageInfo: { hasNextPage: false }, nodes: [] } } } } })),
+  http.get('https://gitlab.com/api/v4/projects/:projectId/merge_requests/:iid', () => HttpResponse.json({
+    diff_refs: { base_sha: 'gitlab-base-sha', start_sha: 'gitlab-start-sha', head_sha: 'gitlab-test-sha' },
+  })),
+);
 
 describe('worker-reviewer', () => {
   let env: ReviewerEnv;
@@ -157,6 +183,7 @@ afterEach(() => {
     });
 
     it('should successfully process a GitHub message with files, call LLM, and post review', async () => {
+      let reviewBody: string | undefined;
       server.use(
         http.post(env.LLM_ENDPOINT, async () => {
           return HttpResponse.json({ 
@@ -167,8 +194,11 @@ afterEach(() => {
             }) } }],
           });
         }),
-        http.post(mockGithubMessageWithFiles.originalPayload.pull_request!.comments_url, async () => {
-          return HttpResponse.json({ id: 1, body: 'Mocked LLM review comment for GitHub.' }, { status: 201 });
+        http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/reviews', async ({ request }) => {
+          const body = await request.json() as any;
+          reviewBody = body.body;
+          expect(body.comments).toEqual([{ path: 'file.txt', line: 1, side: 'RIGHT', body: withMarker('Mocked LLM review comment for GitHub.') }]);
+          return HttpResponse.json({ id: 1 }, { status: 200 });
         })
       );
       
@@ -177,6 +207,8 @@ afterEach(() => {
       await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
 
       expect(mockMessage.ack).toHaveBeenCalled();
+      // The summary is only in the summary comment.
+      expect(reviewBody).toBe('AI code review');
       const expectedSuccessKey = `review:github:test-owner/test-repo:123:${mockGithubMessageWithFiles.eventId}`;
       expect(env.REVIEW_RESULTS_KV.put).toHaveBeenCalledWith(
         expectedSuccessKey, 
@@ -196,7 +228,7 @@ afterEach(() => {
       const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
       await expect(worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext)).rejects.toThrow(Error); 
       expect(mockMessage.ack).not.toHaveBeenCalled(); 
-      const expectedErrorKey = `review:${mockGithubMessageWithFiles.eventId}:${mockGithubMessageWithFiles.originalPayload.repository.full_name}:${mockGithubMessageWithFiles.originalPayload.pull_request.number}:${mockGithubMessageWithFiles.eventId}`;
+      const expectedErrorKey = `review:github:${mockGithubMessageWithFiles.originalPayload.repository.full_name}:${mockGithubMessageWithFiles.originalPayload.pull_request.number}:${mockGithubMessageWithFiles.eventId}`;
       expect(env.REVIEW_RESULTS_KV.put).toHaveBeenCalledWith(
         expectedErrorKey,
         expect.stringContaining('"status":"failed"'), 
@@ -215,18 +247,27 @@ afterEach(() => {
               }) } }],
             });
           }),
-          http.post(`https://gitlab.com/api/v4/projects/${mockGitlabMessageWithFileComment.originalPayload.project.id}/merge_requests/${mockGitlabMessageWithFileComment.originalPayload.object_attributes.iid}/notes`, async (req) => {
-            const requestBody = await req.request.json() as any;
-            expect(requestBody.position).toBeDefined(); 
+          http.post(`https://gitlab.com/api/v4/projects/${mockGitlabMessageWithFileComment.originalPayload.project.id}/merge_requests/${mockGitlabMessageWithFileComment.originalPayload.object_attributes.iid}/:endpoint`, async ({ request, params }) => {
+            posts.push({ endpoint: params.endpoint as string, body: await request.json() });
             return HttpResponse.json({ id: 1, body: 'Mocked LLM review comment for GitLab.' }, { status: 201 });
           })
         );
+        const posts: { endpoint: string; body: any }[] = [];
         
         const mockMessage = createMockMessage('gl-file-comment', mockGitlabMessageWithFileComment);
         const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
         await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
   
         expect(mockMessage.ack).toHaveBeenCalled();
+        // The finding starts a diff discussion on its line; only the summary is a plain note.
+        expect(posts.map(p => p.endpoint)).toEqual(['discussions', 'notes']);
+        expect(posts[0].body.body).toContain('Mocked LLM review comment for GitLab.');
+        expect(posts[0].body.position).toEqual(expect.objectContaining({
+          base_sha: 'gitlab-base-sha', start_sha: 'gitlab-start-sha', head_sha: 'gitlab-test-sha',
+          old_path: 'main.py', new_path: 'main.py', new_line: 1,
+        }));
+        expect(posts[1].body.body).toContain(SUMMARY_MARKER);
+        expect(posts[1].body.position).toBeUndefined();
         const expectedSuccessKey = `review:gitlab:test-group/test-project:42:${mockGitlabMessageWithFileComment.eventId}`;
         expect(env.REVIEW_RESULTS_KV.put).toHaveBeenCalledWith(
           expectedSuccessKey, 
@@ -237,6 +278,9 @@ afterEach(() => {
 
     it('should successfully process a GitLab message for MR-level comment (no line number)', async () => {
         server.use(
+          http.get(`https://gitlab.com/api/v4/projects/${mockGitlabMessageForMRComment.originalPayload.project.id}/merge_requests/${mockGitlabMessageForMRComment.originalPayload.object_attributes.iid}/diffs`, () => {
+            return HttpResponse.json([]);
+          }),
           http.post(env.LLM_ENDPOINT, async () => {
             return HttpResponse.json({ 
               choices: [{ message: { content: JSON.stringify({ 
@@ -278,7 +322,7 @@ afterEach(() => {
               }) } }],
             });
           }),
-          http.post(mockGithubMessageWithFiles.originalPayload.pull_request!.comments_url, async () => { 
+          http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/reviews', async () => { 
             return HttpResponse.json({ message: 'GitHub API error' }, { status: 500 });
           })
         );
@@ -307,7 +351,7 @@ afterEach(() => {
               }) } }],
             });
           }),
-          http.post(`https://gitlab.com/api/v4/projects/${mockGitlabMessageWithFileComment.originalPayload.project.id}/merge_requests/${mockGitlabMessageWithFileComment.originalPayload.object_attributes.iid}/notes`, async () => { 
+          http.post(`https://gitlab.com/api/v4/projects/${mockGitlabMessageWithFileComment.originalPayload.project.id}/merge_requests/${mockGitlabMessageWithFileComment.originalPayload.object_attributes.iid}/:endpoint`, async () => { 
             return HttpResponse.json({ message: 'GitLab API error' }, { status: 500 });
           })
         );
@@ -348,6 +392,9 @@ afterEach(() => {
 
     it('should process message with no filesToReview, log warning, and call LLM for general review', async () => {
         server.use(
+          http.get('https://api.github.com/repos/test-owner/test-repo/pulls/123/files', () => {
+            return HttpResponse.json([]);
+          }),
           http.post(env.LLM_ENDPOINT, async (req) => {
             const body = await req.request.json() as any;
             expect(body.messages[1].content).toContain("No specific file diffs provided. Please provide a general review.");
@@ -377,6 +424,792 @@ afterEach(() => {
         expect(putCallArgs[1]).toContain('"summary":"General review complete, no specific files."');
     });
 
+    it('should fetch the pull request files when the message carries none and include them in the prompt', async () => {
+        server.use(
+          http.get('https://api.github.com/repos/test-owner/test-repo/pulls/123/files', () => {
+            return HttpResponse.json([
+              { filename: 'src/app.ts', status: 'modified', patch: '@@ -1 +1 @@\n-const a = 1;\n+const a = 2;' },
+            ]);
+          }),
+          http.post(env.LLM_ENDPOINT, async (req) => {
+            const body = await req.request.json() as any;
+            expect(body.messages[1].content).toContain('File: src/app.ts\nStatus: modified');
+            expect(body.messages[1].content).toContain('+const a = 2;');
+            return HttpResponse.json({
+              choices: [{ message: { content: JSON.stringify({ success: true, comments: [], summary: 'Reviewed fetched files.' }) } }],
+            });
+          })
+        );
+
+        const mockMessage = createMockMessage('gh-fetch-files', { ...mockGithubMessageBodyBase, eventId: 'gh_delivery_fetch_files' });
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        expect(console.warn).not.toHaveBeenCalledWith(expect.stringContaining('has no filesToReview'));
+        const putCallArgs = (env.REVIEW_RESULTS_KV.put as Mock).mock.calls[0];
+        expect(putCallArgs[1]).toContain('"summary":"Reviewed fetched files."');
+    });
+
+    it('should review only the files changed since the last reviewed commit and carry its findings forward', async () => {
+        const lastReview = { headSha: 'old-sha', eventId: 'gh_old', timestamp: '2024-01-01T00:00:00.000Z', findings: [{ filePath: 'src/app.ts', lineNumber: 1, severity: 'major', comment: 'Magic number.' }] };
+        (env.REVIEW_RESULTS_KV.get as Mock).mockImplementation(async (key: string) => key === 'last-review:github:test-owner/test-repo:123' ? lastReview : null);
+        let prompt = '';
+        server.use(
+          http.get('https://api.github.com/repos/test-owner/test-repo/pulls/123/files', () => HttpResponse.json([
+            { filename: 'src/app.ts', status: 'modified', patch: '@@ -1 +1 @@\n-const a = 1;\n+const a = 2;' },
+            { filename: 'src/util.ts', status: 'modified', patch: '@@ -1 +1,2 @@\n const b = 1;\n+const c = 3;' },
+          ])),
+          http.get('https://api.github.com/repos/test-owner/test-repo/compare/old-sha...test-sha', () => HttpResponse.json({
+            status: 'ahead',
+            files: [
+              { filename: 'src/util.ts', status: 'modified', patch: '@@ -1 +1,2 @@\n const b = 1;\n+const c = 3;' },
+              { filename: 'README.md', status: 'modified', patch: '@@ -1 +1 @@\n-a\n+b' },
+            ],
+          })),
+          http.post(env.LLM_ENDPOINT, async ({ request }) => {
+            prompt = ((await request.json()) as any).messages[1].content;
+            return HttpResponse.json({ choices: [{ message: { content: JSON.stringify({
+              success: true, comments: [{ filePath: 'src/util.ts', lineNumber: 2, comment: 'Unused constant.', severity: 'minor' }], summary: 'One new issue.',
+            }) } }] });
+          }),
+          http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/reviews', () => HttpResponse.json({ id: 1 }))
+        );
+
+        const mockMessage = createMockMessage('gh-incremental', { ...mockGithubMessageBodyBase, eventId: 'gh_delivery_incremental' });
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        expect(prompt).toContain('File: src/util.ts');
+        expect(prompt).not.toContain('File: src/app.ts');
+        expect(prompt).not.toContain('README.md');
+        expect(prompt).toContain('only contain what changed since commit old-sha');
+        expect(prompt).toContain('- `src/app.ts:1` [major] Magic number.');
+        const [key, value] = (env.REVIEW_RESULTS_KV.put as Mock).mock.calls[1];
+        expect(key).toBe('last-review:github:test-owner/test-repo:123');
+        expect(JSON.parse(value)).toMatchObject({
+          headSha: 'test-sha', eventId: 'gh_delivery_incremental',
+          findings: [{ filePath: 'src/util.ts', lineNumber: 2, severity: 'minor', comment: 'Unused constant.' }, lastReview.findings[0]],
+        });
+    });
+
+    it('should position incremental findings against the pull request diff and fold those on lines deleted since the last review into the summary', async () => {
+        (env.REVIEW_RESULTS_KV.get as Mock).mockImplementation(async (key: string) => key === 'last-review:github:test-owner/test-repo:123' ? { headSha: 'old-sha', findings: [] } : null);
+        let review: any;
+        let summaryComment = '';
+        server.use(
+          // The base has "header" and "const b = 1;"; the last reviewed commit added "const old = 0;", the head replaced it.
+          http.get('https://api.github.com/repos/test-owner/test-repo/pulls/123/files', () => HttpResponse.json([
+            { filename: 'src/util.ts', status: 'modified', patch: '@@ -1,2 +1,2 @@\n-header\n const b = 1;\n+const c = 3;' },
+          ])),
+          http.get('https://api.github.com/repos/test-owner/test-repo/compare/old-sha...test-sha', () => HttpResponse.json({
+            status: 'ahead',
+            files: [{ filename: 'src/util.ts', status: 'modified', patch: '@@ -1,2 +1,2 @@\n const b = 1;\n-const old = 0;\n+const c = 3;' }],
+          })),
+          http.post(env.LLM_ENDPOINT, () => HttpResponse.json({ choices: [{ message: { content: JSON.stringify({
+            success: true, summary: 'Two notes.', comments: [
+              { filePath: 'src/util.ts', lineNumber: 1, comment: 'Context line.' },
+              { filePath: 'src/util.ts', position: 2, comment: 'Deleted since the last review.' },
+            ],
+          }) } }] })),
+          http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/reviews', async ({ request }) => {
+            review = await request.json();
+            return HttpResponse.json({ id: 1 });
+          }),
+          http.post('https://api.github.com/repos/test-owner/test-repo/issues/123/comments', async ({ request }) => {
+            summaryComment = ((await request.json()) as any).body;
+            return HttpResponse.json({ id: 1 }, { status: 201 });
+          })
+        );
+
+        const mockMessage = createMockMessage('gh-incremental-positions', { ...mockGithubMessageBodyBase, eventId: 'gh_delivery_incremental_positions' });
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        expect(review.comments).toEqual([{ path: 'src/util.ts', line: 1, side: 'RIGHT', body: withMarker('Context line.') }]);
+        expect(summaryComment).toContain('- `src/util.ts`: Deleted since the last review.');
+        expect(review.body).toBe('AI code review');
+    });
+
+    it('should skip the LLM when no file of the pull request changed since the last review and move the reviewed commit on', async () => {
+        (env.REVIEW_RESULTS_KV.get as Mock).mockResolvedValue({ headSha: 'old-sha', eventId: 'gh_old', timestamp: '2024-01-01T00:00:00.000Z', findings: [] });
+        const llmCalled = vi.fn();
+        server.use(
+          http.get('https://api.github.com/repos/test-owner/test-repo/pulls/123/files', () => HttpResponse.json([
+            { filename: 'src/app.ts', status: 'modified', patch: '@@ -1 +1 @@\n-const a = 1;\n+const a = 2;' },
+          ])),
+          http.get('https://api.github.com/repos/test-owner/test-repo/compare/old-sha...test-sha', () => HttpResponse.json({
+            status: 'ahead', files: [{ filename: 'docs/merged-from-main.md', status: 'added', patch: '@@ -0,0 +1 @@\n+x' }],
+          })),
+          http.post(env.LLM_ENDPOINT, () => { llmCalled(); return HttpResponse.json({}); })
+        );
+
+        const mockMessage = createMockMessage('gh-incremental-empty', { ...mockGithubMessageBodyBase, eventId: 'gh_delivery_incremental_empty' });
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(llmCalled).not.toHaveBeenCalled();
+        expect(mockMessage.ack).toHaveBeenCalled();
+        const puts = (env.REVIEW_RESULTS_KV.put as Mock).mock.calls;
+        expect(JSON.parse(puts[0][1])).toMatchObject({ status: 'skipped', summary: 'No reviewable changes since the last reviewed commit old-sha.' });
+        expect(puts[1][0]).toBe('last-review:github:test-owner/test-repo:123');
+        expect(JSON.parse(puts[1][1]).headSha).toBe('test-sha');
+    });
+
+    it('should retry the message when fetching changed files fails with a server error', async () => {
+        server.use(
+          http.get('https://api.github.com/repos/test-owner/test-repo/pulls/123/files', () => {
+            return HttpResponse.json({ message: 'Server Error' }, { status: 502 });
+          })
+        );
+
+        const mockMessage = createMockMessage('gh-fetch-files-fail', { ...mockGithubMessageBodyBase, eventId: 'gh_delivery_fetch_files_fail' });
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await expect(worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext)).rejects.toThrow('Changed files API error 502');
+
+        expect(mockMessage.ack).not.toHaveBeenCalled();
+        expect(env.REVIEW_RESULTS_KV.put).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.stringContaining('"status":"failed"'),
+          expect.objectContaining({ metadata: { status: "failed", timestamp: expect.any(String) } })
+        );
+    });
+
+    it('should skip the review and store a "skipped" outcome when .ai-review.yml disables reviews', async () => {
+        const fetchSpy = vi.spyOn(globalThis, 'fetch');
+        server.use(
+          http.get('https://api.github.com/repos/test-owner/test-repo/contents/.ai-review.yml', ({ request }) => {
+            expect(new URL(request.url).searchParams.get('ref')).toBe('test-sha');
+            return HttpResponse.text('enabled: false\n');
+          })
+        );
+
+        const mockMessage = createMockMessage('gh-config-disabled', mockGithubMessageWithFiles);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        // Only the config file is read; the other requests report the commit status.
+        expect(fetchSpy.mock.calls.map(call => String(call[0])).filter(url => !url.includes('/statuses/'))).toHaveLength(1);
+        expect(env.REVIEW_RESULTS_KV.put).toHaveBeenCalledWith(
+          `review:github:test-owner/test-repo:123:${mockGithubMessageWithFiles.eventId}`,
+          expect.stringContaining('"status":"skipped"'),
+          expect.objectContaining({ metadata: { status: "skipped", timestamp: expect.any(String) } })
+        );
+    });
+
+    it('should store an "invalid_config" outcome with the validation errors when .ai-review.yml is malformed', async () => {
+        server.use(
+          http.get('https://gitlab.com/api/v4/projects/789/repository/files/.ai-review.yml/raw', () => {
+            return HttpResponse.text('review_type: thorough\nmax_comments: -1\n');
+          })
+        );
+
+        const mockMessage = createMockMessage('gl-config-invalid', mockGitlabMessageWithFileComment);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        const putCallArgs = (env.REVIEW_RESULTS_KV.put as Mock).mock.calls[0];
+        expect(putCallArgs[0]).toBe(`review:gitlab:test-group/test-project:42:${mockGitlabMessageWithFileComment.eventId}`);
+        const storedOutcome = JSON.parse(putCallArgs[1]);
+        expect(storedOutcome.status).toBe('invalid_config');
+        expect(storedOutcome.error).toBe('Invalid .ai-review.yml: "review_type" must be "detailed" or "general"; "max_comments" must be a positive integer.');
+    });
+
+    it('should apply .ai-review.yml path filters, review type, language, instructions and comment limit', async () => {
+        server.use(
+          http.get('https://api.github.com/repos/test-owner/test-repo/contents/.ai-review.yml', () => {
+            return HttpResponse.text([
+              'review_type: detailed',
+              'exclude: ["docs/**"]',
+              'language: Simplified Chinese',
+              'instructions: Pay attention to SQL injection.',
+              'max_comments: 1',
+            ].join('\n'));
+          }),
+          http.get('https://api.github.com/repos/test-owner/test-repo/pulls/123/files', () => {
+            return HttpResponse.json([
+              { filename: 'src/db.ts', status: 'modified', patch: '@@ -1 +1 @@\n-a\n+b' },
+              { filename: 'docs/guide.md', status: 'modified', patch: '@@ -1 +1 @@\n-c\n+d' },
+            ]);
+          }),
+          http.post(env.LLM_ENDPOINT, async (req) => {
+            const prompt = (await req.request.json() as any).messages[1].content;
+            expect(prompt).toContain('File: src/db.ts');
+            expect(prompt).not.toContain('docs/guide.md');
+            expect(prompt).toContain('Focus on detailed, line-by-line feedback.');
+            expect(prompt).toContain('Write all comments and the summary in Simplified Chinese.');
+            expect(prompt).toContain('Pay attention to SQL injection.');
+            return HttpResponse.json({
+              choices: [{ message: { content: JSON.stringify({
+                  success: true,
+                  comments: [{ comment: 'First.' }, { comment: 'Second.' }],
+                  summary: 'Configured review.'
+              }) } }],
+            });
+          }),
+          http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/reviews', () => {
+            return HttpResponse.json({ id: 1 }, { status: 201 });
+          })
+        );
+
+        const { reviewType, ...messageWithoutReviewType } = mockGithubMessageBodyBase;
+        const mockMessage = createMockMessage('gh-config-applied', { ...messageWithoutReviewType, eventId: 'gh_delivery_config_applied' });
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        const storedOutcome = JSON.parse((env.REVIEW_RESULTS_KV.put as Mock).mock.calls[0][1]);
+        expect(storedOutcome.status).toBe('completed');
+        expect(storedOutcome.reviewType).toBe('detailed');
+        expect(storedOutcome.comments).toEqual([{ comment: 'First.', fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/) }]);
+    });
+
+    it('should create a sticky summary comment with the head SHA, file count and finding counts', async () => {
+        let summaryBody = '';
+        server.use(
+          http.post(env.LLM_ENDPOINT, async () => {
+            return HttpResponse.json({
+              choices: [{ message: { content: JSON.stringify({
+                  success: true,
+                  comments: [{ filePath: 'file.txt', lineNumber: 1, comment: 'Inline.' }, { comment: 'General.' }],
+                  summary: 'Looks mostly fine.'
+              }) } }],
+            });
+          }),
+          http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/reviews', () => HttpResponse.json({ id: 1 })),
+          http.post('https://api.github.com/repos/test-owner/test-repo/issues/123/comments', async ({ request }) => {
+            summaryBody = ((await request.json()) as any).body;
+            return HttpResponse.json({ id: 55 }, { status: 201 });
+          })
+        );
+
+        const mockMessage = createMockMessage('gh-summary-create', mockGithubMessageWithFiles);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        expect(summaryBody.startsWith(SUMMARY_MARKER)).toBe(true);
+        expect(summaryBody).toContain('**Reviewed commit:** `test-sha`');
+        expect(summaryBody).toContain('**Files reviewed:** 1');
+        expect(summaryBody).toContain('**Findings:** 2 (1 inline, 1 general)');
+        expect(summaryBody).toContain('Looks mostly fine.');
+    });
+
+    it('should drop findings below min_severity and post labelled findings with suggestion blocks', async () => {
+        let review: any;
+        let summaryBody = '';
+        server.use(
+          http.get('https://api.github.com/repos/test-owner/test-repo/contents/.ai-review.yml', () => HttpResponse.text('min_severity: minor')),
+          http.post(env.LLM_ENDPOINT, async ({ request }) => {
+            const prompt = ((await request.json()) as any).messages[1].content;
+            expect(prompt).toContain("'severity' (blocker, major, minor, nit)");
+            expect(prompt).toContain('Only report findings of severity minor or above.');
+            return HttpResponse.json({
+              choices: [{ message: { content: JSON.stringify({
+                  success: true,
+                  comments: [
+                    { filePath: 'file.txt', lineNumber: 1, comment: 'Name is unclear.', severity: 'nit', category: 'style' },
+                    { filePath: 'file.txt', lineNumber: 1, comment: 'Off by one.', severity: 'major', category: 'bug', confidence: 0.9, suggestion: 'for (i = 0; i < n; i++)' },
+                  ],
+                  summary: 'One bug.'
+              }) } }],
+            });
+          }),
+          http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/reviews', async ({ request }) => {
+            review = await request.json();
+            return HttpResponse.json({ id: 1 });
+          }),
+          http.post('https://api.github.com/repos/test-owner/test-repo/issues/123/comments', async ({ request }) => {
+            summaryBody = ((await request.json()) as any).body;
+            return HttpResponse.json({ id: 55 }, { status: 201 });
+          })
+        );
+
+        const mockMessage = createMockMessage('gh-findings', mockGithubMessageWithFiles);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        expect(review.comments).toEqual([{
+          path: 'file.txt', line: 1, side: 'RIGHT',
+          body: withMarker('**[🔴 major · bug]** Off by one.\n\n```suggestion\nfor (i = 0; i < n; i++)\n```'),
+        }]);
+        expect(summaryBody).toContain('**By severity:** 1 major');
+        const storedOutcome = JSON.parse((env.REVIEW_RESULTS_KV.put as Mock).mock.calls[0][1]);
+        expect(storedOutcome.comments[0]).toMatchObject({ severity: 'major', category: 'bug', confidence: 0.9 });
+    });
+
+    it('should use the GitHub App installation token for webhooks sent by an installation', async () => {
+        env.GITHUB_APP_ID = '1234';
+        env.GITHUB_APP_PRIVATE_KEY = 'unused while a cached token is valid';
+        (env.REVIEW_RESULTS_KV.get as Mock).mockImplementation(async (key: string) =>
+          key === 'github-app-token:555' ? { token: 'ghs_installation', expiresAt: new Date(Date.now() + 3600000).toISOString(), botLogin: 'review-bot[bot]' } : null);
+        const authHeaders: string[] = [];
+        server.use(
+          http.post(env.LLM_ENDPOINT, () => HttpResponse.json({
+            choices: [{ message: { content: JSON.stringify({ success: true, comments: [{ filePath: 'file.txt', lineNumber: 1, comment: 'Inline.' }], summary: 'Done.' }) } }],
+          })),
+          http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/reviews', ({ request }) => {
+            authHeaders.push(request.headers.get('Authorization')!);
+            return HttpResponse.json({ id: 1 });
+          })
+        );
+
+        const installationMessage = { ...mockGithubMessageWithFiles, originalPayload: { ...mockGithubMessageWithFiles.originalPayload, installation: { id: 555 } } };
+        const mockMessage = createMockMessage('gh-app-install', installationMessage);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        expect(authHeaders).toEqual(['Bearer ghs_installation']);
+    });
+
+    it('should send GitLab API calls to the tenant registered for the project host', async () => {
+        env.GITLAB_TENANTS_KV = { get: vi.fn(async (key: string) => key === 'git.corp.example' ? { token: 'corp-token' } : null) } as any;
+        const tokens: string[] = [];
+        const record = ({ request }: { request: Request }) => {
+          tokens.push(request.headers.get('Authorization')!);
+          return HttpResponse.json({ id: 1 }, { status: 201 });
+        };
+        server.use(
+          http.get('https://git.corp.example/api/v4/projects/789/repository/files/:path/raw', () => new HttpResponse(null, { status: 404 })),
+          http.get('https://git.corp.example/api/v4/projects/789/merge_requests/42', () => HttpResponse.json({ diff_refs: { base_sha: 'b', start_sha: 's', head_sha: 'gitlab-test-sha' } })),
+          http.post('https://git.corp.example/api/v4/projects/789/statuses/gitlab-test-sha', record),
+          http.get('https://git.corp.example/api/v4/user', ({ request }) => {
+            expect(request.headers.get('Authorization')).toBe('Bearer corp-token');
+            return HttpResponse.json({ username: 'corp-bot' });
+          }),
+          http.get('https://git.corp.example/api/v4/projects/789/merge_requests/42/notes', () => HttpResponse.json([])),
+          http.post('https://git.corp.example/api/v4/projects/789/merge_requests/42/notes', record),
+          http.get('https://git.corp.example/api/v4/projects/789/merge_requests/42/discussions', () => HttpResponse.json([])),
+          http.post('https://git.corp.example/api/v4/projects/789/merge_requests/42/discussions', record),
+          http.post(env.LLM_ENDPOINT, () => HttpResponse.json({
+            choices: [{ message: { content: JSON.stringify({ success: true, comments: [{ filePath: 'main.py', lineNumber: 1, comment: 'Inline.' }], summary: 'Done.' }) } }],
+          }))
+        );
+
+        const corpMessage = {
+          ...mockGitlabMessageWithFileComment,
+          originalPayload: { ...mockGitlabMessageWithFileComment.originalPayload, project: { ...mockGitlabMessageWithFileComment.originalPayload.project, web_url: 'https://git.corp.example/test-group/test-project' } },
+        };
+        const mockMessage = createMockMessage('gl-tenant', corpMessage);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        // Pending status, the inline discussion, the summary note and the final status.
+        expect(tokens).toEqual(Array(4).fill('Bearer corp-token'));
+    });
+
+    it('should mark the head commit pending, then report the result as a commit status', async () => {
+        const states: any[] = [];
+        server.use(
+          http.post('https://api.github.com/repos/test-owner/test-repo/statuses/test-sha', async ({ request }) => {
+            states.push(await request.json());
+            return HttpResponse.json({ id: 1 }, { status: 201 });
+          }),
+          http.post(env.LLM_ENDPOINT, () => HttpResponse.json({
+            choices: [{ message: { content: JSON.stringify({ success: true, comments: [], summary: 'Nothing to add.' }) } }],
+          }))
+        );
+
+        const mockMessage = createMockMessage('gh-status', mockGithubMessageWithFiles);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(states).toEqual([
+          { state: 'pending', description: 'Review in progress.', context: 'AI Code Review' },
+          { state: 'success', description: 'No findings.', context: 'AI Code Review' },
+        ]);
+    });
+
+    it('should fail the commit status when findings reach fail_on_severity', async () => {
+        const states: string[] = [];
+        server.use(
+          http.get('https://gitlab.com/api/v4/projects/:projectId/repository/files/:path/raw', () => HttpResponse.text('fail_on_severity: blocker')),
+          http.post('https://gitlab.com/api/v4/projects/789/statuses/gitlab-test-sha', async ({ request }) => {
+            const body: any = await request.json();
+            states.push(`${body.state}: ${body.description}`);
+            return HttpResponse.json({ id: 1 }, { status: 201 });
+          }),
+          http.post('https://gitlab.com/api/v4/projects/789/merge_requests/42/:endpoint', () => HttpResponse.json({ id: 1 }, { status: 201 })),
+          http.post(env.LLM_ENDPOINT, () => HttpResponse.json({
+            choices: [{ message: { content: JSON.stringify({
+              success: true,
+              comments: [{ filePath: 'main.py', lineNumber: 1, comment: 'Leaks the token.', severity: 'blocker', category: 'security' }],
+              summary: 'Blocking issue.',
+            }) } }],
+          }))
+        );
+
+        const mockMessage = createMockMessage('gl-status-gate', mockGitlabMessageWithFileComment);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(states).toEqual(['running: Review in progress.', 'failed: 1 finding(s) at or above blocker severity (1 blocker)']);
+    });
+
+    it('should leave the commit status pending when the task will be retried', async () => {
+        const states: string[] = [];
+        server.use(
+          http.post('https://api.github.com/repos/test-owner/test-repo/statuses/test-sha', async ({ request }) => {
+            states.push(((await request.json()) as any).state);
+            return HttpResponse.json({ id: 1 }, { status: 201 });
+          }),
+          http.post(env.LLM_ENDPOINT, () => HttpResponse.json({ error: 'overloaded' }, { status: 503 }))
+        );
+
+        const mockMessage = createMockMessage('gh-status-retry', mockGithubMessageWithFiles);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await expect(worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext)).rejects.toThrow();
+
+        expect(states).toEqual(['pending']);
+    });
+
+    it('should fail the commit status when the last retry fails', async () => {
+        const states: string[] = [];
+        server.use(
+          http.post('https://api.github.com/repos/test-owner/test-repo/statuses/test-sha', async ({ request }) => {
+            states.push(((await request.json()) as any).state);
+            return HttpResponse.json({ id: 1 }, { status: 201 });
+          }),
+          http.post(env.LLM_ENDPOINT, () => HttpResponse.json({ error: 'overloaded' }, { status: 503 }))
+        );
+
+        const mockMessage = { ...createMockMessage('gh-status-last-retry', mockGithubMessageWithFiles), attempts: 4 };
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await expect(worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext)).rejects.toThrow();
+
+        expect(states).toEqual(['pending', 'failure']);
+    });
+
+    it('should skip a task whose head commit was superseded without calling the LLM or setting a status', async () => {
+        const llmCalled = vi.fn();
+        server.use(http.post(env.LLM_ENDPOINT, () => { llmCalled(); return HttpResponse.json({}); }));
+        env.PROCESSED_EVENTS_KV = { get: vi.fn().mockResolvedValue('newer-sha') } as any;
+
+        const mockMessage = createMockMessage('gh-superseded', mockGithubMessageWithFiles);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(env.PROCESSED_EVENTS_KV!.get).toHaveBeenCalledWith('latest-head:github:test-owner/test-repo:123');
+        expect(llmCalled).not.toHaveBeenCalled();
+        expect(mockMessage.ack).toHaveBeenCalled();
+        const [key, value, options] = (env.REVIEW_RESULTS_KV.put as Mock).mock.calls[0];
+        expect(key).toBe(`review:github:test-owner/test-repo:123:${mockGithubMessageWithFiles.eventId}`);
+        expect(JSON.parse(value)).toMatchObject({ status: 'superseded', summary: 'Superseded by newer commit newer-sha.' });
+        expect(options).toEqual({ metadata: { status: 'superseded', timestamp: expect.any(String) } });
+    });
+
+    it('should not post findings when a newer commit is pushed while the LLM is reviewing', async () => {
+        const states: any[] = [];
+        server.use(
+          http.post('https://api.github.com/repos/test-owner/test-repo/statuses/test-sha', async ({ request }) => {
+            const body: any = await request.json();
+            states.push(`${body.state}: ${body.description}`);
+            return HttpResponse.json({ id: 1 }, { status: 201 });
+          }),
+          http.post(env.LLM_ENDPOINT, () => HttpResponse.json({
+            choices: [{ message: { content: JSON.stringify({
+              success: true, comments: [{ filePath: 'file.txt', lineNumber: 1, comment: 'Stale finding.' }], summary: 'Stale review.',
+            }) } }],
+          }))
+        );
+        env.PROCESSED_EVENTS_KV = { get: vi.fn().mockResolvedValueOnce('test-sha').mockResolvedValue('newer-sha') } as any;
+
+        const mockMessage = createMockMessage('gh-superseded-late', mockGithubMessageWithFiles);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        const stored = JSON.parse((env.REVIEW_RESULTS_KV.put as Mock).mock.calls[0][1]);
+        expect(stored.status).toBe('superseded');
+        expect(stored.comments).toEqual([expect.objectContaining({ comment: 'Stale finding.' })]);
+        expect(states).toEqual(['pending: Review in progress.', 'success: Superseded by newer commit newer-sha.']);
+    });
+
+    it('should edit the bot\'s existing summary comment instead of posting a duplicate on re-review', async () => {
+        const createSpy = vi.fn();
+        let updatedBody = '';
+        server.use(
+          http.post(env.LLM_ENDPOINT, async () => {
+            return HttpResponse.json({ choices: [{ message: { content: JSON.stringify({ success: true, comments: [], summary: 'Second pass.' }) } }] });
+          }),
+          http.get('https://gitlab.com/api/v4/projects/789/merge_requests/42/notes', () => {
+            return HttpResponse.json([
+              { id: 6, body: `Quoting the bot:\n${SUMMARY_MARKER}\nold summary`, author: { username: 'alice' } },
+              { id: 7, body: 'Human note', author: { username: 'alice' } },
+              { id: 8, body: `${SUMMARY_MARKER}\nold summary`, author: { username: 'review-bot' } },
+            ]);
+          }),
+          http.post('https://gitlab.com/api/v4/projects/789/merge_requests/42/notes', () => {
+            createSpy();
+            return HttpResponse.json({ id: 9 }, { status: 201 });
+          }),
+          http.put('https://gitlab.com/api/v4/projects/789/merge_requests/42/notes/8', async ({ request }) => {
+            updatedBody = ((await request.json()) as any).body;
+            return HttpResponse.json({ id: 8 });
+          })
+        );
+
+        const mockMessage = createMockMessage('gl-summary-update', mockGitlabMessageWithFileComment);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        expect(createSpy).not.toHaveBeenCalled();
+        expect(updatedBody).toContain('**Reviewed commit:** `gitlab-test-`');
+        expect(updatedBody).toContain('Second pass.');
+    });
+
+    it('should anchor comments to the diff and fold unplaceable ones into the summary', async () => {
+        let reviewRequest: any;
+        let summaryBody = '';
+        server.use(
+          http.post(env.LLM_ENDPOINT, async () => {
+            return HttpResponse.json({
+              choices: [{ message: { content: JSON.stringify({
+                  success: true,
+                  comments: [
+                    { filePath: 'file.txt', lineNumber: 1, comment: 'On the changed line.' },
+                    { filePath: 'file.txt', lineNumber: 40, comment: 'Far outside the hunk.' },
+                  ],
+                  summary: 'Summary text.'
+              }) } }],
+            });
+          }),
+          http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/reviews', async ({ request }) => {
+            reviewRequest = await request.json();
+            return HttpResponse.json({ id: 1 });
+          }),
+          http.post('https://api.github.com/repos/test-owner/test-repo/issues/123/comments', async ({ request }) => {
+            summaryBody = ((await request.json()) as any).body;
+            return HttpResponse.json({ id: 2 }, { status: 201 });
+          })
+        );
+
+        const mockMessage = createMockMessage('gh-anchor', mockGithubMessageWithFiles);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        expect(reviewRequest.comments).toEqual([{ path: 'file.txt', line: 1, side: 'RIGHT', body: withMarker('On the changed line.') }]);
+        expect(summaryBody).toContain('**Comments outside the changed lines:**\n- `file.txt:40`: Far outside the hunk.');
+        const storedOutcome = JSON.parse((env.REVIEW_RESULTS_KV.put as Mock).mock.calls[0][1]);
+        expect(storedOutcome.rejectedComments).toEqual([{ filePath: 'file.txt', lineNumber: 40, comment: 'Far outside the hunk.' }]);
+    });
+
+    it('should look up the pull request head when a "/review" comment triggers the task', async () => {
+        let reviewRequest: any;
+        server.use(
+          http.get('https://api.github.com/repos/test-owner/test-repo/pulls/123', () => {
+            return HttpResponse.json({ id: 67890, number: 123, head: { sha: 'comment-head-sha' }, diff_url: 'd', comments_url: 'c' });
+          }),
+          http.post(env.LLM_ENDPOINT, async () => {
+            return HttpResponse.json({ choices: [{ message: { content: JSON.stringify({ success: true, comments: [{ filePath: 'file.txt', lineNumber: 1, comment: 'Again.' }], summary: 'Re-review.' }) } }] });
+          }),
+          http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/reviews', async ({ request }) => {
+            reviewRequest = await request.json();
+            return HttpResponse.json({ id: 1 });
+          })
+        );
+        const commentMessage: TestWebhookQueueMessage = {
+          source: 'github',
+          eventId: 'gh_delivery_review_command',
+          originalPayload: {
+            action: 'created',
+            repository: mockGithubMessageBodyBase.originalPayload.repository,
+            issue: { id: 555, number: 123, pull_request: { url: 'https://api.github.com/repos/test-owner/test-repo/pulls/123' } },
+            comment: { id: 9, body: '/review detailed' },
+          },
+          reviewType: 'detailed',
+          command: { type: 'review', reviewType: 'detailed' },
+          filesToReview: mockGithubMessageWithFiles.filesToReview,
+        };
+
+        const mockMessage = createMockMessage('gh-review-command', commentMessage);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        expect(reviewRequest.commit_id).toBe('comment-head-sha');
+        expect(env.REVIEW_RESULTS_KV.put).toHaveBeenCalledWith(
+          'review:github:test-owner/test-repo:123:gh_delivery_review_command',
+          expect.stringContaining('"status":"completed"'),
+          expect.anything()
+        );
+    });
+
+    it('should answer an "/ai explain" note with a reply instead of a review', async () => {
+        let prompt = '';
+        const postedNotes: string[] = [];
+        server.use(
+          http.post(env.LLM_ENDPOINT, async ({ request }) => {
+            prompt = ((await request.json()) as any).messages[1].content;
+            return HttpResponse.json({ choices: [{ message: { content: JSON.stringify({ success: true, comments: [], summary: 'It prints a longer greeting.' }) } }] });
+          }),
+          http.post('https://gitlab.com/api/v4/projects/789/merge_requests/42/notes', async ({ request }) => {
+            postedNotes.push(((await request.json()) as any).body);
+            return HttpResponse.json({ id: 10 }, { status: 201 });
+          })
+        );
+        const noteMessage: TestWebhookQueueMessage = {
+          source: 'gitlab',
+          eventId: 'gl_delivery_explain',
+          originalPayload: {
+            object_kind: 'note',
+            project: mockGitlabMessageBodyBase.originalPayload.project,
+            object_attributes: { id: 77, note: '/ai explain main.py:1 what changed here?', noteable_type: 'MergeRequest' },
+            merge_request: { id: 101, iid: 42, last_commit: { id: 'gitlab-test-sha' } },
+          },
+          command: { type: 'explain', filePath: 'main.py', lineNumber: 1, question: 'what changed here?' },
+          filesToReview: [
+            ...mockGitlabMessageWithFileComment.filesToReview!,
+            { path: 'other.py', diff: '@@ -1 +1 @@\n-a\n+b' },
+          ],
+        };
+
+        const mockMessage = createMockMessage('gl-explain', noteMessage);
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        expect(prompt).toContain('File: main.py');
+        expect(prompt).not.toContain('File: other.py');
+        expect(prompt).toContain('Question about main.py line 1:\nwhat changed here?');
+        expect(postedNotes).toEqual(['> what changed here?\n\n**AI answer about `main.py:1`:**\n\nIt prints a longer greeting.']);
+        expect(env.REVIEW_RESULTS_KV.put).toHaveBeenCalledWith(
+          'review:gitlab:test-group/test-project:42:gl_delivery_explain',
+          expect.stringContaining('"status":"completed"'),
+          expect.anything()
+        );
+    });
+
+    it('should answer a reply in a bot-started review thread inside that thread', async () => {
+        let prompt = '';
+        let replyBody = '';
+        server.use(
+          http.get('https://api.github.com/user', () => HttpResponse.json({ login: 'review-bot' })),
+          http.get('https://api.github.com/repos/test-owner/test-repo/pulls/123/comments', () => {
+            return HttpResponse.json([
+              { id: 500, path: 'file.txt', line: 1, diff_hunk: '@@ -1 +1 @@\n-old line\n+new line', body: 'Is this intended?', user: { login: 'review-bot' } },
+              { id: 501, in_reply_to_id: 500, body: 'Yes, see the ticket.', user: { login: 'alice' } },
+            ]);
+          }),
+          http.post(env.LLM_ENDPOINT, async ({ request }) => {
+            prompt = ((await request.json()) as any).messages[1].content;
+            return HttpResponse.json({ choices: [{ message: { content: JSON.stringify({ success: true, comments: [], summary: 'Thanks, that makes sense.' }) } }] });
+          }),
+          http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/comments/500/replies', async ({ request }) => {
+            replyBody = ((await request.json()) as any).body;
+            return HttpResponse.json({ id: 502 }, { status: 201 });
+          })
+        );
+
+        const mockMessage = createMockMessage('gh-thread-reply', { ...mockGithubMessageBodyBase, eventId: 'gh_review_comment_501', reply: { commentId: 501, threadId: 500 } });
+        const batch: MessageBatch<TestWebhookQueueMessage> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
+        await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
+
+        expect(mockMessage.ack).toHaveBeenCalled();
+        expect(prompt).toContain('You: Is this intended?\n@alice: Yes, see the ticket.');
+        expect(prompt).toContain('+new line');
+        expect(replyBody).toBe('Thanks, that makes sense.');
+        expect(env.REVIEW_RESULTS_KV.put).toHaveBeenCalledWith(expect.any(String), expect.stringContaining('"status":"completed"'), expect.anything());
+    });
+
+    it('should review a Bitbucket pull request from its diff and post inline comments', async () => {
+      env.BITBUCKET_TOKEN = 'test_bitbucket_token';
+      const postedBodies: any[] = [];
+      server.use(
+        http.get('https://api.bitbucket.org/2.0/repositories/team/service/src/abc123/.ai-review.yml', () => HttpResponse.text('instructions: Flag magic numbers.')),
+        http.get('https://api.bitbucket.org/2.0/repositories/team/service/pullrequests/9/diff', () => {
+          return new HttpResponse('diff --git a/app.py b/app.py\n--- a/app.py\n+++ b/app.py\n@@ -1 +1 @@\n-x = 1\n+x = 2\n');
+        }),
+        http.post(env.LLM_ENDPOINT, async ({ request }) => {
+          const body: any = await request.json();
+          expect(body.messages[1].content).toContain('Source: bitbucket');
+          expect(body.messages[1].content).toContain('app.py');
+          expect(body.messages[1].content).toContain('Flag magic numbers.');
+          return HttpResponse.json({ choices: [{ message: { content: JSON.stringify({
+            success: true, comments: [{ filePath: 'app.py', lineNumber: 1, comment: 'Magic number.' }], summary: 'Bitbucket review.',
+          }) } }] });
+        }),
+        http.post('https://api.bitbucket.org/2.0/repositories/team/service/pullrequests/9/comments', async ({ request }) => {
+          expect(request.headers.get('Authorization')).toBe('Bearer test_bitbucket_token');
+          postedBodies.push(await request.json());
+          return HttpResponse.json({ id: 1 }, { status: 201 });
+        })
+      );
+
+      const message: TestWebhookQueueMessage = {
+        source: 'bitbucket',
+        eventId: 'bb_pr_{uuid}_9_abc123',
+        originalPayload: {
+          repository: { uuid: '{uuid}', full_name: 'team/service', mainbranch: { name: 'develop' } },
+          pullrequest: { id: 9, source: { commit: { hash: 'abc123' } }, links: { diff: { href: 'diff-link' }, comments: { href: 'comments-link' } } },
+        },
+        reviewType: 'detailed',
+        filesToReview: [],
+      };
+      const mockMessage = createMockMessage('bb-1', message);
+      await worker.queue!({ messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() } as MessageBatch<any>, env, mockExecutionContext);
+
+      expect(mockMessage.ack).toHaveBeenCalled();
+      expect(postedBodies).toEqual([{ content: { raw: 'Magic number.' }, inline: { path: 'app.py', to: 1 } }]);
+      expect(env.REVIEW_RESULTS_KV.put).toHaveBeenCalledWith(
+        'review:bitbucket:team/service:9:bb_pr_{uuid}_9_abc123',
+        expect.stringContaining('"status":"completed"'),
+        expect.anything()
+      );
+    });
+
+    it('should review a Gitea pull request against the host of the repository and post one review', async () => {
+      env.GITEA_TOKEN = 'test_gitea_token';
+      let review: any;
+      server.use(
+        http.get('https://git.example.com/api/v1/repos/org/lib/raw/.ai-review.yml', ({ request }) => {
+          expect(new URL(request.url).searchParams.get('ref')).toBe('def456');
+          return new HttpResponse(null, { status: 404 });
+        }),
+        http.get('https://git.example.com/api/v1/repos/org/lib/pulls/4.diff', () => {
+          return new HttpResponse('diff --git a/lib.go b/lib.go\n--- a/lib.go\n+++ b/lib.go\n@@ -1,2 +1,2 @@\n package lib\n-var A = 1\n+var A = 2\n');
+        }),
+        http.post(env.LLM_ENDPOINT, async () => {
+          return HttpResponse.json({ choices: [{ message: { content: JSON.stringify({
+            success: true, comments: [{ filePath: 'lib.go', lineNumber: 2, comment: 'Exported mutable global.' }], summary: 'Gitea review.',
+          }) } }] });
+        }),
+        http.post('https://git.example.com/api/v1/repos/org/lib/pulls/4/reviews', async ({ request }) => {
+          expect(request.headers.get('Authorization')).toBe('token test_gitea_token');
+          review = await request.json();
+          return HttpResponse.json({ id: 1 }, { status: 200 });
+        })
+      );
+
+      const message: TestWebhookQueueMessage = {
+        source: 'gitea',
+        eventId: 'gitea_pr_31_opened_def456',
+        originalPayload: {
+          repository: { id: 5, full_name: 'org/lib', html_url: 'https://git.example.com/org/lib', default_branch: 'main' },
+          pull_request: { id: 31, number: 4, head: { sha: 'def456' }, diff_url: 'https://git.example.com/org/lib/pulls/4.diff' },
+        },
+        reviewType: 'detailed',
+        filesToReview: [],
+      };
+      const mockMessage = createMockMessage('gitea-1', message);
+      await worker.queue!({ messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() } as MessageBatch<any>, env, mockExecutionContext);
+
+      expect(mockMessage.ack).toHaveBeenCalled();
+      expect(review).toEqual({
+        commit_id: 'def456', body: 'Gitea review.', event: 'COMMENT',
+        comments: [{ path: 'lib.go', body: withMarker('Exported mutable global.'), new_position: 2, old_position: 0 }],
+      });
+    });
+
     it('should process message where LLM returns no comments and not attempt to post to VCS', async () => {
         server.use(
           http.post(env.LLM_ENDPOINT, async () => {
@@ -407,7 +1240,7 @@ afterEach(() => {
         expect(putCallArgs[1]).not.toContain('"comments":[{'); 
     });
 
-    it('should handle unsupported VCS source, log error, and store outcome reflecting current behavior', async () => {
+    it('should reject an unsupported VCS source before calling the LLM and store a failed outcome', async () => {
         const unsupportedSourceMessageBody: UnsupportedSourceWebhookQueueMessage = {
           originalPayload: mockGithubMessageWithFiles.originalPayload,
           reviewType: mockGithubMessageWithFiles.reviewType,
@@ -415,18 +1248,7 @@ afterEach(() => {
           source: 'unsupported_vcs', 
           eventId: 'gh-unsupported-src',
         };
-    
-        server.use(
-          http.post(env.LLM_ENDPOINT, async () => {
-            return HttpResponse.json({
-              choices: [{ message: { content: JSON.stringify({
-                  success: true, 
-                  comments: [{ filePath: 'file.txt', lineNumber: 1, comment: 'A comment that should not be posted.' }],
-                  summary: 'LLM review done, but VCS is unsupported.'
-              }) } }],
-            });
-          })
-        );
+        const fetchSpy = vi.spyOn(globalThis, 'fetch');
     
         const mockMessage = createMockMessage('unsupported-1', unsupportedSourceMessageBody);
         const batch: MessageBatch<any> = { messages: [mockMessage], queue: 'test-queue', ackAll: vi.fn(), retryAll: vi.fn() };
@@ -434,16 +1256,16 @@ afterEach(() => {
         await worker.queue!(batch, env, mockExecutionContext);
     
         expect(mockMessage.ack).toHaveBeenCalled(); 
+        expect(fetchSpy).not.toHaveBeenCalled();
         expect(console.error).toHaveBeenCalledWith(
           expect.stringContaining(`Unsupported VCS or missing details for task ${unsupportedSourceMessageBody.eventId}`)
         );
         
-        const expectedKey = `review:${unsupportedSourceMessageBody.eventId}:${unsupportedSourceMessageBody.originalPayload.repository.full_name}:${unsupportedSourceMessageBody.originalPayload.pull_request.number}:${unsupportedSourceMessageBody.eventId}`;
-        
+        // No provider can read the payload, so the outcome is keyed without repository or pull request details.
         expect(env.REVIEW_RESULTS_KV.put).toHaveBeenCalledWith(
-          expectedKey,
-          expect.stringMatching(/"status":"completed".*"error":"Outer catch: Unsupported VCS: unsupported_vcs"/s),
-          expect.objectContaining({ metadata: { status: "completed", timestamp: expect.any(String) } })
+          'review:unsupported_vcs:unknown/repo:unknown_pr_mr:gh-unsupported-src',
+          expect.stringMatching(/"status":"failed".*"error":"Critical processing error before task formation: Unsupported VCS: unsupported_vcs"/s),
+          expect.objectContaining({ metadata: { status: "failed", timestamp: expect.any(String) } })
         );
     });
 
@@ -458,7 +1280,7 @@ afterEach(() => {
               }) } }],
             });
           }),
-          http.post(mockGithubMessageWithFiles.originalPayload.pull_request!.comments_url, () => {
+          http.post('https://api.github.com/repos/test-owner/test-repo/pulls/123/reviews', () => {
             return HttpResponse.error(); // Simulates a network-level error
           })
         );
@@ -469,10 +1291,9 @@ afterEach(() => {
         await worker.queue!(batch as MessageBatch<any>, env, mockExecutionContext);
   
         expect(mockMessage.ack).toHaveBeenCalled(); 
-        // The actual log format from src/index.ts:325 is "Error during VCS post for ${task.eventId}, file ${comment.filePath}: ${error.message}"
         // When HttpResponse.error() is used, the error message caught by fetch is typically "Failed to fetch"
         expect(console.error).toHaveBeenCalledWith(
-            expect.stringContaining(`Error during VCS post for ${mockGithubMessageWithFiles.eventId}, file file.txt: Failed to fetch`)
+            expect.stringContaining(`Error during VCS post for ${mockGithubMessageWithFiles.eventId}: Failed to fetch`)
         );
         
         const expectedKey = `review:github:test-owner/test-repo:123:${mockGithubMessageWithFiles.eventId}`;
@@ -490,6 +1311,7 @@ afterEach(() => {
   describe('postCommentsToVCS', () => {
       let env: ReviewerEnv;
       let mockTask: any;
+      const reviewsUrl = 'https://api.github.com/repos/test-owner/test-repo/pulls/1/reviews';
   
       beforeEach(() => {
           env = getMiniflareBindings();
@@ -513,30 +1335,88 @@ afterEach(() => {
           vi.restoreAllMocks();
       });
   
-      it('should post comments to GitHub successfully', async () => {
+      it('should post comments to GitHub as a single pull request review', async () => {
           const comments = [{ filePath: 'file1.txt', lineNumber: 5, comment: 'Comment 1' }];
           server.use(
-              http.post(mockTask.pullRequest.commentsUrl, async ({ request }) => {
+              http.post(reviewsUrl, async ({ request }) => {
                   const body: any = await request.json(); // Cast to any
-                  expect(body.body).toBe('Comment 1');
+                  expect(request.headers.get('Authorization')).toBe('Bearer test_github_token');
                   expect(body.commit_id).toBe('test-sha');
-                  expect(body.path).toBe('file1.txt');
-                  expect(body.line).toBe(5);
-                  return HttpResponse.json({ id: 1 }, { status: 201 });
+                  expect(body.event).toBe('COMMENT');
+                  expect(body.body).toBe('Review summary');
+                  expect(body.comments).toEqual([{ path: 'file1.txt', line: 5, side: 'RIGHT', body: 'Comment 1' }]);
+                  return HttpResponse.json({ id: 1 }, { status: 200 });
               })
           );
   
-          await postCommentsToVCS(mockTask, comments, env);
+          await postCommentsToVCS(mockTask, comments, env, 'Review summary');
   
           expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Posting 1 comments for task test-event-id to github'));
-          expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Successfully posted comment to github for test-event-id, file file1.txt'));
+          expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Successfully posted review to github for test-event-id with 1 inline comments'));
+          expect(console.error).not.toHaveBeenCalled();
+      });
+
+      it('should post comments on deleted lines to the old side of the GitHub diff', async () => {
+          let review: any;
+          server.use(
+              http.post(reviewsUrl, async ({ request }) => {
+                  review = await request.json();
+                  return HttpResponse.json({ id: 1 }, { status: 200 });
+              })
+          );
+
+          await postCommentsToVCS(mockTask, [{ filePath: 'file1.txt', lineNumber: 7, oldLineNumber: 7, side: 'LEFT', comment: 'Still needed.' }], env);
+
+          expect(review.comments).toEqual([{ path: 'file1.txt', line: 7, side: 'LEFT', body: 'Still needed.' }]);
+      });
+
+      it('should add comments without a file location to the GitHub review body', async () => {
+          const comments = [
+              { filePath: 'file1.txt', position: 3, comment: 'Positioned comment' },
+              { filePath: '', comment: 'General remark' },
+              { filePath: 'file2.txt', comment: 'File-level remark' },
+          ];
+          server.use(
+              http.post(reviewsUrl, async ({ request }) => {
+                  const body: any = await request.json();
+                  expect(body.body).toBe('AI code review\n\n- General remark\n- **file2.txt**: File-level remark');
+                  expect(body.comments).toEqual([{ path: 'file1.txt', position: 3, body: 'Positioned comment' }]);
+                  return HttpResponse.json({ id: 1 }, { status: 200 });
+              })
+          );
+  
+          await postCommentsToVCS(mockTask, comments, env);
+  
+          expect(console.error).not.toHaveBeenCalled();
+      });
+
+      it('should fall back to a single issue comment when GitHub rejects inline positions', async () => {
+          const comments = [
+              { filePath: 'file1.txt', lineNumber: 500, comment: 'Out of diff' },
+              { filePath: '', comment: 'General remark' },
+          ];
+          const fallbackBodies: string[] = [];
+          server.use(
+              http.post(reviewsUrl, () => {
+                  return HttpResponse.json({ message: 'Unprocessable Entity', errors: ['Line could not be resolved'] }, { status: 422 });
+              }),
+              http.post(mockTask.pullRequest.commentsUrl, async ({ request }) => {
+                  fallbackBodies.push(((await request.json()) as any).body);
+                  return HttpResponse.json({ id: 2 }, { status: 201 });
+              })
+          );
+  
+          await postCommentsToVCS(mockTask, comments, env, 'Review summary');
+  
+          expect(fallbackBodies).toEqual(['Review summary\n\n- `file1.txt:500`: Out of diff\n- General remark']);
+          expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Successfully posted fallback comment to github for test-event-id'));
           expect(console.error).not.toHaveBeenCalled();
       });
   
       it('should handle GitHub API error when posting comments', async () => {
           const comments = [{ filePath: 'file1.txt', lineNumber: 5, comment: 'Comment 1' }];
           server.use(
-              http.post(mockTask.pullRequest.commentsUrl, () => {
+              http.post(reviewsUrl, () => {
                   return HttpResponse.json({ message: 'GitHub API error' }, { status: 500 });
               })
           );
@@ -544,13 +1424,13 @@ afterEach(() => {
           await postCommentsToVCS(mockTask, comments, env);
   
           expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Posting 1 comments for task test-event-id to github'));
-          expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Failed to post comment to github for test-event-id, file file1.txt: 500 GitHub API error'));
+          expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Failed to post review to github for test-event-id: 500 {"message":"GitHub API error"}'));
       });
   
       it('should handle network error during GitHub post', async () => {
           const comments = [{ filePath: 'file1.txt', lineNumber: 5, comment: 'Comment 1' }];
           server.use(
-              http.post(mockTask.pullRequest.commentsUrl, () => {
+              http.post(reviewsUrl, () => {
                   return HttpResponse.error(); // Simulates a network error
               })
           );
@@ -558,7 +1438,7 @@ afterEach(() => {
           await postCommentsToVCS(mockTask, comments, env);
   
           expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Posting 1 comments for task test-event-id to github'));
-          expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Error during VCS post for test-event-id, file file1.txt: Failed to fetch'));
+          expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Error during VCS post for test-event-id: Failed to fetch'));
       });
   
       it('should post comments to GitLab successfully (file comment)', async () => {
@@ -568,7 +1448,7 @@ afterEach(() => {
           const comments = [{ filePath: 'file.py', lineNumber: 10, comment: 'GitLab Comment 1' }];
   
           server.use(
-              http.post(mockTask.mergeRequest.notesUrl, async ({ request }) => {
+              http.post(GITLAB_DISCUSSIONS_URL, async ({ request }) => {
                   const body: any = await request.json(); // Cast to any
                   expect(body.body).toBe('GitLab Comment 1');
                   expect(body.position).toBeDefined();
@@ -586,6 +1466,53 @@ afterEach(() => {
           expect(console.error).not.toHaveBeenCalled();
       });
   
+      it('should use diff_refs and the previous path of renamed files in GitLab positions', async () => {
+          mockTask.source = 'gitlab';
+          mockTask.pullRequest = undefined;
+          mockTask.mergeRequest = {
+              id: 789, iid: 42, projectId: 987, headSha: 'gitlab-sha', diffUrl: 'test-gitlab-diff-url', notesUrl: 'https://gitlab.com/api/v4/projects/987/merge_requests/42/notes',
+              diffRefs: { baseSha: 'base', startSha: 'start', headSha: 'head' },
+          };
+          mockTask.filesToReview = [{ path: 'src/new_name.py', previousPath: 'src/old_name.py', status: 'renamed', diff: '@@ -1 +1 @@\n-a\n+b' }];
+          let position: any;
+          server.use(
+              http.post(GITLAB_DISCUSSIONS_URL, async ({ request }) => {
+                  position = ((await request.json()) as any).position;
+                  return HttpResponse.json({ id: 1 }, { status: 201 });
+              })
+          );
+
+          await postCommentsToVCS(mockTask, [{ filePath: 'src/new_name.py', lineNumber: 1, comment: 'Renamed file comment' }], env);
+
+          expect(position).toEqual({
+              position_type: 'text', base_sha: 'base', start_sha: 'start', head_sha: 'head',
+              old_path: 'src/old_name.py', new_path: 'src/new_name.py', new_line: 1,
+          });
+      });
+
+      it('should use old_line for removed lines and both lines for context in GitLab positions', async () => {
+          mockTask.source = 'gitlab';
+          mockTask.pullRequest = undefined;
+          mockTask.mergeRequest = { id: 789, iid: 42, projectId: 987, headSha: 'gitlab-sha', diffUrl: 'test-gitlab-diff-url', notesUrl: 'https://gitlab.com/api/v4/projects/987/merge_requests/42/notes' };
+          const comments: LLMComment[] = [
+              { filePath: 'file.py', lineNumber: 4, oldLineNumber: 4, side: 'LEFT', comment: 'Removed' },
+              { filePath: 'file.py', lineNumber: 6, oldLineNumber: 5, side: 'RIGHT', comment: 'Context' },
+          ];
+          const positions: any[] = [];
+          server.use(
+              http.post(GITLAB_DISCUSSIONS_URL, async ({ request }) => {
+                  positions.push(((await request.json()) as any).position);
+                  return HttpResponse.json({ id: 1 }, { status: 201 });
+              })
+          );
+
+          await postCommentsToVCS(mockTask, comments, env);
+
+          expect(positions[0]).toEqual(expect.objectContaining({ old_line: 4 }));
+          expect(positions[0].new_line).toBeUndefined();
+          expect(positions[1]).toEqual(expect.objectContaining({ old_line: 5, new_line: 6 }));
+      });
+
       it('should post comments to GitLab successfully (MR comment)', async () => {
           mockTask.source = 'gitlab';
           mockTask.pullRequest = undefined;
@@ -616,7 +1543,7 @@ afterEach(() => {
           const comments = [{ filePath: 'file.py', lineNumber: 10, comment: 'GitLab Comment 1' }];
   
           server.use(
-              http.post(mockTask.mergeRequest.notesUrl, () => {
+              http.post(GITLAB_DISCUSSIONS_URL, () => {
                   return HttpResponse.json({ message: 'GitLab API error' }, { status: 500 });
               })
           );
@@ -634,7 +1561,7 @@ afterEach(() => {
           const comments = [{ filePath: 'file.py', lineNumber: 10, comment: 'GitLab Comment 1' }];
   
           server.use(
-              http.post(mockTask.mergeRequest.notesUrl, () => {
+              http.post(GITLAB_DISCUSSIONS_URL, () => {
                   return HttpResponse.error(); // Simulates a network error
               })
           );
@@ -656,6 +1583,47 @@ afterEach(() => {
           expect(console.error).not.toHaveBeenCalled();
       });
   
+      it('should post Bitbucket comments on removed lines with "from" and general comments without an anchor', async () => {
+          env.BITBUCKET_TOKEN = 'test_bitbucket_token';
+          mockTask.source = 'bitbucket';
+          const comments: LLMComment[] = [
+              { filePath: 'a.ts', lineNumber: 3, side: 'LEFT', comment: 'Why remove this?', suggestion: 'keep()' },
+              { filePath: '', comment: 'Overall fine.' },
+          ];
+          const bodies: any[] = [];
+          server.use(
+              http.post('https://api.bitbucket.org/2.0/repositories/test-owner/test-repo/pullrequests/1/comments', async ({ request }) => {
+                  bodies.push(await request.json());
+                  return HttpResponse.json({ id: bodies.length }, { status: 201 });
+              })
+          );
+
+          await postCommentsToVCS(mockTask, comments, env);
+
+          expect(bodies).toEqual([
+              { content: { raw: 'Why remove this?\n\n```\nkeep()\n```' }, inline: { path: 'a.ts', from: 3 } },
+              { content: { raw: 'Overall fine.' } },
+          ]);
+          expect(console.error).not.toHaveBeenCalled();
+      });
+
+      it('should log, not throw, when Gitea rejects the review', async () => {
+          env.GITEA_BASE_URL = 'https://gitea.internal';
+          mockTask.source = 'gitea';
+          const comments: LLMComment[] = [{ filePath: 'a.ts', lineNumber: 3, comment: 'Comment' }, { filePath: 'b.ts', comment: 'File remark' }];
+          server.use(
+              http.post('https://gitea.internal/api/v1/repos/test-owner/test-repo/pulls/1/reviews', async ({ request }) => {
+                  const body: any = await request.json();
+                  expect(body.body).toBe('AI code review\n\n- **b.ts**: File remark');
+                  return new HttpResponse('position out of range', { status: 422 });
+              })
+          );
+
+          await postCommentsToVCS(mockTask, comments, env);
+
+          expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Failed to post review to gitea for test-event-id: 422'));
+      });
+
       it('should throw error for unsupported VCS source', async () => {
           mockTask.source = 'unsupported_vcs';
           const comments: LLMComment[] = [{ filePath: '', comment: 'Should not be posted' }]; // Add filePath for type compatibility
@@ -664,7 +1632,7 @@ afterEach(() => {
           expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Unsupported VCS or missing details for task test-event-id: unsupported_vcs'));
       });
   
-      it('should handle multiple comments, posting them sequentially', async () => {
+      it('should handle multiple comments, posting them in one request', async () => {
           const comments = [
               { filePath: 'file1.txt', lineNumber: 5, comment: 'Comment 1' },
               { filePath: 'file2.txt', lineNumber: 10, comment: 'Comment 2' },
@@ -672,23 +1640,18 @@ afterEach(() => {
           const fetchSpy = vi.spyOn(globalThis, 'fetch');
   
           server.use(
-              http.post(mockTask.pullRequest.commentsUrl, async ({ request }) => {
+              http.post(reviewsUrl, async ({ request }) => {
                   const body: any = await request.json(); // Cast to any
-                  if (body.path === 'file1.txt') {
-                      return HttpResponse.json({ id: 1 }, { status: 201 });
-                  } else if (body.path === 'file2.txt') {
-                      return HttpResponse.json({ id: 2 }, { status: 201 });
-                  }
-                  return HttpResponse.error(); // Should not reach here
+                  expect(body.comments.map((c: any) => c.path)).toEqual(['file1.txt', 'file2.txt']);
+                  return HttpResponse.json({ id: 1 }, { status: 200 });
               })
           );
   
           await postCommentsToVCS(mockTask, comments, env);
   
           expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Posting 2 comments for task test-event-id to github'));
-          expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Successfully posted comment to github for test-event-id, file file1.txt'));
-          expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Successfully posted comment to github for test-event-id, file file2.txt'));
-          expect(fetchSpy).toHaveBeenCalledTimes(2); // Ensure fetch is called for each comment
+          expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Successfully posted review to github for test-event-id with 2 inline comments'));
+          expect(fetchSpy).toHaveBeenCalledTimes(1);
           expect(console.error).not.toHaveBeenCalled();
       });
 
@@ -697,16 +1660,16 @@ afterEach(() => {
               { filePath: 'file1.txt', lineNumber: 5, comment: 'Comment with 特殊字符 and emoji 🚀' }
           ];
           server.use(
-              http.post(mockTask.pullRequest.commentsUrl, async ({ request }) => {
+              http.post(reviewsUrl, async ({ request }) => {
                   const body: any = await request.json();
-                  expect(body.body).toBe('Comment with 特殊字符 and emoji 🚀');
-                  return HttpResponse.json({ id: 1 }, { status: 201 });
+                  expect(body.comments[0].body).toBe('Comment with 特殊字符 and emoji 🚀');
+                  return HttpResponse.json({ id: 1 }, { status: 200 });
               })
           );
   
           await postCommentsToVCS(mockTask, commentsWithSpecialChars, env);
   
-          expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Successfully posted comment to github'));
+          expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Successfully posted review to github'));
           expect(console.error).not.toHaveBeenCalled();
       });
 
@@ -716,16 +1679,16 @@ afterEach(() => {
               { filePath: 'file1.txt', lineNumber: 5, comment: longComment }
           ];
           server.use(
-              http.post(mockTask.pullRequest.commentsUrl, async ({ request }) => {
+              http.post(reviewsUrl, async ({ request }) => {
                   const body: any = await request.json();
-                  expect(body.body.length).toBe(2000);
-                  return HttpResponse.json({ id: 1 }, { status: 201 });
+                  expect(body.comments[0].body.length).toBe(2000);
+                  return HttpResponse.json({ id: 1 }, { status: 200 });
               })
           );
   
           await postCommentsToVCS(mockTask, commentsWithLongText, env);
   
-          expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Successfully posted comment to github'));
+          expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Successfully posted review to github'));
           expect(console.error).not.toHaveBeenCalled();
       });
 
@@ -738,7 +1701,7 @@ afterEach(() => {
           ];
   
           server.use(
-              http.post(mockTask.mergeRequest.notesUrl, async ({ request }) => {
+              http.post(GITLAB_DISCUSSIONS_URL, async ({ request }) => {
                   const body: any = await request.json();
                   expect(body.body).toBe('GitLab Comment with 特殊字符 and emoji 🔥');
                   expect(body.position).toBeDefined();
@@ -762,7 +1725,7 @@ afterEach(() => {
           ];
   
           server.use(
-              http.post(mockTask.mergeRequest.notesUrl, async ({ request }) => {
+              http.post(GITLAB_DISCUSSIONS_URL, async ({ request }) => {
                   const body: any = await request.json();
                   expect(body.body.length).toBe(2000);
                   expect(body.position).toBeDefined();
@@ -821,7 +1784,7 @@ afterEach(() => {
   
           expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Calling LLM for task: test-llm-event-id, type: detailed'));
           expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Sending to LLM:'));
-          expect(result).toEqual({ ...mockLlmResponse, rawResponse: expect.any(Object), isRetryable: false });
+          expect(result).toEqual({ ...mockLlmResponse, rawResponse: expect.any(Object), prompt: expect.stringContaining('file.txt'), isRetryable: false });
           expect(console.error).not.toHaveBeenCalled();
       });
   
@@ -841,6 +1804,7 @@ afterEach(() => {
               success: false,
               error: expect.stringContaining('LLM API error 400: {"error":{"message":"Invalid request"}}'),
               rawResponse: expect.stringContaining('{"error":{"message":"Invalid request"}}'),
+              prompt: expect.any(String),
               isRetryable: false,
           });
       });
@@ -861,6 +1825,7 @@ afterEach(() => {
               success: false,
               error: expect.stringContaining('LLM API error 500: {"error":{"message":"Internal server error"}}'),
               rawResponse: expect.stringContaining('{"error":{"message":"Internal server error"}}'),
+              prompt: expect.any(String),
               isRetryable: true,
           });
       });
@@ -880,6 +1845,7 @@ afterEach(() => {
           expect(result).toEqual({
               success: false,
               error: expect.stringContaining('Network error calling LLM: Failed to fetch'),
+              prompt: expect.any(String),
               isRetryable: true,
           });
       });
@@ -902,13 +1868,16 @@ afterEach(() => {
               success: false,
               error: expect.stringContaining('LLM content not valid JSON:'),
               rawResponse: expect.any(Object),
+              prompt: expect.any(String),
               isRetryable: false,
           });
       });
   
       it('should handle LLM response where content JSON is missing "success" field', async () => {
+          let calls = 0;
           server.use(
               http.post(env.LLM_ENDPOINT, () => {
+                  calls++;
                   return HttpResponse.json({
                       choices: [{ message: { content: JSON.stringify({ comments: [], summary: 'ok' }) } }],
                   });
@@ -919,15 +1888,69 @@ afterEach(() => {
   
           expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Calling LLM for task: test-llm-event-id, type: detailed'));
           // Check the first argument of console.error
-          expect(console.error).toHaveBeenCalledWith(expect.stringContaining("LLM's output JSON string missing 'success' field:"), expect.anything()); // Expecting message and parsed content
+          expect(calls).toBe(2); // original request plus one repair attempt
+          expect(console.error).toHaveBeenCalledWith(expect.stringContaining("LLM's output JSON failed schema validation:"), ["missing 'success'"]);
           expect(result).toEqual({
               success: false,
               error: "LLM output format error: missing 'success'.",
               rawResponse: expect.any(Object),
+              prompt: expect.any(String),
               isRetryable: false,
           });
       });
   
+      it('should report a retryable failure when the repair request hits a server error', async () => {
+          let calls = 0;
+          server.use(
+              http.post(env.LLM_ENDPOINT, () => {
+                  calls++;
+                  return calls === 1
+                      ? HttpResponse.json({ choices: [{ message: { content: JSON.stringify({ comments: [], summary: 'ok' }) } }] })
+                      : new HttpResponse('overloaded', { status: 503 });
+              })
+          );
+
+          const result = await callLLM(mockTask, env);
+
+          expect(calls).toBe(2);
+          expect(result).toMatchObject({ success: false, error: expect.stringContaining('LLM repair request failed:'), isRetryable: true });
+      });
+
+      it('should repair invalid output once and normalise fenced JSON, aliases and string line numbers', async () => {
+          mockTask.filesToReview = [{ path: 'file.txt', diff: 'diff content' }];
+          const prompts: string[] = [];
+          server.use(
+              http.post(env.LLM_ENDPOINT, async ({ request }) => {
+                  prompts.push(((await request.json()) as any).messages[1].content);
+                  const content = prompts.length === 1
+                      ? JSON.stringify({ success: true, comments: [{ filePath: 'file.txt', lineNumber: 'ten', comment: 'Bad line.' }] })
+                      : '```json\n' + JSON.stringify({
+                          success: true,
+                          comments: [
+                              { path: 'file.txt', line: '3', body: 'Fixed.' },
+                              { filePath: 'not-in-change.txt', lineNumber: 1, comment: 'Hallucinated file.' },
+                          ],
+                          summary: 'Repaired.',
+                      }) + '\n```';
+                  return HttpResponse.json({ choices: [{ message: { content } }] });
+              })
+          );
+
+          const result = await callLLM(mockTask, env);
+
+          expect(prompts).toHaveLength(2);
+          expect(prompts[1]).toContain('Your previous response could not be used:\n- comments[0].lineNumber must be a positive integer');
+          expect(result).toEqual({
+              success: true,
+              comments: [{ filePath: 'file.txt', lineNumber: 3, comment: 'Fixed.' }],
+              summary: 'Repaired.',
+              rawResponse: expect.any(Object),
+              prompt: expect.any(String),
+              isRetryable: false,
+              droppedComments: 1,
+          });
+      });
+
       it('should handle LLM response structure unexpected (no content string)', async () => {
           server.use(
               http.post(env.LLM_ENDPOINT, () => {
@@ -946,6 +1969,7 @@ afterEach(() => {
               success: false,
               error: "LLM response structure error.",
               rawResponse: expect.any(Object),
+              prompt: expect.any(String),
               isRetryable: false,
           });
       });
@@ -966,6 +1990,7 @@ afterEach(() => {
               success: false,
               error: expect.stringContaining('LLM API response not JSON:'),
               rawResponse: expect.stringContaining('This is not JSON response'),
+              prompt: expect.any(String),
               isRetryable: true,
           });
       });
@@ -1054,6 +2079,38 @@ afterEach(() => {
           expect(console.error).not.toHaveBeenCalled();
       });
 
+      it('should split diffs over the context budget across several LLM calls and merge the results', async () => {
+          env.LLM_CONTEXT_TOKENS = '100';
+          mockTask.filesToReview = [
+              { path: 'a.ts', diff: '@@ -1 +1 @@\n+' + 'a'.repeat(300) },
+              { path: 'b.ts', diff: '@@ -1 +1 @@\n+' + 'b'.repeat(300) },
+          ];
+          const prompts: string[] = [];
+          server.use(
+              http.post(env.LLM_ENDPOINT, async ({ request }) => {
+                  const prompt = ((await request.json()) as any).messages[1].content;
+                  prompts.push(prompt);
+                  const path = prompt.includes('File: a.ts') ? 'a.ts' : 'b.ts';
+                  return HttpResponse.json({
+                      choices: [{ message: { content: JSON.stringify({ success: true, comments: [{ filePath: path, lineNumber: 1, comment: `On ${path}` }], summary: `Reviewed ${path}.` }) } }]
+                  });
+              })
+          );
+
+          const result = await callLLM(mockTask, env);
+
+          expect(prompts).toHaveLength(2);
+          const firstPart = prompts.find(prompt => prompt.includes('File: a.ts'));
+          expect(firstPart).toContain('This is part 1 of 2 of the change');
+          expect(firstPart).not.toContain('File: b.ts');
+          expect(result.success).toBe(true);
+          expect(result.comments).toEqual([
+              { filePath: 'a.ts', lineNumber: 1, comment: 'On a.ts' },
+              { filePath: 'b.ts', lineNumber: 1, comment: 'On b.ts' },
+          ]);
+          expect(result.summary).toBe('Reviewed a.ts.\n\nReviewed b.ts.');
+      });
+
       it('should handle tasks with multiple files to review', async () => {
           mockTask.filesToReview = [
               { path: 'file1.js', diff: 'diff content 1' },
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import { requestLLM } from '../llm';
+import { resolveProvider } from '../llm-providers';
+import type { Env as ReviewerEnv } from '../index';
+import { setupServer } from 'msw/node';
+import { HttpResponse, http } from 'msw';
+
+const REVIEW = { success: true, comments: [{ filePath: 'a.ts', lineNumber: 1, comment: 'c' }], summary: 's' };
+
+const getMiniflareBindings = (): ReviewerEnv => ({
+  REVIEW_TASKS_QUEUE: { send: vi.fn() } as any,
+  REVIEW_RESULTS_KV: { put: vi.fn(), get: vi.fn() } as any,
+  LLM_API_KEY: 'test_llm_api_key',
+  GITHUB_TOKEN: 'test_github_token',
+  GITLAB_TOKEN: 'test_gitlab_token',
+  LLM_ENDPOINT: '',
+});
+
+const server = setupServer();
+
+describe('llm-providers', () => {
+  let env: ReviewerEnv;
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    env = getMiniflareBindings();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+  });
+
+  it('should call the Anthropic Messages API and read the text blocks', async () => {
+    env.LLM_PROVIDER = 'anthropic';
+    server.use(
+      http.post('https://api.anthropic.com/v1/messages', async ({ request }) => {
+        expect(request.headers.get('x-api-key')).toBe('test_llm_api_key');
+        expect(request.headers.get('anthropic-version')).toBe('2023-06-01');
+        const body = await request.json() as any;
+        expect(body.model).toBe('claude-3-5-haiku-latest');
+        expect(body.messages).toEqual([{ role: 'user', content: 'prompt' }]);
+        return HttpResponse.json({ content: [{ type: 'text', text: JSON.stringify(REVIEW) }] });
+      })
+    );
+
+    const result = await requestLLM('prompt', env);
+
+    expect(result).toEqual({ ...REVIEW, rawResponse: expect.any(Object), prompt: 'prompt', isRetryable: false });
+  });
+
+  it('should treat Anthropic overload and rate limits as retryable', async () => {
+    env.LLM_PROVIDER = 'anthropic';
+    server.use(http.post('https://api.anthropic.com/v1/messages', () => HttpResponse.json({ type: 'error' }, { status: 529 })));
+    expect((await requestLLM('prompt', env)).isRetryable).toBe(true);
+
+    server.use(http.post('https://api.anthropic.com/v1/messages', () => HttpResponse.json({ type: 'error' }, { status: 429 })));
+    expect((await requestLLM('prompt', env)).isRetryable).toBe(true);
+
+    server.use(http.post('https://api.anthropic.com/v1/messages', () => HttpResponse.json({ type: 'error' }, { status: 400 })));
+    expect((await requestLLM('prompt', env)).isRetryable).toBe(false);
+  });
+
+  it('should build the Azure OpenAI deployment URL and authenticate with api-key', async () => {
+    env.LLM_PROVIDER = 'azure-openai';
+    env.LLM_ENDPOINT = 'https://my-resource.openai.azure.com/';
+    env.LLM_MODEL_NAME = 'review-deployment';
+    server.use(
+      http.post('https://my-resource.openai.azure.com/openai/deployments/review-deployment/chat/completions', ({ request }) => {
+        expect(new URL(request.url).searchParams.get('api-version')).toBe('2024-06-01');
+        expect(request.headers.get('api-key')).toBe('test_llm_api_key');
+        expect(request.headers.get('Authorization')).toBeNull();
+        return HttpResponse.json({ choices: [{ message: { content: JSON.stringify(REVIEW) } }] });
+      })
+    );
+
+    expect((await requestLLM('prompt', env)).success).toBe(true);
+  });
+
+  it('should call Gemini generateContent with a JSON response type', async () => {
+    env.LLM_PROVIDER = 'gemini';
+    server.use(
+      http.post('https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent', async ({ request }) => {
+        expect(request.headers.get('x-goog-api-key')).toBe('test_llm_api_key');
+        const body = await request.json() as any;
+        expect(body.generationConfig.responseMimeType).toBe('application/json');
+        return HttpResponse.json({ candidates: [{ content: { parts: [{ text: JSON.stringify(REVIEW) }] } }] });
+      })
+    );
+
+    expect((await requestLLM('prompt', env)).comments).toEqual(REVIEW.comments);
+  });
+
+  it('should call a local Ollama server without an Authorization header when no key is configured', async () => {
+    env.LLM_PROVIDER = 'ollama';
+    env.LLM_API_KEY = '';
+    server.use(
+      http.post('http://localhost:11434/v1/chat/completions', ({ request }) => {
+        expect(request.headers.get('Authorization')).toBeNull();
+        return HttpResponse.json({ choices: [{ message: { content: JSON.stringify(REVIEW) } }] });
+      })
+    );
+
+    expect((await requestLLM('prompt', env)).success).toBe(true);
+  });
+
+  it('should run Workers AI through the AI binding', async () => {
+    env.LLM_PROVIDER = 'workers-ai';
+    env.AI = { run: vi.fn().mockResolvedValue({ response: JSON.stringify(REVIEW) }) };
+
+    const result = await requestLLM('prompt', env);
+
+    expect(result.success).toBe(true);
+    expect(env.AI.run).toHaveBeenCalledWith('@cf/meta/llama-3.1-8b-instruct', expect.objectContaining({
+      messages: [expect.objectContaining({ role: 'system' }), { role: 'user', content: 'prompt' }],
+    }));
+  });
+
+  it('should fail without retry when the Workers AI binding is missing and retry when it throws', async () => {
+    env.LLM_PROVIDER = 'workers-ai';
+    expect(await requestLLM('prompt', env)).toEqual({ success: false, error: 'Workers AI provider requires an AI binding.', prompt: 'prompt', isRetryable: false });
+
+    env.AI = { run: vi.fn().mockRejectedValue(new Error('capacity exceeded')) };
+    expect(await requestLLM('prompt', env)).toEqual({ success: false, error: 'Workers AI error: capacity exceeded', prompt: 'prompt', isRetryable: true });
+  });
+
+  describe('resolveProvider', () => {
+    it('should let the repository config override the deployment provider with provider-specific secrets', () => {
+      env.LLM_PROVIDER = 'openai';
+      env.LLM_ENDPOINT = 'https://api.openai.com/v1/chat/completions';
+      env.LLM_MODEL_NAME = 'gpt-4o';
+      env.ANTHROPIC_API_KEY = 'anthropic-key';
+
+      const resolved = resolveProvider(env, { enabled: true, include: [], exclude: [], provider: 'anthropic' });
+
+      expect(resolved.provider?.name).toBe('anthropic');
+      expect(resolved.settings).toEqual({ endpoint: undefined, apiKey: 'anthropic-key', model: 'claude-3-5-haiku-latest', apiVersion: undefined });
+    });
+
+    it('should reject an unknown LLM_PROVIDER', async () => {
+      env.LLM_PROVIDER = 'mistral';
+
+      expect(await requestLLM('prompt', env)).toEqual({
+        success: false,
+        error: 'Unknown LLM provider "mistral". Expected one of: openai, azure-openai, anthropic, gemini, ollama, workers-ai.',
+        isRetryable: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { parseRepoConfig, isPathIncluded, globToRegExp, DEFAULT_REPO_CONFIG } from '../repo-config';
+
+describe('repo-config', () => {
+  describe('parseRepoConfig', () => {
+    it('should return defaults for an empty file', () => {
+      expect(parseRepoConfig('')).toEqual({ success: true, config: DEFAULT_REPO_CONFIG });
+    });
+
+    it('should parse every supported key', () => {
+      const result = parseRepoConfig([
+        'enabled: true',
+        'review_type: general',
+        'include:',
+        '  - "src/**"',
+        'exclude: "**/*.snap"',
+        'language: English',
+        'instructions: |',
+        '  Prefer async/await.',
+        'max_comments: 5',
+      ].join('\n'));
+
+      expect(result).toEqual({
+        success: true,
+        config: {
+          enabled: true,
+          reviewType: 'general',
+          include: ['src/**'],
+          exclude: ['**/*.snap'],
+          language: 'English',
+          instructions: 'Prefer async/await.',
+          maxComments: 5,
+        },
+      });
+    });
+
+    it('should collect every validation error, including unknown keys', () => {
+      const result = parseRepoConfig('enabled: "yes"\ninclude: [1]\ntemperature: 1\n');
+
+      expect(result.success).toBe(false);
+      expect(result.isRetryable).toBe(false);
+      expect(result.error).toBe('Invalid .ai-review.yml: unknown key "temperature"; "enabled" must be a boolean; "include" must be a glob string or a list of glob strings.');
+    });
+
+    it('should accept a known LLM provider and model and reject unknown providers', () => {
+      expect(parseRepoConfig('provider: anthropic\nmodel: claude-3-5-sonnet-latest\n').config).toMatchObject({ provider: 'anthropic', model: 'claude-3-5-sonnet-latest' });
+      expect(parseRepoConfig('provider: mistral\n').error).toBe('Invalid .ai-review.yml: "provider" must be one of openai, azure-openai, anthropic, gemini, ollama, workers-ai.');
+    });
+
+    it('should accept a minimum severity and reject unknown severities', () => {
+      expect(parseRepoConfig('min_severity: major\n').config?.minSeverity).toBe('major');
+      expect(parseRepoConfig('min_severity: critical\n').error).toBe('Invalid .ai-review.yml: "min_severity" must be one of blocker, major, minor, nit.');
+    });
+
+    it('should reject YAML syntax errors and non-mapping documents', () => {
+      expect(parseRepoConfig('enabled: [true').error).toContain('Invalid .ai-review.yml:');
+      expect(parseRepoConfig('- a\n- b\n').error).toBe('Invalid .ai-review.yml: expected a mapping at the top level.');
+    });
+  });
+
+  describe('isPathIncluded', () => {
+    it('should include everything by default', () => {
+      expect(isPathIncluded('any/file.ts', DEFAULT_REPO_CONFIG)).toBe(true);
+    });
+
+    it('should require an include match and reject exclude matches', () => {
+      const config = { ...DEFAULT_REPO_CONFIG, include: ['src/**/*.ts'], exclude: ['**/*.test.ts'] };
+      expect(isPathIncluded('src/index.ts', config)).toBe(true);
+      expect(isPathIncluded('src/deep/nested/util.ts', config)).toBe(true);
+      expect(isPathIncluded('src/index.test.ts', config)).toBe(false);
+      expect(isPathIncluded('scripts/build.ts', config)).toBe(false);
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it('should keep single stars within a path segment', () => {
+      expect(globToRegExp('*.md').test('README.md')).toBe(true);
+      expect(globToRegExp('*.md').test('docs/README.md')).toBe(false);
+      expect(globToRegExp('**/*.md').test('docs/README.md')).toBe(true);
+      expect(globToRegExp('file?.js').test('file1.js')).toBe(true);
+      expect(globToRegExp('a.b').test('axb')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import worker from '../index';
+import { parseReviewResultKey } from '../results-api';
+import { reviewResultKey } from '../../../shared/vcs';
+import type { Env } from '../types';
+
+const TOKEN = 'results-token';
+
+// Minimal KV namespace: keys are listed in lexicographic order with metadata, and a cursor is the index of the next key.
+function memoryKV(entries: Record<string, { value: any; metadata?: any }>) {
+  const names = Object.keys(entries).sort();
+  return {
+    list: vi.fn(async ({ prefix = '', limit = 1000, cursor }: { prefix?: string; limit?: number; cursor?: string }) => {
+      const matching = names.filter(name => name.startsWith(prefix));
+      const start = cursor ? Number(cursor) : 0;
+      const keys = matching.slice(start, start + limit).map(name => ({ name, metadata: entries[name].metadata }));
+      const listComplete = start + limit >= matching.length;
+      return { keys, list_complete: listComplete, cursor: listComplete ? undefined : String(start + limit) };
+    }),
+    getWithMetadata: vi.fn(async (key: string) => entries[key]
+      ? { value: entries[key].value, metadata: entries[key].metadata ?? null }
+      : { value: null, metadata: null }),
+  };
+}
+
+const outcome = (status: string, timestamp: string) => ({
+  value: { taskId: 'evt', status, repository: 'o/r', reviewType: 'general', timestamp },
+  metadata: { status, timestamp },
+});
+
+const kv = memoryKV({
+  'review:github:o/r:1:evt-a': outcome('completed', '2024-05-01T10:00:00.000Z'),
+  'review:github:o/r:1:evt-b': outcome('failed', '2024-05-02T10:00:00.000Z'),
+  'review:github:o/r:2:evt-c': outcome('error_calling_llm', '2024-05-03T10:00:00.000Z'),
+  'review:github:o/r2:1:evt-d': outcome('completed', '2024-05-04T10:00:00.000Z'),
+  'review:gitlab:g/sub/p:4:evt-e': outcome('skipped', '2024-05-05T10:00:00.000Z'),
+  'github-app-token:77': { value: { token: 'ghs_secret' } },
+  'last-review:github:o/r:1': { value: { headSha: 'abc', findings: [] } },
+});
+
+const env = { REVIEW_RESULTS_KV: kv, RESULTS_API_TOKEN: TOKEN } as unknown as Env;
+
+const get = (path: string, token: string | null = TOKEN, targetEnv: Env = env) =>
+  worker.fetch(new Request(`https://reviewer.example.com${path}`, { headers: token ? { Authorization: `Bearer ${token}` } : {} }), targetEnv);
+
+const keysOf = async (response: Response) => ((await response.json()) as any).reviews.map((r: any) => r.key);
+
+describe('results API', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should round-trip review result keys, including event IDs containing colons', () => {
+    const key = reviewResultKey('bitbucket', 'team/repo', 9, 'bb_pr:{uuid}:9');
+    expect(key).toBe('review:bitbucket:team/repo:9:bb_pr:{uuid}:9');
+    expect(parseReviewResultKey(key)).toEqual({ key, source: 'bitbucket', repository: 'team/repo', number: '9', eventId: 'bb_pr:{uuid}:9' });
+    expect(parseReviewResultKey('github-app-token:77')).toBeNull();
+  });
+
+  it('should be disabled without RESULTS_API_TOKEN and require the token otherwise', async () => {
+    expect((await get('/reviews', TOKEN, { REVIEW_RESULTS_KV: kv } as unknown as Env)).status).toBe(404);
+    expect((await get('/reviews', null)).status).toBe(401);
+    const wrong = await get('/reviews', 'guess');
+    expect(wrong.status).toBe(401);
+    expect(wrong.headers.get('WWW-Authenticate')).toBe('Bearer');
+    expect((await get('/elsewhere')).status).toBe(404);
+    const post = await worker.fetch(new Request('https://reviewer.example.com/reviews', { method: 'POST', headers: { Authorization: `Bearer ${TOKEN}` } }), env);
+    expect(post.status).toBe(405);
+    expect(kv.list).not.toHaveBeenCalled();
+  });
+
+  it('should list reviews of one pull request without matching longer repository names or other records', async () => {
+    const response = await get('/reviews?source=github&repo=o/r&number=1');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      reviews: [
+        { key: 'review:github:o/r:1:evt-a', source: 'github', repository: 'o/r', number: '1', eventId: 'evt-a', status: 'completed', timestamp: '2024-05-01T10:00:00.000Z' },
+        { key: 'review:github:o/r:1:evt-b', source: 'github', repository: 'o/r', number: '1', eventId: 'evt-b', status: 'failed', timestamp: '2024-05-02T10:00:00.000Z' },
+      ],
+      cursor: null,
+    });
+    expect(kv.list).toHaveBeenCalledWith(expect.objectContaining({ prefix: 'review:github:o/r:1:' }));
+    expect(await keysOf(await get('/reviews?source=github&repo=o/r'))).toEqual(['review:github:o/r:1:evt-a', 'review:github:o/r:1:evt-b', 'review:github:o/r:2:evt-c']);
+    expect(await keysOf(await get('/reviews'))).toHaveLength(5);
+  });
+
+  it('should filter by status and time range', async () => {
+    expect(await keysOf(await get('/reviews?status=failed,error_calling_llm'))).toEqual(['review:github:o/r:1:evt-b', 'review:github:o/r:2:evt-c']);
+    expect(await keysOf(await get('/reviews?since=2024-05-02T00:00:00Z&until=2024-05-04T10:00:00Z'))).toEqual([
+      'review:github:o/r2:1:evt-d', 'review:github:o/r:1:evt-b', 'review:github:o/r:2:evt-c',
+    ]);
+  });
+
+  it('should page with the KV cursor in key order', async () => {
+    const first: any = await (await get('/reviews?source=github&limit=2')).json();
+    expect(first.reviews.map((r: any) => r.eventId)).toEqual(['evt-d', 'evt-a']);
+    expect(first.cursor).toBe('2');
+
+    const second: any = await (await get(`/reviews?source=github&limit=2&cursor=${first.cursor}`)).json();
+    expect(second.reviews.map((r: any) => r.eventId)).toEqual(['evt-b', 'evt-c']);
+    expect(second.cursor).toBeNull();
+  });
+
+  it('should reject invalid filters', async () => {
+    for (const query of ['repo=o/r', 'source=github&number=1', 'status=done', 'since=yesterday', 'limit=0', 'limit=5000']) {
+      expect((await get(`/reviews?${query}`)).status).toBe(400);
+    }
+  });
+
+  it('should return a single outcome by its URL-encoded key', async () => {
+    const response = await get(`/reviews/${encodeURIComponent('review:gitlab:g/sub/p:4:evt-e')}`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      key: 'review:gitlab:g/sub/p:4:evt-e', source: 'gitlab', repository: 'g/sub/p', number: '4', eventId: 'evt-e',
+      status: 'skipped', timestamp: '2024-05-05T10:00:00.000Z',
+      outcome: { taskId: 'evt', status: 'skipped', repository: 'o/r', reviewType: 'general', timestamp: '2024-05-05T10:00:00.000Z' },
+    });
+    expect((await get(`/reviews/${encodeURIComponent('review:github:o/r:1:missing')}`)).status).toBe(404);
+  });
+
+  it('should not serve cached installation tokens or last-review records', async () => {
+    for (const key of ['github-app-token:77', 'last-review:github:o/r:1']) {
+      expect((await get(`/reviews/${encodeURIComponent(key)}`)).status).toBe(404);
+    }
+    expect(kv.getWithMetadata).not.toHaveBeenCalledWith('github-app-token:77', expect.anything());
+  });
+
+  it('should report KV failures as a server error', async () => {
+    const failing = { REVIEW_RESULTS_KV: { list: vi.fn().mockRejectedValue(new Error('KV unavailable')) }, RESULTS_API_TOKEN: TOKEN } as unknown as Env;
+
+    const response = await get('/reviews', TOKEN, failing);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to read review results: KV unavailable' });
+  });
+});
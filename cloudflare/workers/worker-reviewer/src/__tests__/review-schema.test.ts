@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { extractJsonText, validateReviewContent } from '../review-schema';
+
+describe('review-schema', () => {
+  describe('extractJsonText', () => {
+    it('should strip markdown fences and surrounding prose', () => {
+      expect(extractJsonText('Here you go:\n```json\n{"success": true}\n```\nThanks')).toBe('{"success": true}');
+      expect(extractJsonText('Result: {"success": false} done')).toBe('{"success": false}');
+    });
+
+    it('should keep code blocks inside comments intact', () => {
+      const json = JSON.stringify({ success: true, comments: [{ comment: 'Prefer:\n```ts\nconst a = b ?? c;\n```', suggestion: '```\nx\n```' }] });
+
+      expect(extractJsonText(json)).toBe(json);
+      expect(extractJsonText(`\`\`\`json\n${json}\n\`\`\``)).toBe(json);
+      expect(extractJsonText(`Here is the review:\n${json}\nDone.`)).toBe(json);
+      expect(validateReviewContent(`\`\`\`json\n${json}\n\`\`\``).result?.comments[0].comment).toBe('Prefer:\n```ts\nconst a = b ?? c;\n```');
+    });
+  });
+
+  describe('validateReviewContent', () => {
+    it('should normalise field aliases, numeric strings and leading ./ in paths', () => {
+      const result = validateReviewContent(JSON.stringify({
+        success: true,
+        comments: [
+          { file_path: './src/a.ts', line: '12', body: 'Check for null.' },
+          { comment: 'Overall looks fine.' },
+        ],
+        summary: 'Two notes.',
+      }));
+
+      expect(result).toEqual({
+        valid: true,
+        errors: [],
+        droppedComments: 0,
+        result: {
+          success: true,
+          comments: [{ filePath: 'src/a.ts', lineNumber: 12, comment: 'Check for null.' }, { comment: 'Overall looks fine.' }],
+          summary: 'Two notes.',
+        },
+      });
+    });
+
+    it('should collect every schema error', () => {
+      const result = validateReviewContent(JSON.stringify({
+        summary: 3,
+        comments: [{ filePath: 'a.ts', lineNumber: 0, comment: '' }, 'text'],
+      }));
+
+      expect(result.valid).toBe(false);
+      expect(result.jsonError).toBeUndefined();
+      expect(result.errors).toEqual([
+        "missing 'success'",
+        "'summary' must be a string",
+        'comments[0].comment must be a non-empty string',
+        'comments[0].lineNumber must be a positive integer',
+        'comments[1] must be an object',
+      ]);
+    });
+
+    it('should report text that is not JSON separately from schema errors', () => {
+      const result = validateReviewContent('I could not review this change.');
+
+      expect(result.valid).toBe(false);
+      expect(result.jsonError).toBeDefined();
+    });
+
+    it('should accept severity, category, confidence and suggestion, and reject unknown values', () => {
+      const valid = validateReviewContent(JSON.stringify({
+        success: true,
+        comments: [{ filePath: 'a.ts', lineNumber: 2, comment: 'Escape input.', severity: 'Major', category: 'security', confidence: '0.8', suggested_fix: 'escape(x)' }],
+      }));
+      const invalid = validateReviewContent(JSON.stringify({
+        success: true,
+        comments: [{ filePath: 'a.ts', lineNumber: 2, comment: 'Hmm.', severity: 'critical', category: 'naming', confidence: 80 }],
+      }));
+
+      expect(valid.result?.comments).toEqual([
+        { filePath: 'a.ts', lineNumber: 2, comment: 'Escape input.', severity: 'major', category: 'security', confidence: 0.8, suggestion: 'escape(x)' },
+      ]);
+      expect(invalid.errors).toEqual([
+        'comments[0].severity must be one of blocker, major, minor, nit',
+        'comments[0].category must be one of security, bug, performance, style, tests, docs',
+        'comments[0].confidence must be a number between 0 and 1',
+      ]);
+    });
+
+    it('should drop and count comments on files outside the change', () => {
+      const result = validateReviewContent(JSON.stringify({
+        success: true,
+        comments: [
+          { filePath: 'a.ts', lineNumber: 1, comment: 'Kept.' },
+          { filePath: 'invented.ts', lineNumber: 1, comment: 'Dropped.' },
+        ],
+      }), ['a.ts']);
+
+      expect(result.result?.comments).toEqual([{ filePath: 'a.ts', lineNumber: 1, comment: 'Kept.' }]);
+      expect(result.droppedComments).toBe(1);
+    });
+  });
+});
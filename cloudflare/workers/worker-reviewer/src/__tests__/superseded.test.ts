@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { findNewerHead } from '../superseded';
+import type { Env, ReviewTask } from '../types';
+
+const task = (overrides: Partial<ReviewTask> = {}): ReviewTask => ({
+  source: 'gitlab', eventId: 'evt', reviewType: 'general', filesToReview: [],
+  repository: { fullName: 'group/project', id: 7, defaultBranch: 'main' },
+  mergeRequest: { id: 1, iid: 4, projectId: 7, headSha: 'old-sha', diffUrl: '', notesUrl: '' },
+  ...overrides,
+});
+
+const envWithHead = (get: (key: string) => Promise<string | null>): Env => ({ PROCESSED_EVENTS_KV: { get: vi.fn(get) } } as any);
+
+describe('findNewerHead', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return the recorded head when it differs from the task head', async () => {
+    const env = envWithHead(async () => 'new-sha');
+    expect(await findNewerHead(task(), env)).toBe('new-sha');
+    expect(env.PROCESSED_EVENTS_KV!.get).toHaveBeenCalledWith('latest-head:gitlab:group/project:4');
+  });
+
+  it('should treat the task as current when its head is the latest or none is recorded', async () => {
+    expect(await findNewerHead(task(), envWithHead(async () => 'old-sha'))).toBeUndefined();
+    expect(await findNewerHead(task(), envWithHead(async () => null))).toBeUndefined();
+  });
+
+  it('should never supersede thread replies, explain commands or tasks without the shared binding', async () => {
+    const env = envWithHead(async () => 'new-sha');
+    expect(await findNewerHead(task({ reply: { commentId: 1, threadId: 'd1' } }), env)).toBeUndefined();
+    expect(await findNewerHead(task({ command: { type: 'explain', question: 'why?' } }), env)).toBeUndefined();
+    expect(await findNewerHead(task(), {} as Env)).toBeUndefined();
+    expect(env.PROCESSED_EVENTS_KV!.get).not.toHaveBeenCalled();
+  });
+
+  it('should review the task anyway when the latest head cannot be read', async () => {
+    expect(await findNewerHead(task(), envWithHead(async () => { throw new Error('KV down'); }))).toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('KV down'));
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { getVcsProvider } from '../vcs-providers';
+
+describe('getVcsProvider', () => {
+  it('should return a provider for every supported source and nothing for others', () => {
+    for (const source of ['github', 'gitlab', 'bitbucket', 'gitea']) {
+      expect(getVcsProvider(source)?.source).toBe(source);
+    }
+    expect(getVcsProvider('unsupported_vcs')).toBeUndefined();
+    expect(getVcsProvider('toString')).toBeUndefined();
+  });
+
+  it('should only offer summary comments and commit statuses where the host supports them', () => {
+    expect(getVcsProvider('github')?.setStatus).toBeTypeOf('function');
+    expect(getVcsProvider('gitlab')?.summaryCommentApi).toBeTypeOf('function');
+    expect(getVcsProvider('bitbucket')?.setStatus).toBeUndefined();
+    expect(getVcsProvider('gitea')?.summaryCommentApi).toBeUndefined();
+  });
+});
+
+describe('normalise', () => {
+  it('should read a GitHub pull request and the installation that sent it', () => {
+    const target = getVcsProvider('github')!.normalise({
+      installation: { id: 77 },
+      repository: { id: 1, full_name: 'o/r', default_branch: 'dev', html_url: 'https://github.com/o/r' },
+      pull_request: { id: 2, number: 3, head: { sha: 'abc' }, diff_url: 'd', comments_url: 'c' },
+    }, {});
+
+    expect(target).toEqual({
+      source: 'github', installationId: 77,
+      repository: { fullName: 'o/r', id: 1, defaultBranch: 'dev', webUrl: 'https://github.com/o/r' },
+      pullRequest: { id: 2, number: 3, headSha: 'abc', diffUrl: 'd', commentsUrl: 'c' },
+    });
+  });
+
+  it('should leave the head commit of a GitHub issue comment to be looked up', () => {
+    const target = getVcsProvider('github')!.normalise({
+      repository: { id: 1, full_name: 'o/r' },
+      issue: { id: 9, number: 3, pull_request: { diff_url: 'd' }, comments_url: 'c' },
+    }, {});
+
+    expect(target.pullRequest).toEqual({ id: 9, number: 3, headSha: '', diffUrl: 'd', commentsUrl: 'c' });
+    expect(target.repository.defaultBranch).toBe('main');
+  });
+
+  it('should build GitLab merge request URLs against the configured instance for MR and note events', () => {
+    const project = { id: 5, path_with_namespace: 'g/p', web_url: 'https://gitlab.example.com/g/p', default_branch: 'main' };
+    const provider = getVcsProvider('gitlab')!;
+    const settings = { GITLAB_BASE_URL: 'https://gitlab.example.com/' };
+
+    const fromMergeRequest = provider.normalise({ object_kind: 'merge_request', project, object_attributes: { id: 10, iid: 4, last_commit: { id: 'sha1' } } }, settings);
+    const fromNote = provider.normalise({ object_kind: 'note', project, object_attributes: { id: 99 }, merge_request: { id: 10, iid: 4, last_commit: { id: 'sha1' } } }, settings);
+
+    const mergeRequest = {
+      id: 10, iid: 4, projectId: 5, headSha: 'sha1',
+      diffUrl: 'https://gitlab.example.com/g/p/-/merge_requests/4/diffs.json',
+      notesUrl: 'https://gitlab.example.com/api/v4/projects/5/merge_requests/4/notes',
+    };
+    expect(fromMergeRequest.mergeRequest).toEqual(mergeRequest);
+    expect(fromNote.mergeRequest).toEqual(mergeRequest);
+    expect(fromMergeRequest.repository).toEqual({ fullName: 'g/p', id: 5, defaultBranch: 'main', webUrl: 'https://gitlab.example.com/g/p' });
+  });
+
+  it('should identify Bitbucket pull requests by their id and head commit hash', () => {
+    const target = getVcsProvider('bitbucket')!.normalise({
+      repository: { uuid: '{u}', full_name: 'team/repo', mainbranch: { name: 'develop' }, links: { html: { href: 'https://bitbucket.org/team/repo' } } },
+      pullrequest: { id: 12, source: { commit: { hash: 'f00' } }, links: { diff: { href: 'd' }, comments: { href: 'c' } } },
+    }, {});
+
+    expect(target).toEqual({
+      source: 'bitbucket',
+      repository: { fullName: 'team/repo', id: '{u}', defaultBranch: 'develop', webUrl: 'https://bitbucket.org/team/repo' },
+      pullRequest: { id: 12, number: 12, headSha: 'f00', diffUrl: 'd', commentsUrl: 'c' },
+    });
+  });
+
+  it('should keep the Gitea repository page so the API host can be derived from it', () => {
+    const target = getVcsProvider('gitea')!.normalise({
+      repository: { id: 3, full_name: 'org/lib', html_url: 'https://git.example.com/org/lib', default_branch: 'main' },
+      pull_request: { id: 31, number: 4, head: { sha: 'def' }, diff_url: 'd' },
+    }, {});
+
+    expect(target.repository.webUrl).toBe('https://git.example.com/org/lib');
+    expect(target.pullRequest).toEqual({ id: 31, number: 4, headSha: 'def', diffUrl: 'd', commentsUrl: undefined });
+  });
+});
@@ -0,0 +1,18 @@
+import type { Env, ReviewFile, ReviewTask } from './types';
+import { getVcsProvider } from './vcs-providers';
+
+export interface FetchFilesResult {
+	success: boolean;
+	files?: ReviewFile[];
+	error?: string;
+	isRetryable?: boolean;
+}
+
+export async function fetchChangedFiles(task: ReviewTask, env: Env): Promise<FetchFilesResult> {
+	const provider = getVcsProvider(task.source);
+	if (!provider || !(task.pullRequest || task.mergeRequest)) {
+		console.warn(`Cannot fetch changed files for task ${task.eventId}: no pull/merge request details for source ${task.source}.`);
+		return { success: true, files: [] };
+	}
+	return provider.fetchChangedFiles(task, env);
+}
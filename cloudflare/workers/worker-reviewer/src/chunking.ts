@@ -0,0 +1,123 @@
+import type { Env, LLMComment, LLMResponse, ReviewFile } from './types';
+import { splitHunks } from './diff-parser';
+
+// Budget for the file sections of one prompt; the fixed instructions around them are small enough to ignore.
+export const DEFAULT_CONTEXT_TOKENS = 12000;
+export const DEFAULT_MAX_CONCURRENCY = 2;
+
+const TRUNCATION_NOTE = '\n... (hunk truncated to fit the review budget)';
+
+// Rough estimate (about four characters per token for code and English); no tokenizer is available in Workers.
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+export function contextBudget(env: Env): number {
+	const parsed = parseInt(env.LLM_CONTEXT_TOKENS || '', 10);
+	return parsed > 0 ? parsed : DEFAULT_CONTEXT_TOKENS;
+}
+
+export function maxConcurrency(env: Env): number {
+	const parsed = parseInt(env.LLM_MAX_CONCURRENCY || '', 10);
+	return parsed > 0 ? parsed : DEFAULT_MAX_CONCURRENCY;
+}
+
+// Prompt text contributed by one file; must stay in step with how callLLM renders files.
+export function formatFileSection(file: ReviewFile): string {
+	let section = `\nFile: ${file.path}\n`;
+	if (file.status) section += `Status: ${file.status}${file.previousPath ? ` (from ${file.previousPath})` : ''}\n`;
+	if (file.diff) section += `Diff:\n${file.diff}\n`;
+	else if (file.content) section += `Content:\n${file.content}\n`;
+	return section;
+}
+
+// Packs files, in order, into batches whose estimated size stays under the budget. Files too large on their own are split by hunk.
+export function planReviewChunks(files: ReviewFile[], budgetTokens: number): ReviewFile[][] {
+	const chunks: ReviewFile[][] = [];
+	let current: ReviewFile[] = [];
+	let currentTokens = 0;
+
+	for (const file of files.flatMap(f => splitOversizedFile(f, budgetTokens))) {
+		const tokens = estimateTokens(formatFileSection(file));
+		if (current.length > 0 && currentTokens + tokens > budgetTokens) {
+			chunks.push(current);
+			current = [];
+			currentTokens = 0;
+		}
+		current.push(file);
+		currentTokens += tokens;
+	}
+	if (current.length > 0) chunks.push(current);
+	return chunks;
+}
+
+function splitOversizedFile(file: ReviewFile, budgetTokens: number): ReviewFile[] {
+	if (!file.diff || estimateTokens(formatFileSection(file)) <= budgetTokens) return [file];
+
+	const overhead = estimateTokens(formatFileSection({ ...file, diff: ' ' }));
+	const hunkBudget = Math.max(budgetTokens - overhead, 1);
+	const parts: ReviewFile[] = [];
+	let hunks: string[] = [];
+	let tokens = 0;
+	for (let hunk of splitHunks(file.diff)) {
+		if (estimateTokens(hunk) > hunkBudget) {
+			// Cutting from the end keeps the line numbers of everything before the cut valid.
+			hunk = hunk.substring(0, Math.max(hunkBudget * 4 - TRUNCATION_NOTE.length, 0)) + TRUNCATION_NOTE;
+		}
+		const hunkTokens = estimateTokens(hunk) + 1;
+		if (hunks.length > 0 && tokens + hunkTokens > hunkBudget) {
+			parts.push({ ...file, diff: hunks.join('\n') });
+			hunks = [];
+			tokens = 0;
+		}
+		hunks.push(hunk);
+		tokens += hunkTokens;
+	}
+	if (hunks.length > 0) parts.push({ ...file, diff: hunks.join('\n') });
+	return parts;
+}
+
+// Runs the worker over every item with at most `limit` in flight, keeping results in input order.
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await worker(items[index], index);
+		}
+	});
+	await Promise.all(runners);
+	return results;
+}
+
+// Combines per-chunk responses. A retryable failure fails the whole review so the queue retries it;
+// chunks that failed permanently are reported in the summary while the rest of the review is kept.
+export function mergeLLMResponses(responses: LLMResponse[]): LLMResponse {
+	const retryable = responses.find(r => !r.success && r.isRetryable);
+	if (retryable) return { ...retryable, rawResponse: responses.map(r => r.rawResponse), prompt: mergePrompts(responses) };
+
+	const succeeded = responses.filter(r => r.success);
+	const failed = responses.filter(r => !r.success);
+	if (succeeded.length === 0) return { ...failed[0], rawResponse: responses.map(r => r.rawResponse), prompt: mergePrompts(responses) };
+
+	const comments: LLMComment[] = succeeded.flatMap(r => r.comments || []);
+	const summaries = succeeded.map(r => r.summary).filter(Boolean) as string[];
+	if (failed.length > 0) {
+		summaries.push(`_${failed.length} of ${responses.length} parts of this change could not be reviewed: ${failed.map(r => r.error).join('; ')}_`);
+	}
+	const droppedComments = succeeded.reduce((sum, r) => sum + (r.droppedComments || 0), 0);
+	return {
+		success: true,
+		comments,
+		summary: summaries.join('\n\n'),
+		rawResponse: responses.map(r => r.rawResponse),
+		prompt: mergePrompts(responses),
+		isRetryable: false,
+		...(droppedComments > 0 ? { droppedComments } : {}),
+	};
+}
+
+function mergePrompts(responses: LLMResponse[]): string[] {
+	return responses.flatMap(r => r.prompt ?? []);
+}
@@ -0,0 +1,80 @@
+// Cloudflare Access puts a signed JWT in this header (and the CF_Authorization cookie) on every request it lets through.
+export const ACCESS_JWT_HEADER = 'Cf-Access-Jwt-Assertion';
+const ACCESS_JWT_COOKIE = 'CF_Authorization';
+
+export interface AccessIdentity {
+	email?: string;
+	sub?: string;
+}
+
+export function accessJwtFrom(request: Request): string | undefined {
+	const header = request.headers.get(ACCESS_JWT_HEADER);
+	if (header) return header;
+	const cookie = (request.headers.get('Cookie') || '').split(';').map(c => c.trim()).find(c => c.startsWith(`${ACCESS_JWT_COOKIE}=`));
+	return cookie?.slice(ACCESS_JWT_COOKIE.length + 1) || undefined;
+}
+
+// Accepts "myteam.cloudflareaccess.com" as well as the full https URL; the result is the token's expected `iss`.
+export function accessIssuer(teamDomain: string): string {
+	const trimmed = teamDomain.trim().replace(/\/+$/, '');
+	return /^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+/**
+ * Verifies an Access JWT against the team's signing keys: RS256 signature, issuer, application audience (AUD tag)
+ * and expiry. Checking only that the header is present would let anyone who reaches the worker directly, e.g. on
+ * workers.dev, past. Returns null for any token that is not valid.
+ */
+export async function verifyAccessJwt(jwt: string, teamDomain: string, audience: string, now: number = Date.now()): Promise<AccessIdentity | null> {
+	const [encodedHeader, encodedPayload, encodedSignature, ...rest] = jwt.split('.');
+	if (!encodedHeader || !encodedPayload || !encodedSignature || rest.length > 0) return null;
+
+	let header: any;
+	let payload: any;
+	try {
+		header = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedHeader)));
+		payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload)));
+	} catch {
+		return null;
+	}
+	if (header?.alg !== 'RS256' || !header.kid) return null;
+
+	const issuer = accessIssuer(teamDomain);
+	const jwk = (await fetchAccessKeys(issuer)).find(key => key.kid === header.kid);
+	if (!jwk) return null;
+
+	try {
+		const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+		const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, base64UrlDecode(encodedSignature), new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`));
+		if (!valid) return null;
+	} catch (error: any) {
+		console.warn(`Could not verify Cloudflare Access token: ${error.message}`);
+		return null;
+	}
+
+	const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+	if (payload.iss !== issuer || !audiences.includes(audience)) return null;
+	if (typeof payload.exp !== 'number' || payload.exp * 1000 <= now) return null;
+	if (typeof payload.nbf === 'number' && payload.nbf * 1000 > now) return null;
+	return { email: payload.email, sub: payload.sub };
+}
+
+async function fetchAccessKeys(issuer: string): Promise<(JsonWebKey & { kid?: string })[]> {
+	try {
+		const response = await fetch(`${issuer}/cdn-cgi/access/certs`, { headers: { "User-Agent": "Cloudflare-Worker-Code-Reviewer" } });
+		if (!response.ok) {
+			console.error(`Cloudflare Access certs request to ${issuer} failed: ${response.status}`);
+			return [];
+		}
+		const body: any = await response.json();
+		return Array.isArray(body?.keys) ? body.keys : [];
+	} catch (error: any) {
+		console.error(`Error fetching Cloudflare Access certs from ${issuer}: ${error.message}`);
+		return [];
+	}
+}
+
+function base64UrlDecode(input: string): Uint8Array {
+	const base64 = input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=');
+	return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
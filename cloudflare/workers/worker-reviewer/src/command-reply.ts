@@ -0,0 +1,18 @@
+import type { Env, ReviewCommand, ReviewTask } from './types';
+import { getVcsProvider } from './vcs-providers';
+
+export function buildExplainReply(command: Extract<ReviewCommand, { type: 'explain' }>, answer: string | undefined): string {
+	const target = command.filePath ? ` about \`${command.lineNumber ? `${command.filePath}:${command.lineNumber}` : command.filePath}\`` : '';
+	const quoted = command.question.split('\n').map(line => `> ${line}`).join('\n');
+	return `${quoted}\n\n**AI answer${target}:**\n\n${answer || '_No answer was provided._'}`;
+}
+
+// Posts a plain conversation comment answering a slash command. Failures are logged, never thrown.
+export async function postCommandReply(task: ReviewTask, body: string, env: Env): Promise<boolean> {
+	const provider = getVcsProvider(task.source);
+	if (!provider?.postCommandReply || !(task.pullRequest || task.mergeRequest)) {
+		console.warn(`Cannot post command reply for task ${task.eventId}: unsupported source ${task.source}.`);
+		return false;
+	}
+	return provider.postCommandReply(task, body, env);
+}
@@ -0,0 +1,56 @@
+import type { Env, ReviewOutcome, ReviewTask } from './types';
+import { filterBySeverity, formatSeverityCounts } from './findings';
+import { getVcsProvider } from './vcs-providers';
+
+export { STATUS_CONTEXT } from './vcs-common';
+
+// Check run created when the task started, so the final update edits it instead of adding a second run.
+export interface CommitStatusHandle {
+	checkRunId?: number;
+}
+
+type StatusState = 'pending' | 'success' | 'neutral' | 'failure';
+
+export interface StatusReport {
+	state: StatusState;
+	description: string;
+	summary?: string;
+}
+
+// Thread replies and explain commands answer a question; they do not review the commit.
+export function shouldReportStatus(task: ReviewTask, env: Env): boolean {
+	if (env.REPORT_COMMIT_STATUS === 'false' || task.reply || task.command?.type === 'explain') return false;
+	return Boolean(task.pullRequest?.headSha || task.mergeRequest?.headSha);
+}
+
+export function buildStatusReport(outcome: ReviewOutcome, task: ReviewTask): StatusReport {
+	if (outcome.status === 'skipped') return { state: 'neutral', description: outcome.summary || 'Review skipped.' };
+	if (outcome.status === 'superseded') return { state: 'neutral', description: outcome.summary || 'Superseded by a newer commit.' };
+	if (outcome.status === 'invalid_config') return { state: 'neutral', description: outcome.error || 'Invalid review configuration.' };
+	if (outcome.status !== 'completed') return { state: 'failure', description: `Review failed: ${outcome.error || 'unknown error'}` };
+
+	const comments = outcome.comments || [];
+	const counts = formatSeverityCounts(comments);
+	const failOn = task.config?.failOnSeverity;
+	const gating = failOn ? filterBySeverity(comments, failOn).filter(c => c.severity) : [];
+	if (failOn && gating.length > 0) {
+		return { state: 'failure', description: `${gating.length} finding(s) at or above ${failOn} severity (${counts})`, summary: outcome.summary };
+	}
+	const description = comments.length === 0 ? 'No findings.' : `${comments.length} finding(s)${counts ? ` (${counts})` : ''}`;
+	return { state: 'success', description, summary: outcome.summary };
+}
+
+// Marks the head commit as under review. Failures are logged, never thrown: reporting must not block the review.
+export async function startCommitStatus(task: ReviewTask, env: Env): Promise<CommitStatusHandle | undefined> {
+	const provider = getVcsProvider(task.source);
+	if (!shouldReportStatus(task, env) || !provider?.setStatus) return undefined;
+	const handle: CommitStatusHandle = {};
+	await provider.setStatus(task, { state: 'pending', description: 'Review in progress.' }, env, handle);
+	return handle;
+}
+
+export async function finishCommitStatus(task: ReviewTask, outcome: ReviewOutcome, env: Env, handle?: CommitStatusHandle): Promise<void> {
+	const provider = getVcsProvider(task.source);
+	if (!handle || !shouldReportStatus(task, env) || !provider?.setStatus) return;
+	await provider.setStatus(task, buildStatusReport(outcome, task), env, handle);
+}
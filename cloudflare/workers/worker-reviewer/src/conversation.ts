@@ -0,0 +1,83 @@
+import type { Env, ReviewTask } from './types';
+import { fetchChangedFiles } from './changed-files';
+import { extractHunk } from './diff-parser';
+import { getVcsProvider } from './vcs-providers';
+
+export interface ThreadMessage {
+	author: string;
+	body: string;
+}
+
+export interface ReviewThread {
+	// Account the VCS token belongs to; comments by it are the bot's own.
+	botUsername: string;
+	filePath?: string;
+	lineNumber?: number;
+	side?: 'LEFT' | 'RIGHT';
+	diffHunk?: string;
+	// Oldest first; the first message started the thread.
+	messages: ThreadMessage[];
+}
+
+export interface FetchThreadResult {
+	success: boolean;
+	thread?: ReviewThread;
+	error?: string;
+	isRetryable?: boolean;
+}
+
+// Only threads the bot started are answered, and never the bot's own replies (which would loop forever).
+export function shouldAnswerThread(thread: ReviewThread): boolean {
+	const first = thread.messages[0];
+	const last = thread.messages[thread.messages.length - 1];
+	return !!first && first.author === thread.botUsername && last.author !== thread.botUsername;
+}
+
+export async function fetchThread(task: ReviewTask, env: Env): Promise<FetchThreadResult> {
+	const provider = getVcsProvider(task.source);
+	if (!provider?.fetchThread || !(task.pullRequest || task.mergeRequest) || !task.reply) {
+		return { success: false, error: `Cannot load review thread for source ${task.source}.`, isRetryable: false };
+	}
+	const result = await provider.fetchThread(task, env);
+	const thread = result.thread;
+	if (!result.success || !thread || thread.diffHunk || !thread.filePath || !thread.lineNumber || !shouldAnswerThread(thread)) {
+		return result;
+	}
+
+	// Hosts whose thread comments carry no hunk: it is cut out of the pull/merge request diff.
+	if (task.filesToReview.length === 0) {
+		const filesResult = await fetchChangedFiles(task, env);
+		if (!filesResult.success) return filesResult;
+		task.filesToReview = filesResult.files || [];
+	}
+	const file = task.filesToReview.find(f => f.path === thread.filePath);
+	if (file?.diff) thread.diffHunk = extractHunk(file.diff, thread.lineNumber, thread.side);
+	return result;
+}
+
+export function buildThreadPrompt(task: ReviewTask, thread: ReviewThread): string {
+	let prompt = `You left an inline code review comment on the repository ${task.repository.fullName} and a developer replied.\nSource: ${task.source}\n`;
+	if (task.pullRequest) prompt += `Pull Request: #${task.pullRequest.number}\n`;
+	else if (task.mergeRequest) prompt += `Merge Request: !${task.mergeRequest.iid}\n`;
+	if (thread.filePath) prompt += `\nFile: ${thread.filePath}${thread.lineNumber ? ` (line ${thread.lineNumber})` : ''}\n`;
+	if (thread.diffHunk) prompt += `Diff hunk:\n${thread.diffHunk}\n`;
+
+	prompt += "\nConversation so far (oldest first):\n";
+	for (const message of thread.messages) {
+		prompt += `${message.author === thread.botUsername ? 'You' : `@${message.author}`}: ${message.body}\n`;
+	}
+	prompt += "\nReply to the latest message. Answer the question directly, and if the developer shows the original comment was wrong, say so.";
+	prompt += "\nFormat your response as a JSON object with 'success' (boolean), 'comments' (an empty array), and 'summary' (your reply, in Markdown).";
+	if (task.config?.language) prompt += ` Write the reply in ${task.config.language}.`;
+	return prompt;
+}
+
+// Posts the answer into the same thread. Failures are logged, never thrown.
+export async function postThreadReply(task: ReviewTask, thread: ReviewThread, body: string, env: Env): Promise<boolean> {
+	const provider = getVcsProvider(task.source);
+	if (!provider?.postThreadReply || !(task.pullRequest || task.mergeRequest) || !task.reply) {
+		console.warn(`Cannot post thread reply for task ${task.eventId}: unsupported source ${task.source}.`);
+		return false;
+	}
+	return provider.postThreadReply(task, thread, body, env);
+}
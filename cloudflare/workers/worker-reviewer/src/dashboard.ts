@@ -0,0 +1,307 @@
+import type { Env, ReviewOutcome } from './types';
+import { REVIEW_RESULT_KEY_PREFIX, tokenMatches } from '../../shared/vcs';
+import { parseReviewResultKey, type ReviewResultMetadata, type ReviewResultSummary } from './results-api';
+import { accessJwtFrom, verifyAccessJwt } from './cloudflare-access';
+
+const DASHBOARD_PATH = '/dashboard';
+const DEFAULT_WINDOW_DAYS = 7;
+const MAX_WINDOW_DAYS = 90;
+// Upper bound on keys read per page view; the page says so when the window holds more.
+const MAX_INDEXED_REVIEWS = 5000;
+const RECENT_REVIEWS = 30;
+const ERROR_PREVIEW_LENGTH = 200;
+
+const FAILURE_STATUSES: ReviewOutcome['status'][] = ['failed', 'error_calling_llm', 'error_posting_comment'];
+
+export interface RepositoryStats {
+	source: string;
+	repository: string;
+	total: number;
+	completed: number;
+	failed: number;
+	// Skipped, superseded and invalid-config reviews count towards the total but not the success rate.
+	other: number;
+	lastReviewAt?: string;
+}
+
+interface ReviewIndex {
+	reviews: ReviewResultSummary[];
+	truncated: boolean;
+}
+
+const htmlResponse = (body: string, status: number = 200, headers: Record<string, string> = {}) => {
+	return new Response(body, {
+		status,
+		headers: {
+			'Content-Type': 'text/html; charset=utf-8',
+			'Cache-Control': 'no-store',
+			// Review data includes model output and PR text; nothing on the page is allowed to run or load.
+			'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+			'X-Frame-Options': 'DENY',
+			...headers,
+		},
+	});
+};
+
+export function isDashboardPath(pathname: string): boolean {
+	return pathname === DASHBOARD_PATH || pathname.startsWith(`${DASHBOARD_PATH}/`);
+}
+
+// DASHBOARD_TOKEN is checked as the HTTP Basic password (any user name) so a browser can prompt for it;
+// with ACCESS_TEAM_DOMAIN and ACCESS_AUD set, a valid Cloudflare Access token is accepted as well.
+export async function isDashboardAuthorized(request: Request, env: Env): Promise<boolean> {
+	if (env.DASHBOARD_TOKEN) {
+		const match = /^Basic\s+(.+)$/i.exec(request.headers.get('Authorization') || '');
+		if (match) {
+			let password: string | undefined;
+			try {
+				const credentials = atob(match[1].trim());
+				password = credentials.slice(credentials.indexOf(':') + 1);
+			} catch {
+				password = undefined;
+			}
+			if (password !== undefined && await tokenMatches(password, env.DASHBOARD_TOKEN)) return true;
+		}
+	}
+	if (env.ACCESS_TEAM_DOMAIN && env.ACCESS_AUD) {
+		const jwt = accessJwtFrom(request);
+		if (jwt && await verifyAccessJwt(jwt, env.ACCESS_TEAM_DOMAIN, env.ACCESS_AUD)) return true;
+	}
+	return false;
+}
+
+/**
+ * Server-rendered view of REVIEW_RESULTS_KV:
+ *   GET /dashboard?days=&repo=&status=      recent reviews and per-repository success rates
+ *   GET /dashboard/reviews/<URL-encoded key> one outcome with its comments, prompts and raw LLM responses
+ * Disabled (404) unless DASHBOARD_TOKEN or Cloudflare Access (ACCESS_TEAM_DOMAIN + ACCESS_AUD) is configured.
+ */
+export async function handleDashboardRequest(request: Request, env: Env): Promise<Response> {
+	const url = new URL(request.url);
+	if (!env.DASHBOARD_TOKEN && !(env.ACCESS_TEAM_DOMAIN && env.ACCESS_AUD)) {
+		return htmlResponse(renderPage('Not found', '<p>Not found.</p>'), 404);
+	}
+	if (request.method !== 'GET') {
+		return htmlResponse(renderPage('Method not allowed', '<p>Method not allowed.</p>'), 405, { Allow: 'GET' });
+	}
+	if (!(await isDashboardAuthorized(request, env))) {
+		return htmlResponse(
+			renderPage('Unauthorized', '<p>Sign in with the dashboard token or through Cloudflare Access.</p>'),
+			401,
+			env.DASHBOARD_TOKEN ? { 'WWW-Authenticate': 'Basic realm="AI Code Review", charset="UTF-8"' } : {},
+		);
+	}
+
+	try {
+		if (url.pathname === DASHBOARD_PATH || url.pathname === `${DASHBOARD_PATH}/`) {
+			return await renderOverview(url.searchParams, env);
+		}
+		if (url.pathname.startsWith(`${DASHBOARD_PATH}/reviews/`)) {
+			let key: string;
+			try {
+				key = decodeURIComponent(url.pathname.slice(`${DASHBOARD_PATH}/reviews/`.length));
+			} catch {
+				return htmlResponse(renderPage('Invalid review key', '<p>Invalid review key.</p>'), 400);
+			}
+			return await renderReview(key, env);
+		}
+		return htmlResponse(renderPage('Not found', '<p>Not found.</p>'), 404);
+	} catch (error: any) {
+		console.error(`Dashboard request ${url.pathname}${url.search} failed:`, error.message);
+		return htmlResponse(renderPage('Error', `<p>Failed to read review results: ${escapeHtml(error.message)}</p>`), 500);
+	}
+}
+
+async function renderOverview(params: URLSearchParams, env: Env): Promise<Response> {
+	const requestedDays = Number(params.get('days') || DEFAULT_WINDOW_DAYS);
+	const days = Number.isInteger(requestedDays) && requestedDays >= 1 ? Math.min(requestedDays, MAX_WINDOW_DAYS) : DEFAULT_WINDOW_DAYS;
+	const repo = params.get('repo') || undefined;
+	const status = params.get('status') || undefined;
+	const since = Date.now() - days * 24 * 3600 * 1000;
+
+	const index = await loadReviewIndex(env, since);
+	const inScope = index.reviews.filter(r => !repo || `${r.source}:${r.repository}` === repo);
+	const stats = computeRepositoryStats(inScope);
+	const recentSummaries = inScope.filter(r => !status || r.status === status).slice(0, RECENT_REVIEWS);
+	const recent = await Promise.all(recentSummaries.map(async summary => ({
+		summary,
+		outcome: await env.REVIEW_RESULTS_KV.get<ReviewOutcome>(summary.key, 'json'),
+	})));
+
+	const filters = [`last ${days} day${days === 1 ? '' : 's'}`, repo && `repository ${repo}`, status && `status ${status}`].filter(Boolean).join(', ');
+	const totals = stats.reduce((sum, s) => ({ completed: sum.completed + s.completed, failed: sum.failed + s.failed }), { completed: 0, failed: 0 });
+
+	const body = `
+<p class="muted">Showing ${escapeHtml(filters)}. ${inScope.length} review${inScope.length === 1 ? '' : 's'}, overall success rate ${formatRate(totals.completed, totals.failed)}.
+${repo || status ? ` <a href="${overviewHref(days)}">Clear filters</a>` : ''}
+Window: ${[1, 7, 30, 90].map(d => d === days ? `<strong>${d}d</strong>` : `<a href="${overviewHref(d, repo, status)}">${d}d</a>`).join(' · ')}</p>
+${index.truncated ? `<p class="warning">Only the first ${MAX_INDEXED_REVIEWS} stored reviews were read; narrow the window for complete figures.</p>` : ''}
+<h2>Repositories</h2>
+${stats.length === 0 ? '<p>No reviews in this window.</p>' : `<table>
+<thead><tr><th>Repository</th><th>Reviews</th><th>Completed</th><th>Failed</th><th>Other</th><th>Success rate</th><th>Last review</th></tr></thead>
+<tbody>
+${stats.map(s => `<tr>
+<td><a href="${overviewHref(days, `${s.source}:${s.repository}`, status)}">${escapeHtml(s.repository)}</a> <span class="muted">${escapeHtml(s.source)}</span></td>
+<td>${s.total}</td><td>${s.completed}</td><td>${s.failed}</td><td>${s.other}</td>
+<td>${formatRate(s.completed, s.failed)}</td><td>${escapeHtml(s.lastReviewAt || '')}</td>
+</tr>`).join('\n')}
+</tbody>
+</table>`}
+<h2>Recent reviews</h2>
+<p class="muted">Status: ${['completed', ...FAILURE_STATUSES, 'skipped', 'superseded', 'invalid_config'].map(s => s === status
+		? `<strong>${s}</strong>`
+		: `<a href="${overviewHref(days, repo, s)}">${s}</a>`).join(' · ')}</p>
+${recent.length === 0 ? '<p>No reviews match.</p>' : `<table>
+<thead><tr><th>Time</th><th>Repository</th><th>PR/MR</th><th>Status</th><th>Comments</th><th>Error</th></tr></thead>
+<tbody>
+${recent.map(({ summary, outcome }) => `<tr>
+<td><a href="${DASHBOARD_PATH}/reviews/${encodeURIComponent(summary.key)}">${escapeHtml(summary.timestamp || '')}</a></td>
+<td>${escapeHtml(summary.repository)} <span class="muted">${escapeHtml(summary.source)}</span></td>
+<td>${escapeHtml(summary.number)}</td>
+<td>${statusBadge(summary.status)}</td>
+<td>${outcome?.comments ? outcome.comments.length : ''}</td>
+<td class="error">${escapeHtml(truncate(outcome?.error || '', ERROR_PREVIEW_LENGTH))}</td>
+</tr>`).join('\n')}
+</tbody>
+</table>`}`;
+	return htmlResponse(renderPage('Review history', body));
+}
+
+async function renderReview(key: string, env: Env): Promise<Response> {
+	const parsed = parseReviewResultKey(key);
+	const outcome = parsed ? await env.REVIEW_RESULTS_KV.get<ReviewOutcome>(key, 'json') : null;
+	if (!parsed || !outcome) {
+		return htmlResponse(renderPage('Review not found', `<p>No review result is stored under <code>${escapeHtml(key)}</code>.</p><p><a href="${DASHBOARD_PATH}">Back</a></p>`), 404);
+	}
+
+	const prompts = outcome.llmPrompt === undefined ? [] : Array.isArray(outcome.llmPrompt) ? outcome.llmPrompt : [outcome.llmPrompt];
+	const comments = outcome.comments || [];
+	const counters: [string, number | undefined][] = [
+		['Rejected comments', outcome.rejectedComments?.length],
+		['Dropped comments', outcome.droppedComments],
+		['Already posted', outcome.duplicateComments],
+		['Threads resolved', outcome.resolvedThreads],
+	];
+	const body = `
+<p><a href="${DASHBOARD_PATH}">Back to overview</a></p>
+<table class="details">
+<tr><th>Repository</th><td>${escapeHtml(parsed.repository)} <span class="muted">${escapeHtml(parsed.source)}</span></td></tr>
+<tr><th>PR/MR</th><td>${escapeHtml(parsed.number)}${outcome.pullRequest?.headSha || outcome.mergeRequest?.headSha ? ` <span class="muted">at ${escapeHtml(outcome.pullRequest?.headSha || outcome.mergeRequest?.headSha || '')}</span>` : ''}</td></tr>
+<tr><th>Event</th><td><code>${escapeHtml(parsed.eventId)}</code></td></tr>
+<tr><th>Status</th><td>${statusBadge(outcome.status)}</td></tr>
+<tr><th>Review type</th><td>${escapeHtml(outcome.reviewType)}</td></tr>
+<tr><th>Time</th><td>${escapeHtml(outcome.timestamp)}</td></tr>
+<tr><th>Comments</th><td>${comments.length}</td></tr>
+${counters.filter(([, count]) => count).map(([label, count]) => `<tr><th>${label}</th><td>${count}</td></tr>`).join('\n')}
+${outcome.error ? `<tr><th>Error</th><td class="error">${escapeHtml(outcome.error)}</td></tr>` : ''}
+</table>
+<h2>Summary</h2>
+${outcome.summary ? `<pre>${escapeHtml(outcome.summary)}</pre>` : '<p class="muted">No summary.</p>'}
+<h2>Comments</h2>
+${comments.length === 0 ? '<p class="muted">No comments.</p>' : `<table>
+<thead><tr><th>File</th><th>Line</th><th>Severity</th><th>Category</th><th>Comment</th></tr></thead>
+<tbody>
+${comments.map(c => `<tr><td><code>${escapeHtml(c.filePath || '')}</code></td><td>${c.lineNumber ?? c.position ?? ''}</td><td>${escapeHtml(c.severity || '')}</td><td>${escapeHtml(c.category || '')}</td><td><pre>${escapeHtml(c.comment)}</pre></td></tr>`).join('\n')}
+</tbody>
+</table>`}
+<h2>Prompts</h2>
+${prompts.length === 0 ? '<p class="muted">No prompt was recorded for this review.</p>' : prompts.map((prompt, i) => `<details><summary>Prompt${prompts.length > 1 ? ` ${i + 1} of ${prompts.length}` : ''} (${prompt.length} characters)</summary><pre>${escapeHtml(prompt)}</pre></details>`).join('\n')}
+<h2>Raw LLM response</h2>
+${outcome.llmRawResponse === undefined ? '<p class="muted">No raw response was recorded for this review.</p>' : `<details><summary>Response JSON</summary><pre>${escapeHtml(JSON.stringify(outcome.llmRawResponse, null, 2))}</pre></details>`}`;
+	return htmlResponse(renderPage(`Review ${parsed.repository} #${parsed.number}`, body));
+}
+
+// KV lists in key order, not by time, so every key's metadata is read (up to MAX_INDEXED_REVIEWS) and filtered to the window.
+async function loadReviewIndex(env: Env, since: number): Promise<ReviewIndex> {
+	const reviews: ReviewResultSummary[] = [];
+	let cursor: string | undefined;
+	let read = 0;
+	let truncated = false;
+	do {
+		const page = await env.REVIEW_RESULTS_KV.list<ReviewResultMetadata>({ prefix: REVIEW_RESULT_KEY_PREFIX, cursor });
+		for (const entry of page.keys) {
+			const parsed = parseReviewResultKey(entry.name);
+			const time = entry.metadata?.timestamp ? Date.parse(entry.metadata.timestamp) : NaN;
+			if (!parsed || Number.isNaN(time) || time < since) continue;
+			reviews.push({ ...parsed, status: entry.metadata?.status, timestamp: entry.metadata?.timestamp });
+		}
+		read += page.keys.length;
+		cursor = page.list_complete ? undefined : page.cursor;
+		if (cursor && read >= MAX_INDEXED_REVIEWS) {
+			truncated = true;
+			break;
+		}
+	} while (cursor);
+	reviews.sort((a, b) => (b.timestamp || '').localeCompare(a.timestamp || ''));
+	return { reviews, truncated };
+}
+
+export function computeRepositoryStats(reviews: ReviewResultSummary[]): RepositoryStats[] {
+	const byRepository = new Map<string, RepositoryStats>();
+	for (const review of reviews) {
+		const id = `${review.source}:${review.repository}`;
+		const stats = byRepository.get(id) || { source: review.source, repository: review.repository, total: 0, completed: 0, failed: 0, other: 0 };
+		stats.total++;
+		if (review.status === 'completed') stats.completed++;
+		else if (review.status && FAILURE_STATUSES.includes(review.status)) stats.failed++;
+		else stats.other++;
+		if (review.timestamp && (!stats.lastReviewAt || review.timestamp > stats.lastReviewAt)) stats.lastReviewAt = review.timestamp;
+		byRepository.set(id, stats);
+	}
+	return [...byRepository.values()].sort((a, b) => b.total - a.total || a.repository.localeCompare(b.repository));
+}
+
+function formatRate(completed: number, failed: number): string {
+	const attempted = completed + failed;
+	return attempted === 0 ? '–' : `${Math.round((completed / attempted) * 100)}%`;
+}
+
+function overviewHref(days: number, repo?: string, status?: string): string {
+	const params = new URLSearchParams({ days: String(days) });
+	if (repo) params.set('repo', repo);
+	if (status) params.set('status', status);
+	return escapeHtml(`${DASHBOARD_PATH}?${params}`);
+}
+
+function statusBadge(status?: string): string {
+	const tone = status === 'completed' ? 'ok' : status && FAILURE_STATUSES.includes(status as ReviewOutcome['status']) ? 'bad' : 'neutral';
+	return `<span class="status ${tone}">${escapeHtml(status || 'unknown')}</span>`;
+}
+
+function truncate(text: string, length: number): string {
+	return text.length > length ? `${text.substring(0, length)}…` : text;
+}
+
+export function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+function renderPage(title: string, body: string): string {
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · AI Code Review</title>
+<style>
+body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem auto; max-width: 1200px; padding: 0 1rem; color: #1f2328; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; }
+th, td { text-align: left; vertical-align: top; padding: 0.35rem 0.6rem; border-bottom: 1px solid #d0d7de; }
+table.details { width: auto; }
+pre { white-space: pre-wrap; word-break: break-word; margin: 0; font-size: 12px; }
+details pre { background: #f6f8fa; padding: 0.75rem; margin: 0.5rem 0 1rem; }
+.muted { color: #656d76; }
+.error { color: #a40e26; }
+.warning { background: #fff8c5; padding: 0.5rem; }
+.status { border-radius: 1em; padding: 0 0.6em; font-size: 12px; white-space: nowrap; }
+.status.ok { background: #dafbe1; color: #116329; }
+.status.bad { background: #ffebe9; color: #a40e26; }
+.status.neutral { background: #eaeef2; color: #424a53; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>`;
+}
@@ -0,0 +1,116 @@
+import type { Env, LLMComment, ReviewFile, ReviewOutcome, ReviewTask } from './types';
+import { parseUnifiedDiff, type ParsedDiff } from './diff-parser';
+import { getVcsProvider } from './vcs-providers';
+import { positionedFiles } from './incremental';
+
+// A finding the bot posted earlier: a GitHub review thread or GitLab discussion whose first comment carries the
+// marker written by formatFindingBody.
+export interface FindingThread {
+	// GitHub review thread node id or GitLab discussion id.
+	id: string;
+	fingerprint: string;
+	lineFingerprint?: string;
+	filePath?: string;
+	resolved: boolean;
+}
+
+export interface FindingThreadsResult {
+	success: boolean;
+	threads?: FindingThread[];
+	error?: string;
+	isRetryable?: boolean;
+}
+
+const FINGERPRINT_LENGTH = 16;
+
+// Case, whitespace, punctuation and Markdown emphasis do not make a finding new.
+export function normaliseFindingText(text: string): string {
+	return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+async function hash(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('').substring(0, FINGERPRINT_LENGTH);
+}
+
+function parseDiffs(files: ReviewFile[]): Map<string, ParsedDiff> {
+	return new Map(files.filter(file => file.diff).map(file => [file.path, parseUnifiedDiff(file.diff!)]));
+}
+
+// Keyed on the line's text rather than its number, so a finding keeps its fingerprint when code above it moves.
+// Expects anchored comments (see anchorComments), whose lineNumber and side point into the diff.
+export async function fingerprintComments(comments: LLMComment[], files: ReviewFile[]): Promise<LLMComment[]> {
+	const diffs = parseDiffs(files);
+	return Promise.all(comments.map(async c => {
+		const diff = c.filePath ? diffs.get(c.filePath) : undefined;
+		const line = diff && c.lineNumber ? (c.side === 'LEFT' ? diff.byOldLine : diff.byNewLine).get(c.lineNumber) : undefined;
+		const content = line ? line.content.trim() : '';
+		return {
+			...c,
+			fingerprint: await hash([c.filePath || '', content, normaliseFindingText(c.comment)].join('\n')),
+			lineFingerprint: line ? await hash(`${c.filePath}\n${content}`) : undefined,
+		};
+	}));
+}
+
+// Fingerprints the outcome's findings and drops those the bot already posted on the pull/merge request. Returns the
+// bot's earlier findings for resolveFixedFindings, or undefined when the host cannot list them; a failed listing is
+// logged and every finding is posted.
+export async function skipPostedFindings(task: ReviewTask, outcome: ReviewOutcome, env: Env): Promise<FindingThread[] | undefined> {
+	if (outcome.comments) {
+		outcome.comments = await fingerprintComments(outcome.comments, positionedFiles(task));
+		outcome.fingerprints = outcome.comments.map(c => c.fingerprint!);
+	}
+	const provider = getVcsProvider(task.source);
+	if (!provider?.listFindingThreads) return undefined;
+
+	const result = await provider.listFindingThreads(task, env);
+	if (!result.success || !result.threads) {
+		console.warn(`Could not list earlier findings for task ${task.eventId}; posting every finding: ${result.error}`);
+		return undefined;
+	}
+	const posted = new Set(result.threads.map(thread => thread.fingerprint));
+	const fresh = (outcome.comments || []).filter(c => !posted.has(c.fingerprint!));
+	if (outcome.comments && fresh.length !== outcome.comments.length) {
+		console.log(`Skipping ${outcome.comments.length - fresh.length} findings already posted for task ${task.eventId}.`);
+		outcome.duplicateComments = outcome.comments.length - fresh.length;
+		outcome.comments = fresh;
+	}
+	return result.threads;
+}
+
+// Resolves the bot's open threads whose commented line the reviewed changes rewrote or deleted (a line that moved
+// is not fixed), or whose file they deleted, unless this review reported the same finding again.
+// Returns how many were resolved; failures are logged, never thrown.
+export async function resolveFixedFindings(task: ReviewTask, outcome: ReviewOutcome, threads: FindingThread[], env: Env): Promise<number> {
+	const provider = getVcsProvider(task.source);
+	if (!provider?.resolveFindingThread) return 0;
+	const reported = new Set(outcome.fingerprints || []);
+	const diffs = parseDiffs(task.filesToReview);
+	const changedLines = new Map<string, { removed: Set<string>; added: Set<string> }>();
+
+	let resolved = 0;
+	for (const thread of threads) {
+		if (thread.resolved || !thread.filePath || reported.has(thread.fingerprint)) continue;
+		const file = task.filesToReview.find(f => f.path === thread.filePath);
+		if (!file) continue;
+
+		let fixed = file.status === 'removed';
+		const diff = diffs.get(file.path);
+		if (!fixed && thread.lineFingerprint && diff) {
+			if (!changedLines.has(file.path)) {
+				const removed = new Set<string>(), added = new Set<string>();
+				for (const line of diff.lines) {
+					if (line.type === 'del') removed.add(await hash(`${file.path}\n${line.content.trim()}`));
+					if (line.type === 'add') added.add(await hash(`${file.path}\n${line.content.trim()}`));
+				}
+				changedLines.set(file.path, { removed, added });
+			}
+			const lines = changedLines.get(file.path)!;
+			fixed = lines.removed.has(thread.lineFingerprint) && !lines.added.has(thread.lineFingerprint);
+		}
+		if (fixed && await provider.resolveFindingThread(task, thread, env)) resolved++;
+	}
+	if (resolved > 0) console.log(`Resolved ${resolved} earlier findings whose code was changed for task ${task.eventId}.`);
+	return resolved;
+}
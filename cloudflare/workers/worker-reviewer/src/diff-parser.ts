@@ -0,0 +1,166 @@
+import type { LLMComment, ReviewFile } from './types';
+import { formatFindingText } from './findings';
+
+export interface DiffLine {
+	type: 'add' | 'del' | 'context';
+	// Text of the line without its +/-/space prefix.
+	content: string;
+	oldLine?: number;
+	newLine?: number;
+	// GitHub's legacy "position": lines below the first @@ header, counting later hunk headers.
+	position: number;
+}
+
+export interface ParsedDiff {
+	lines: DiffLine[];
+	byNewLine: Map<number, DiffLine>;
+	byOldLine: Map<number, DiffLine>;
+	byPosition: Map<number, DiffLine>;
+}
+
+export interface AnchorResult {
+	anchored: LLMComment[];
+	rejected: LLMComment[];
+}
+
+// How far (in lines) a comment may be moved to reach the nearest commentable line.
+const SNAP_DISTANCE = 3;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+export function parseUnifiedDiff(diff: string): ParsedDiff {
+	const parsed: ParsedDiff = { lines: [], byNewLine: new Map(), byOldLine: new Map(), byPosition: new Map() };
+	let oldLine = 0, newLine = 0, position = 0;
+	let inHunk = false;
+
+	for (const raw of diff.replace(/\n$/, '').split('\n')) {
+		const header = HUNK_HEADER.exec(raw);
+		if (header) {
+			if (inHunk) position++;
+			inHunk = true;
+			oldLine = parseInt(header[1], 10);
+			newLine = parseInt(header[2], 10);
+			continue;
+		}
+		if (!inHunk) continue; // diff --git / --- / +++ headers
+
+		position++;
+		let line: DiffLine;
+		if (raw.startsWith('+')) {
+			line = { type: 'add', content: raw.substring(1), newLine: newLine++, position };
+		} else if (raw.startsWith('-')) {
+			line = { type: 'del', content: raw.substring(1), oldLine: oldLine++, position };
+		} else if (raw.startsWith(' ') || raw === '') {
+			line = { type: 'context', content: raw.substring(1), oldLine: oldLine++, newLine: newLine++, position };
+		} else {
+			continue; // "\ No newline at end of file"
+		}
+		parsed.lines.push(line);
+		parsed.byPosition.set(position, line);
+		if (line.newLine !== undefined) parsed.byNewLine.set(line.newLine, line);
+		if (line.oldLine !== undefined && line.type === 'del') parsed.byOldLine.set(line.oldLine, line);
+	}
+	return parsed;
+}
+
+// Moves each comment onto a line the VCS will accept, or rejects it when no such line is close enough.
+export function anchorComments(comments: LLMComment[], files: ReviewFile[]): AnchorResult {
+	const result: AnchorResult = { anchored: [], rejected: [] };
+	const diffs = new Map<string, ParsedDiff>();
+	for (const file of files) {
+		if (file.diff) diffs.set(file.path, parseUnifiedDiff(file.diff));
+	}
+
+	for (const comment of comments) {
+		if (!comment.filePath || (!comment.lineNumber && !comment.position)) {
+			result.anchored.push(comment);
+			continue;
+		}
+		const diff = diffs.get(comment.filePath);
+		const line = diff ? findDiffLine(diff, comment) : undefined;
+		if (!line) {
+			result.rejected.push(comment);
+			continue;
+		}
+		const { position: _position, lineNumber: _lineNumber, ...rest } = comment;
+		if (line.type === 'del') {
+			result.anchored.push({ ...rest, lineNumber: line.oldLine, oldLineNumber: line.oldLine, side: 'LEFT' });
+		} else {
+			result.anchored.push({ ...rest, lineNumber: line.newLine, oldLineNumber: line.oldLine, side: 'RIGHT' });
+		}
+	}
+	return result;
+}
+
+function findDiffLine(diff: ParsedDiff, comment: LLMComment): DiffLine | undefined {
+	if (!comment.lineNumber && comment.position) {
+		return diff.byPosition.get(comment.position);
+	}
+	const target = comment.lineNumber!;
+	if (comment.side === 'LEFT') return diff.byOldLine.get(target);
+	const exact = diff.byNewLine.get(target);
+	if (exact) return exact;
+	for (let distance = 1; distance <= SNAP_DISTANCE; distance++) {
+		const candidate = diff.byNewLine.get(target - distance) || diff.byNewLine.get(target + distance);
+		if (candidate) return candidate;
+	}
+	return undefined;
+}
+
+// Splits a unified diff into its hunks (header included); file headers before the first hunk are dropped.
+export function splitHunks(diff: string): string[] {
+	const hunks: string[][] = [];
+	for (const raw of diff.replace(/\n$/, '').split('\n')) {
+		if (HUNK_HEADER.test(raw)) hunks.push([raw]);
+		else if (hunks.length > 0) hunks[hunks.length - 1].push(raw);
+	}
+	return hunks.map(lines => lines.join('\n'));
+}
+
+// Returns the raw hunk (header included) that covers the given line, for use as prompt context.
+export function extractHunk(diff: string, lineNumber: number, side: 'LEFT' | 'RIGHT' = 'RIGHT'): string | undefined {
+	return splitHunks(diff).find(hunk => {
+		const parsed = parseUnifiedDiff(hunk);
+		return side === 'LEFT' ? parsed.lines.some(l => l.oldLine === lineNumber) : parsed.byNewLine.has(lineNumber);
+	});
+}
+
+export function formatRejectedComments(rejected: LLMComment[]): string {
+	const items = rejected.map(c => {
+		const line = c.lineNumber || c.position;
+		return `- \`${line ? `${c.filePath}:${line}` : c.filePath}\`: ${formatFindingText(c)}`;
+	});
+	return `**Comments outside the changed lines:**\n${items.join('\n')}`;
+}
+
+// Splits a multi-file unified diff (`git diff` output, as served by Bitbucket and Gitea) into per-file entries whose
+// diff starts at the first hunk header, like the patches GitHub and GitLab return per file.
+export function splitDiffByFile(diff: string): ReviewFile[] {
+	const files: ReviewFile[] = [];
+	for (const section of diff.split(/^(?=diff --git )/m)) {
+		if (!section.startsWith('diff --git ')) continue;
+		const lines = section.replace(/\n$/, '').split('\n');
+		const header = /^diff --git a\/(.+?) b\/(.+)$/.exec(lines[0]);
+		let oldPath = header?.[1], newPath = header?.[2];
+		let status = 'modified';
+		const hunkStart = lines.findIndex(line => line.startsWith('@@'));
+		for (const line of hunkStart >= 0 ? lines.slice(1, hunkStart) : lines.slice(1)) {
+			if (line.startsWith('new file mode')) status = 'added';
+			else if (line.startsWith('deleted file mode')) status = 'removed';
+			else if (line.startsWith('rename from ')) { oldPath = line.substring('rename from '.length); status = 'renamed'; }
+			else if (line.startsWith('rename to ')) newPath = line.substring('rename to '.length);
+			else if (line.startsWith('--- a/')) oldPath = line.substring(6);
+			else if (line.startsWith('+++ b/')) newPath = line.substring(6);
+		}
+		const path = status === 'removed' ? oldPath : newPath;
+		if (!path) continue;
+		files.push({
+			path,
+			status,
+			previousPath: status === 'renamed' ? oldPath : undefined,
+			// Binary files have no hunks and are listed without a diff.
+			diff: hunkStart >= 0 ? lines.slice(hunkStart).join('\n') : undefined,
+		});
+	}
+	return files;
+}
@@ -0,0 +1,227 @@
+import type { Message } from '@cloudflare/workers-types';
+import type { Env, LLMComment, ReviewFile, ReviewOutcome, ReviewTask } from './types';
+import { isAuthorized } from './results-api';
+import { anchorComments, splitDiffByFile, type AnchorResult } from './diff-parser';
+import { parseRepoConfig, isPathIncluded, REPO_CONFIG_PATH } from './repo-config';
+import { isLastAttempt } from './queue-retries';
+
+const DIRECT_REVIEW_KEY_PREFIX = 'direct-review:';
+const DIRECT_REVIEW_TTL_SECONDS = 7 * 24 * 3600;
+// Larger changes are better reviewed in parts; this also bounds the LLM calls one request can cause.
+const MAX_SUBMISSION_BYTES = 2 * 1024 * 1024;
+const DEFAULT_REPOSITORY = 'local';
+
+// Queue message for a review submitted with "async": true. The submission itself is kept in REVIEW_RESULTS_KV,
+// since diffs easily exceed the queue's message size limit.
+export interface DirectReviewMessage {
+	directReviewJobId: string;
+}
+
+interface DirectReviewRecord {
+	jobId: string;
+	status: 'queued' | ReviewOutcome['status'];
+	submittedAt: string;
+	// Kept until the review has run, so a queued or retried job can be picked up again.
+	task?: ReviewTask;
+	outcome?: ReviewOutcome;
+}
+
+// Runs the LLM review of a submitted diff; index.ts provides it so prompts and post-processing match pull request reviews.
+export type DirectReviewer = (task: ReviewTask, env: Env) => Promise<ReviewOutcome>;
+
+const jsonResponse = (data: any, status: number = 200, headers: Record<string, string> = {}) => {
+	return new Response(JSON.stringify(data), {
+		status,
+		headers: { 'Content-Type': 'application/json', ...headers },
+	});
+};
+
+export function isDirectReviewPath(pathname: string): boolean {
+	return pathname === '/diff-reviews' || pathname.startsWith('/diff-reviews/');
+}
+
+export function isDirectReviewMessage(body: any): body is DirectReviewMessage {
+	return typeof body?.directReviewJobId === 'string';
+}
+
+const directReviewKey = (jobId: string) => `${DIRECT_REVIEW_KEY_PREFIX}${jobId}`;
+
+/**
+ * Builds the review task for a submission: either a raw unified diff (e.g. `git diff` output) or a list of
+ * { path, diff, content } files, plus an optional reviewType, repository name for the prompt and the text of an
+ * .ai-review.yml whose path filters, language, instructions and limits apply as they would on a pull request.
+ */
+export function buildDirectReviewTask(body: any, jobId: string): { task?: ReviewTask; error?: string } {
+	if (!body || typeof body !== 'object' || Array.isArray(body)) {
+		return { error: 'Request body must be a JSON object.' };
+	}
+	const { diff, files, reviewType, repository = DEFAULT_REPOSITORY, config } = body;
+	if ((diff === undefined) === (files === undefined)) {
+		return { error: 'Send either "diff" (a unified diff) or "files" (a list of { path, diff, content }).' };
+	}
+
+	let submittedFiles: ReviewFile[];
+	if (diff !== undefined) {
+		if (typeof diff !== 'string') return { error: '"diff" must be a string.' };
+		submittedFiles = splitDiffByFile(diff);
+		if (submittedFiles.length === 0) return { error: '"diff" contains no file diffs; send the output of "git diff".' };
+	} else {
+		const invalid = Array.isArray(files) ? files.findIndex(file => !isReviewFile(file)) : -1;
+		if (!Array.isArray(files) || files.length === 0 || invalid >= 0) {
+			return { error: `"files" must be a non-empty list of { path, diff?, content? } objects with string fields${invalid >= 0 ? ` (entry ${invalid} is not)` : ''}.` };
+		}
+		submittedFiles = files.map(({ path, diff, content, status, previousPath }: ReviewFile) => ({ path, diff, content, status, previousPath }));
+	}
+
+	if (reviewType !== undefined && reviewType !== 'detailed' && reviewType !== 'general') {
+		return { error: '"reviewType" must be "detailed" or "general".' };
+	}
+	if (typeof repository !== 'string' || !repository.trim()) {
+		return { error: '"repository" must be a non-empty string.' };
+	}
+	if (config !== undefined && typeof config !== 'string') {
+		return { error: `"config" must be the text of a ${REPO_CONFIG_PATH} file.` };
+	}
+	const parsedConfig = parseRepoConfig(config || '');
+	if (!parsedConfig.success || !parsedConfig.config) {
+		return { error: parsedConfig.error };
+	}
+	const repoConfig = parsedConfig.config;
+
+	return {
+		task: {
+			// Not a VCS: nothing is fetched from or posted to a host, and the prompt names the source as "direct".
+			source: 'direct',
+			repository: { fullName: repository.trim(), id: 0, defaultBranch: 'main' },
+			eventId: jobId,
+			reviewType: reviewType || repoConfig.reviewType || 'general',
+			filesToReview: submittedFiles.filter(file => isPathIncluded(file.path, repoConfig)),
+			config: repoConfig,
+		},
+	};
+}
+
+// Submitted files may come without a diff, in which case the whole content is under review: line comments on such a
+// file are kept when the line exists in it. Comments on files with a diff are anchored on the diff as usual.
+export function anchorSubmittedComments(comments: LLMComment[], files: ReviewFile[]): AnchorResult {
+	const contentLines = new Map(files.filter(file => !file.diff && file.content !== undefined).map(file => [file.path, file.content!.split('\n').length]));
+	const onContent = comments.filter(c => c.filePath && contentLines.has(c.filePath) && (c.lineNumber || c.position));
+	const result = anchorComments(comments.filter(c => !onContent.includes(c)), files);
+	for (const { position: _position, ...comment } of onContent) {
+		if (comment.lineNumber && comment.lineNumber <= contentLines.get(comment.filePath)!) result.anchored.push({ ...comment, side: 'RIGHT' });
+		else result.rejected.push(comment);
+	}
+	return result;
+}
+
+function isReviewFile(file: any): file is ReviewFile {
+	if (!file || typeof file.path !== 'string' || !file.path) return false;
+	return ['diff', 'content', 'status', 'previousPath'].every(field => file[field] === undefined || typeof file[field] === 'string');
+}
+
+/**
+ * HTTP API for reviewing diffs that do not come from a pull/merge request, e.g. before pushing or in CI:
+ *   POST /diff-reviews                 reviews the submission and answers with its ReviewOutcome;
+ *                                      with "async": true it queues the review and answers 202 with the job ID
+ *   GET  /diff-reviews/<job ID>        the job's status, and its ReviewOutcome once reviewed
+ * Nothing is posted to a VCS. Disabled (404) unless DIRECT_REVIEW_TOKEN is set; callers send it as a Bearer token.
+ */
+export async function handleDirectReviewRequest(request: Request, env: Env, review: DirectReviewer): Promise<Response> {
+	const { pathname } = new URL(request.url);
+	if (!env.DIRECT_REVIEW_TOKEN) {
+		return jsonResponse({ error: 'Not found.' }, 404);
+	}
+	const allowed = pathname === '/diff-reviews' ? 'POST' : 'GET';
+	if (request.method !== allowed) {
+		return jsonResponse({ error: 'Method Not Allowed' }, 405, { Allow: allowed });
+	}
+	if (!(await isAuthorized(request, env.DIRECT_REVIEW_TOKEN))) {
+		return jsonResponse({ error: 'Unauthorized.' }, 401, { 'WWW-Authenticate': 'Bearer' });
+	}
+
+	try {
+		if (request.method === 'GET') return await getDirectReview(pathname.slice('/diff-reviews/'.length), env);
+		return await submitDirectReview(request, env, review);
+	} catch (error: any) {
+		console.error(`Direct review request ${request.method} ${pathname} failed:`, error.message);
+		return jsonResponse({ error: `Direct review failed: ${error.message}` }, 500);
+	}
+}
+
+async function submitDirectReview(request: Request, env: Env, review: DirectReviewer): Promise<Response> {
+	const rawBody = await request.text();
+	if (new TextEncoder().encode(rawBody).length > MAX_SUBMISSION_BYTES) {
+		return jsonResponse({ error: `Submission exceeds ${MAX_SUBMISSION_BYTES} bytes; review the change in smaller parts.` }, 413);
+	}
+	let body: any;
+	try {
+		body = JSON.parse(rawBody);
+	} catch (e: any) {
+		return jsonResponse({ error: `Invalid JSON payload. ${e.message}` }, 400);
+	}
+
+	const jobId = `direct_${crypto.randomUUID()}`;
+	const { task, error } = buildDirectReviewTask(body, jobId);
+	if (!task) {
+		return jsonResponse({ error }, 400);
+	}
+	const submittedAt = new Date().toISOString();
+
+	if (body.async === true) {
+		await putDirectReview(env, { jobId, status: 'queued', submittedAt, task });
+		const message: DirectReviewMessage = { directReviewJobId: jobId };
+		await env.REVIEW_TASKS_QUEUE.send(message);
+		console.log(`Direct review ${jobId} queued with ${task.filesToReview.length} files.`);
+		return jsonResponse({ jobId, status: 'queued', submittedAt }, 202);
+	}
+
+	console.log(`Running direct review ${jobId} with ${task.filesToReview.length} files.`);
+	const outcome = await review(task, env);
+	const record: DirectReviewRecord = { jobId, status: outcome.status, submittedAt, outcome };
+	await putDirectReview(env, record);
+	return jsonResponse(record);
+}
+
+async function getDirectReview(jobId: string, env: Env): Promise<Response> {
+	const record = jobId ? await env.REVIEW_RESULTS_KV.get<DirectReviewRecord>(directReviewKey(jobId), 'json') : null;
+	if (!record) {
+		return jsonResponse({ error: 'Direct review not found.', jobId }, 404);
+	}
+	const { task: _task, ...visible } = record;
+	return jsonResponse(visible);
+}
+
+async function putDirectReview(env: Env, record: DirectReviewRecord): Promise<void> {
+	await env.REVIEW_RESULTS_KV.put(directReviewKey(record.jobId), JSON.stringify(record), { expirationTtl: DIRECT_REVIEW_TTL_SECONDS });
+}
+
+// Queue side of "async": true. Reviews that failed with a retryable error keep their task and are retried until the
+// queue gives up; the last attempt's failure is stored as error_calling_llm so pollers see a final status.
+export async function processDirectReviewMessage(message: Message<DirectReviewMessage>, env: Env, review: DirectReviewer): Promise<void> {
+	const jobId = message.body.directReviewJobId;
+	try {
+		const record = await env.REVIEW_RESULTS_KV.get<DirectReviewRecord>(directReviewKey(jobId), 'json');
+		if (!record?.task) {
+			console.warn(`Direct review ${jobId} has no pending submission (expired or already reviewed); dropping the message.`);
+			message.ack();
+			return;
+		}
+		const outcome = await review(record.task, env);
+		if (outcome.status === 'failed' && isLastAttempt(message, env)) {
+			outcome.status = 'error_calling_llm';
+			outcome.error = `${outcome.error || 'Review failed'} (gave up after ${message.attempts} attempts)`;
+		}
+		const retry = outcome.status === 'failed';
+		await putDirectReview(env, { jobId, status: outcome.status, submittedAt: record.submittedAt, outcome, ...(retry ? { task: record.task } : {}) });
+		if (retry) {
+			console.warn(`Direct review ${jobId} failed with a retryable error; retrying. Error: ${outcome.error}`);
+			message.retry();
+		} else {
+			console.log(`Direct review ${jobId} finished with status ${outcome.status}.`);
+			message.ack();
+		}
+	} catch (error: any) {
+		console.error(`Error processing direct review ${jobId}; retrying:`, error.message);
+		message.retry();
+	}
+}
@@ -0,0 +1,73 @@
+import type { FindingCategory, FindingSeverity, LLMComment, VcsSource } from './types';
+
+// Most severe first; the order is used for filtering and for choosing which findings survive `max_comments`.
+export const FINDING_SEVERITIES: FindingSeverity[] = ['blocker', 'major', 'minor', 'nit'];
+export const FINDING_CATEGORIES: FindingCategory[] = ['security', 'bug', 'performance', 'style', 'tests', 'docs'];
+
+const SEVERITY_ICONS: Record<FindingSeverity, string> = { blocker: '🛑', major: '🔴', minor: '🟡', nit: '⚪' };
+
+function severityRank(severity?: FindingSeverity): number {
+	// Findings without a severity rank between minor and nit, so they are neither promoted nor filtered out by default.
+	return severity ? FINDING_SEVERITIES.indexOf(severity) : FINDING_SEVERITIES.indexOf('minor') + 0.5;
+}
+
+// Keeps findings at or above `minSeverity`. Findings the model did not grade are kept.
+export function filterBySeverity(comments: LLMComment[], minSeverity?: FindingSeverity): LLMComment[] {
+	if (!minSeverity) return comments;
+	const limit = FINDING_SEVERITIES.indexOf(minSeverity);
+	return comments.filter(c => !c.severity || FINDING_SEVERITIES.indexOf(c.severity) <= limit);
+}
+
+// Stable sort, most severe first.
+export function sortBySeverity(comments: LLMComment[]): LLMComment[] {
+	return comments.map((comment, index) => ({ comment, index }))
+		.sort((a, b) => severityRank(a.comment.severity) - severityRank(b.comment.severity) || a.index - b.index)
+		.map(entry => entry.comment);
+}
+
+export function formatFindingLabel(comment: LLMComment): string {
+	if (!comment.severity && !comment.category) return '';
+	const parts = [comment.severity ? `${SEVERITY_ICONS[comment.severity]} ${comment.severity}` : undefined, comment.category].filter(Boolean);
+	return `**[${parts.join(' · ')}]** `;
+}
+
+// Body of an inline comment. Suggestions become a block the author can apply: GitHub's ```suggestion, and GitLab's
+// ```suggestion:-0+0 (replace only the commented line). Comments on removed lines, and hosts without suggestions
+// (Bitbucket, Gitea), get a plain code block.
+export function formatFindingBody(comment: LLMComment, source: VcsSource): string {
+	let body = formatFindingLabel(comment) + comment.comment;
+	if (comment.suggestion !== undefined) {
+		const applicable = comment.filePath && comment.lineNumber && comment.side !== 'LEFT';
+		const fence = !applicable ? '```' : source === 'github' ? '```suggestion' : source === 'gitlab' ? '```suggestion:-0+0' : '```';
+		body += `\n\n${fence}\n${comment.suggestion.replace(/\n$/, '')}\n\`\`\``;
+	}
+	// Bitbucket renders HTML comments as text.
+	if (comment.fingerprint && source !== 'bitbucket') body += `\n\n${formatFindingMarker(comment)}`;
+	return body;
+}
+
+const FINDING_MARKER = /<!-- ai-review-finding:([0-9a-f]+)(?: line:([0-9a-f]+))? -->/;
+
+// Hidden in the posted comment so later reviews recognise the finding; see dedup.ts.
+export function formatFindingMarker(comment: LLMComment): string {
+	return `<!-- ai-review-finding:${comment.fingerprint}${comment.lineFingerprint ? ` line:${comment.lineFingerprint}` : ''} -->`;
+}
+
+export function parseFindingMarker(body: string | undefined): { fingerprint: string; lineFingerprint?: string } | null {
+	const match = FINDING_MARKER.exec(body || '');
+	return match ? { fingerprint: match[1], lineFingerprint: match[2] } : null;
+}
+
+// Single-line rendering for lists in review bodies and summaries, where suggestion blocks cannot be applied.
+export function formatFindingText(comment: LLMComment): string {
+	return formatFindingLabel(comment) + comment.comment;
+}
+
+// e.g. "1 blocker, 2 minor"; empty when no finding carries a severity.
+export function formatSeverityCounts(comments: LLMComment[]): string {
+	return FINDING_SEVERITIES
+		.map(severity => ({ severity, count: comments.filter(c => c.severity === severity).length }))
+		.filter(entry => entry.count > 0)
+		.map(entry => `${entry.count} ${entry.severity}`)
+		.join(', ');
+}
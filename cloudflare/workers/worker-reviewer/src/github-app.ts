@@ -0,0 +1,100 @@
+import type { Env, ReviewTask } from './types';
+import { createAppJwt } from '../../shared/github-app';
+import { GITHUB_API_BASE } from './vcs-github';
+
+export { createAppJwt };
+
+const TOKEN_CACHE_PREFIX = 'github-app-token:';
+// Installation tokens live for an hour; one is not reused in its last minutes so it cannot expire mid-review.
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface GithubAuthResult {
+	success: boolean;
+	// Env whose GITHUB_TOKEN (and GITHUB_BOT_LOGIN for apps) belong to the task's repository; every GitHub call of the task uses it.
+	env?: Env;
+	error?: string;
+	isRetryable?: boolean;
+}
+
+interface CachedInstallationToken {
+	token: string;
+	expiresAt: string;
+	botLogin?: string;
+}
+
+export function isGithubAppConfigured(env: Env): boolean {
+	return Boolean(env.GITHUB_APP_ID && env.GITHUB_APP_PRIVATE_KEY);
+}
+
+// GitHub App installation token when the app is configured and the webhook came from an installation; otherwise the GITHUB_TOKEN PAT.
+export async function resolveGithubAuth(task: ReviewTask, env: Env): Promise<GithubAuthResult> {
+	if (task.source !== 'github' || !task.installationId || !isGithubAppConfigured(env)) {
+		return { success: true, env };
+	}
+
+	const cacheKey = `${TOKEN_CACHE_PREFIX}${task.installationId}`;
+	try {
+		const cached = await env.REVIEW_RESULTS_KV.get(cacheKey, 'json') as CachedInstallationToken | null;
+		if (cached && Date.parse(cached.expiresAt) - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+			return { success: true, env: withInstallationToken(env, cached) };
+		}
+	} catch (error: any) {
+		console.warn(`Could not read cached installation token for task ${task.eventId}: ${error.message}`);
+	}
+
+	let jwt: string;
+	try {
+		jwt = await createAppJwt(env.GITHUB_APP_ID!, env.GITHUB_APP_PRIVATE_KEY!);
+	} catch (error: any) {
+		console.error(`Failed to sign GitHub App JWT for task ${task.eventId}: ${error.message}`);
+		return { success: false, error: `Invalid GITHUB_APP_PRIVATE_KEY: ${error.message}`, isRetryable: false };
+	}
+	const headers = { "Authorization": `Bearer ${jwt}`, "Accept": "application/vnd.github+json", "User-Agent": "Cloudflare-Worker-Code-Reviewer" };
+
+	try {
+		const response = await fetch(`${GITHUB_API_BASE}/app/installations/${task.installationId}/access_tokens`, { method: "POST", headers });
+		const responseText = await response.text();
+		if (!response.ok) {
+			const retryable = response.status >= 500 || response.status === 429;
+			console.error(`Failed to create installation token for task ${task.eventId}: ${response.status} ${responseText.substring(0,100)}`);
+			return { success: false, error: `GitHub App token error ${response.status}: ${responseText.substring(0,100)}`, isRetryable: retryable };
+		}
+		const created = JSON.parse(responseText);
+		const entry: CachedInstallationToken = { token: created.token, expiresAt: created.expires_at, botLogin: await fetchAppBotLogin(headers, task) };
+
+		// KV requires expirations at least 60 seconds ahead.
+		const expiration = Math.floor((Date.parse(entry.expiresAt) - TOKEN_REFRESH_MARGIN_MS) / 1000);
+		if (expiration > Date.now() / 1000 + 60) {
+			try {
+				await env.REVIEW_RESULTS_KV.put(cacheKey, JSON.stringify(entry), { expiration });
+			} catch (error: any) {
+				console.warn(`Could not cache installation token for task ${task.eventId}: ${error.message}`);
+			}
+		}
+		console.log(`Created installation token for installation ${task.installationId} (task ${task.eventId}).`);
+		return { success: true, env: withInstallationToken(env, entry) };
+	} catch (error: any) {
+		console.error(`Error creating installation token for task ${task.eventId}: ${error.message}`);
+		return { success: false, error: `Error creating GitHub App installation token: ${error.message}`, isRetryable: true };
+	}
+}
+
+function withInstallationToken(env: Env, entry: CachedInstallationToken): Env {
+	return { ...env, GITHUB_TOKEN: entry.token, GITHUB_BOT_LOGIN: entry.botLogin || env.GITHUB_BOT_LOGIN };
+}
+
+// Installation tokens cannot call GET /user, so the bot's login (`<slug>[bot]`) comes from the app itself.
+async function fetchAppBotLogin(headers: Record<string, string>, task: ReviewTask): Promise<string | undefined> {
+	try {
+		const response = await fetch(`${GITHUB_API_BASE}/app`, { method: "GET", headers });
+		if (!response.ok) {
+			console.warn(`Could not load GitHub App details for task ${task.eventId}: ${response.status}`);
+			return undefined;
+		}
+		const app: any = await response.json();
+		return app.slug ? `${app.slug}[bot]` : undefined;
+	} catch (error: any) {
+		console.warn(`Error loading GitHub App details for task ${task.eventId}: ${error.message}`);
+		return undefined;
+	}
+}
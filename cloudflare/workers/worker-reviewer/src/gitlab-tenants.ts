@@ -0,0 +1,48 @@
+import type { Env } from './types';
+import { gitlabTenantKeys } from '../../shared/vcs';
+
+export { gitlabTenantKeys };
+
+// Entry in GITLAB_TENANTS_KV. Keys are "<host>" or "<host>/<namespace>", e.g. "gitlab.example.com/platform/backend".
+export interface GitlabTenant {
+	// Instance URL without /api/v4, like GITLAB_BASE_URL.
+	baseUrl?: string;
+	token: string;
+	webhookSecret?: string;
+}
+
+export interface GitlabTenantResult {
+	success: boolean;
+	// Env whose GITLAB_BASE_URL and GITLAB_TOKEN belong to the instance that sent the webhook.
+	env?: Env;
+	error?: string;
+	isRetryable?: boolean;
+}
+
+// Falls back to the global GITLAB_BASE_URL / GITLAB_TOKEN when there is no registry or no matching tenant.
+export async function resolveGitlabTenant(payload: any, env: Env): Promise<GitlabTenantResult> {
+	const keys = gitlabTenantKeys(payload?.project?.web_url, payload?.project?.path_with_namespace);
+	if (!env.GITLAB_TENANTS_KV || keys.length === 0) return { success: true, env };
+
+	try {
+		for (const key of keys) {
+			const tenant = await env.GITLAB_TENANTS_KV.get(key, 'json') as GitlabTenant | null;
+			if (!tenant) continue;
+			if (!tenant.token) {
+				return { success: false, error: `GitLab tenant "${key}" has no token.`, isRetryable: false };
+			}
+			console.log(`Using GitLab tenant "${key}" for project ${payload.project.path_with_namespace}.`);
+			return { success: true, env: { ...env, GITLAB_BASE_URL: tenant.baseUrl || new URL(payload.project.web_url).origin, GITLAB_TOKEN: tenant.token } };
+		}
+	} catch (error: any) {
+		console.error(`Error reading GitLab tenant registry: ${error.message}`);
+		return { success: false, error: `Error reading GitLab tenant registry: ${error.message}`, isRetryable: true };
+	}
+
+	const host = keys[keys.length - 1];
+	const defaultHost = new URL(env.GITLAB_BASE_URL || 'https://gitlab.com').host;
+	if (host !== defaultHost) {
+		console.warn(`No GitLab tenant registered for ${host}; using GITLAB_BASE_URL (${defaultHost}).`);
+	}
+	return { success: true, env };
+}
@@ -0,0 +1,121 @@
+import type { Env, LLMComment, PriorFinding, ReviewFile, ReviewOutcome, ReviewTask } from './types';
+import { headShaOf } from '../../shared/vcs';
+import { getVcsProvider } from './vcs-providers';
+import { anchorComments, type AnchorResult } from './diff-parser';
+
+// REVIEW_RESULTS_KV entry for the last completed review of a pull/merge request.
+export interface LastReview {
+	headSha: string;
+	eventId: string;
+	timestamp: string;
+	// Newest first.
+	findings: PriorFinding[];
+}
+
+export interface IncrementalResult {
+	success: boolean;
+	// Present when only `files`, the changes since `lastReview`, need reviewing.
+	lastReview?: LastReview;
+	files?: ReviewFile[];
+	error?: string;
+	isRetryable?: boolean;
+}
+
+const MAX_PRIOR_FINDINGS = 50;
+const MAX_PRIOR_COMMENT = 200;
+// Long-lived pull requests can go months between pushes.
+const LAST_REVIEW_TTL_SECONDS = 90 * 24 * 3600;
+
+export function lastReviewKey(task: ReviewTask): string | null {
+	const number = task.pullRequest?.number ?? task.mergeRequest?.iid;
+	return number === undefined ? null : `last-review:${task.source}:${task.repository.fullName}:${number}`;
+}
+
+// Pushes are reviewed incrementally; `/review` asks for the whole change and questions are not reviews.
+export function shouldReviewIncrementally(task: ReviewTask, env: Env): boolean {
+	return env.INCREMENTAL_REVIEW !== 'false' && !task.command && !task.reply;
+}
+
+// Narrows the task's changed files to those changed since the last completed review. Without an earlier review, on
+// hosts that cannot compare commits, or when the comparison fails, the result has no lastReview and the whole change
+// is reviewed.
+export async function prepareIncrementalReview(task: ReviewTask, env: Env): Promise<IncrementalResult> {
+	const key = lastReviewKey(task);
+	const headSha = headShaOf(task);
+	const provider = getVcsProvider(task.source);
+	if (!key || !headSha || !provider?.fetchCompareFiles) return { success: true };
+
+	let lastReview: LastReview | null;
+	try {
+		lastReview = await env.REVIEW_RESULTS_KV.get(key, 'json') as LastReview | null;
+	} catch (error: any) {
+		console.warn(`Could not read the last review for task ${task.eventId}; reviewing the whole change: ${error.message}`);
+		return { success: true };
+	}
+	if (!lastReview?.headSha || lastReview.headSha === headSha) return { success: true };
+
+	const compareResult = await provider.fetchCompareFiles(task, lastReview.headSha, env);
+	if (!compareResult.success) {
+		if (compareResult.isRetryable) return compareResult;
+		console.warn(`Could not compare ${lastReview.headSha} with ${headSha} for task ${task.eventId}; reviewing the whole change: ${compareResult.error}`);
+		return { success: true };
+	}
+	// Merging the target branch in brings along files the pull request does not change; those are not reviewed.
+	const changedPaths = new Set(task.filesToReview.map(file => file.path));
+	const files = (compareResult.files || []).filter(file => changedPaths.has(file.path));
+	console.log(`Reviewing ${files.length} of ${task.filesToReview.length} files, those changed since ${lastReview.headSha}, for task ${task.eventId}.`);
+	return { success: true, lastReview, files };
+}
+
+// Files whose diffs inline comments are positioned against: the whole pull/merge request, also when only a delta
+// was reviewed.
+export function positionedFiles(task: ReviewTask): ReviewFile[] {
+	return task.incremental?.changeFiles || task.filesToReview;
+}
+
+// The LLM comments on the delta, so comments are anchored on it first and then moved onto the pull/merge request's
+// diff. Added and context lines keep their head line number there; a line deleted since the last review is not in the
+// pull/merge request's base, so its comment is rejected without a line.
+export function anchorIncrementalComments(comments: LLMComment[], task: ReviewTask): AnchorResult {
+	const delta = anchorComments(comments, task.filesToReview);
+	const rejected = [...delta.rejected];
+	const onHead: LLMComment[] = [];
+	for (const { lineNumber, oldLineNumber: _oldLineNumber, side, ...rest } of delta.anchored) {
+		if (side === 'LEFT') rejected.push(rest);
+		else onHead.push(lineNumber ? { ...rest, lineNumber } : rest);
+	}
+	const change = anchorComments(onHead, positionedFiles(task));
+	return { anchored: change.anchored, rejected: [...rejected, ...change.rejected] };
+}
+
+export function formatPriorFindings(findings: PriorFinding[]): string {
+	return findings.map(f => {
+		const location = f.filePath ? `\`${f.lineNumber ? `${f.filePath}:${f.lineNumber}` : f.filePath}\` ` : '';
+		return `- ${location}${f.severity ? `[${f.severity}] ` : ''}${f.comment}`;
+	}).join('\n');
+}
+
+function toPriorFinding(c: LLMComment): PriorFinding {
+	return {
+		filePath: c.filePath || undefined,
+		lineNumber: c.lineNumber,
+		severity: c.severity,
+		comment: c.comment.length > MAX_PRIOR_COMMENT ? `${c.comment.substring(0, MAX_PRIOR_COMMENT)}…` : c.comment,
+	};
+}
+
+// Records the reviewed head and the findings posted so far. Failures are logged, never thrown: the next push is then
+// compared with an older commit or reviewed in full.
+export async function saveLastReview(task: ReviewTask, outcome: ReviewOutcome, env: Env): Promise<void> {
+	const key = lastReviewKey(task);
+	const headSha = headShaOf(task);
+	if (!key || !headSha) return;
+	const findings = [...(outcome.comments || []).map(toPriorFinding), ...(task.incremental?.priorFindings || [])].slice(0, MAX_PRIOR_FINDINGS);
+	const lastReview: LastReview = { headSha, eventId: task.eventId, timestamp: outcome.timestamp, findings };
+	try {
+		await env.REVIEW_RESULTS_KV.put(key, JSON.stringify(lastReview), { expirationTtl: LAST_REVIEW_TTL_SECONDS });
+		console.log(`Recorded ${headSha} as the last reviewed commit for ${key}.`);
+	} catch (error: any) {
+		console.error(`Failed to record the last reviewed commit for task ${task.eventId}: ${error.message}`);
+	}
+}
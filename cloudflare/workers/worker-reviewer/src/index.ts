@@ -1,58 +1,28 @@
-import type { Queue, KVNamespace, MessageBatch, ExecutionContext, Fetcher } from '@cloudflare/workers-types';
-
-export interface Env {
-	REVIEW_TASKS_QUEUE: Queue;
-	REVIEW_RESULTS_KV: KVNamespace;
-	LLM_API_KEY: string;
-	GITHUB_TOKEN: string;
-	GITLAB_TOKEN: string;
-	LLM_ENDPOINT: string;
-	LLM_MODEL_NAME?: string;
-	GITLAB_BASE_URL?: string; // 支持自定义GitLab实例的基础URL
-}
-
-interface WebhookQueueMessage {
-	source: 'github' | 'gitlab';
-	eventId: string;
-	originalPayload: any; 
-	reviewType?: 'detailed' | 'general'; 
-	filesToReview?: Array<{ path: string; content?: string; diff?: string }>;
-}
-
-interface ReviewTask {
-	repository: { fullName: string; id: number | string; defaultBranch: string; };
-	pullRequest?: { id: number; number: number; headSha: string; diffUrl: string; commentsUrl: string; };
-	mergeRequest?: { id: number; iid: number; projectId: number; headSha: string; diffUrl: string; notesUrl: string; };
-	source: 'github' | 'gitlab';
-	eventId: string; 
-	reviewType: 'detailed' | 'general';
-	filesToReview: Array<{ path: string; content?: string; diff?: string }>; 
-}
+import type { MessageBatch, Message, ExecutionContext } from '@cloudflare/workers-types';
+import type { Env, WebhookQueueMessage, ReviewTask, ReviewTarget, ReviewFile, LLMComment, LLMResponse, ReviewOutcome } from './types';
+import { fetchChangedFiles } from './changed-files';
+import { getVcsProvider } from './vcs-providers';
+import { reviewResultKey } from '../../shared/vcs';
+import { loadRepoConfig, isPathIncluded, REPO_CONFIG_PATH } from './repo-config';
+import { upsertSummaryComment } from './summary-comment';
+import { anchorComments, formatRejectedComments } from './diff-parser';
+import { buildExplainReply, postCommandReply } from './command-reply';
+import { requestLLM } from './llm';
+import { planReviewChunks, contextBudget, maxConcurrency, mapWithConcurrency, mergeLLMResponses, formatFileSection } from './chunking';
+import { fetchThread, shouldAnswerThread, buildThreadPrompt, postThreadReply } from './conversation';
+import { resolveGithubAuth } from './github-app';
+import { resolveGitlabTenant } from './gitlab-tenants';
+import { startCommitStatus, finishCommitStatus, type CommitStatusHandle } from './commit-status';
+import { findNewerHead, buildSupersededOutcome } from './superseded';
+import { shouldReviewIncrementally, prepareIncrementalReview, saveLastReview, formatPriorFindings, anchorIncrementalComments } from './incremental';
+import { skipPostedFindings, resolveFixedFindings } from './dedup';
+import { filterBySeverity, sortBySeverity, FINDING_SEVERITIES, FINDING_CATEGORIES } from './findings';
+import { handleResultsRequest } from './results-api';
+import { handleDashboardRequest, isDashboardPath } from './dashboard';
+import { anchorSubmittedComments, handleDirectReviewRequest, isDirectReviewMessage, isDirectReviewPath, processDirectReviewMessage, type DirectReviewMessage } from './direct-review';
+import { isLastAttempt } from './queue-retries';
 
-export interface LLMComment { filePath: string; lineNumber?: number; position?: number; comment: string; }
-
-interface LLMResponse {
-	success: boolean;
-	comments?: LLMComment[];
-	summary?: string;
-	error?: string;
-	rawResponse?: any;
-    isRetryable?: boolean; 
-}
-
-interface ReviewOutcome {
-	taskId: string;
-	status: 'completed' | 'failed' | 'error_calling_llm' | 'error_posting_comment';
-	repository: string;
-	pullRequest?: ReviewTask['pullRequest'];
-	mergeRequest?: ReviewTask['mergeRequest'];
-	reviewType: ReviewTask['reviewType'];
-	comments?: LLMComment[];
-	summary?: string;
-	error?: string;
-	llmRawResponse?: any;
-	timestamp: string;
-}
+export type { Env, LLMComment } from './types';
 
 class RetryableWorkerError extends Error {
   public readonly isRetryable: boolean = true;
@@ -64,65 +34,255 @@ class RetryableWorkerError extends Error {
 }
 
 export default {
+	async fetch(request: Request, env: Env): Promise<Response> {
+		const { pathname } = new URL(request.url);
+		if (isDashboardPath(pathname)) return handleDashboardRequest(request, env);
+		if (isDirectReviewPath(pathname)) return handleDirectReviewRequest(request, env, reviewSubmittedDiff);
+		return handleResultsRequest(request, env);
+	},
+
 	async queue(
-		batch: MessageBatch<WebhookQueueMessage>,
+		batch: MessageBatch<WebhookQueueMessage | DirectReviewMessage>,
 		env: Env,
 		ctx: ExecutionContext
 	): Promise<void> {
 		for (const message of batch.messages) {
+			if (isDirectReviewMessage(message.body)) {
+				await processDirectReviewMessage(message as Message<DirectReviewMessage>, env, reviewSubmittedDiff);
+				continue;
+			}
 			let reviewOutcome: ReviewOutcome | null = null;
 			const incomingMessageBody = message.body;
 			let currentTask: ReviewTask | null = null; 
+			let statusHandle: CommitStatusHandle | undefined;
+			// Env for this task; GitHub App installations swap in their own token.
+			let taskEnv: Env = env;
 
 			try {
 				console.log(`Processing incoming message: ${message.id}`, JSON.stringify(incomingMessageBody).substring(0, 200));
 				
 				const op = incomingMessageBody.originalPayload;
+				const provider = getVcsProvider(incomingMessageBody.source);
+				if (!provider) {
+					console.error(`Unsupported VCS or missing details for task ${incomingMessageBody.eventId}: ${incomingMessageBody.source}`);
+					throw new Error(`Unsupported VCS: ${incomingMessageBody.source}`);
+				}
+				if (provider.source === 'gitlab') {
+					const tenantResult = await resolveGitlabTenant(op, env);
+					if (!tenantResult.success || !tenantResult.env) {
+						if (tenantResult.isRetryable) throw new RetryableWorkerError(tenantResult.error || "Retryable error resolving GitLab tenant");
+						throw new Error(tenantResult.error || "Failed to resolve GitLab tenant");
+					}
+					taskEnv = tenantResult.env;
+				}
 				currentTask = {
-					source: incomingMessageBody.source,
+					...provider.normalise(op, taskEnv),
 					eventId: incomingMessageBody.eventId,
-					repository: {
-						fullName: op.repository?.full_name || op.project?.path_with_namespace || 'unknown/repo',
-						id: op.repository?.id || op.project?.id || 0,
-						defaultBranch: op.repository?.default_branch || op.project?.default_branch || 'main',
-					},
-					pullRequest: op.pull_request ? {
-						id: op.pull_request.id, number: op.pull_request.number,
-						headSha: op.pull_request.head?.sha || op.pull_request.diff_head_sha,
-						diffUrl: op.pull_request.diff_url, commentsUrl: op.pull_request.comments_url,
-					} : undefined,
-					mergeRequest: op.object_attributes && op.object_kind === 'merge_request' ? {
-						id: op.object_attributes.id, iid: op.object_attributes.iid, projectId: op.project.id,
-						headSha: op.object_attributes.last_commit?.id || op.object_attributes.diff_head_sha,
-						diffUrl: `${op.project.web_url}/-/merge_requests/${op.object_attributes.iid}/diffs.json`,
-						notesUrl: `${env.GITLAB_BASE_URL || 'https://gitlab.com'}/api/v4/projects/${op.project.id}/merge_requests/${op.object_attributes.iid}/notes`,
-					} : undefined,
 					reviewType: incomingMessageBody.reviewType || op.reviewType || 'general',
 					filesToReview: incomingMessageBody.filesToReview || op.filesToReview || [],
+					command: incomingMessageBody.command,
+					reply: incomingMessageBody.reply,
 				};
 
-				if (!currentTask.filesToReview || currentTask.filesToReview.length === 0) {
-					console.warn(`Task ${message.id} (Event: ${currentTask.eventId}) has no filesToReview.`);
+				const authResult = await resolveGithubAuth(currentTask, taskEnv);
+				if (!authResult.success || !authResult.env) {
+					if (authResult.isRetryable) throw new RetryableWorkerError(authResult.error || "Retryable error authenticating as the GitHub App");
+					throw new Error(authResult.error || "Failed to authenticate as the GitHub App");
 				}
+				taskEnv = authResult.env;
 
-				const llmResponse = await callLLM(currentTask, env);
-				reviewOutcome = processLLMResponse(llmResponse, currentTask);
+				if (currentTask.pullRequest && !currentTask.pullRequest.headSha && provider.fetchPullRequest) {
+					const prResult = await provider.fetchPullRequest(currentTask, taskEnv);
+					if (!prResult.success || !prResult.pullRequest) {
+						if (prResult.isRetryable) throw new RetryableWorkerError(prResult.error || "Retryable error fetching pull request");
+						throw new Error(prResult.error || "Failed to fetch pull request");
+					}
+					currentTask.pullRequest = prResult.pullRequest;
+				}
 
-				if (llmResponse.isRetryable && !llmResponse.success) {
-                    throw new RetryableWorkerError(llmResponse.error || "Retryable LLM error from llmResponse");
-                }
+				// Set once this commit has been reviewed, so the next push only needs the changes after it.
+				let recordLastReview = false;
+
+				// A newer push has its own task; reviewing this commit would only cost an LLM call and post stale comments.
+				const newerHead = await findNewerHead(currentTask, env);
+				if (!newerHead) statusHandle = await startCommitStatus(currentTask, taskEnv);
+
+				const configResult = newerHead ? null : await loadRepoConfig(currentTask, taskEnv);
+				if (!configResult) {
+					console.log(`Skipping task ${message.id} (Event: ${currentTask.eventId}): head commit superseded by ${newerHead}.`);
+					reviewOutcome = buildSupersededOutcome(currentTask, newerHead!);
+				} else if (!configResult.success || !configResult.config) {
+					if (configResult.isRetryable) throw new RetryableWorkerError(configResult.error || "Retryable error loading repository config");
+					console.error(`Invalid repository config for task ${message.id} (Event: ${currentTask.eventId}): ${configResult.error}`);
+					reviewOutcome = {
+						taskId: currentTask.eventId, status: 'invalid_config', repository: currentTask.repository.fullName,
+						pullRequest: currentTask.pullRequest, mergeRequest: currentTask.mergeRequest, reviewType: currentTask.reviewType,
+						error: configResult.error || `Invalid ${REPO_CONFIG_PATH}.`, timestamp: new Date().toISOString(),
+					};
+				} else if (!configResult.config.enabled) {
+					console.log(`Reviews are disabled by ${REPO_CONFIG_PATH} for task ${message.id} (Event: ${currentTask.eventId}).`);
+					reviewOutcome = {
+						taskId: currentTask.eventId, status: 'skipped', repository: currentTask.repository.fullName,
+						pullRequest: currentTask.pullRequest, mergeRequest: currentTask.mergeRequest, reviewType: currentTask.reviewType,
+						summary: `Reviews are disabled by ${REPO_CONFIG_PATH}.`, timestamp: new Date().toISOString(),
+					};
+				} else if (currentTask.reply) {
+					currentTask.config = configResult.config;
+					const threadResult = await fetchThread(currentTask, taskEnv);
+					if (!threadResult.success || !threadResult.thread) {
+						if (threadResult.isRetryable) throw new RetryableWorkerError(threadResult.error || "Retryable error loading review thread");
+						throw new Error(threadResult.error || "Failed to load review thread");
+					}
+					if (!shouldAnswerThread(threadResult.thread)) {
+						console.log(`Thread ${currentTask.reply.threadId} for task ${currentTask.eventId} was not started by the bot or already answered; not replying.`);
+						reviewOutcome = {
+							taskId: currentTask.eventId, status: 'skipped', repository: currentTask.repository.fullName,
+							pullRequest: currentTask.pullRequest, mergeRequest: currentTask.mergeRequest, reviewType: currentTask.reviewType,
+							summary: 'Reply is not in a thread awaiting an answer from the bot.', timestamp: new Date().toISOString(),
+						};
+					} else {
+						const llmResponse = await requestLLM(buildThreadPrompt(currentTask, threadResult.thread), taskEnv, currentTask.config);
+						reviewOutcome = processLLMResponse(llmResponse, currentTask);
+						if (llmResponse.isRetryable && !llmResponse.success) {
+							throw new RetryableWorkerError(llmResponse.error || "Retryable LLM error from llmResponse");
+						}
+						reviewOutcome.comments = [];
+						if (reviewOutcome.status === 'completed' && reviewOutcome.summary) {
+							await postThreadReply(currentTask, threadResult.thread, reviewOutcome.summary, taskEnv);
+						} else {
+							console.error(`Could not answer thread ${currentTask.reply.threadId} for task ${message.id} (Event: ${currentTask.eventId}): ${reviewOutcome.error}`);
+						}
+					}
+				} else {
+					const config = configResult.config;
+					if (!incomingMessageBody.reviewType && config.reviewType) currentTask.reviewType = config.reviewType;
+					currentTask.config = config;
+
+					if (currentTask.filesToReview.length === 0 && (currentTask.pullRequest || currentTask.mergeRequest)) {
+						const filesResult = await fetchChangedFiles(currentTask, taskEnv);
+						if (!filesResult.success) {
+							if (filesResult.isRetryable) throw new RetryableWorkerError(filesResult.error || "Retryable error fetching changed files");
+							throw new Error(filesResult.error || "Failed to fetch changed files");
+						}
+						currentTask.filesToReview = filesResult.files || [];
+
+						if (shouldReviewIncrementally(currentTask, taskEnv)) {
+							const incrementalResult = await prepareIncrementalReview(currentTask, taskEnv);
+							if (!incrementalResult.success) {
+								if (incrementalResult.isRetryable) throw new RetryableWorkerError(incrementalResult.error || "Retryable error comparing with the last reviewed commit");
+								throw new Error(incrementalResult.error || "Failed to compare with the last reviewed commit");
+							}
+							if (incrementalResult.lastReview) {
+								currentTask.incremental = {
+									baseSha: incrementalResult.lastReview.headSha, priorFindings: incrementalResult.lastReview.findings || [],
+									changeFiles: currentTask.filesToReview,
+								};
+								currentTask.filesToReview = incrementalResult.files || [];
+							}
+						}
+					}
+
+					if (currentTask.mergeRequest && provider.fetchDiffRefs) {
+						const refsResult = await provider.fetchDiffRefs(currentTask, taskEnv);
+						if (refsResult.success) {
+							currentTask.mergeRequest.diffRefs = refsResult.diffRefs;
+						} else if (refsResult.isRetryable) {
+							throw new RetryableWorkerError(refsResult.error || "Retryable error fetching merge request diff_refs");
+						} else {
+							console.warn(`Could not load diff_refs for task ${currentTask.eventId}; inline positions will use the head SHA: ${refsResult.error}`);
+						}
+					}
+
+					const explain = currentTask.command?.type === 'explain' ? currentTask.command : undefined;
+					const reviewableFiles = currentTask.filesToReview.filter(file => explain?.filePath ? file.path === explain.filePath : isPathIncluded(file.path, config));
+					if (reviewableFiles.length !== currentTask.filesToReview.length) {
+						console.log(`Excluded ${currentTask.filesToReview.length - reviewableFiles.length} files by ${explain?.filePath ? 'the explain command target' : `${REPO_CONFIG_PATH} path filters`} for task ${currentTask.eventId}.`);
+						currentTask.filesToReview = reviewableFiles;
+					}
+
+					if (!currentTask.filesToReview || currentTask.filesToReview.length === 0) {
+						console.warn(`Task ${message.id} (Event: ${currentTask.eventId}) has no filesToReview.`);
+					}
+
+					if (currentTask.incremental && currentTask.filesToReview.length === 0) {
+						console.log(`No reviewable changes since ${currentTask.incremental.baseSha} for task ${currentTask.eventId}; not calling the LLM.`);
+						reviewOutcome = {
+							taskId: currentTask.eventId, status: 'skipped', repository: currentTask.repository.fullName,
+							pullRequest: currentTask.pullRequest, mergeRequest: currentTask.mergeRequest, reviewType: currentTask.reviewType,
+							summary: `No reviewable changes since the last reviewed commit ${currentTask.incremental.baseSha}.`, timestamp: new Date().toISOString(),
+						};
+					} else {
+						const llmResponse = await callLLM(currentTask, taskEnv);
+						reviewOutcome = processLLMResponse(llmResponse, currentTask);
+						if (llmResponse.isRetryable && !llmResponse.success) {
+							throw new RetryableWorkerError(llmResponse.error || "Retryable LLM error from llmResponse");
+						}
+					}
 
-				if (reviewOutcome.status === 'completed' && reviewOutcome.comments && reviewOutcome.comments.length > 0) {
-					await postCommentsToVCS(currentTask, reviewOutcome.comments, env);
-				} else if (reviewOutcome.status !== 'completed') {
-					console.error(`Review failed or no comments for task ${message.id} (Event: ${currentTask.eventId}): ${reviewOutcome.error}`);
+					// Commits can be pushed while the LLM is working; check again so stale findings are not posted.
+					const newerHeadAfterReview = reviewOutcome.status === 'completed' ? await findNewerHead(currentTask, env) : undefined;
+					if (newerHeadAfterReview) {
+						console.log(`Not posting review for task ${message.id} (Event: ${currentTask.eventId}): head commit superseded by ${newerHeadAfterReview}.`);
+						reviewOutcome = buildSupersededOutcome(currentTask, newerHeadAfterReview, reviewOutcome);
+					} else if (explain) {
+						// Questions are answered in the conversation; line comments and the sticky summary are left alone.
+						reviewOutcome.comments = [];
+						if (reviewOutcome.status === 'completed') {
+							await postCommandReply(currentTask, buildExplainReply(explain, reviewOutcome.summary), taskEnv);
+						} else {
+							console.error(`Explain command failed for task ${message.id} (Event: ${currentTask.eventId}): ${reviewOutcome.error}`);
+						}
+					} else {
+						if (config.minSeverity && reviewOutcome.comments) {
+							const kept = filterBySeverity(reviewOutcome.comments, config.minSeverity);
+							if (kept.length !== reviewOutcome.comments.length) {
+								console.log(`Filtered ${reviewOutcome.comments.length - kept.length} comments below ${config.minSeverity} severity for task ${currentTask.eventId}.`);
+								reviewOutcome.comments = kept;
+							}
+						}
+						if (reviewOutcome.comments && reviewOutcome.comments.length > 0) {
+							const { anchored, rejected } = currentTask.incremental
+								? anchorIncrementalComments(reviewOutcome.comments, currentTask)
+								: anchorComments(reviewOutcome.comments, currentTask.filesToReview);
+							reviewOutcome.comments = anchored;
+							if (rejected.length > 0) {
+								console.warn(`${rejected.length} comments for task ${currentTask.eventId} do not map onto the diff; folding them into the summary.`);
+								reviewOutcome.rejectedComments = rejected;
+								reviewOutcome.summary = [reviewOutcome.summary, formatRejectedComments(rejected)].filter(Boolean).join('\n\n');
+							}
+						}
+						// Before the limit, so findings already on the pull/merge request do not crowd out new ones.
+						const postedThreads = reviewOutcome.status === 'completed' ? await skipPostedFindings(currentTask, reviewOutcome, taskEnv) : undefined;
+						if (config.maxComments && reviewOutcome.comments && reviewOutcome.comments.length > config.maxComments) {
+							console.log(`Limiting ${reviewOutcome.comments.length} comments to ${config.maxComments} for task ${currentTask.eventId}.`);
+							reviewOutcome.comments = sortBySeverity(reviewOutcome.comments).slice(0, config.maxComments);
+						}
+
+						if (reviewOutcome.status === 'completed' && reviewOutcome.comments && reviewOutcome.comments.length > 0) {
+							// Hosts with a summary comment get the summary there only, not repeated in the review body.
+							const hasSummaryComment = Boolean(getVcsProvider(currentTask.source)?.summaryCommentApi?.(currentTask, taskEnv));
+							await postCommentsToVCS(currentTask, reviewOutcome.comments, taskEnv, hasSummaryComment ? undefined : reviewOutcome.summary);
+						} else if (reviewOutcome.status !== 'completed') {
+							console.error(`Review failed or no comments for task ${message.id} (Event: ${currentTask.eventId}): ${reviewOutcome.error}`);
+						}
+
+						if (reviewOutcome.status === 'completed') {
+							await upsertSummaryComment(currentTask, reviewOutcome, taskEnv);
+						}
+						if (postedThreads && taskEnv.RESOLVE_FIXED_FINDINGS === 'true') {
+							reviewOutcome.resolvedThreads = await resolveFixedFindings(currentTask, reviewOutcome, postedThreads, taskEnv);
+						}
+						recordLastReview = reviewOutcome.status === 'completed' || Boolean(currentTask.incremental && reviewOutcome.status === 'skipped');
+					}
 				}
-                
-				const reviewId = `review:${currentTask.source}:${currentTask.repository.fullName}:${currentTask.pullRequest?.number || currentTask.mergeRequest?.iid}:${currentTask.eventId}`;
+
+				const reviewId = reviewResultKey(currentTask.source, currentTask.repository.fullName, currentTask.pullRequest?.number || currentTask.mergeRequest?.iid, currentTask.eventId);
 				await env.REVIEW_RESULTS_KV.put(reviewId, JSON.stringify(reviewOutcome), {
 					metadata: { status: reviewOutcome.status, timestamp: reviewOutcome.timestamp },
 				});
 				console.log(`Review result stored for task ${message.id} with ID ${reviewId}`);
+				if (recordLastReview) await saveLastReview(currentTask, reviewOutcome, env);
+				await finishCommitStatus(currentTask, reviewOutcome, taskEnv, statusHandle);
 				
 				message.ack();
 				console.log(`Task ${message.id} (Event: ${currentTask.eventId}) processed and acknowledged.`);
@@ -147,27 +307,24 @@ export default {
                         reviewOutcome.status = 'failed'; 
                     }
 				} else { 
+					// The task was never built; describe the pull/merge request from the payload as far as it can be read.
+					let target: ReviewTarget | undefined;
+					try {
+						target = getVcsProvider(incomingMessageBody.source)?.normalise(incomingMessageBody.originalPayload || {}, taskEnv);
+					} catch {
+						target = undefined;
+					}
 					reviewOutcome = {
 						taskId: incomingMessageBody.eventId || 'unknown_event', status: 'failed',
-						repository: incomingMessageBody.originalPayload?.repository?.full_name || incomingMessageBody.originalPayload?.project?.path_with_namespace || 'unknown/repo',
-						pullRequest: incomingMessageBody.originalPayload?.pull_request ? { 
-                                id: incomingMessageBody.originalPayload.pull_request.id, number: incomingMessageBody.originalPayload.pull_request.number,
-                                headSha: incomingMessageBody.originalPayload.pull_request.head?.sha, diffUrl: incomingMessageBody.originalPayload.pull_request.diff_url,
-                                commentsUrl: incomingMessageBody.originalPayload.pull_request.comments_url,
-                            } : undefined,
-                        mergeRequest: incomingMessageBody.originalPayload?.object_attributes && incomingMessageBody.originalPayload?.object_kind === 'merge_request' ? {
-                                id: incomingMessageBody.originalPayload.object_attributes.id, iid: incomingMessageBody.originalPayload.object_attributes.iid,
-                                projectId: incomingMessageBody.originalPayload.project.id, headSha: incomingMessageBody.originalPayload.object_attributes.last_commit?.id,
-                                diffUrl: `${incomingMessageBody.originalPayload.project.web_url}/-/merge_requests/${incomingMessageBody.originalPayload.object_attributes.iid}/diffs.json`,
-                                notesUrl: `${env.GITLAB_BASE_URL || 'https://gitlab.com'}/api/v4/projects/${incomingMessageBody.originalPayload.project.id}/merge_requests/${incomingMessageBody.originalPayload.object_attributes.iid}/notes`,
-                            } : undefined,
+						repository: target?.repository.fullName || 'unknown/repo',
+						pullRequest: target?.pullRequest, mergeRequest: target?.mergeRequest,
 						reviewType: incomingMessageBody.reviewType || 'general',
 						error: `Critical processing error before task formation: ${error.message}`,
 						timestamp: new Date().toISOString(),
 					};
 				}
                 
-				const errorReviewId = `review:${reviewOutcome.taskId}:${reviewOutcome.repository}:${currentTask?.pullRequest?.number || currentTask?.mergeRequest?.iid || incomingMessageBody.originalPayload?.pull_request?.number || incomingMessageBody.originalPayload?.object_attributes?.iid || 'unknown_pr_mr'}:${reviewOutcome.taskId}`;
+				const errorReviewId = reviewResultKey(incomingMessageBody.source, reviewOutcome.repository, reviewOutcome.pullRequest?.number || reviewOutcome.mergeRequest?.iid || 'unknown_pr_mr', reviewOutcome.taskId);
 				try {
 					// Corrected: Added metadata to KV put in catch block
 					await env.REVIEW_RESULTS_KV.put(errorReviewId, JSON.stringify(reviewOutcome), {
@@ -178,6 +335,11 @@ export default {
 					console.error(`Failed to store failure outcome for message ${message.id} (Event: ${reviewOutcome.taskId}) in KV:`, kvError.message);
 				}
 
+				if (currentTask && (!isErrorRetryable || isLastAttempt(message, env))) {
+					// A retried task keeps the pending status; the failure is reported once the queue will not retry it.
+					await finishCommitStatus(currentTask, reviewOutcome, taskEnv, statusHandle);
+				}
+
                 if (isErrorRetryable) {
                     console.warn(`Task ${message.id} (Event: ${reviewOutcome.taskId}) will be retried due to retryable error: ${error.message}`);
                     throw error; 
@@ -192,68 +354,82 @@ export default {
 
 export async function callLLM(task: ReviewTask, env: Env): Promise<LLMResponse> {
 	console.log(`Calling LLM for task: ${task.eventId}, type: ${task.reviewType}`);
-	let promptContent = `Please review the following code changes for the repository ${task.repository.fullName}.\nSource: ${task.source}\n`;
+	const chunks = planReviewChunks(task.filesToReview || [], contextBudget(env));
+	const knownPaths = (task.filesToReview || []).map(file => file.path);
+	if (chunks.length <= 1) {
+		return requestLLM(buildReviewPrompt(task, task.filesToReview), env, task.config, knownPaths);
+	}
+	if (task.command?.type === 'explain') {
+		// An answer is a single reply, so only the part of the change that fits is sent along with the question.
+		console.warn(`Explain context for task ${task.eventId} exceeds the budget; sending the first of ${chunks.length} parts.`);
+		return requestLLM(buildReviewPrompt(task, chunks[0]), env, task.config);
+	}
+
+	console.log(`Splitting review for task ${task.eventId} into ${chunks.length} LLM calls.`);
+	const responses = await mapWithConcurrency(chunks, maxConcurrency(env), (files, index) =>
+		requestLLM(buildReviewPrompt(task, files, { index, total: chunks.length }), env, task.config, knownPaths));
+	return mergeLLMResponses(responses);
+}
+
+function buildReviewPrompt(task: ReviewTask, files: ReviewFile[], part?: { index: number; total: number }): string {
+	const explain = task.command?.type === 'explain' ? task.command : undefined;
+	let promptContent = explain
+		? `A developer asked a question about the following code changes in the repository ${task.repository.fullName}.\nSource: ${task.source}\n`
+		: `Please review the following code changes for the repository ${task.repository.fullName}.\nSource: ${task.source}\n`;
 	if (task.pullRequest) promptContent += `Pull Request: #${task.pullRequest.number}\n`;
 	else if (task.mergeRequest) promptContent += `Merge Request: !${task.mergeRequest.iid}\n`;
+	if (part) promptContent += `This is part ${part.index + 1} of ${part.total} of the change; review only the files below and summarise only this part.\n`;
+	if (task.incremental) {
+		promptContent += `This is an incremental review: the diffs below only contain what changed since commit ${task.incremental.baseSha}, which was reviewed before.\n`;
+		if (task.incremental.priorFindings.length > 0) {
+			promptContent += `These findings were already reported in earlier reviews; do not repeat them:\n${formatPriorFindings(task.incremental.priorFindings)}\n`;
+		}
+	}
 
-	if (task.filesToReview && task.filesToReview.length > 0) {
-		task.filesToReview.forEach((file: { path: string; diff?: string; content?: string }) => {
-			promptContent += `\nFile: ${file.path}\n`;
-			if (file.diff) promptContent += `Diff:\n${file.diff}\n`;
-			else if (file.content) promptContent += `Content:\n${file.content}\n`;
+	if (files && files.length > 0) {
+		files.forEach((file: ReviewFile) => {
+			promptContent += formatFileSection(file);
 		});
 	} else {
 		promptContent += "No specific file diffs provided. Please provide a general review.\n";
 	}
-	promptContent += "\nFormat your response as a JSON object with 'success' (boolean), 'comments' (array of objects with 'filePath', 'lineNumber' or 'position', and 'comment'), and 'summary' (string).";
-    if (task.reviewType === 'detailed') promptContent += " Focus on detailed, line-by-line feedback.";
-    else promptContent += " Focus on a general overview and high-level suggestions.";
-
-	try {
-		const llmRequestBody = {
-			model: env.LLM_MODEL_NAME || "gpt-3.5-turbo", 
-			messages: [{ role: "system", content: "You are an expert code reviewer." },{ role: "user", content: promptContent }],
-			temperature: 0.5, response_format: { type: "json_object" },
+	if (explain) {
+		promptContent += `\nQuestion${explain.filePath ? ` about ${explain.filePath}${explain.lineNumber ? ` line ${explain.lineNumber}` : ''}` : ''}:\n${explain.question}\n`;
+		promptContent += "\nFormat your response as a JSON object with 'success' (boolean), 'comments' (an empty array), and 'summary' (your answer, in Markdown).";
+	} else {
+		promptContent += "\nFormat your response as a JSON object with 'success' (boolean), 'comments' (array of objects with 'filePath', 'lineNumber' or 'position', and 'comment'), and 'summary' (string).";
+		if (task.reviewType === 'detailed') promptContent += " Focus on detailed, line-by-line feedback.";
+		else promptContent += " Focus on a general overview and high-level suggestions.";
+		promptContent += ` Each comment should also have 'severity' (${FINDING_SEVERITIES.join(', ')}), 'category' (${FINDING_CATEGORIES.join(', ')}) and 'confidence' (0 to 1), and may have 'suggestion': the exact replacement text for the commented line when the fix is small.`;
+		if (task.config?.minSeverity) promptContent += ` Only report findings of severity ${task.config.minSeverity} or above.`;
+	}
+	if (!explain && task.config?.maxComments) promptContent += ` Return at most ${task.config.maxComments} comments, prioritising the most important issues.`;
+	if (task.config?.language) promptContent += ` Write all comments and the summary in ${task.config.language}.`;
+	if (task.config?.instructions) promptContent += `\n\nAdditional instructions from the repository maintainers:\n${task.config.instructions}`;
+	return promptContent;
+}
+
+// Reviews a diff submitted to the direct review API with the same prompt and finding filters as a pull/merge request; nothing is posted.
+async function reviewSubmittedDiff(task: ReviewTask, env: Env): Promise<ReviewOutcome> {
+	if (task.filesToReview.length === 0) {
+		return {
+			taskId: task.eventId, status: 'skipped', repository: task.repository.fullName, reviewType: task.reviewType,
+			summary: `No files left to review after the ${REPO_CONFIG_PATH} path filters.`, timestamp: new Date().toISOString(),
 		};
-		console.log("Sending to LLM:", JSON.stringify(llmRequestBody).substring(0, 200) + "...");
-		const response = await fetch(env.LLM_ENDPOINT, {
-			method: "POST",
-			headers: { "Authorization": `Bearer ${env.LLM_API_KEY}`, "Content-Type": "application/json",},
-			body: JSON.stringify(llmRequestBody),
-		});
-		const responseText = await response.text(); 
-		if (!response.ok) {
-			const retryable = response.status >= 500;
-			console.error(`LLM API request failed with status ${response.status}: ${responseText.substring(0,100)}`);
-			return { success: false, error: `LLM API error ${response.status}: ${responseText.substring(0,100)}`, rawResponse: responseText, isRetryable: retryable };
+	}
+	const reviewOutcome = processLLMResponse(await callLLM(task, env), task);
+	if (reviewOutcome.comments && reviewOutcome.comments.length > 0) {
+		const { anchored, rejected } = anchorSubmittedComments(filterBySeverity(reviewOutcome.comments, task.config?.minSeverity), task.filesToReview);
+		reviewOutcome.comments = anchored;
+		if (rejected.length > 0) {
+			reviewOutcome.rejectedComments = rejected;
+			reviewOutcome.summary = [reviewOutcome.summary, formatRejectedComments(rejected)].filter(Boolean).join('\n\n');
 		}
-		try {
-			const jsonResponse = JSON.parse(responseText);
-			const llmContentString = jsonResponse.choices?.[0]?.message?.content;
-			if (typeof llmContentString === 'string') {
-				try {
-					const parsedLlmContent = JSON.parse(llmContentString);
-					if (typeof parsedLlmContent.success === 'boolean') {
-						return { ...parsedLlmContent, rawResponse: jsonResponse, isRetryable: false };
-					} else {
-						console.error("LLM's output JSON string missing 'success' field:", parsedLlmContent);
-						return { success: false, error: "LLM output format error: missing 'success'.", rawResponse: jsonResponse, isRetryable: false };
-					}
-				} catch (e: any) { 
-					console.error("LLM content string was not valid JSON:", llmContentString.substring(0,100), e.message);
-					return { success: false, error: "LLM content not valid JSON: " + e.message, rawResponse: jsonResponse, isRetryable: false };
-				}
-			}
-			console.error("LLM response structure unexpected (no content string):", jsonResponse);
-			return { success: false, error: "LLM response structure error.", rawResponse: jsonResponse, isRetryable: false };
-		} catch (e: any) { 
-			console.error("Failed to parse LLM API outer JSON response:", e.message, responseText.substring(0,100));
-			return { success: false, error: "LLM API response not JSON: " + e.message, rawResponse: responseText, isRetryable: true };
+		if (task.config?.maxComments && reviewOutcome.comments.length > task.config.maxComments) {
+			reviewOutcome.comments = sortBySeverity(reviewOutcome.comments).slice(0, task.config.maxComments);
 		}
-	} catch (error: any) { 
-		console.error("Network error calling LLM service:", error.message, error.stack);
-		return { success: false, error: `Network error calling LLM: ${error.message}`, isRetryable: true };
 	}
+	return reviewOutcome;
 }
 
 function processLLMResponse(llmResponse: LLMResponse, task: ReviewTask): ReviewOutcome {
@@ -264,67 +440,27 @@ function processLLMResponse(llmResponse: LLMResponse, task: ReviewTask): ReviewO
 		return {
 			taskId: task.eventId, status: status, repository: task.repository.fullName,
 			pullRequest: task.pullRequest, mergeRequest: task.mergeRequest, reviewType: task.reviewType,
-			error: llmResponse.error || "LLM processing failed.", llmRawResponse: llmResponse.rawResponse, timestamp,
+			error: llmResponse.error || "LLM processing failed.", llmPrompt: llmResponse.prompt, llmRawResponse: llmResponse.rawResponse, timestamp,
 		};
 	}
 	return {
 		taskId: task.eventId, status: "completed", repository: task.repository.fullName,
 		pullRequest: task.pullRequest, mergeRequest: task.mergeRequest, reviewType: task.reviewType,
-		comments: llmResponse.comments, summary: llmResponse.summary, llmRawResponse: llmResponse.rawResponse, timestamp,
+		comments: llmResponse.comments, summary: llmResponse.summary, llmPrompt: llmResponse.prompt, llmRawResponse: llmResponse.rawResponse, timestamp,
+		...(llmResponse.droppedComments ? { droppedComments: llmResponse.droppedComments } : {}),
 	};
 }
 
-export async function postCommentsToVCS(task: ReviewTask, comments: LLMComment[], env: Env): Promise<void> {
+export async function postCommentsToVCS(task: ReviewTask, comments: LLMComment[], env: Env, summary?: string): Promise<void> {
 	if (!comments || comments.length === 0) {
 		console.log(`No comments to post for task ${task.eventId}.`); return;
 	}
 	console.log(`Posting ${comments.length} comments for task ${task.eventId} to ${task.source}`);
-	let vcsApiUrl: string, authToken: string, requestBodyBuilder: (comment: LLMComment) => any;
-
-	if (task.source === 'github' && task.pullRequest) {
-		vcsApiUrl = task.pullRequest.commentsUrl; 
-		authToken = env.GITHUB_TOKEN;
-		requestBodyBuilder = (c: LLMComment) => ({
-			body: c.comment, commit_id: task.pullRequest!.headSha, path: c.filePath,
-			line: c.lineNumber, position: c.position, 
-		});
-	} else if (task.source === 'gitlab' && task.mergeRequest) {
-		vcsApiUrl = task.mergeRequest.notesUrl;
-		authToken = env.GITLAB_TOKEN;
-		requestBodyBuilder = (c: LLMComment) => {
-			const body: any = { body: c.comment };
-			if (c.filePath && (c.lineNumber || c.position) && task.mergeRequest) { 
-				body.position = {
-					position_type: "text", base_sha: task.mergeRequest.headSha, 
-					start_sha: task.mergeRequest.headSha, head_sha: task.mergeRequest.headSha,
-					new_line: c.lineNumber || c.position, old_path: c.filePath, new_path: c.filePath,
-				};
-			}
-			return body;
-		};
-	} else {
+
+	const provider = getVcsProvider(task.source);
+	if (!provider || !(task.pullRequest || task.mergeRequest)) {
 		console.error(`Unsupported VCS or missing details for task ${task.eventId}: ${task.source}`);
 		throw new Error(`Unsupported VCS: ${task.source}`);
 	}
-
-	for (const comment of comments) {
-		try {
-			const body = requestBodyBuilder(comment);
-			console.log(`Posting to ${vcsApiUrl} for ${comment.filePath}: ${JSON.stringify(body).substring(0,100)}`);
-			const response = await fetch(vcsApiUrl, {
-				method: "POST",
-				headers: { "Authorization": `Bearer ${authToken}`, "Content-Type": "application/json", "User-Agent": "Cloudflare-Worker-Code-Reviewer", },
-				body: JSON.stringify(body),
-			});
-			if (!response.ok) {
-				const errorText = await response.text();
-				console.error(`Failed to post comment to ${task.source} for ${task.eventId}, file ${comment.filePath}: ${response.status} ${errorText.substring(0,100)}`);
-			} else {
-				console.log(`Successfully posted comment to ${task.source} for ${task.eventId}, file ${comment.filePath}`);
-			}
-		} catch (error: any) {
-			console.error(`Error during VCS post for ${task.eventId}, file ${comment.filePath}: ${error.message}`);
-		}
-		await new Promise(resolve => setTimeout(resolve, 200)); 
-	}
-}
\ No newline at end of file
+	await provider.postComments(task, comments, env, summary);
+}
@@ -0,0 +1,208 @@
+import type { Env, LLMProviderName, RepoReviewConfig } from './types';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'azure-openai', 'anthropic', 'gemini', 'ollama', 'workers-ai'];
+
+const SYSTEM_PROMPT = "You are an expert code reviewer.";
+const TEMPERATURE = 0.5;
+const MAX_OUTPUT_TOKENS = 4096;
+const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+
+export interface ProviderSettings {
+	endpoint?: string;
+	apiKey?: string;
+	model: string;
+	apiVersion?: string;
+}
+
+// The model's raw text on success; otherwise an error already classified as retryable or not.
+export interface CompletionResult {
+	success: boolean;
+	content?: string;
+	rawResponse?: any;
+	error?: string;
+	isRetryable?: boolean;
+}
+
+export interface LLMProvider {
+	name: LLMProviderName;
+	defaultModel: string;
+	complete(prompt: string, settings: ProviderSettings, env: Env): Promise<CompletionResult>;
+}
+
+// Provider-specific secrets, so a repository can pick a provider other than the deployment default.
+const PROVIDER_ENV: Record<LLMProviderName, { apiKey?: keyof Env; endpoint?: keyof Env }> = {
+	'openai': { apiKey: 'OPENAI_API_KEY' },
+	'azure-openai': { apiKey: 'AZURE_OPENAI_API_KEY', endpoint: 'AZURE_OPENAI_ENDPOINT' },
+	'anthropic': { apiKey: 'ANTHROPIC_API_KEY' },
+	'gemini': { apiKey: 'GEMINI_API_KEY' },
+	'ollama': { endpoint: 'OLLAMA_ENDPOINT' },
+	'workers-ai': {},
+};
+
+function openAIChatProvider(name: LLMProviderName, defaultEndpoint: string, defaultModel: string): LLMProvider {
+	return {
+		name,
+		defaultModel,
+		complete(prompt, settings) {
+			const headers: Record<string, string> = { "Content-Type": "application/json" };
+			if (settings.apiKey) headers["Authorization"] = `Bearer ${settings.apiKey}`;
+			const body = {
+				model: settings.model,
+				messages: [{ role: "system", content: SYSTEM_PROMPT }, { role: "user", content: prompt }],
+				temperature: TEMPERATURE, response_format: { type: "json_object" },
+			};
+			return postJson(settings.endpoint || defaultEndpoint, headers, body, json => json.choices?.[0]?.message?.content);
+		},
+	};
+}
+
+const azureOpenAIProvider: LLMProvider = {
+	name: 'azure-openai',
+	defaultModel: 'gpt-4o-mini',
+	async complete(prompt, settings) {
+		if (!settings.endpoint) {
+			return { success: false, error: "Azure OpenAI requires AZURE_OPENAI_ENDPOINT or LLM_ENDPOINT.", isRetryable: false };
+		}
+		// Accept either the resource URL or a full deployment URL; the model name is the deployment name.
+		const apiVersion = settings.apiVersion || DEFAULT_AZURE_API_VERSION;
+		let url = settings.endpoint.includes('/deployments/')
+			? settings.endpoint
+			: `${settings.endpoint.replace(/\/+$/, '')}/openai/deployments/${encodeURIComponent(settings.model)}/chat/completions`;
+		if (!url.includes('api-version=')) url += `${url.includes('?') ? '&' : '?'}api-version=${apiVersion}`;
+		const body = {
+			messages: [{ role: "system", content: SYSTEM_PROMPT }, { role: "user", content: prompt }],
+			temperature: TEMPERATURE, response_format: { type: "json_object" },
+		};
+		return postJson(url, { "api-key": settings.apiKey || '', "Content-Type": "application/json" }, body, json => json.choices?.[0]?.message?.content);
+	},
+};
+
+const anthropicProvider: LLMProvider = {
+	name: 'anthropic',
+	defaultModel: 'claude-3-5-haiku-latest',
+	complete(prompt, settings) {
+		const headers = { "x-api-key": settings.apiKey || '', "anthropic-version": "2023-06-01", "Content-Type": "application/json" };
+		const body = {
+			model: settings.model, max_tokens: MAX_OUTPUT_TOKENS, temperature: TEMPERATURE,
+			system: `${SYSTEM_PROMPT} Respond with a single JSON object and nothing else.`,
+			messages: [{ role: "user", content: prompt }],
+		};
+		return postJson(settings.endpoint || 'https://api.anthropic.com/v1/messages', headers, body, json =>
+			Array.isArray(json.content) ? json.content.filter((block: any) => block.type === 'text').map((block: any) => block.text).join('') || undefined : undefined);
+	},
+};
+
+const geminiProvider: LLMProvider = {
+	name: 'gemini',
+	defaultModel: 'gemini-1.5-flash',
+	complete(prompt, settings) {
+		const url = settings.endpoint || `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(settings.model)}:generateContent`;
+		const body = {
+			systemInstruction: { parts: [{ text: SYSTEM_PROMPT }] },
+			contents: [{ role: "user", parts: [{ text: prompt }] }],
+			generationConfig: { temperature: TEMPERATURE, responseMimeType: "application/json" },
+		};
+		return postJson(url, { "x-goog-api-key": settings.apiKey || '', "Content-Type": "application/json" }, body, json => {
+			const parts = json.candidates?.[0]?.content?.parts;
+			return Array.isArray(parts) ? parts.map((part: any) => part.text || '').join('') || undefined : undefined;
+		});
+	},
+};
+
+const workersAIProvider: LLMProvider = {
+	name: 'workers-ai',
+	defaultModel: '@cf/meta/llama-3.1-8b-instruct',
+	async complete(prompt, settings, env) {
+		if (!env.AI) {
+			return { success: false, error: "Workers AI provider requires an AI binding.", isRetryable: false };
+		}
+		const inputs = {
+			messages: [{ role: "system", content: SYSTEM_PROMPT }, { role: "user", content: prompt }],
+			temperature: TEMPERATURE, max_tokens: MAX_OUTPUT_TOKENS,
+		};
+		console.log("Sending to LLM:", JSON.stringify({ model: settings.model, ...inputs }).substring(0, 200) + "...");
+		try {
+			const result = await env.AI.run(settings.model, inputs);
+			const content = typeof result?.response === 'string' ? result.response : result?.response ? JSON.stringify(result.response) : undefined;
+			if (content === undefined) {
+				console.error("LLM response structure unexpected (no content string):", result);
+				return { success: false, error: "LLM response structure error.", rawResponse: result, isRetryable: false };
+			}
+			return { success: true, content, rawResponse: result };
+		} catch (error: any) {
+			// Binding errors are capacity or transport problems far more often than bad input.
+			console.error("Error calling Workers AI:", error.message);
+			return { success: false, error: `Workers AI error: ${error.message}`, isRetryable: true };
+		}
+	},
+};
+
+const PROVIDERS: Record<LLMProviderName, LLMProvider> = {
+	'openai': openAIChatProvider('openai', 'https://api.openai.com/v1/chat/completions', 'gpt-3.5-turbo'),
+	'azure-openai': azureOpenAIProvider,
+	'anthropic': anthropicProvider,
+	'gemini': geminiProvider,
+	'ollama': openAIChatProvider('ollama', 'http://localhost:11434/v1/chat/completions', 'llama3.1'),
+	'workers-ai': workersAIProvider,
+};
+
+export interface ResolvedProvider {
+	success: boolean;
+	provider?: LLMProvider;
+	settings?: ProviderSettings;
+	error?: string;
+}
+
+// `provider` in .ai-review.yml overrides LLM_PROVIDER. LLM_ENDPOINT, LLM_API_KEY and LLM_MODEL_NAME describe the
+// deployment's default provider only; other providers fall back to their own secrets and defaults.
+export function resolveProvider(env: Env, config?: RepoReviewConfig): ResolvedProvider {
+	const envProvider = (env.LLM_PROVIDER || 'openai') as LLMProviderName;
+	const name = config?.provider || envProvider;
+	const provider = PROVIDERS[name];
+	if (!provider) {
+		return { success: false, error: `Unknown LLM provider "${name}". Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}.` };
+	}
+	const isDefault = name === envProvider;
+	const specific = PROVIDER_ENV[name];
+	const fromEnv = (key?: keyof Env) => (key ? env[key] as string | undefined : undefined) || undefined;
+	return {
+		success: true,
+		provider,
+		settings: {
+			endpoint: (isDefault ? env.LLM_ENDPOINT : undefined) || fromEnv(specific.endpoint),
+			apiKey: fromEnv(specific.apiKey) || (isDefault ? env.LLM_API_KEY : undefined),
+			model: config?.model || (isDefault ? env.LLM_MODEL_NAME : undefined) || provider.defaultModel,
+			apiVersion: env.LLM_API_VERSION,
+		},
+	};
+}
+
+async function postJson(url: string, headers: Record<string, string>, body: any, extractContent: (json: any) => string | undefined): Promise<CompletionResult> {
+	try {
+		console.log("Sending to LLM:", JSON.stringify(body).substring(0, 200) + "...");
+		const response = await fetch(url, { method: "POST", headers, body: JSON.stringify(body) });
+		const responseText = await response.text();
+		if (!response.ok) {
+			// Rate limits and provider overload (5xx, Anthropic's 529) clear up on their own; other 4xx mean the request is wrong.
+			const retryable = response.status >= 500 || response.status === 429;
+			console.error(`LLM API request failed with status ${response.status}: ${responseText.substring(0,100)}`);
+			return { success: false, error: `LLM API error ${response.status}: ${responseText.substring(0,100)}`, rawResponse: responseText, isRetryable: retryable };
+		}
+		let json: any;
+		try {
+			json = JSON.parse(responseText);
+		} catch (e: any) {
+			console.error("Failed to parse LLM API outer JSON response:", e.message, responseText.substring(0,100));
+			return { success: false, error: "LLM API response not JSON: " + e.message, rawResponse: responseText, isRetryable: true };
+		}
+		const content = extractContent(json);
+		if (typeof content !== 'string') {
+			console.error("LLM response structure unexpected (no content string):", json);
+			return { success: false, error: "LLM response structure error.", rawResponse: json, isRetryable: false };
+		}
+		return { success: true, content, rawResponse: json };
+	} catch (error: any) {
+		console.error("Network error calling LLM service:", error.message, error.stack);
+		return { success: false, error: `Network error calling LLM: ${error.message}`, isRetryable: true };
+	}
+}
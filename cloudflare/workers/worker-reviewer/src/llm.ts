@@ -0,0 +1,62 @@
+import type { Env, LLMResponse, RepoReviewConfig } from './types';
+import { resolveProvider } from './llm-providers';
+import { validateReviewContent } from './review-schema';
+
+// Sends a prompt to the selected LLM provider and validates the JSON object the model returns. Output that fails
+// validation gets one repair round-trip with the errors before it is reported. Comments on paths outside
+// `knownPaths` are dropped and counted.
+export async function requestLLM(promptContent: string, env: Env, config?: RepoReviewConfig, knownPaths?: string[]): Promise<LLMResponse> {
+	const resolved = resolveProvider(env, config);
+	if (!resolved.success || !resolved.provider || !resolved.settings) {
+		console.error(resolved.error);
+		return { success: false, error: resolved.error, isRetryable: false };
+	}
+	const { provider, settings } = resolved;
+
+	let completion = await provider.complete(promptContent, settings, env);
+	if (!completion.success || completion.content === undefined) {
+		return { success: false, error: completion.error, rawResponse: completion.rawResponse, prompt: promptContent, isRetryable: completion.isRetryable };
+	}
+	let validation = validateReviewContent(completion.content, knownPaths);
+
+	if (!validation.valid) {
+		console.warn(`LLM output failed validation (${validation.errors.join('; ')}); asking the model to repair it.`);
+		const repair = await provider.complete(buildRepairPrompt(promptContent, completion.content, validation.errors), settings, env);
+		if (repair.success && repair.content !== undefined) {
+			completion = repair;
+			validation = validateReviewContent(repair.content, knownPaths);
+		} else if (repair.isRetryable) {
+			// The output may well be fine on a fresh attempt; do not report an outage as a format error.
+			console.warn(`Repair request failed with a retryable error: ${repair.error}`);
+			return { success: false, error: `LLM repair request failed: ${repair.error}`, rawResponse: completion.rawResponse, prompt: promptContent, isRetryable: true };
+		} else {
+			console.warn(`Repair request failed: ${repair.error}`);
+		}
+	}
+
+	const llmContentString = completion.content!;
+	if (!validation.valid || !validation.result) {
+		if (validation.jsonError !== undefined) {
+			console.error("LLM content string was not valid JSON:", llmContentString.substring(0,100), validation.jsonError);
+			return { success: false, error: "LLM content not valid JSON: " + validation.jsonError, rawResponse: completion.rawResponse, prompt: promptContent, isRetryable: false };
+		}
+		console.error("LLM's output JSON failed schema validation:", validation.errors);
+		return { success: false, error: `LLM output format error: ${validation.errors.join('; ')}.`, rawResponse: completion.rawResponse, prompt: promptContent, isRetryable: false };
+	}
+
+	if (validation.droppedComments > 0) {
+		console.warn(`Dropped ${validation.droppedComments} LLM comments that reference files outside the change.`);
+	}
+	return {
+		...validation.result,
+		rawResponse: completion.rawResponse,
+		prompt: promptContent,
+		isRetryable: false,
+		...(validation.droppedComments > 0 ? { droppedComments: validation.droppedComments } : {}),
+	};
+}
+
+function buildRepairPrompt(promptContent: string, previous: string, errors: string[]): string {
+	return `${promptContent}\n\nYour previous response could not be used:\n${errors.map(e => `- ${e}`).join('\n')}\n\n`
+		+ `Previous response:\n${previous.substring(0, 4000)}\n\nReply again with only the corrected JSON object, keeping the same findings.`;
+}
@@ -0,0 +1,16 @@
+import type { Message } from '@cloudflare/workers-types';
+import type { Env } from './types';
+
+// Cloudflare's default max_retries for a queue consumer.
+const DEFAULT_MAX_RETRIES = 3;
+
+// QUEUE_MAX_RETRIES is set in wrangler.toml next to the review-tasks-queue consumer and must match its max_retries.
+export function queueMaxRetries(env: Env): number {
+	const value = Number.parseInt(env.QUEUE_MAX_RETRIES || '', 10);
+	return Number.isInteger(value) && value >= 0 ? value : DEFAULT_MAX_RETRIES;
+}
+
+// Whether the queue drops the message instead of redelivering it when this attempt asks for a retry.
+export function isLastAttempt(message: Message<unknown>, env: Env): boolean {
+	return message.attempts > queueMaxRetries(env);
+}
@@ -0,0 +1,138 @@
+import { parse as parseYaml } from 'yaml';
+import type { Env, RepoReviewConfig, ReviewTask } from './types';
+import { LLM_PROVIDER_NAMES } from './llm-providers';
+import { FINDING_SEVERITIES } from './findings';
+import { getVcsProvider } from './vcs-providers';
+
+export const REPO_CONFIG_PATH = '.ai-review.yml';
+
+export const DEFAULT_REPO_CONFIG: RepoReviewConfig = {
+	enabled: true,
+	include: [],
+	exclude: [],
+};
+
+const KNOWN_KEYS = ['enabled', 'review_type', 'include', 'exclude', 'language', 'instructions', 'max_comments', 'min_severity', 'fail_on_severity', 'provider', 'model'];
+
+export interface RepoConfigResult {
+	success: boolean;
+	config?: RepoReviewConfig;
+	error?: string;
+	isRetryable?: boolean;
+}
+
+export async function loadRepoConfig(task: ReviewTask, env: Env): Promise<RepoConfigResult> {
+	const request = getVcsProvider(task.source)?.repoFileRequest?.(task, REPO_CONFIG_PATH, env);
+	if (!request) {
+		return { success: true, config: { ...DEFAULT_REPO_CONFIG } };
+	}
+	const { url, headers } = request;
+
+	try {
+		const response = await fetch(url, { method: "GET", headers });
+		const responseText = await response.text();
+		if (response.status === 404) {
+			console.log(`No ${REPO_CONFIG_PATH} found for task ${task.eventId}; using defaults.`);
+			return { success: true, config: { ...DEFAULT_REPO_CONFIG } };
+		}
+		if (!response.ok) {
+			const retryable = response.status >= 500 || response.status === 429;
+			console.error(`Failed to load ${REPO_CONFIG_PATH} for task ${task.eventId}: ${response.status} ${responseText.substring(0,100)}`);
+			return { success: false, error: `Config API error ${response.status}: ${responseText.substring(0,100)}`, isRetryable: retryable };
+		}
+		return parseRepoConfig(responseText);
+	} catch (error: any) {
+		console.error(`Error loading ${REPO_CONFIG_PATH} for task ${task.eventId}: ${error.message}`);
+		return { success: false, error: `Error loading ${REPO_CONFIG_PATH}: ${error.message}`, isRetryable: true };
+	}
+}
+
+export function parseRepoConfig(text: string): RepoConfigResult {
+	let raw: any;
+	try {
+		raw = parseYaml(text);
+	} catch (e: any) {
+		return { success: false, error: `Invalid ${REPO_CONFIG_PATH}: ${e.message}`, isRetryable: false };
+	}
+	if (raw === null || raw === undefined) {
+		return { success: true, config: { ...DEFAULT_REPO_CONFIG } };
+	}
+	if (typeof raw !== 'object' || Array.isArray(raw)) {
+		return { success: false, error: `Invalid ${REPO_CONFIG_PATH}: expected a mapping at the top level.`, isRetryable: false };
+	}
+
+	const errors: string[] = [];
+	const config: RepoReviewConfig = { ...DEFAULT_REPO_CONFIG };
+	for (const key of Object.keys(raw)) {
+		if (!KNOWN_KEYS.includes(key)) errors.push(`unknown key "${key}"`);
+	}
+	if (raw.enabled !== undefined) {
+		if (typeof raw.enabled === 'boolean') config.enabled = raw.enabled;
+		else errors.push('"enabled" must be a boolean');
+	}
+	if (raw.review_type !== undefined) {
+		if (raw.review_type === 'detailed' || raw.review_type === 'general') config.reviewType = raw.review_type;
+		else errors.push('"review_type" must be "detailed" or "general"');
+	}
+	for (const key of ['include', 'exclude'] as const) {
+		if (raw[key] === undefined) continue;
+		const value = typeof raw[key] === 'string' ? [raw[key]] : raw[key];
+		if (Array.isArray(value) && value.every((v: unknown) => typeof v === 'string' && v.length > 0)) config[key] = value;
+		else errors.push(`"${key}" must be a glob string or a list of glob strings`);
+	}
+	if (raw.provider !== undefined) {
+		if (LLM_PROVIDER_NAMES.includes(raw.provider)) config.provider = raw.provider;
+		else errors.push(`"provider" must be one of ${LLM_PROVIDER_NAMES.join(', ')}`);
+	}
+	for (const key of ['language', 'instructions', 'model'] as const) {
+		if (raw[key] === undefined) continue;
+		if (typeof raw[key] === 'string') config[key] = raw[key].trim() || undefined;
+		else errors.push(`"${key}" must be a string`);
+	}
+	if (raw.max_comments !== undefined) {
+		if (Number.isInteger(raw.max_comments) && raw.max_comments > 0) config.maxComments = raw.max_comments;
+		else errors.push('"max_comments" must be a positive integer');
+	}
+
+	for (const [key, field] of [['min_severity', 'minSeverity'], ['fail_on_severity', 'failOnSeverity']] as const) {
+		if (raw[key] === undefined) continue;
+		if (FINDING_SEVERITIES.includes(raw[key])) config[field] = raw[key];
+		else errors.push(`"${key}" must be one of ${FINDING_SEVERITIES.join(', ')}`);
+	}
+
+	if (errors.length > 0) {
+		return { success: false, error: `Invalid ${REPO_CONFIG_PATH}: ${errors.join('; ')}.`, isRetryable: false };
+	}
+	return { success: true, config };
+}
+
+export function isPathIncluded(path: string, config: RepoReviewConfig): boolean {
+	if (config.include.length > 0 && !config.include.some(glob => globToRegExp(glob).test(path))) return false;
+	return !config.exclude.some(glob => globToRegExp(glob).test(path));
+}
+
+// Supports `**` (any number of directories), `*` (within one path segment) and `?`.
+export function globToRegExp(glob: string): RegExp {
+	let pattern = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*') {
+			if (glob[i + 1] === '*') {
+				i++;
+				if (glob[i + 1] === '/') {
+					i++;
+					pattern += '(?:.*/)?';
+				} else {
+					pattern += '.*';
+				}
+			} else {
+				pattern += '[^/]*';
+			}
+		} else if (char === '?') {
+			pattern += '[^/]';
+		} else {
+			pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${pattern}$`);
+}
@@ -0,0 +1,139 @@
+import type { Env, ReviewOutcome } from './types';
+import { REVIEW_RESULT_KEY_PREFIX, tokenMatches } from '../../shared/vcs';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 1000;
+
+const REVIEW_STATUSES: ReviewOutcome['status'][] = ['completed', 'failed', 'error_calling_llm', 'error_posting_comment', 'skipped', 'invalid_config', 'superseded'];
+
+export interface ReviewResultMetadata {
+	status: ReviewOutcome['status'];
+	timestamp: string;
+}
+
+export interface ReviewResultSummary {
+	key: string;
+	source: string;
+	repository: string;
+	number: string;
+	eventId: string;
+	status?: ReviewOutcome['status'];
+	timestamp?: string;
+}
+
+const jsonResponse = (data: any, status: number = 200, headers: Record<string, string> = {}) => {
+	return new Response(JSON.stringify(data), {
+		status,
+		headers: { 'Content-Type': 'application/json', ...headers },
+	});
+};
+
+// REVIEW_RESULTS_KV also holds installation tokens and last-review records; only review outcome keys are served.
+// Repository names never contain ':', so the key splits unambiguously; the event ID keeps any that follow.
+export function parseReviewResultKey(key: string): Omit<ReviewResultSummary, 'status' | 'timestamp'> | null {
+	if (!key.startsWith(REVIEW_RESULT_KEY_PREFIX)) return null;
+	const [source, repository, number, ...eventId] = key.slice(REVIEW_RESULT_KEY_PREFIX.length).split(':');
+	if (!source || !repository || !number || eventId.length === 0) return null;
+	return { key, source, repository, number, eventId: eventId.join(':') };
+}
+
+export async function isAuthorized(request: Request, token: string): Promise<boolean> {
+	const match = /^Bearer\s+(.+)$/i.exec(request.headers.get('Authorization') || '');
+	return match ? tokenMatches(match[1].trim(), token) : false;
+}
+
+/**
+ * Read-only HTTP API over the review outcomes in REVIEW_RESULTS_KV:
+ *   GET /reviews?source=&repo=&number=&status=&since=&until=&limit=&cursor=
+ *   GET /reviews/<URL-encoded key>
+ * Disabled (404) unless RESULTS_API_TOKEN is set; callers send it as a Bearer token.
+ */
+export async function handleResultsRequest(request: Request, env: Env): Promise<Response> {
+	const url = new URL(request.url);
+	const { pathname } = url;
+	if (!env.RESULTS_API_TOKEN || (pathname !== '/reviews' && !pathname.startsWith('/reviews/'))) {
+		return jsonResponse({ error: 'Not found.' }, 404);
+	}
+	if (request.method !== 'GET') {
+		return jsonResponse({ error: 'Method Not Allowed' }, 405, { Allow: 'GET' });
+	}
+	if (!(await isAuthorized(request, env.RESULTS_API_TOKEN))) {
+		return jsonResponse({ error: 'Unauthorized.' }, 401, { 'WWW-Authenticate': 'Bearer' });
+	}
+
+	try {
+		if (pathname === '/reviews') return await listReviewResults(url.searchParams, env);
+		let key: string;
+		try {
+			key = decodeURIComponent(pathname.slice('/reviews/'.length));
+		} catch {
+			return jsonResponse({ error: 'Invalid review key.' }, 400);
+		}
+		return await getReviewResult(key, env);
+	} catch (error: any) {
+		console.error(`Results API request ${pathname}${url.search} failed:`, error.message);
+		return jsonResponse({ error: `Failed to read review results: ${error.message}` }, 500);
+	}
+}
+
+async function listReviewResults(params: URLSearchParams, env: Env): Promise<Response> {
+	const source = params.get('source') || undefined;
+	const repo = params.get('repo') || undefined;
+	const number = params.get('number') || undefined;
+	if ((repo && !source) || (number && !repo)) {
+		return jsonResponse({ error: '"repo" requires "source", and "number" requires "repo".' }, 400);
+	}
+
+	const statuses = params.get('status')?.split(',').map(s => s.trim()).filter(Boolean) || [];
+	const unknownStatus = statuses.find(s => !REVIEW_STATUSES.includes(s as ReviewOutcome['status']));
+	if (unknownStatus) {
+		return jsonResponse({ error: `Unknown status "${unknownStatus}". Expected one of: ${REVIEW_STATUSES.join(', ')}.` }, 400);
+	}
+
+	const since = parseTime(params.get('since'));
+	const until = parseTime(params.get('until'));
+	if (Number.isNaN(since) || Number.isNaN(until)) {
+		return jsonResponse({ error: '"since" and "until" must be ISO 8601 timestamps.' }, 400);
+	}
+
+	const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_PAGE_SIZE;
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+		return jsonResponse({ error: `"limit" must be an integer between 1 and ${MAX_PAGE_SIZE}.` }, 400);
+	}
+
+	const prefix = REVIEW_RESULT_KEY_PREFIX + [source, repo, number].filter(Boolean).map(part => `${part}:`).join('');
+	const page = await env.REVIEW_RESULTS_KV.list<ReviewResultMetadata>({ prefix, limit, cursor: params.get('cursor') || undefined });
+
+	const reviews: ReviewResultSummary[] = [];
+	for (const entry of page.keys) {
+		const parsed = parseReviewResultKey(entry.name);
+		if (!parsed) continue;
+		const status = entry.metadata?.status;
+		const timestamp = entry.metadata?.timestamp;
+		if (statuses.length > 0 && !(status && statuses.includes(status))) continue;
+		if (since !== undefined || until !== undefined) {
+			const time = timestamp ? Date.parse(timestamp) : NaN;
+			if (Number.isNaN(time) || (since !== undefined && time < since) || (until !== undefined && time > until)) continue;
+		}
+		reviews.push({ ...parsed, status, timestamp });
+	}
+
+	// Filters apply to one KV page at a time, so a page may hold fewer than `limit` reviews; keep paging while a cursor is returned.
+	return jsonResponse({ reviews, cursor: page.list_complete ? null : page.cursor });
+}
+
+async function getReviewResult(key: string, env: Env): Promise<Response> {
+	const parsed = parseReviewResultKey(key);
+	if (!parsed) {
+		return jsonResponse({ error: 'Review result not found.', key }, 404);
+	}
+	const { value, metadata } = await env.REVIEW_RESULTS_KV.getWithMetadata<ReviewOutcome, ReviewResultMetadata>(key, 'json');
+	if (value === null) {
+		return jsonResponse({ error: 'Review result not found.', key }, 404);
+	}
+	return jsonResponse({ ...parsed, status: metadata?.status, timestamp: metadata?.timestamp, outcome: value });
+}
+
+function parseTime(value: string | null): number | undefined {
+	return value ? Date.parse(value) : undefined;
+}
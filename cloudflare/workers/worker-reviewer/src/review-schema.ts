@@ -0,0 +1,129 @@
+import type { LLMComment } from './types';
+import { FINDING_CATEGORIES, FINDING_SEVERITIES } from './findings';
+
+export interface ReviewResult {
+	success: boolean;
+	comments: LLMComment[];
+	summary?: string;
+}
+
+export interface ReviewValidation {
+	valid: boolean;
+	result?: ReviewResult;
+	errors: string[];
+	// Set when the text was not JSON at all, as opposed to JSON of the wrong shape.
+	jsonError?: string;
+	// Comments dropped because they point at files that are not part of the change.
+	droppedComments: number;
+}
+
+// Aliases models commonly use instead of the field names the prompt asks for.
+const FILE_PATH_KEYS = ['filePath', 'file_path', 'file', 'path'];
+const LINE_KEYS = ['lineNumber', 'line_number', 'line'];
+const COMMENT_KEYS = ['comment', 'body', 'message', 'text'];
+const SUGGESTION_KEYS = ['suggestion', 'suggested_fix', 'suggestedFix', 'replacement'];
+
+// Returns the text itself when it is JSON; otherwise removes a ```json fence around the whole response and any prose
+// before the first `{` or after the last `}`. Fences inside the JSON, e.g. code blocks in a comment, are kept.
+export function extractJsonText(text: string): string {
+	const trimmed = text.trim();
+	try {
+		JSON.parse(trimmed);
+		return trimmed;
+	} catch {
+		// Not bare JSON; look for it inside the response.
+	}
+	const fenced = /^```(?:json)?\s*([\s\S]*)```$/i.exec(trimmed);
+	const candidate = fenced ? fenced[1] : trimmed;
+	const start = candidate.indexOf('{');
+	const end = candidate.lastIndexOf('}');
+	return start >= 0 && end > start ? candidate.substring(start, end + 1) : candidate.trim();
+}
+
+export function validateReviewContent(text: string, knownPaths?: string[]): ReviewValidation {
+	let raw: any;
+	try {
+		raw = JSON.parse(extractJsonText(text));
+	} catch (e: any) {
+		return { valid: false, errors: [`response is not valid JSON (${e.message})`], jsonError: e.message, droppedComments: 0 };
+	}
+	if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+		return { valid: false, errors: ['response must be a JSON object'], droppedComments: 0 };
+	}
+
+	const errors: string[] = [];
+	if (typeof raw.success !== 'boolean') errors.push("missing 'success'");
+	if (raw.summary !== undefined && raw.summary !== null && typeof raw.summary !== 'string') errors.push("'summary' must be a string");
+
+	const comments: LLMComment[] = [];
+	let droppedComments = 0;
+	const rawComments = raw.comments ?? [];
+	if (!Array.isArray(rawComments)) {
+		errors.push("'comments' must be an array");
+	} else {
+		const known = knownPaths && knownPaths.length > 0 ? new Set(knownPaths) : undefined;
+		rawComments.forEach((item: any, index: number) => {
+			const normalised = normaliseComment(item, `comments[${index}]`, errors);
+			if (!normalised) return;
+			if (known && normalised.filePath && !known.has(normalised.filePath)) {
+				droppedComments++;
+				return;
+			}
+			comments.push(normalised);
+		});
+	}
+
+	if (errors.length > 0) return { valid: false, errors, droppedComments };
+	return { valid: true, result: { success: raw.success, comments, summary: raw.summary ?? undefined }, errors, droppedComments };
+}
+
+function normaliseComment(item: any, label: string, errors: string[]): LLMComment | undefined {
+	if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+		errors.push(`${label} must be an object`);
+		return undefined;
+	}
+	const filePath = pick(item, FILE_PATH_KEYS);
+	const comment = pick(item, COMMENT_KEYS);
+	const lineNumber = toPositiveInteger(pick(item, LINE_KEYS));
+	const position = toPositiveInteger(item.position);
+	const severity = typeof item.severity === 'string' ? item.severity.trim().toLowerCase() : item.severity;
+	const category = typeof item.category === 'string' ? item.category.trim().toLowerCase() : item.category;
+	const confidence = typeof item.confidence === 'string' && item.confidence.trim() !== '' ? Number(item.confidence) : item.confidence;
+	const suggestion = pick(item, SUGGESTION_KEYS);
+	const before = errors.length;
+
+	if (filePath !== undefined && typeof filePath !== 'string') errors.push(`${label}.filePath must be a string`);
+	if (typeof comment !== 'string' || comment.trim() === '') errors.push(`${label}.comment must be a non-empty string`);
+	if (lineNumber === null) errors.push(`${label}.lineNumber must be a positive integer`);
+	if (position === null) errors.push(`${label}.position must be a positive integer`);
+	if (severity != null && !FINDING_SEVERITIES.includes(severity)) errors.push(`${label}.severity must be one of ${FINDING_SEVERITIES.join(', ')}`);
+	if (category != null && !FINDING_CATEGORIES.includes(category)) errors.push(`${label}.category must be one of ${FINDING_CATEGORIES.join(', ')}`);
+	if (confidence != null && !(typeof confidence === 'number' && confidence >= 0 && confidence <= 1)) errors.push(`${label}.confidence must be a number between 0 and 1`);
+	if (suggestion !== undefined && typeof suggestion !== 'string') errors.push(`${label}.suggestion must be a string`);
+	if (errors.length > before) return undefined;
+
+	// General comments come without a file; they keep that shape so they are posted in the review body.
+	const normalised = { comment } as LLMComment;
+	if (filePath) normalised.filePath = filePath.replace(/^\.?\//, '');
+	if (lineNumber) normalised.lineNumber = lineNumber;
+	if (position) normalised.position = position;
+	if (severity != null) normalised.severity = severity;
+	if (category != null) normalised.category = category;
+	if (confidence != null) normalised.confidence = confidence;
+	if (suggestion !== undefined) normalised.suggestion = suggestion;
+	return normalised;
+}
+
+function pick(item: any, keys: string[]): any {
+	for (const key of keys) {
+		if (item[key] !== undefined && item[key] !== null) return item[key];
+	}
+	return undefined;
+}
+
+// undefined when absent, null when present but unusable; accepts numeric strings such as "12".
+function toPositiveInteger(value: any): number | undefined | null {
+	if (value === undefined || value === null || value === '') return undefined;
+	const parsed = typeof value === 'string' && /^\s*\d+\s*$/.test(value) ? parseInt(value, 10) : value;
+	return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
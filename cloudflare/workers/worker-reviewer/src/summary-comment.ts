@@ -0,0 +1,85 @@
+import type { Env, ReviewOutcome, ReviewTask } from './types';
+import { formatSeverityCounts } from './findings';
+import { getVcsProvider } from './vcs-providers';
+import { MAX_PAGES } from './vcs-common';
+
+// Hidden marker that identifies the bot's summary comment so re-reviews edit it instead of posting a new one.
+export const SUMMARY_MARKER = '<!-- ai-code-review-summary -->';
+
+// Where a host keeps the summary comment: a listable collection of PR/MR comments that can be edited in place.
+export interface SummaryCommentApi {
+	listUrl: string;
+	createUrl: string;
+	updateUrl: (id: number) => string;
+	updateMethod: string;
+	headers: Record<string, string>;
+	// Username of a listed comment's author.
+	authorOf: (item: any) => string | undefined;
+}
+
+export function buildSummaryBody(task: ReviewTask, outcome: ReviewOutcome): string {
+	const headSha = task.pullRequest?.headSha || task.mergeRequest?.headSha;
+	const comments = outcome.comments || [];
+	const inlineCount = comments.filter(c => c.filePath && (c.lineNumber || c.position)).length;
+	const severityCounts = formatSeverityCounts(comments);
+	const lines = [
+		SUMMARY_MARKER,
+		'## AI Code Review Summary',
+		'',
+		`**Reviewed commit:** ${headSha ? `\`${headSha.substring(0, 12)}\`` : 'unknown'}`,
+		...(task.incremental ? [`**Changes since:** \`${task.incremental.baseSha.substring(0, 12)}\``] : []),
+		`**Files reviewed:** ${task.filesToReview.length}`,
+		`**Findings:** ${comments.length} (${inlineCount} inline, ${comments.length - inlineCount} general)`,
+		...(severityCounts ? [`**By severity:** ${severityCounts}`] : []),
+		'',
+		outcome.summary || '_No summary was provided._',
+		'',
+		`<sub>Last updated ${outcome.timestamp}</sub>`,
+	];
+	return lines.join('\n');
+}
+
+// Creates or edits the sticky summary comment. Failures are logged, never thrown: the review itself already succeeded.
+export async function upsertSummaryComment(task: ReviewTask, outcome: ReviewOutcome, env: Env): Promise<boolean> {
+	const body = buildSummaryBody(task, outcome);
+	const provider = getVcsProvider(task.source);
+	const api = provider?.summaryCommentApi?.(task, env);
+	if (!api || !provider?.fetchBotUsername) {
+		console.warn(`Cannot post summary comment for task ${task.eventId}: unsupported source ${task.source}.`);
+		return false;
+	}
+	const { listUrl, createUrl, updateUrl, updateMethod, headers, authorOf } = api;
+
+	try {
+		// Anyone can paste the marker; only the bot's own comment is edited.
+		const bot = await provider.fetchBotUsername(task, env);
+		if (!bot.success || !bot.username) {
+			console.error(`Cannot post summary comment for task ${task.eventId}: bot account unknown. ${bot.error || ''}`);
+			return false;
+		}
+		let existingId: number | undefined;
+		for (let page = 1; page <= MAX_PAGES && existingId === undefined; page++) {
+			const response = await fetch(`${listUrl}&page=${page}`, { method: "GET", headers });
+			if (!response.ok) {
+				console.error(`Failed to list comments for task ${task.eventId}: ${response.status} ${(await response.text()).substring(0,100)}`);
+				return false;
+			}
+			const items: any[] = await response.json();
+			existingId = items.find(item => authorOf(item) === bot.username && typeof item.body === 'string' && item.body.includes(SUMMARY_MARKER))?.id;
+			if (items.length < 100) break;
+		}
+
+		const response = existingId !== undefined
+			? await fetch(updateUrl(existingId), { method: updateMethod, headers, body: JSON.stringify({ body }) })
+			: await fetch(createUrl, { method: "POST", headers, body: JSON.stringify({ body }) });
+		if (!response.ok) {
+			console.error(`Failed to ${existingId !== undefined ? 'update' : 'create'} summary comment for task ${task.eventId}: ${response.status} ${(await response.text()).substring(0,100)}`);
+			return false;
+		}
+		console.log(`${existingId !== undefined ? 'Updated' : 'Created'} summary comment on ${task.source} for task ${task.eventId}.`);
+		return true;
+	} catch (error: any) {
+		console.error(`Error posting summary comment for task ${task.eventId}: ${error.message}`);
+		return false;
+	}
+}
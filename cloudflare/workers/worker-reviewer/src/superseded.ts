@@ -0,0 +1,29 @@
+import type { Env, ReviewOutcome, ReviewTask } from './types';
+import { headShaOf, latestHeadKey } from '../../shared/vcs';
+
+// Head commit recorded by worker-webhook when it is newer than the task's, otherwise undefined.
+// Thread replies and explain commands answer a question rather than review a commit, so they are never superseded.
+// Without the shared PROCESSED_EVENTS_KV binding, or when it cannot be read, the task is reviewed as usual.
+export async function findNewerHead(task: ReviewTask, env: Env): Promise<string | undefined> {
+	if (!env.PROCESSED_EVENTS_KV || task.reply || task.command?.type === 'explain') return undefined;
+	const key = latestHeadKey(task);
+	const headSha = headShaOf(task);
+	if (!key || !headSha) return undefined;
+	try {
+		const latest = await env.PROCESSED_EVENTS_KV.get(key);
+		return latest && latest !== headSha ? latest : undefined;
+	} catch (error: any) {
+		console.warn(`Could not read the latest head commit for task ${task.eventId}; reviewing it anyway: ${error.message}`);
+		return undefined;
+	}
+}
+
+// Keeps the findings of a review that already ran for the record; none of them are posted.
+export function buildSupersededOutcome(task: ReviewTask, newerHead: string, review?: ReviewOutcome): ReviewOutcome {
+	return {
+		...review,
+		taskId: task.eventId, status: 'superseded', repository: task.repository.fullName,
+		pullRequest: task.pullRequest, mergeRequest: task.mergeRequest, reviewType: task.reviewType,
+		summary: `Superseded by newer commit ${newerHead}.`, timestamp: new Date().toISOString(),
+	};
+}
@@ -0,0 +1,161 @@
+import type { Queue, KVNamespace } from '@cloudflare/workers-types';
+import type { GitlabDiffRefs, ReviewCommand, ReviewTarget, ThreadReply, VcsSource } from '../../shared/vcs';
+
+export type { GitlabDiffRefs, ReviewCommand, ReviewTarget, ThreadReply, VcsSource } from '../../shared/vcs';
+
+export interface Env {
+	REVIEW_TASKS_QUEUE: Queue;
+	REVIEW_RESULTS_KV: KVNamespace;
+	LLM_API_KEY: string;
+	GITHUB_TOKEN: string; // 未配置 GitHub App 或事件不来自 App 安装时使用的个人访问令牌
+	GITLAB_TOKEN: string;
+	LLM_ENDPOINT: string;
+	LLM_MODEL_NAME?: string;
+	GITLAB_BASE_URL?: string; // 支持自定义GitLab实例的基础URL
+	BITBUCKET_TOKEN?: string; // Bitbucket Cloud 仓库或工作区访问令牌
+	GITEA_TOKEN?: string; // Gitea/Forgejo 访问令牌
+	GITEA_BASE_URL?: string; // Gitea/Forgejo 实例 URL；默认取自 Webhook 中仓库的 html_url
+	GITLAB_TENANTS_KV?: KVNamespace; // 多 GitLab 实例注册表：按主机或命名空间存储 baseUrl、token 和 webhookSecret
+	PROCESSED_EVENTS_KV?: KVNamespace; // 与 worker-webhook 共用；读取每个 PR/MR 的最新 head 提交，跳过已被新提交取代的审查
+	LLM_CONTEXT_TOKENS?: string; // 单次 LLM 调用中文件 diff 的 token 预算，超出时拆分为多次调用
+	LLM_MAX_CONCURRENCY?: string; // 拆分后同时进行的 LLM 调用数上限
+	LLM_PROVIDER?: string; // openai（默认）、azure-openai、anthropic、gemini、ollama 或 workers-ai
+	LLM_API_VERSION?: string; // Azure OpenAI 的 api-version
+	OPENAI_API_KEY?: string;
+	AZURE_OPENAI_API_KEY?: string;
+	AZURE_OPENAI_ENDPOINT?: string;
+	ANTHROPIC_API_KEY?: string;
+	GEMINI_API_KEY?: string;
+	OLLAMA_ENDPOINT?: string;
+	AI?: { run(model: string, inputs: Record<string, any>): Promise<any> }; // Workers AI 绑定
+	REPORT_COMMIT_STATUS?: string; // 设为 "false" 时不在 head 提交上报告审查状态
+	GITHUB_STATUS_MODE?: string; // status（默认，提交状态）或 check_run（需要 GitHub App 令牌）
+	GITHUB_APP_ID?: string; // 配置后使用 GitHub App 安装令牌访问 GitHub
+	GITHUB_APP_PRIVATE_KEY?: string; // GitHub App 私钥（PEM，PKCS#1 或 PKCS#8）
+	GITHUB_BOT_LOGIN?: string; // 机器人账号的登录名；使用 GitHub App 时自动设置为 <slug>[bot]
+	INCREMENTAL_REVIEW?: string; // 设为 "false" 时每次推送都审查整个 PR/MR（默认只审查上次审查之后的变更）
+	RESULTS_API_TOKEN?: string; // 查询审查结果的 HTTP API（GET /reviews）的 Bearer 令牌；未设置时 API 关闭
+	DASHBOARD_TOKEN?: string; // 审查仪表盘（/dashboard）的共享密钥，作为 HTTP Basic 认证的密码
+	ACCESS_TEAM_DOMAIN?: string; // Cloudflare Access 团队域名（如 myteam.cloudflareaccess.com），与 ACCESS_AUD 一起启用 Access 认证
+	ACCESS_AUD?: string; // 保护仪表盘的 Cloudflare Access 应用的 AUD 标签
+	DIRECT_REVIEW_TOKEN?: string; // 直接提交 diff 审查的 HTTP API（/diff-reviews）的 Bearer 令牌；未设置时 API 关闭
+	RESOLVE_FIXED_FINDINGS?: string; // 设为 "true" 时解决代码已被修改或删除的旧审查意见（GitHub 审查线程、GitLab 讨论）
+	QUEUE_MAX_RETRIES?: string; // 与 review-tasks-queue 消费者的 max_retries 相同，用于识别最后一次投递（默认 3）
+}
+
+export interface ReviewFile {
+	path: string;
+	status?: 'added' | 'modified' | 'removed' | 'renamed' | string;
+	previousPath?: string;
+	content?: string;
+	diff?: string;
+}
+
+export type LLMProviderName = 'openai' | 'azure-openai' | 'anthropic' | 'gemini' | 'ollama' | 'workers-ai';
+
+// Per-repository settings read from .ai-review.yml at the reviewed commit.
+export interface RepoReviewConfig {
+	enabled: boolean;
+	reviewType?: 'detailed' | 'general';
+	include: string[];
+	exclude: string[];
+	language?: string;
+	instructions?: string;
+	maxComments?: number;
+	minSeverity?: FindingSeverity;
+	// Completed reviews with a finding at or above this severity report a failing status.
+	failOnSeverity?: FindingSeverity;
+	provider?: LLMProviderName;
+	model?: string;
+}
+
+export interface WebhookQueueMessage {
+	source: VcsSource;
+	eventId: string;
+	originalPayload: any;
+	reviewType?: 'detailed' | 'general';
+	filesToReview?: ReviewFile[];
+	command?: ReviewCommand;
+	reply?: ThreadReply;
+}
+
+// A normalised pull/merge request (see shared/vcs.ts) plus what this worker needs to review it. Diffs submitted to
+// the direct review API have no VCS behind them and use the source "direct".
+export interface ReviewTask extends Omit<ReviewTarget, 'source'> {
+	source: VcsSource | 'direct';
+	eventId: string;
+	reviewType: 'detailed' | 'general';
+	filesToReview: ReviewFile[];
+	config?: RepoReviewConfig;
+	command?: ReviewCommand;
+	reply?: ThreadReply;
+	// Set when only the changes since an earlier review are reviewed; filesToReview then holds that delta and
+	// changeFiles the whole pull/merge request, whose diff inline comments are positioned against.
+	incremental?: { baseSha: string; priorFindings: PriorFinding[]; changeFiles?: ReviewFile[] };
+}
+
+// A finding posted by an earlier review, carried into later incremental reviews so it is not reported again.
+export interface PriorFinding {
+	filePath?: string;
+	lineNumber?: number;
+	severity?: FindingSeverity;
+	comment: string;
+}
+
+export type FindingSeverity = 'blocker' | 'major' | 'minor' | 'nit';
+export type FindingCategory = 'security' | 'bug' | 'performance' | 'style' | 'tests' | 'docs';
+
+export interface LLMComment {
+	filePath: string;
+	lineNumber?: number;
+	position?: number;
+	comment: string;
+	severity?: FindingSeverity;
+	category?: FindingCategory;
+	// Model's own confidence in the finding, 0 to 1.
+	confidence?: number;
+	// Replacement for the commented line, rendered as a suggestion the author can apply.
+	suggestion?: string;
+	// Set once the comment has been anchored to the diff: LEFT targets a deleted line, RIGHT an added or context line.
+	side?: 'LEFT' | 'RIGHT';
+	oldLineNumber?: number;
+	// Hash of the file, the anchored line's text and the normalised comment; identifies the finding across reviews.
+	fingerprint?: string;
+	// Hash of the file and the anchored line's text; tells when the commented code itself has changed.
+	lineFingerprint?: string;
+}
+
+export interface LLMResponse {
+	success: boolean;
+	comments?: LLMComment[];
+	summary?: string;
+	error?: string;
+	rawResponse?: any;
+	// Prompt sent to the model; one per call when the review was split into parts.
+	prompt?: string | string[];
+    isRetryable?: boolean;
+	// Comments discarded because they referenced files outside the change.
+	droppedComments?: number;
+}
+
+export interface ReviewOutcome {
+	taskId: string;
+	status: 'completed' | 'failed' | 'error_calling_llm' | 'error_posting_comment' | 'skipped' | 'invalid_config' | 'superseded';
+	repository: string;
+	pullRequest?: ReviewTask['pullRequest'];
+	mergeRequest?: ReviewTask['mergeRequest'];
+	reviewType: ReviewTask['reviewType'];
+	comments?: LLMComment[];
+	rejectedComments?: LLMComment[];
+	droppedComments?: number;
+	// Fingerprints of every finding in this review, including those not posted because they already were.
+	fingerprints?: string[];
+	duplicateComments?: number;
+	// Earlier findings resolved because the code they commented on was changed.
+	resolvedThreads?: number;
+	summary?: string;
+	error?: string;
+	llmPrompt?: string | string[];
+	llmRawResponse?: any;
+	timestamp: string;
+}
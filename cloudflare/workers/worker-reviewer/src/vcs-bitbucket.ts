@@ -0,0 +1,120 @@
+import type { Env, LLMComment, ReviewTask } from './types';
+import type { FetchFilesResult } from './changed-files';
+import type { VcsProvider } from './vcs-providers';
+import type { FetchThreadResult } from './conversation';
+import { bitbucketWebhookProvider } from '../../shared/vcs';
+import { splitDiffByFile } from './diff-parser';
+import { formatFindingBody, formatFindingText } from './findings';
+import { fetchPage, postComment, postEachComment, MAX_PAGES } from './vcs-common';
+
+export const BITBUCKET_API_BASE = 'https://api.bitbucket.org/2.0';
+
+export function bitbucketHeaders(env: Env): Record<string, string> {
+	return { "Authorization": `Bearer ${env.BITBUCKET_TOKEN}`, "Content-Type": "application/json", "User-Agent": "Cloudflare-Worker-Code-Reviewer" };
+}
+
+function pullRequestUrl(task: ReviewTask): string {
+	return `${BITBUCKET_API_BASE}/repositories/${task.repository.fullName}/pullrequests/${task.pullRequest!.number}`;
+}
+
+// Bitbucket serves the whole pull request as one `git diff`; it is split into files here.
+async function fetchPullRequestFiles(task: ReviewTask, env: Env): Promise<FetchFilesResult> {
+	const result = await fetchPage(`${pullRequestUrl(task)}/diff`, bitbucketHeaders(env), task, 'changed files', 'text');
+	if (!result.success) return result;
+	const files = splitDiffByFile(result.data);
+	console.log(`Fetched ${files.length} changed files from bitbucket for task ${task.eventId}.`);
+	return { success: true, files };
+}
+
+// `<head>..<base>` diffs the head against its merge base with the earlier commit, like the pull request diff itself.
+async function fetchCompareFiles(task: ReviewTask, baseSha: string, env: Env): Promise<FetchFilesResult> {
+	const url = `${BITBUCKET_API_BASE}/repositories/${task.repository.fullName}/diff/${task.pullRequest!.headSha}..${baseSha}`;
+	const result = await fetchPage(url, bitbucketHeaders(env), task, 'commit comparison', 'text');
+	if (!result.success) return result;
+	const files = splitDiffByFile(result.data);
+	console.log(`Fetched ${files.length} files changed since ${baseSha} from bitbucket for task ${task.eventId}.`);
+	return { success: true, files };
+}
+
+async function fetchBotUsername(task: ReviewTask, env: Env): Promise<FetchFilesResult & { username?: string }> {
+	const user = await fetchPage(`${BITBUCKET_API_BASE}/user`, bitbucketHeaders(env), task, 'bot user');
+	return user.success ? { success: true, username: user.data?.nickname } : user;
+}
+
+// Replies name their parent, which may itself be a reply; the thread is the root comment and everything below it.
+async function fetchThread(task: ReviewTask, env: Env): Promise<FetchThreadResult> {
+	const bot = await fetchBotUsername(task, env);
+	if (!bot.success) return bot;
+
+	const rootId = Number(task.reply!.threadId);
+	const comments: any[] = [];
+	let url: string | undefined = `${pullRequestUrl(task)}/comments?pagelen=100`;
+	for (let page = 1; page <= MAX_PAGES && url; page++) {
+		const result = await fetchPage(url, bitbucketHeaders(env), task, 'review thread');
+		if (!result.success) return result;
+		comments.push(...(Array.isArray(result.data?.values) ? result.data.values : []));
+		url = result.data?.next;
+	}
+	comments.sort((a, b) => a.id - b.id);
+	const threadIds = new Set([rootId]);
+	const threadComments = comments.filter(item => {
+		if (item.id !== rootId && !threadIds.has(item.parent?.id)) return false;
+		threadIds.add(item.id);
+		return !item.deleted;
+	});
+	const root = threadComments.find(item => item.id === rootId);
+	if (!root) {
+		return { success: false, error: `Comment ${rootId} was not found on pull request #${task.pullRequest!.number}.`, isRetryable: false };
+	}
+	return {
+		success: true,
+		thread: {
+			botUsername: bot.username!,
+			filePath: root.inline?.path,
+			lineNumber: root.inline?.to ?? root.inline?.from,
+			side: root.inline && !root.inline.to ? 'LEFT' : 'RIGHT',
+			messages: threadComments.map(item => ({ author: item.user?.nickname, body: item.content?.raw })),
+		},
+	};
+}
+
+function buildComment(c: LLMComment): any {
+	if (!c.filePath || !c.lineNumber) {
+		return { content: { raw: c.filePath ? `**${c.filePath}**: ${formatFindingText(c)}` : formatFindingText(c) } };
+	}
+	// Bitbucket anchors removed lines with `from` (old file) and everything else with `to` (new file).
+	const inline = c.side === 'LEFT' ? { path: c.filePath, from: c.lineNumber } : { path: c.filePath, to: c.lineNumber };
+	return { content: { raw: formatFindingBody(c, 'bitbucket') }, inline };
+}
+
+// No summary comment or commit status yet; see README.
+export const bitbucketProvider: VcsProvider = {
+	...bitbucketWebhookProvider,
+
+	fetchChangedFiles: fetchPullRequestFiles,
+
+	fetchCompareFiles,
+
+	async postComments(task, comments, env) {
+		await postEachComment(task, comments, `${pullRequestUrl(task)}/comments`, bitbucketHeaders(env), buildComment);
+	},
+
+	repoFileRequest(task, path, env) {
+		if (!task.pullRequest) return undefined;
+		const ref = task.pullRequest.headSha || task.repository.defaultBranch;
+		return { url: `${BITBUCKET_API_BASE}/repositories/${task.repository.fullName}/src/${encodeURIComponent(ref)}/${path}`, headers: bitbucketHeaders(env) };
+	},
+
+	fetchBotUsername,
+
+	async postCommandReply(task, body, env) {
+		return postComment(`${pullRequestUrl(task)}/comments`, bitbucketHeaders(env), { content: { raw: body } }, task, 'command reply');
+	},
+
+	fetchThread,
+
+	async postThreadReply(task, _thread, body, env) {
+		const reply = { content: { raw: body }, parent: { id: Number(task.reply!.threadId) } };
+		return postComment(`${pullRequestUrl(task)}/comments`, bitbucketHeaders(env), reply, task, 'thread reply');
+	},
+};
@@ -0,0 +1,82 @@
+import type { LLMComment, ReviewTask } from './types';
+import type { FetchFilesResult } from './changed-files';
+import { formatFindingText } from './findings';
+
+// Helpers shared by the VCS provider implementations (vcs-github.ts, vcs-gitlab.ts, vcs-bitbucket.ts, vcs-gitea.ts).
+
+export const STATUS_CONTEXT = 'AI Code Review';
+
+export const PER_PAGE = 100;
+// GitHub caps the pull request files API at 3000 files; GitLab pages are bounded the same way to keep a task finite.
+export const MAX_PAGES = 30;
+
+export const DEFAULT_REVIEW_BODY = 'AI code review';
+
+// GET with the task's credentials. `what` names the requested data in logs and errors, e.g. "changed files".
+export async function fetchPage(url: string, headers: Record<string, string>, task: ReviewTask, what: string, format: 'json' | 'text' = 'json'): Promise<FetchFilesResult & { data?: any; status?: number }> {
+	try {
+		const response = await fetch(url, { method: "GET", headers });
+		const responseText = await response.text();
+		if (!response.ok) {
+			const retryable = response.status >= 500 || response.status === 429;
+			console.error(`Failed to fetch ${what} for task ${task.eventId} from ${url}: ${response.status} ${responseText.substring(0,100)}`);
+			return { success: false, status: response.status, error: `${what.charAt(0).toUpperCase()}${what.slice(1)} API error ${response.status}: ${responseText.substring(0,100)}`, isRetryable: retryable };
+		}
+		return { success: true, data: format === 'text' ? responseText : JSON.parse(responseText) };
+	} catch (error: any) {
+		console.error(`Error fetching ${what} for task ${task.eventId} from ${url}: ${error.message}`);
+		return { success: false, error: `Error fetching ${what}: ${error.message}`, isRetryable: true };
+	}
+}
+
+// POSTs one comment, e.g. a command or thread reply; `what` names it in logs. Failures are logged and reported as false.
+export async function postComment(url: string, headers: Record<string, string>, body: any, task: ReviewTask, what: string): Promise<boolean> {
+	try {
+		const response = await fetch(url, { method: "POST", headers, body: JSON.stringify(body) });
+		if (!response.ok) {
+			console.error(`Failed to post ${what} for task ${task.eventId}: ${response.status} ${(await response.text()).substring(0,100)}`);
+			return false;
+		}
+		console.log(`Posted ${what} on ${task.source} for task ${task.eventId}.`);
+		return true;
+	} catch (error: any) {
+		console.error(`Error posting ${what} for task ${task.eventId}: ${error.message}`);
+		return false;
+	}
+}
+
+// Review body for hosts that take all findings in one review: the summary, then findings without a line as a list.
+export function buildReviewBody(summary: string | undefined, generalComments: LLMComment[]): string {
+	let reviewBody = summary || DEFAULT_REVIEW_BODY;
+	if (generalComments.length > 0) {
+		reviewBody += '\n\n' + generalComments.map(c => c.filePath ? `- **${c.filePath}**: ${formatFindingText(c)}` : `- ${formatFindingText(c)}`).join('\n');
+	}
+	return reviewBody;
+}
+
+// For hosts without batched reviews: one request per finding, spaced out to stay clear of rate limits. `url` may
+// depend on the finding, for hosts that take line comments and general comments on different endpoints.
+// A failed comment is logged and the rest are still posted.
+export async function postEachComment(task: ReviewTask, comments: LLMComment[], url: string | ((comment: LLMComment) => string), headers: Record<string, string>, buildBody: (comment: LLMComment) => any): Promise<void> {
+	for (const comment of comments) {
+		try {
+			const body = buildBody(comment);
+			const commentUrl = typeof url === 'string' ? url : url(comment);
+			console.log(`Posting to ${commentUrl} for ${comment.filePath}: ${JSON.stringify(body).substring(0,100)}`);
+			const response = await fetch(commentUrl, {
+				method: "POST",
+				headers,
+				body: JSON.stringify(body),
+			});
+			if (!response.ok) {
+				const errorText = await response.text();
+				console.error(`Failed to post comment to ${task.source} for ${task.eventId}, file ${comment.filePath}: ${response.status} ${errorText.substring(0,100)}`);
+			} else {
+				console.log(`Successfully posted comment to ${task.source} for ${task.eventId}, file ${comment.filePath}`);
+			}
+		} catch (error: any) {
+			console.error(`Error during VCS post for ${task.eventId}, file ${comment.filePath}: ${error.message}`);
+		}
+		await new Promise(resolve => setTimeout(resolve, 200));
+	}
+}
@@ -0,0 +1,151 @@
+import type { Env, LLMComment, ReviewTask } from './types';
+import type { FetchFilesResult } from './changed-files';
+import type { VcsProvider } from './vcs-providers';
+import type { FetchThreadResult, ReviewThread } from './conversation';
+import { giteaWebhookProvider } from '../../shared/vcs';
+import { splitDiffByFile } from './diff-parser';
+import { formatFindingBody } from './findings';
+import { buildReviewBody, fetchPage, postComment, MAX_PAGES } from './vcs-common';
+
+// GITEA_BASE_URL, or the host of the repository page from the webhook.
+export function giteaApiBase(task: ReviewTask, env: Env): string {
+	const base = env.GITEA_BASE_URL || (task.repository.webUrl ? new URL(task.repository.webUrl).origin : '');
+	return `${base.replace(/\/+$/, '')}/api/v1`;
+}
+
+export function giteaHeaders(env: Env): Record<string, string> {
+	return { "Authorization": `token ${env.GITEA_TOKEN}`, "Content-Type": "application/json", "User-Agent": "Cloudflare-Worker-Code-Reviewer" };
+}
+
+// Gitea caps list pages at 50 items by default.
+const REVIEWS_PER_PAGE = 50;
+
+// Gitea serves the whole pull request as one `git diff`; it is split into files here.
+async function fetchPullRequestFiles(task: ReviewTask, env: Env): Promise<FetchFilesResult> {
+	const url = `${giteaApiBase(task, env)}/repos/${task.repository.fullName}/pulls/${task.pullRequest!.number}.diff`;
+	const result = await fetchPage(url, giteaHeaders(env), task, 'changed files', 'text');
+	if (!result.success) return result;
+	const files = splitDiffByFile(result.data);
+	console.log(`Fetched ${files.length} changed files from gitea for task ${task.eventId}.`);
+	return { success: true, files };
+}
+
+async function fetchBotUsername(task: ReviewTask, env: Env): Promise<FetchFilesResult & { username?: string }> {
+	const user = await fetchPage(`${giteaApiBase(task, env)}/user`, giteaHeaders(env), task, 'bot user');
+	return user.success ? { success: true, username: user.data?.login } : user;
+}
+
+// Gitea review comments have no reply link: a thread is every review comment on the line of its first comment.
+async function fetchThread(task: ReviewTask, env: Env): Promise<FetchThreadResult> {
+	const headers = giteaHeaders(env);
+	const bot = await fetchBotUsername(task, env);
+	if (!bot.success) return bot;
+
+	const reviewsUrl = `${giteaApiBase(task, env)}/repos/${task.repository.fullName}/pulls/${task.pullRequest!.number}/reviews`;
+	const comments: any[] = [];
+	for (let page = 1; page <= MAX_PAGES; page++) {
+		const result = await fetchPage(`${reviewsUrl}?limit=${REVIEWS_PER_PAGE}&page=${page}`, headers, task, 'review thread');
+		if (!result.success) return result;
+		const reviews: any[] = Array.isArray(result.data) ? result.data : [];
+		for (const review of reviews.filter(r => r.comments_count > 0)) {
+			const reviewComments = await fetchPage(`${reviewsUrl}/${review.id}/comments`, headers, task, 'review thread');
+			if (!reviewComments.success) return reviewComments;
+			comments.push(...(Array.isArray(reviewComments.data) ? reviewComments.data : []));
+		}
+		if (reviews.length < REVIEWS_PER_PAGE) break;
+	}
+
+	const rootId = Number(task.reply!.threadId);
+	const root = comments.find(item => item.id === rootId);
+	if (!root) {
+		return { success: false, error: `Review comment ${rootId} was not found on pull request #${task.pullRequest!.number}.`, isRetryable: false };
+	}
+	const threadComments = comments
+		.filter(item => item.path === root.path && item.position === root.position && item.original_position === root.original_position && item.id >= rootId)
+		.sort((a, b) => a.id - b.id);
+	return {
+		success: true,
+		thread: {
+			botUsername: bot.username!,
+			filePath: root.path,
+			lineNumber: root.position || root.original_position,
+			side: root.position ? 'RIGHT' : 'LEFT',
+			diffHunk: root.diff_hunk || undefined,
+			messages: threadComments.map(item => ({ author: item.user?.login, body: item.body })),
+		},
+	};
+}
+
+// A reply is another review comment on the same line, which Gitea shows in the same conversation.
+async function postThreadReply(task: ReviewTask, thread: ReviewThread, body: string, env: Env): Promise<boolean> {
+	if (!thread.filePath || !thread.lineNumber) {
+		console.warn(`Cannot post thread reply for task ${task.eventId}: the thread has no line.`);
+		return false;
+	}
+	const url = `${giteaApiBase(task, env)}/repos/${task.repository.fullName}/pulls/${task.pullRequest!.number}/reviews`;
+	const reply = {
+		commit_id: task.pullRequest!.headSha, body: '', event: 'COMMENT',
+		comments: [{
+			path: thread.filePath, body,
+			new_position: thread.side === 'LEFT' ? 0 : thread.lineNumber, old_position: thread.side === 'LEFT' ? thread.lineNumber : 0,
+		}],
+	};
+	return postComment(url, giteaHeaders(env), reply, task, 'thread reply');
+}
+
+// Gitea and Forgejo take GitHub-style reviews, with line numbers given as new_position (or old_position for removed lines).
+async function postReview(task: ReviewTask, comments: LLMComment[], env: Env, summary?: string): Promise<void> {
+	const pullRequest = task.pullRequest!;
+	const inlineComments = comments.filter(c => c.filePath && c.lineNumber);
+	const generalComments = comments.filter(c => !inlineComments.includes(c));
+
+	const reviewRequest = {
+		commit_id: pullRequest.headSha,
+		body: buildReviewBody(summary, generalComments),
+		event: 'COMMENT',
+		comments: inlineComments.map(c => ({
+			path: c.filePath, body: formatFindingBody(c, 'gitea'),
+			new_position: c.side === 'LEFT' ? 0 : c.lineNumber, old_position: c.side === 'LEFT' ? c.lineNumber : 0,
+		})),
+	};
+	const reviewsUrl = `${giteaApiBase(task, env)}/repos/${task.repository.fullName}/pulls/${pullRequest.number}/reviews`;
+
+	try {
+		console.log(`Posting review with ${inlineComments.length} inline comments to ${reviewsUrl} for task ${task.eventId}`);
+		const response = await fetch(reviewsUrl, { method: "POST", headers: giteaHeaders(env), body: JSON.stringify(reviewRequest) });
+		if (!response.ok) {
+			const errorText = await response.text();
+			console.error(`Failed to post review to gitea for ${task.eventId}: ${response.status} ${errorText.substring(0,100)}`);
+			return;
+		}
+		console.log(`Successfully posted review to gitea for ${task.eventId} with ${inlineComments.length} inline comments`);
+	} catch (error: any) {
+		console.error(`Error during VCS post for ${task.eventId}: ${error.message}`);
+	}
+}
+
+// No summary comment or commit status yet; see README.
+export const giteaProvider: VcsProvider = {
+	...giteaWebhookProvider,
+
+	fetchChangedFiles: fetchPullRequestFiles,
+
+	postComments: postReview,
+
+	repoFileRequest(task, path, env) {
+		if (!task.pullRequest) return undefined;
+		const ref = task.pullRequest.headSha || task.repository.defaultBranch;
+		return { url: `${giteaApiBase(task, env)}/repos/${task.repository.fullName}/raw/${path}?ref=${encodeURIComponent(ref)}`, headers: giteaHeaders(env) };
+	},
+
+	fetchBotUsername,
+
+	async postCommandReply(task, body, env) {
+		const url = `${giteaApiBase(task, env)}/repos/${task.repository.fullName}/issues/${task.pullRequest!.number}/comments`;
+		return postComment(url, giteaHeaders(env), { body }, task, 'command reply');
+	},
+
+	fetchThread,
+
+	postThreadReply,
+};
@@ -0,0 +1,367 @@
+import type { Env, LLMComment, ReviewFile, ReviewTask } from './types';
+import type { FetchFilesResult } from './changed-files';
+import type { StatusReport } from './commit-status';
+import type { VcsProvider } from './vcs-providers';
+import type { FindingThread, FindingThreadsResult } from './dedup';
+import type { FetchThreadResult } from './conversation';
+import { githubWebhookProvider } from '../../shared/vcs';
+import { formatFindingBody, formatFindingText, parseFindingMarker } from './findings';
+import { buildReviewBody, fetchPage, postComment, DEFAULT_REVIEW_BODY, MAX_PAGES, PER_PAGE, STATUS_CONTEXT } from './vcs-common';
+
+export const GITHUB_API_BASE = 'https://api.github.com';
+
+// GitHub caps status descriptions and check run titles at 140 characters.
+const MAX_DESCRIPTION = 140;
+const MAX_CHECK_SUMMARY = 65535;
+
+export function githubHeaders(env: Env): Record<string, string> {
+	return {
+		"Authorization": `Bearer ${env.GITHUB_TOKEN}`, "Accept": "application/vnd.github+json",
+		"Content-Type": "application/json", "User-Agent": "Cloudflare-Worker-Code-Reviewer",
+	};
+}
+
+async function fetchPullRequestFiles(task: ReviewTask, env: Env): Promise<FetchFilesResult> {
+	const baseUrl = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/pulls/${task.pullRequest!.number}/files`;
+	const headers = githubHeaders(env);
+	const files: ReviewFile[] = [];
+	for (let page = 1; page <= MAX_PAGES; page++) {
+		const result = await fetchPage(`${baseUrl}?per_page=${PER_PAGE}&page=${page}`, headers, task, 'changed files');
+		if (!result.success) return result;
+		const items: any[] = Array.isArray(result.data) ? result.data : [];
+		files.push(...items.map(toReviewFile));
+		if (items.length < PER_PAGE) break;
+	}
+	console.log(`Fetched ${files.length} changed files from GitHub for task ${task.eventId}.`);
+	return { success: true, files };
+}
+
+async function fetchCompareFiles(task: ReviewTask, baseSha: string, env: Env): Promise<FetchFilesResult> {
+	const url = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/compare/${baseSha}...${task.pullRequest!.headSha}`;
+	const result = await fetchPage(url, githubHeaders(env), task, 'commit comparison');
+	if (!result.success) return result;
+	// After a force-push the earlier commit is no longer an ancestor of the head, so the comparison is not a delta.
+	if (result.data?.status !== 'ahead') {
+		return { success: false, error: `Head ${task.pullRequest!.headSha} is ${result.data?.status} of ${baseSha}.`, isRetryable: false };
+	}
+	const files = (Array.isArray(result.data.files) ? result.data.files : []).map(toReviewFile);
+	console.log(`Fetched ${files.length} files changed since ${baseSha} from GitHub for task ${task.eventId}.`);
+	return { success: true, files };
+}
+
+function toReviewFile(item: any): ReviewFile {
+	return {
+		path: item.filename,
+		status: item.status,
+		previousPath: item.previous_filename,
+		diff: item.patch,
+	};
+}
+
+// Comment events only carry the issue number, so the head commit has to be looked up before reviewing.
+async function fetchPullRequest(task: ReviewTask, env: Env): Promise<FetchFilesResult & { pullRequest?: ReviewTask['pullRequest'] }> {
+	const url = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/pulls/${task.pullRequest!.number}`;
+	const result = await fetchPage(url, githubHeaders(env), task, 'pull request');
+	if (!result.success) return result;
+	const pr = result.data;
+	if (!pr?.head?.sha) {
+		return { success: false, error: `Pull request #${task.pullRequest!.number} has no head commit.`, isRetryable: false };
+	}
+	return { success: true, pullRequest: { id: pr.id, number: pr.number, headSha: pr.head.sha, diffUrl: pr.diff_url, commentsUrl: pr.comments_url } };
+}
+
+// GitHub App installations cannot call GET /user; github-app.ts sets GITHUB_BOT_LOGIN for them.
+async function fetchBotUsername(task: ReviewTask, env: Env): Promise<FetchFilesResult & { username?: string }> {
+	if (env.GITHUB_BOT_LOGIN) return { success: true, username: env.GITHUB_BOT_LOGIN };
+	const user = await fetchPage(`${GITHUB_API_BASE}/user`, githubHeaders(env), task, 'bot user');
+	return user.success ? { success: true, username: user.data?.login } : user;
+}
+
+// Review comments answer the thread's first comment (in_reply_to_id), so the thread is that comment and its replies.
+async function fetchThread(task: ReviewTask, env: Env): Promise<FetchThreadResult> {
+	const headers = githubHeaders(env);
+	const bot = await fetchBotUsername(task, env);
+	if (!bot.success) return bot;
+
+	const rootId = Number(task.reply!.threadId);
+	const threadComments: any[] = [];
+	const listUrl = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/pulls/${task.pullRequest!.number}/comments?per_page=${PER_PAGE}`;
+	for (let page = 1; page <= MAX_PAGES; page++) {
+		const result = await fetchPage(`${listUrl}&page=${page}`, headers, task, 'review thread');
+		if (!result.success) return result;
+		const items: any[] = Array.isArray(result.data) ? result.data : [];
+		threadComments.push(...items.filter(item => item.id === rootId || item.in_reply_to_id === rootId));
+		if (items.length < PER_PAGE) break;
+	}
+	const root = threadComments.find(item => item.id === rootId);
+	if (!root) {
+		return { success: false, error: `Review comment ${rootId} was not found on pull request #${task.pullRequest!.number}.`, isRetryable: false };
+	}
+	return {
+		success: true,
+		thread: {
+			botUsername: bot.username!,
+			filePath: root.path,
+			lineNumber: root.line ?? root.original_line,
+			side: root.side,
+			diffHunk: root.diff_hunk,
+			messages: threadComments.map(item => ({ author: item.user?.login, body: item.body })),
+		},
+	};
+}
+
+// Posts all findings as one pull request review so the author gets a single notification.
+async function postReview(task: ReviewTask, comments: LLMComment[], env: Env, summary?: string): Promise<void> {
+	const pullRequest = task.pullRequest!;
+	const inlineComments = comments.filter(c => c.filePath && (c.lineNumber || c.position));
+	const generalComments = comments.filter(c => !inlineComments.includes(c));
+
+	const reviewRequest = {
+		commit_id: pullRequest.headSha,
+		body: buildReviewBody(summary, generalComments),
+		event: 'COMMENT',
+		comments: inlineComments.map(c => c.lineNumber
+			? { path: c.filePath, line: c.lineNumber, side: c.side ?? 'RIGHT', body: formatFindingBody(c, 'github') }
+			: { path: c.filePath, position: c.position, body: formatFindingBody(c, 'github') }),
+	};
+	const reviewsUrl = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/pulls/${pullRequest.number}/reviews`;
+
+	try {
+		console.log(`Posting review with ${inlineComments.length} inline comments to ${reviewsUrl} for task ${task.eventId}`);
+		const response = await fetch(reviewsUrl, { method: "POST", headers: githubHeaders(env), body: JSON.stringify(reviewRequest) });
+		if (response.ok) {
+			console.log(`Successfully posted review to github for ${task.eventId} with ${inlineComments.length} inline comments`);
+			return;
+		}
+		const errorText = await response.text();
+		if (response.status !== 422) {
+			console.error(`Failed to post review to github for ${task.eventId}: ${response.status} ${errorText.substring(0,100)}`);
+			return;
+		}
+		// 422 means GitHub rejected at least one inline position; fall back to a single conversation comment.
+		console.warn(`GitHub rejected inline review comments for ${task.eventId}: ${errorText.substring(0,100)}. Falling back to a single issue comment.`);
+	} catch (error: any) {
+		console.error(`Error during VCS post for ${task.eventId}: ${error.message}`);
+		return;
+	}
+
+	const fallbackBody = (summary || DEFAULT_REVIEW_BODY) + '\n\n' + comments.map(c => {
+		if (!c.filePath) return `- ${formatFindingText(c)}`;
+		const line = c.lineNumber || c.position;
+		return `- \`${line ? `${c.filePath}:${line}` : c.filePath}\`: ${formatFindingText(c)}`;
+	}).join('\n');
+	const issueCommentsUrl = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/issues/${pullRequest.number}/comments`;
+	try {
+		const response = await fetch(issueCommentsUrl, { method: "POST", headers: githubHeaders(env), body: JSON.stringify({ body: fallbackBody }) });
+		if (!response.ok) {
+			const errorText = await response.text();
+			console.error(`Failed to post fallback comment to github for ${task.eventId}: ${response.status} ${errorText.substring(0,100)}`);
+		} else {
+			console.log(`Successfully posted fallback comment to github for ${task.eventId}`);
+		}
+	} catch (error: any) {
+		console.error(`Error during VCS post for ${task.eventId}: ${error.message}`);
+	}
+}
+
+async function postCommitStatus(task: ReviewTask, report: StatusReport, env: Env): Promise<void> {
+	// Commit statuses have no neutral state; a skipped review must not block merging.
+	const state = report.state === 'neutral' ? 'success' : report.state;
+	const url = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/statuses/${task.pullRequest!.headSha}`;
+	const body = { state, description: report.description.substring(0, MAX_DESCRIPTION), context: STATUS_CONTEXT };
+	try {
+		const response = await fetch(url, { method: "POST", headers: githubHeaders(env), body: JSON.stringify(body) });
+		if (!response.ok) {
+			console.error(`Failed to set commit status "${state}" for task ${task.eventId}: ${response.status} ${(await response.text()).substring(0,100)}`);
+			return;
+		}
+		console.log(`Set commit status "${state}" on github for task ${task.eventId}.`);
+	} catch (error: any) {
+		console.error(`Error setting commit status for task ${task.eventId}: ${error.message}`);
+	}
+}
+
+// A queue retry finds the run its earlier attempt left in progress on the same commit instead of adding another one.
+async function findInProgressCheckRun(task: ReviewTask, env: Env): Promise<number | undefined> {
+	const query = new URLSearchParams({ check_name: STATUS_CONTEXT, status: 'in_progress' });
+	const url = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/commits/${task.pullRequest!.headSha}/check-runs?${query}`;
+	try {
+		const response = await fetch(url, { headers: githubHeaders(env) });
+		if (!response.ok) {
+			console.error(`Failed to list check runs for task ${task.eventId}: ${response.status} ${(await response.text()).substring(0,100)}`);
+			return undefined;
+		}
+		const result: any = await response.json();
+		return result.check_runs?.[0]?.id;
+	} catch (error: any) {
+		console.error(`Error listing check runs for task ${task.eventId}: ${error.message}`);
+		return undefined;
+	}
+}
+
+// Check runs need a GitHub App installation token; personal access tokens get 403 and should use commit statuses.
+async function createCheckRun(task: ReviewTask, env: Env): Promise<number | undefined> {
+	const existingId = await findInProgressCheckRun(task, env);
+	if (existingId !== undefined) {
+		console.log(`Reusing in-progress check run ${existingId} for task ${task.eventId}.`);
+		return existingId;
+	}
+	const url = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/check-runs`;
+	const body = { name: STATUS_CONTEXT, head_sha: task.pullRequest!.headSha, status: 'in_progress', started_at: new Date().toISOString() };
+	try {
+		const response = await fetch(url, { method: "POST", headers: githubHeaders(env), body: JSON.stringify(body) });
+		if (!response.ok) {
+			console.error(`Failed to create check run for task ${task.eventId}: ${response.status} ${(await response.text()).substring(0,100)}`);
+			return undefined;
+		}
+		const checkRun: any = await response.json();
+		console.log(`Created check run ${checkRun.id} for task ${task.eventId}.`);
+		return checkRun.id;
+	} catch (error: any) {
+		console.error(`Error creating check run for task ${task.eventId}: ${error.message}`);
+		return undefined;
+	}
+}
+
+async function completeCheckRun(task: ReviewTask, checkRunId: number, report: StatusReport, env: Env): Promise<void> {
+	const url = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/check-runs/${checkRunId}`;
+	const body = {
+		status: 'completed', conclusion: report.state, completed_at: new Date().toISOString(),
+		output: { title: report.description.substring(0, MAX_DESCRIPTION), summary: (report.summary || report.description).substring(0, MAX_CHECK_SUMMARY) },
+	};
+	try {
+		const response = await fetch(url, { method: "PATCH", headers: githubHeaders(env), body: JSON.stringify(body) });
+		if (!response.ok) {
+			console.error(`Failed to complete check run ${checkRunId} for task ${task.eventId}: ${response.status} ${(await response.text()).substring(0,100)}`);
+			return;
+		}
+		console.log(`Completed check run ${checkRunId} with conclusion "${report.state}" for task ${task.eventId}.`);
+	} catch (error: any) {
+		console.error(`Error completing check run ${checkRunId} for task ${task.eventId}: ${error.message}`);
+	}
+}
+
+const REVIEW_THREADS_QUERY = `query($owner: String!, $name: String!, $number: Int!, $cursor: String) {
+	repository(owner: $owner, name: $name) {
+		pullRequest(number: $number) {
+			reviewThreads(first: 100, after: $cursor) {
+				pageInfo { hasNextPage endCursor }
+				nodes { id isResolved path comments(first: 1) { nodes { body } } }
+			}
+		}
+	}
+}`;
+
+const RESOLVE_THREAD_MUTATION = `mutation($threadId: ID!) {
+	resolveReviewThread(input: { threadId: $threadId }) { thread { isResolved } }
+}`;
+
+// Review threads and their resolution are only exposed through the GraphQL API.
+async function graphql(query: string, variables: Record<string, any>, env: Env): Promise<{ success: boolean; data?: any; error?: string; isRetryable?: boolean }> {
+	try {
+		const response = await fetch(`${GITHUB_API_BASE}/graphql`, { method: "POST", headers: githubHeaders(env), body: JSON.stringify({ query, variables }) });
+		const responseText = await response.text();
+		if (!response.ok) {
+			return { success: false, error: `GitHub GraphQL API error ${response.status}: ${responseText.substring(0,100)}`, isRetryable: response.status >= 500 || response.status === 429 };
+		}
+		const result = JSON.parse(responseText);
+		if (result.errors?.length) return { success: false, error: `GitHub GraphQL API error: ${result.errors[0].message}`, isRetryable: false };
+		return { success: true, data: result.data };
+	} catch (error: any) {
+		return { success: false, error: `Error calling the GitHub GraphQL API: ${error.message}`, isRetryable: true };
+	}
+}
+
+async function listReviewThreads(task: ReviewTask, env: Env): Promise<FindingThreadsResult> {
+	const [owner, name] = task.repository.fullName.split('/');
+	const threads: FindingThread[] = [];
+	let cursor: string | null = null;
+	for (let page = 1; page <= MAX_PAGES; page++) {
+		const result = await graphql(REVIEW_THREADS_QUERY, { owner, name, number: task.pullRequest!.number, cursor }, env);
+		if (!result.success) return result;
+		const connection = result.data?.repository?.pullRequest?.reviewThreads;
+		for (const node of connection?.nodes || []) {
+			const marker = parseFindingMarker(node.comments?.nodes?.[0]?.body);
+			if (marker) threads.push({ id: node.id, ...marker, filePath: node.path, resolved: Boolean(node.isResolved) });
+		}
+		if (!connection?.pageInfo?.hasNextPage) break;
+		cursor = connection.pageInfo.endCursor;
+	}
+	return { success: true, threads };
+}
+
+export const githubProvider: VcsProvider = {
+	...githubWebhookProvider,
+
+	fetchChangedFiles: fetchPullRequestFiles,
+
+	fetchCompareFiles,
+
+	postComments: postReview,
+
+	fetchPullRequest,
+
+	repoFileRequest(task, path, env) {
+		if (!task.pullRequest) return undefined;
+		const ref = task.pullRequest.headSha || task.repository.defaultBranch;
+		return {
+			url: `${GITHUB_API_BASE}/repos/${task.repository.fullName}/contents/${path}?ref=${encodeURIComponent(ref)}`,
+			headers: { ...githubHeaders(env), "Accept": "application/vnd.github.raw+json" },
+		};
+	},
+
+	fetchBotUsername,
+
+	async postCommandReply(task, body, env) {
+		const url = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/issues/${task.pullRequest!.number}/comments`;
+		return postComment(url, githubHeaders(env), { body }, task, 'command reply');
+	},
+
+	fetchThread,
+
+	async postThreadReply(task, _thread, body, env) {
+		const url = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/pulls/${task.pullRequest!.number}/comments/${task.reply!.threadId}/replies`;
+		return postComment(url, githubHeaders(env), { body }, task, 'thread reply');
+	},
+
+	summaryCommentApi(task, env) {
+		if (!task.pullRequest) return undefined;
+		const createUrl = `${GITHUB_API_BASE}/repos/${task.repository.fullName}/issues/${task.pullRequest.number}/comments`;
+		return {
+			createUrl,
+			listUrl: `${createUrl}?per_page=100`,
+			updateUrl: id => `${GITHUB_API_BASE}/repos/${task.repository.fullName}/issues/comments/${id}`,
+			updateMethod: "PATCH",
+			headers: githubHeaders(env),
+			authorOf: item => item.user?.login,
+		};
+	},
+
+	listFindingThreads: listReviewThreads,
+
+	async resolveFindingThread(task, thread, env) {
+		const result = await graphql(RESOLVE_THREAD_MUTATION, { threadId: thread.id }, env);
+		if (!result.success) {
+			console.error(`Failed to resolve review thread ${thread.id} for task ${task.eventId}: ${result.error}`);
+			return false;
+		}
+		console.log(`Resolved review thread ${thread.id} on github for task ${task.eventId}.`);
+		return true;
+	},
+
+	// With GITHUB_STATUS_MODE=check_run the pending report creates a check run and the final report completes it.
+	// If the check run could not be created, the final report falls back to a commit status.
+	async setStatus(task, report, env, handle) {
+		if (!task.pullRequest) return;
+		if (env.GITHUB_STATUS_MODE === 'check_run' && report.state === 'pending') {
+			const checkRunId = await createCheckRun(task, env);
+			if (checkRunId !== undefined) handle.checkRunId = checkRunId;
+			return;
+		}
+		if (handle.checkRunId !== undefined) {
+			await completeCheckRun(task, handle.checkRunId, report, env);
+			return;
+		}
+		await postCommitStatus(task, report, env);
+	},
+};
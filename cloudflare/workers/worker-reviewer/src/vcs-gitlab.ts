@@ -0,0 +1,246 @@
+import type { Env, GitlabDiffRefs, LLMComment, ReviewFile, ReviewTask } from './types';
+import type { FetchFilesResult } from './changed-files';
+import type { VcsProvider } from './vcs-providers';
+import type { FindingThread, FindingThreadsResult } from './dedup';
+import type { FetchThreadResult, ReviewThread } from './conversation';
+import { gitlabApiBase, gitlabWebhookProvider } from '../../shared/vcs';
+import { formatFindingBody, formatFindingText, parseFindingMarker } from './findings';
+import { positionedFiles } from './incremental';
+import { fetchPage, postComment, postEachComment, MAX_PAGES, PER_PAGE, STATUS_CONTEXT } from './vcs-common';
+
+// GitLab caps status descriptions at 140 characters.
+const MAX_DESCRIPTION = 140;
+
+export function gitlabHeaders(env: Env): Record<string, string> {
+	return { "Authorization": `Bearer ${env.GITLAB_TOKEN}`, "Content-Type": "application/json", "User-Agent": "Cloudflare-Worker-Code-Reviewer" };
+}
+
+async function fetchMergeRequestFiles(task: ReviewTask, env: Env): Promise<FetchFilesResult> {
+	const mrUrl = mergeRequestUrl(task, env);
+	const headers = gitlabHeaders(env);
+	const files: ReviewFile[] = [];
+	for (let page = 1; page <= MAX_PAGES; page++) {
+		const result = await fetchPage(`${mrUrl}/diffs?per_page=${PER_PAGE}&page=${page}`, headers, task, 'changed files');
+		if (!result.success) {
+			// The paginated /diffs endpoint only exists on GitLab 15.7+; older self-hosted instances need /changes.
+			if (result.status === 404 && page === 1) return fetchMergeRequestChanges(mrUrl, headers, task);
+			return result;
+		}
+		const items: any[] = Array.isArray(result.data) ? result.data : [];
+		files.push(...items.map(toReviewFile));
+		if (items.length < PER_PAGE) break;
+	}
+	console.log(`Fetched ${files.length} changed files from GitLab for task ${task.eventId}.`);
+	return { success: true, files };
+}
+
+async function fetchMergeRequestChanges(mrUrl: string, headers: Record<string, string>, task: ReviewTask): Promise<FetchFilesResult> {
+	const result = await fetchPage(`${mrUrl}/changes`, headers, task, 'changed files');
+	if (!result.success) return result;
+	const files = (Array.isArray(result.data?.changes) ? result.data.changes : []).map(toReviewFile);
+	console.log(`Fetched ${files.length} changed files from GitLab (changes API) for task ${task.eventId}.`);
+	return { success: true, files };
+}
+
+// Without `straight`, GitLab diffs the head against its merge base with the earlier commit, so after a force-push the
+// delta grows to everything since the common ancestor instead of including reverted changes.
+async function fetchCompareFiles(task: ReviewTask, baseSha: string, env: Env): Promise<FetchFilesResult> {
+	const mergeRequest = task.mergeRequest!;
+	const url = `${gitlabApiBase(env)}/projects/${mergeRequest.projectId}/repository/compare?from=${encodeURIComponent(baseSha)}&to=${encodeURIComponent(mergeRequest.headSha)}`;
+	const result = await fetchPage(url, gitlabHeaders(env), task, 'commit comparison');
+	if (!result.success) return result;
+	const files = (Array.isArray(result.data?.diffs) ? result.data.diffs : []).map(toReviewFile);
+	console.log(`Fetched ${files.length} files changed since ${baseSha} from GitLab for task ${task.eventId}.`);
+	return { success: true, files };
+}
+
+function toReviewFile(item: any): ReviewFile {
+	let status = 'modified';
+	if (item.new_file) status = 'added';
+	else if (item.deleted_file) status = 'removed';
+	else if (item.renamed_file) status = 'renamed';
+	return {
+		path: item.new_path || item.old_path,
+		status,
+		previousPath: item.renamed_file ? item.old_path : undefined,
+		diff: item.diff,
+	};
+}
+
+function mergeRequestUrl(task: ReviewTask, env: Env): string {
+	return `${gitlabApiBase(env)}/projects/${task.mergeRequest!.projectId}/merge_requests/${task.mergeRequest!.iid}`;
+}
+
+async function fetchDiffRefs(task: ReviewTask, env: Env): Promise<FetchFilesResult & { diffRefs?: GitlabDiffRefs }> {
+	const result = await fetchPage(mergeRequestUrl(task, env), gitlabHeaders(env), task, 'merge request diff refs');
+	if (!result.success) return result;
+	const refs = result.data?.diff_refs;
+	if (!refs?.base_sha || !refs?.start_sha || !refs?.head_sha) {
+		return { success: false, error: `Merge request !${task.mergeRequest!.iid} has no diff_refs.`, isRetryable: false };
+	}
+	return { success: true, diffRefs: { baseSha: refs.base_sha, startSha: refs.start_sha, headSha: refs.head_sha } };
+}
+
+async function fetchBotUsername(task: ReviewTask, env: Env): Promise<FetchFilesResult & { username?: string }> {
+	const user = await fetchPage(`${gitlabApiBase(env)}/user`, gitlabHeaders(env), task, 'bot user');
+	return user.success ? { success: true, username: user.data?.username } : user;
+}
+
+// The thread is the discussion task.reply was posted in; its diff hunk is left to fetchThread in conversation.ts.
+async function fetchThread(task: ReviewTask, env: Env): Promise<FetchThreadResult> {
+	const bot = await fetchBotUsername(task, env);
+	if (!bot.success) return bot;
+
+	const discussion = await fetchPage(`${discussionsUrl(task, env)}/${task.reply!.threadId}`, gitlabHeaders(env), task, 'review thread');
+	if (!discussion.success) return discussion;
+	const notes: any[] = (discussion.data?.notes || []).filter((note: any) => !note.system);
+	const position = notes[0]?.position;
+	const thread: ReviewThread = {
+		botUsername: bot.username!,
+		filePath: position?.new_path || position?.old_path,
+		lineNumber: position?.new_line ?? position?.old_line,
+		side: position && !position.new_line ? 'LEFT' : 'RIGHT',
+		messages: notes.map(note => ({ author: note.author?.username, body: note.body })),
+	};
+	return { success: true, thread };
+}
+
+const isLineComment = (c: LLMComment) => Boolean(c.filePath && (c.lineNumber || c.position));
+
+// Findings with a line start a diff discussion positioned on that line (the notes endpoint ignores `position`);
+// the others are plain merge request notes.
+function buildNote(task: ReviewTask, c: LLMComment): any {
+	const mergeRequest = task.mergeRequest!;
+	const body: any = { body: isLineComment(c) ? formatFindingBody(c, 'gitlab') : formatFindingText(c) };
+	if (isLineComment(c)) {
+		const refs = mergeRequest.diffRefs;
+		const file = positionedFiles(task).find(f => f.path === c.filePath);
+		body.position = {
+			position_type: "text", base_sha: refs?.baseSha || mergeRequest.headSha,
+			start_sha: refs?.startSha || mergeRequest.headSha, head_sha: refs?.headSha || mergeRequest.headSha,
+			old_path: file?.previousPath || c.filePath, new_path: c.filePath,
+		};
+		// GitLab wants old_line for removed lines, new_line for added lines and both for unchanged context.
+		if (c.side === 'LEFT') {
+			body.position.old_line = c.lineNumber;
+		} else {
+			body.position.new_line = c.lineNumber || c.position;
+			if (c.oldLineNumber) body.position.old_line = c.oldLineNumber;
+		}
+	}
+	return body;
+}
+
+function discussionsUrl(task: ReviewTask, env: Env): string {
+	return `${mergeRequestUrl(task, env)}/discussions`;
+}
+
+async function listDiscussions(task: ReviewTask, env: Env): Promise<FindingThreadsResult> {
+	const threads: FindingThread[] = [];
+	try {
+		for (let page = 1; page <= MAX_PAGES; page++) {
+			const response = await fetch(`${discussionsUrl(task, env)}?per_page=${PER_PAGE}&page=${page}`, { method: "GET", headers: gitlabHeaders(env) });
+			const responseText = await response.text();
+			if (!response.ok) {
+				return { success: false, error: `Discussions API error ${response.status}: ${responseText.substring(0,100)}`, isRetryable: response.status >= 500 || response.status === 429 };
+			}
+			const items: any[] = JSON.parse(responseText);
+			// Findings with a line were posted as diff discussions, which are resolvable; general findings are plain
+			// notes and are neither listed nor resolved.
+			for (const discussion of items) {
+				const note = discussion.notes?.[0];
+				const marker = parseFindingMarker(note?.body);
+				if (marker && note.resolvable) {
+					threads.push({ id: discussion.id, ...marker, filePath: note.position?.new_path || note.position?.old_path, resolved: Boolean(note.resolved) });
+				}
+			}
+			if (items.length < PER_PAGE) break;
+		}
+	} catch (error: any) {
+		return { success: false, error: `Error listing discussions: ${error.message}`, isRetryable: true };
+	}
+	return { success: true, threads };
+}
+
+export const gitlabProvider: VcsProvider = {
+	...gitlabWebhookProvider,
+
+	fetchChangedFiles: fetchMergeRequestFiles,
+
+	fetchCompareFiles,
+
+	async postComments(task, comments, env) {
+		const notesUrl = task.mergeRequest!.notesUrl;
+		await postEachComment(task, comments, c => isLineComment(c) ? discussionsUrl(task, env) : notesUrl, gitlabHeaders(env), c => buildNote(task, c));
+	},
+
+	fetchDiffRefs,
+
+	repoFileRequest(task, path, env) {
+		if (!task.mergeRequest) return undefined;
+		const ref = task.mergeRequest.headSha || task.repository.defaultBranch;
+		return {
+			url: `${gitlabApiBase(env)}/projects/${task.mergeRequest.projectId}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`,
+			headers: gitlabHeaders(env),
+		};
+	},
+
+	fetchBotUsername,
+
+	async postCommandReply(task, body, env) {
+		return postComment(task.mergeRequest!.notesUrl, gitlabHeaders(env), { body }, task, 'command reply');
+	},
+
+	fetchThread,
+
+	async postThreadReply(task, _thread, body, env) {
+		return postComment(`${discussionsUrl(task, env)}/${task.reply!.threadId}/notes`, gitlabHeaders(env), { body }, task, 'thread reply');
+	},
+
+	summaryCommentApi(task, env) {
+		if (!task.mergeRequest) return undefined;
+		const notesUrl = task.mergeRequest.notesUrl;
+		return {
+			createUrl: notesUrl,
+			listUrl: `${notesUrl}?per_page=100&sort=asc`,
+			updateUrl: id => `${notesUrl}/${id}`,
+			updateMethod: "PUT",
+			headers: gitlabHeaders(env),
+			authorOf: item => item.author?.username,
+		};
+	},
+
+	listFindingThreads: listDiscussions,
+
+	async resolveFindingThread(task, thread, env) {
+		try {
+			const response = await fetch(`${discussionsUrl(task, env)}/${thread.id}?resolved=true`, { method: "PUT", headers: gitlabHeaders(env) });
+			if (!response.ok) {
+				console.error(`Failed to resolve discussion ${thread.id} for task ${task.eventId}: ${response.status} ${(await response.text()).substring(0,100)}`);
+				return false;
+			}
+			console.log(`Resolved discussion ${thread.id} on gitlab for task ${task.eventId}.`);
+			return true;
+		} catch (error: any) {
+			console.error(`Error resolving discussion ${thread.id} for task ${task.eventId}: ${error.message}`);
+			return false;
+		}
+	},
+
+	async setStatus(task, report, env) {
+		if (!task.mergeRequest) return;
+		const state = { pending: 'running', success: 'success', neutral: 'skipped', failure: 'failed' }[report.state];
+		const url = `${gitlabApiBase(env)}/projects/${task.mergeRequest.projectId}/statuses/${task.mergeRequest.headSha}`;
+		const body = { state, description: report.description.substring(0, MAX_DESCRIPTION), name: STATUS_CONTEXT };
+		try {
+			const response = await fetch(url, { method: "POST", headers: gitlabHeaders(env), body: JSON.stringify(body) });
+			if (!response.ok) {
+				console.error(`Failed to set commit status "${state}" for task ${task.eventId}: ${response.status} ${(await response.text()).substring(0,100)}`);
+				return;
+			}
+			console.log(`Set commit status "${state}" on gitlab for task ${task.eventId}.`);
+		} catch (error: any) {
+			console.error(`Error setting commit status for task ${task.eventId}: ${error.message}`);
+		}
+	},
+};
@@ -0,0 +1,62 @@
+import type { Env, GitlabDiffRefs, LLMComment, ReviewTask, VcsSource } from './types';
+import type { FetchFilesResult } from './changed-files';
+import type { FetchThreadResult, ReviewThread } from './conversation';
+import type { SummaryCommentApi } from './summary-comment';
+import type { CommitStatusHandle, StatusReport } from './commit-status';
+import type { FindingThread, FindingThreadsResult } from './dedup';
+import type { VcsWebhookProvider } from '../../shared/vcs';
+import { VCS_SOURCES } from '../../shared/vcs';
+import { githubProvider } from './vcs-github';
+import { gitlabProvider } from './vcs-gitlab';
+import { bitbucketProvider } from './vcs-bitbucket';
+import { giteaProvider } from './vcs-gitea';
+
+// A code host: the webhook half shared with worker-webhook (verify, identify, normalise) plus what the reviewer
+// does against the host's API. Adding a host means adding one provider here and one in shared/vcs.ts.
+export interface VcsProvider extends VcsWebhookProvider {
+	// Pull request details the webhook did not carry, e.g. the head commit of a GitHub issue comment.
+	fetchPullRequest?(task: ReviewTask, env: Env): Promise<FetchFilesResult & { pullRequest?: ReviewTask['pullRequest'] }>;
+	// Base, start and head commits of a GitLab merge request, which inline comment positions refer to.
+	fetchDiffRefs?(task: ReviewTask, env: Env): Promise<FetchFilesResult & { diffRefs?: GitlabDiffRefs }>;
+	// Request for the raw text of a file at the task's head commit (or default branch); the host answers 404 when it does not exist.
+	repoFileRequest?(task: ReviewTask, path: string, env: Env): RepoFileRequest | undefined;
+	// Changed files of the task's pull or merge request, each with its unified diff.
+	fetchChangedFiles(task: ReviewTask, env: Env): Promise<FetchFilesResult>;
+	// Files changed between an earlier commit of the pull or merge request and its head, for incremental reviews.
+	fetchCompareFiles?(task: ReviewTask, baseSha: string, env: Env): Promise<FetchFilesResult>;
+	// Posts findings to the pull or merge request. Failures are logged, never thrown.
+	postComments(task: ReviewTask, comments: LLMComment[], env: Env, summary?: string): Promise<void>;
+	// Account the task's token belongs to; comments by it are the bot's own.
+	fetchBotUsername?(task: ReviewTask, env: Env): Promise<FetchFilesResult & { username?: string }>;
+	// Posts a conversation comment on the pull or merge request, e.g. the answer to a slash command.
+	// Failures are logged and reported as false.
+	postCommandReply?(task: ReviewTask, body: string, env: Env): Promise<boolean>;
+	// The inline thread task.reply was posted in, with the bot's username so its own comments can be recognised.
+	fetchThread?(task: ReviewTask, env: Env): Promise<FetchThreadResult>;
+	// Posts an answer into that thread. Failures are logged and reported as false.
+	postThreadReply?(task: ReviewTask, thread: ReviewThread, body: string, env: Env): Promise<boolean>;
+	// Endpoints of the sticky summary comment; undefined when the host or task has none.
+	summaryCommentApi?(task: ReviewTask, env: Env): SummaryCommentApi | undefined;
+	// Threads the bot started with a finding, recognised by the marker in their first comment.
+	listFindingThreads?(task: ReviewTask, env: Env): Promise<FindingThreadsResult>;
+	// Resolves one of those threads. Failures are logged and reported as false.
+	resolveFindingThread?(task: ReviewTask, thread: FindingThread, env: Env): Promise<boolean>;
+	// Reports the review state on the head commit. Failures are logged, never thrown.
+	setStatus?(task: ReviewTask, report: StatusReport, env: Env, handle: CommitStatusHandle): Promise<void>;
+}
+
+export interface RepoFileRequest {
+	url: string;
+	headers: Record<string, string>;
+}
+
+const VCS_PROVIDERS: Record<VcsSource, VcsProvider> = {
+	github: githubProvider,
+	gitlab: gitlabProvider,
+	bitbucket: bitbucketProvider,
+	gitea: giteaProvider,
+};
+
+export function getVcsProvider(source: string): VcsProvider | undefined {
+	return VCS_SOURCES.includes(source as VcsSource) ? VCS_PROVIDERS[source as VcsSource] : undefined;
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach, type Mock, beforeAll } from 'vitest';
 import type { ExecutionContext, KVNamespace, Queue } from '@cloudflare/workers-types';
-import worker, { Env as WebhookEnv } from '../index'; 
+import worker, { Env as WebhookEnv, parseReviewCommand } from '../index'; 
 import { webcrypto } from 'node:crypto'; 
 
 // Polyfill crypto for Node.js environment if not already available via Vitest config
@@ -18,6 +18,8 @@ const getMiniflareBindings = (): WebhookEnv => ({
   } as any, // Using 'as any' to simplify mock typing for Queue
   GITHUB_WEBHOOK_SECRET: 'test-github-secret',
   GITLAB_WEBHOOK_SECRET: 'test-gitlab-secret',
+  BITBUCKET_WEBHOOK_SECRET: 'test-bitbucket-secret',
+  GITEA_WEBHOOK_SECRET: 'test-gitea-secret',
 });
 
 // Helper to create a mock Request object
@@ -99,7 +101,7 @@ describe('worker-webhook', () => {
       const response = await worker.fetch(request, env, mockExecutionContext);
       expect(response.status).toBe(400);
       const json = await response.json();
-      expect(json).toEqual({ error: 'Invalid source. Must be "github" or "gitlab".' });
+      expect(json).toEqual({ error: 'Invalid source. Must be "github", "gitlab", "bitbucket" or "gitea".' });
     });
     
     it('should return 400 if source is missing', async () => {
@@ -107,7 +109,7 @@ describe('worker-webhook', () => {
         const response = await worker.fetch(request, env, mockExecutionContext);
         expect(response.status).toBe(400);
         const json = await response.json();
-        expect(json).toEqual({ error: 'Invalid source. Must be "github" or "gitlab".' });
+        expect(json).toEqual({ error: 'Invalid source. Must be "github", "gitlab", "bitbucket" or "gitea".' });
       });
 
     it('should return 400 if content-type is not application/json', async () => {
@@ -193,8 +195,9 @@ describe('worker-webhook', () => {
     });
 
     it('GitHub: should proceed if signature is valid', async () => {
-      const validSignature = await generateGithubSignature(env.GITHUB_WEBHOOK_SECRET!, rawBody);
-      const request = createMockRequest('POST', '/webhook/github', mockPayload, { 
+      const prPayload = { action: 'opened', pull_request: { number: 1 } };
+      const validSignature = await generateGithubSignature(env.GITHUB_WEBHOOK_SECRET!, JSON.stringify(prPayload));
+      const request = createMockRequest('POST', '/webhook/github', prPayload, { 
         'content-type': 'application/json',
         'X-Hub-Signature-256': validSignature,
         'X-GitHub-Delivery': 'test-delivery-id' 
@@ -247,8 +250,46 @@ describe('worker-webhook', () => {
       expect(console.error).toHaveBeenCalledWith('GITLAB_WEBHOOK_SECRET is not set. Cannot verify GitLab token.');
     });
 
+    it('GitLab: should verify the token against the most specific tenant registered for the project', async () => {
+      const tenants: Record<string, any> = {
+        'gitlab.example.com': { webhookSecret: 'host-secret' },
+        'gitlab.example.com/platform': { webhookSecret: 'platform-secret' },
+      };
+      env.GITLAB_TENANTS_KV = { get: vi.fn(async (key: string) => tenants[key] ?? null) } as any;
+      (env.PROCESSED_EVENTS_KV.get as Mock).mockResolvedValue(null);
+      const payloadFor = (path: string) => ({
+        object_kind: 'merge_request', object_attributes: { iid: 1, action: 'open' },
+        project: { web_url: `https://gitlab.example.com/${path}`, path_with_namespace: path },
+      });
+      const send = (path: string, token: string) => worker.fetch(createMockRequest('POST', '/webhook/gitlab', payloadFor(path), {
+        'content-type': 'application/json', 'X-Gitlab-Token': token, 'X-Gitlab-Event-UUID': `uuid-${path}-${token}`,
+      }), env, mockExecutionContext);
+
+      expect((await send('platform/api/service', 'platform-secret')).status).toBe(200);
+      expect((await send('platform/api/service', 'host-secret')).status).toBe(401);
+      expect((await send('other/service', 'host-secret')).status).toBe(200);
+      expect((await send('other/service', env.GITLAB_WEBHOOK_SECRET!)).status).toBe(401);
+      expect(env.GITLAB_TENANTS_KV!.get).toHaveBeenCalledWith('gitlab.example.com/platform/api', 'json');
+    });
+
+    it('GitLab: should fall back to GITLAB_WEBHOOK_SECRET for projects without a tenant', async () => {
+      env.GITLAB_TENANTS_KV = { get: vi.fn().mockResolvedValue(null) } as any;
+      (env.PROCESSED_EVENTS_KV.get as Mock).mockResolvedValue(null);
+      const request = createMockRequest('POST', '/webhook/gitlab', {
+        object_kind: 'merge_request', object_attributes: { iid: 1, action: 'open' },
+        project: { web_url: 'https://gitlab.com/group/project', path_with_namespace: 'group/project' },
+      }, { 'content-type': 'application/json', 'X-Gitlab-Token': env.GITLAB_WEBHOOK_SECRET!, 'X-Gitlab-Event-UUID': 'uuid-fallback' });
+
+      const response = await worker.fetch(request, env, mockExecutionContext);
+
+      expect(response.status).toBe(200);
+      expect(env.GITLAB_TENANTS_KV!.get).toHaveBeenCalledWith('gitlab.com/group', 'json');
+      expect(env.GITLAB_TENANTS_KV!.get).toHaveBeenCalledWith('gitlab.com', 'json');
+    });
+
     it('GitLab: should proceed if token is valid', async () => {
-      const request = createMockRequest('POST', '/webhook/gitlab', mockPayload, { 
+      const mrPayload = { object_kind: 'merge_request', object_attributes: { iid: 1, action: 'open' } };
+      const request = createMockRequest('POST', '/webhook/gitlab', mrPayload, { 
         'content-type': 'application/json',
         'X-Gitlab-Token': env.GITLAB_WEBHOOK_SECRET!,
         'X-Gitlab-Event-UUID': 'test-gitlab-uuid' 
@@ -263,6 +304,78 @@ describe('worker-webhook', () => {
     });
   });
   
+  describe('Bitbucket and Gitea', () => {
+    const bitbucketPayload = {
+      repository: { uuid: '{repo-uuid}', full_name: 'workspace/repo' },
+      pullrequest: { id: 7, state: 'OPEN', draft: false, source: { commit: { hash: 'abc123def456' } } },
+    };
+    const giteaPayload = {
+      action: 'synchronized',
+      repository: { id: 3, full_name: 'org/repo', html_url: 'https://gitea.example.com/org/repo' },
+      pull_request: { id: 11, number: 4, state: 'open', head: { sha: 'feedbeef' } },
+    };
+
+    const sendBitbucket = async (payload: any, headers: Record<string, string> = {}) => {
+      const signature = await generateGithubSignature(env.BITBUCKET_WEBHOOK_SECRET!, JSON.stringify(payload));
+      return worker.fetch(createMockRequest('POST', '/webhook/bitbucket', payload, {
+        'content-type': 'application/json', 'X-Hub-Signature': signature, 'X-Event-Key': 'pullrequest:updated', ...headers,
+      }), env, mockExecutionContext);
+    };
+    const sendGitea = async (payload: any, headers: Record<string, string> = {}) => {
+      const signature = (await generateGithubSignature(env.GITEA_WEBHOOK_SECRET!, JSON.stringify(payload))).replace('sha256=', '');
+      return worker.fetch(createMockRequest('POST', '/webhook/gitea', payload, {
+        'content-type': 'application/json', 'X-Gitea-Signature': signature, 'X-Gitea-Event': 'pull_request', ...headers,
+      }), env, mockExecutionContext);
+    };
+
+    beforeEach(() => {
+      (env.PROCESSED_EVENTS_KV.get as Mock).mockResolvedValue(null);
+    });
+
+    it('should verify Bitbucket signatures and key events on the pull request head commit', async () => {
+      const response = await sendBitbucket(bitbucketPayload);
+
+      expect(response.status).toBe(200);
+      expect(((await response.json()) as any).eventId).toBe('bb_pr_{repo-uuid}_7_abc123def456');
+      expect(env.REVIEW_TASKS_QUEUE.send).toHaveBeenCalledWith({ source: 'bitbucket', eventId: 'bb_pr_{repo-uuid}_7_abc123def456', originalPayload: bitbucketPayload });
+      expect((await sendBitbucket(bitbucketPayload, { 'X-Hub-Signature': 'sha256=deadbeef' })).status).toBe(401);
+    });
+
+    it('should verify Gitea and Forgejo signatures', async () => {
+      const response = await sendGitea(giteaPayload);
+
+      expect(response.status).toBe(200);
+      expect(((await response.json()) as any).eventId).toBe('gitea_pr_11_synchronized_feedbeef');
+      expect((await sendGitea(giteaPayload, { 'X-Gitea-Signature': 'deadbeef' })).status).toBe(401);
+
+      const forgejoSignature = (await generateGithubSignature(env.GITEA_WEBHOOK_SECRET!, JSON.stringify(giteaPayload))).replace('sha256=', '');
+      const forgejo = await worker.fetch(createMockRequest('POST', '/webhook/gitea', giteaPayload, {
+        'content-type': 'application/json', 'X-Forgejo-Signature': forgejoSignature, 'X-Forgejo-Event': 'pull_request',
+      }), env, mockExecutionContext);
+      expect(forgejo.status).not.toBe(401);
+    });
+
+    it.each([
+      [{ 'X-Event-Key': 'repo:push' }, bitbucketPayload, 'Bitbucket event "repo:push" is not reviewable.'],
+      [{}, { ...bitbucketPayload, pullrequest: { ...bitbucketPayload.pullrequest, state: 'MERGED' } }, 'Pull request is merged.'],
+      [{}, { ...bitbucketPayload, pullrequest: { ...bitbucketPayload.pullrequest, draft: true } }, 'Pull request is a draft.'],
+    ])('should ignore Bitbucket event %j %#', async (headers, payload, reason) => {
+      const response = await sendBitbucket(payload, headers);
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ message: 'Event ignored.', reason });
+    });
+
+    it.each([
+      [{ 'X-Gitea-Event': 'push' }, giteaPayload, 'Gitea event "push" is not reviewable.'],
+      [{}, { ...giteaPayload, action: 'edited' }, 'Gitea pull_request action "edited" is not reviewable.'],
+      [{}, { ...giteaPayload, pull_request: { ...giteaPayload.pull_request, state: 'closed' } }, 'Pull request is closed.'],
+    ])('should ignore Gitea event %j %#', async (headers, payload, reason) => {
+      const response = await sendGitea(payload, headers);
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ message: 'Event ignored.', reason });
+    });
+  });
+
   describe('Event Deduplication and Queueing', () => {
     const mockGithubPayload = { 
         action: 'opened', 
@@ -275,7 +388,7 @@ describe('worker-webhook', () => {
     const mockGitlabPayload = { 
         object_kind: 'merge_request', 
         project: { id: 789, path_with_namespace: 'gitlab/test' }, 
-        object_attributes: { iid: 42, last_commit: { id: 'glsha123' } } 
+        object_attributes: { iid: 42, action: 'open', last_commit: { id: 'glsha123' } } 
     };
     const validGitlabToken = 'test-gitlab-secret'; // Matches env binding
 
@@ -392,7 +505,7 @@ describe('worker-webhook', () => {
     it('should use X-GitHub-Delivery for event ID if other payload fields are missing and enqueue', async () => {
         const githubDeliveryId = 'definitive-github-delivery-id';
         const eventId = `gh_delivery_${githubDeliveryId}`;
-        const minimalPayload = { repository: { full_name: 'test/repo' } }; 
+        const minimalPayload = { action: 'opened', pull_request: { number: 1 }, repository: { full_name: 'test/repo' } }; 
         const rawMinimalBody = JSON.stringify(minimalPayload);
         const signatureForMinimal = await generateGithubSignature(env.GITHUB_WEBHOOK_SECRET!, rawMinimalBody);
 
@@ -413,7 +526,7 @@ describe('worker-webhook', () => {
     });
 
     it('should generate fallback gh_unknown_uuid if no specific ID parts and no delivery ID, then enqueue', async () => {
-      const veryMinimalPayload = {}; 
+      const veryMinimalPayload = { action: 'opened', pull_request: {} }; 
       const rawVeryMinimalBody = JSON.stringify(veryMinimalPayload);
       const signatureForVeryMinimal = await generateGithubSignature(env.GITHUB_WEBHOOK_SECRET!, rawVeryMinimalBody);
       (env.PROCESSED_EVENTS_KV.get as Mock).mockResolvedValue(null);
@@ -431,5 +544,281 @@ describe('worker-webhook', () => {
       expect(env.REVIEW_TASKS_QUEUE.send).toHaveBeenCalled();
       expect(console.warn).toHaveBeenCalledWith('Could not determine a stable event ID for GitHub payload:', rawVeryMinimalBody);
     });
+
+    describe('latest head commit', () => {
+      const pushPayload = {
+        action: 'synchronize',
+        pull_request: { node_id: 'pr_node_id_7', number: 7, head: { sha: 'newsha' } },
+        repository: { id: 1, full_name: 'test/repo' },
+      };
+
+      it('should record the pushed commit as the latest head before marking the event processed', async () => {
+        (env.PROCESSED_EVENTS_KV.get as Mock).mockResolvedValue(null);
+        const rawBody = JSON.stringify(pushPayload);
+        const request = createMockRequest('POST', '/webhook/github', rawBody, {
+          'content-type': 'application/json',
+          'X-Hub-Signature-256': await generateGithubSignature(env.GITHUB_WEBHOOK_SECRET!, rawBody),
+        });
+
+        const response = await worker.fetch(request, env, mockExecutionContext);
+        expect(response.status).toBe(200);
+        const puts = (env.PROCESSED_EVENTS_KV.put as Mock).mock.calls;
+        expect(puts[0]).toEqual(['latest-head:github:test/repo:7', 'newsha', { expirationTtl: 7 * 24 * 3600 }]);
+        expect(puts[1][0]).toBe('gh_pr_pr_node_id_7_synchronize_newsha');
+      });
+
+      it('should record the GitLab merge request head under its iid', async () => {
+        (env.PROCESSED_EVENTS_KV.get as Mock).mockResolvedValue(null);
+        const request = createMockRequest('POST', '/webhook/gitlab', mockGitlabPayload, {
+          'content-type': 'application/json',
+          'X-Gitlab-Token': validGitlabToken,
+        });
+
+        const response = await worker.fetch(request, env, mockExecutionContext);
+        expect(response.status).toBe(200);
+        expect(env.PROCESSED_EVENTS_KV.put).toHaveBeenCalledWith('latest-head:gitlab:gitlab/test:42', 'glsha123', expect.any(Object));
+      });
+
+      it('should not move the latest head back on a redelivered event', async () => {
+        (env.PROCESSED_EVENTS_KV.get as Mock).mockResolvedValue(JSON.stringify({ timestamp: Date.now(), status: "received" }));
+        const rawBody = JSON.stringify(pushPayload);
+        const request = createMockRequest('POST', '/webhook/github', rawBody, {
+          'content-type': 'application/json',
+          'X-Hub-Signature-256': await generateGithubSignature(env.GITHUB_WEBHOOK_SECRET!, rawBody),
+        });
+
+        const response = await worker.fetch(request, env, mockExecutionContext);
+        expect(response.status).toBe(202);
+        expect(env.PROCESSED_EVENTS_KV.put).not.toHaveBeenCalled();
+      });
+
+      it('should fail without marking the event processed when the latest head cannot be stored', async () => {
+        (env.PROCESSED_EVENTS_KV.get as Mock).mockResolvedValue(null);
+        (env.PROCESSED_EVENTS_KV.put as Mock).mockRejectedValueOnce(new Error('KV unavailable'));
+        const rawBody = JSON.stringify(pushPayload);
+        const request = createMockRequest('POST', '/webhook/github', rawBody, {
+          'content-type': 'application/json',
+          'X-Hub-Signature-256': await generateGithubSignature(env.GITHUB_WEBHOOK_SECRET!, rawBody),
+        });
+
+        const response = await worker.fetch(request, env, mockExecutionContext);
+        expect(response.status).toBe(500);
+        expect(env.PROCESSED_EVENTS_KV.put).toHaveBeenCalledTimes(1);
+        expect(env.REVIEW_TASKS_QUEUE.send).not.toHaveBeenCalled();
+      });
+    });
   });
-});
\ No newline at end of file
+
+  describe('Event Filtering', () => {
+    const sendGithubEvent = async (event: string, payload: any) => {
+      const signature = await generateGithubSignature(env.GITHUB_WEBHOOK_SECRET!, JSON.stringify(payload));
+      const request = createMockRequest('POST', '/webhook/github', payload, {
+        'content-type': 'application/json',
+        'X-Hub-Signature-256': signature,
+        'X-GitHub-Event': event,
+        'X-GitHub-Delivery': 'filter-delivery-id',
+      });
+      return worker.fetch(request, env, mockExecutionContext);
+    };
+
+    const sendGitlabEvent = async (event: string, payload: any) => {
+      const request = createMockRequest('POST', '/webhook/gitlab', payload, {
+        'content-type': 'application/json',
+        'X-Gitlab-Token': env.GITLAB_WEBHOOK_SECRET!,
+        'X-Gitlab-Event': event,
+        'X-Gitlab-Event-UUID': 'filter-gitlab-uuid',
+      });
+      return worker.fetch(request, env, mockExecutionContext);
+    };
+
+    beforeEach(() => {
+      (env.PROCESSED_EVENTS_KV.get as Mock).mockResolvedValue(null);
+    });
+
+    it.each(['opened', 'synchronize', 'reopened', 'ready_for_review'])('GitHub: should enqueue pull_request "%s" events', async (action) => {
+      const response = await sendGithubEvent('pull_request', { action, pull_request: { node_id: 'pr_node', state: 'open', draft: false, head: { sha: 'sha1' } } });
+      expect(response.status).toBe(200);
+      expect(env.REVIEW_TASKS_QUEUE.send).toHaveBeenCalled();
+    });
+
+    it.each([
+      ['push', { ref: 'refs/heads/main', after: 'abc' }, 'GitHub event "push" is not reviewable.'],
+      ['issue_comment', { action: 'created', comment: { body: 'hi' } }, 'GitHub event "issue_comment" is not reviewable.'],
+      ['pull_request', { action: 'closed', pull_request: { state: 'closed' } }, 'GitHub pull_request action "closed" is not reviewable.'],
+      ['pull_request', { action: 'labeled', pull_request: { state: 'open' } }, 'GitHub pull_request action "labeled" is not reviewable.'],
+      ['pull_request', { action: 'opened', pull_request: { state: 'open', draft: true } }, 'Pull request is a draft.'],
+      ['pull_request', { action: 'synchronize', pull_request: { state: 'closed' } }, 'Pull request is closed.'],
+    ])('GitHub: should ignore "%s" event %j with 202', async (event, payload, reason) => {
+      const response = await sendGithubEvent(event, payload);
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ message: 'Event ignored.', reason });
+      expect(env.PROCESSED_EVENTS_KV.put).not.toHaveBeenCalled();
+      expect(env.REVIEW_TASKS_QUEUE.send).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [{ action: 'open' }, {}],
+      [{ action: 'reopen' }, {}],
+      [{ action: 'update', oldrev: 'previous-sha' }, {}],
+      [{ action: 'update' }, { draft: { previous: true, current: false } }],
+    ])('GitLab: should enqueue merge_request event %j', async (attributes, changes) => {
+      const response = await sendGitlabEvent('Merge Request Hook', {
+        object_kind: 'merge_request',
+        object_attributes: { iid: 1, state: 'opened', ...attributes },
+        changes,
+      });
+      expect(response.status).toBe(200);
+      expect(env.REVIEW_TASKS_QUEUE.send).toHaveBeenCalled();
+    });
+
+    it.each([
+      ['Push Hook', { object_kind: 'push' }, 'GitLab event "Push Hook" is not reviewable.'],
+      ['Note Hook', { object_kind: 'note' }, 'GitLab event "Note Hook" is not reviewable.'],
+      ['Merge Request Hook', { object_kind: 'merge_request', object_attributes: { action: 'merge', state: 'merged' } }, 'GitLab merge_request action "merge" is not reviewable.'],
+      ['Merge Request Hook', { object_kind: 'merge_request', object_attributes: { action: 'update', state: 'closed', oldrev: 'x' } }, 'Merge request is closed.'],
+      ['Merge Request Hook', { object_kind: 'merge_request', object_attributes: { action: 'open', draft: true } }, 'Merge request is a draft.'],
+      ['Merge Request Hook', { object_kind: 'merge_request', object_attributes: { action: 'update' }, changes: { title: {} } }, 'Merge request update did not add new commits.'],
+    ])('GitLab: should ignore "%s" event %j with 202', async (event, payload, reason) => {
+      const response = await sendGitlabEvent(event, payload);
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ message: 'Event ignored.', reason });
+      expect(env.PROCESSED_EVENTS_KV.put).not.toHaveBeenCalled();
+      expect(env.REVIEW_TASKS_QUEUE.send).not.toHaveBeenCalled();
+    });
+
+    const githubComment = (body: string, overrides: any = {}) => ({
+      action: 'created',
+      issue: { number: 7, state: 'open', pull_request: { url: 'https://api.github.com/repos/o/r/pulls/7' } },
+      comment: { id: 99, body, author_association: 'MEMBER', user: { login: 'alice', type: 'User' } },
+      repository: { full_name: 'o/r' },
+      ...overrides,
+    });
+
+    const gitlabNote = (note: string, username = 'alice') => ({
+      object_kind: 'note',
+      user: { username },
+      object_attributes: { id: 55, note, noteable_type: 'MergeRequest' },
+      merge_request: { iid: 3, state: 'opened' },
+    });
+
+    it('GitHub: should enqueue "/review detailed" from a pull request comment with the review type', async () => {
+      const payload = githubComment('Could you take another look?\n/review detailed');
+      const response = await sendGithubEvent('issue_comment', payload);
+      expect(response.status).toBe(200);
+      expect(env.REVIEW_TASKS_QUEUE.send).toHaveBeenCalledWith({
+        source: 'github',
+        eventId: 'gh_delivery_filter-delivery-id',
+        originalPayload: payload,
+        command: { type: 'review', reviewType: 'detailed' },
+        reviewType: 'detailed',
+      });
+    });
+
+    it('GitHub: should record the head of an ignored draft push so a later "/review" is not superseded by an older commit', async () => {
+      const draftPush = {
+        action: 'synchronize',
+        pull_request: { node_id: 'pr_node', number: 7, state: 'open', draft: true, head: { sha: 'draft-sha' } },
+        repository: { id: 1, full_name: 'o/r' },
+      };
+      const ignored = await sendGithubEvent('pull_request', draftPush);
+      expect(ignored.status).toBe(202);
+      expect(env.PROCESSED_EVENTS_KV.put).toHaveBeenCalledWith('latest-head:github:o/r:7', 'draft-sha', { expirationTtl: 7 * 24 * 3600 });
+      expect(env.REVIEW_TASKS_QUEUE.send).not.toHaveBeenCalled();
+
+      const command = await sendGithubEvent('issue_comment', githubComment('/review'));
+      expect(command.status).toBe(200);
+      expect(env.REVIEW_TASKS_QUEUE.send).toHaveBeenCalledWith(expect.objectContaining({ command: { type: 'review' } }));
+      // The command does not move the head; worker-reviewer compares the pull request's head with draft-sha.
+      const heads = (env.PROCESSED_EVENTS_KV.put as Mock).mock.calls.filter(([key]) => key.startsWith('latest-head:'));
+      expect(heads).toEqual([['latest-head:github:o/r:7', 'draft-sha', { expirationTtl: 7 * 24 * 3600 }]]);
+    });
+
+    it('GitLab: should enqueue "/ai explain" from an allowed user with the file and question', async () => {
+      env.REVIEW_COMMAND_USERS = 'bob, Alice';
+      const payload = gitlabNote('/ai explain src/app.ts:42 why is this lock needed?');
+      const response = await sendGitlabEvent('Note Hook', payload);
+      expect(response.status).toBe(200);
+      expect(env.REVIEW_TASKS_QUEUE.send).toHaveBeenCalledWith({
+        source: 'gitlab',
+        eventId: 'gl_delivery_filter-gitlab-uuid',
+        originalPayload: payload,
+        command: { type: 'explain', filePath: 'src/app.ts', lineNumber: 42, question: 'why is this lock needed?' },
+      });
+    });
+
+    it.each([
+      ['issue_comment', githubComment('/review', { comment: { id: 1, body: '/review', author_association: 'NONE', user: { login: 'mallory', type: 'User' } } }), 'User "mallory" is not allowed to run review commands.'],
+      ['issue_comment', githubComment('/review', { comment: { id: 1, body: '/review', author_association: 'NONE', user: { login: 'ci[bot]', type: 'Bot' } } }), 'Comments from bots do not run commands.'],
+      ['issue_comment', githubComment('/review', { action: 'edited' }), 'GitHub issue_comment action "edited" does not run commands.'],
+      ['issue_comment', githubComment('/review', { issue: { number: 7, state: 'open' } }), 'Comment is not on a pull request.'],
+    ])('GitHub: should ignore command comment "%s" %j with 202', async (event, payload, reason) => {
+      const response = await sendGithubEvent(event, payload);
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ message: 'Event ignored.', reason });
+      expect(env.REVIEW_TASKS_QUEUE.send).not.toHaveBeenCalled();
+    });
+
+    it('GitHub: should enqueue replies in review comment threads with the thread id', async () => {
+      const payload = {
+        action: 'created',
+        pull_request: { node_id: 'pr_node', number: 7, state: 'open', head: { sha: 'sha1' } },
+        comment: { id: 301, node_id: 'rc_301', in_reply_to_id: 300, body: 'Why is that a problem?', author_association: 'COLLABORATOR', user: { login: 'alice', type: 'User' } },
+      };
+      const response = await sendGithubEvent('pull_request_review_comment', payload);
+      expect(response.status).toBe(200);
+      expect(env.PROCESSED_EVENTS_KV.put).toHaveBeenCalledWith('gh_review_comment_rc_301', expect.any(String), expect.any(Object));
+      expect(env.REVIEW_TASKS_QUEUE.send).toHaveBeenCalledWith({
+        source: 'github',
+        eventId: 'gh_review_comment_rc_301',
+        originalPayload: payload,
+        reply: { commentId: 301, threadId: 300 },
+      });
+    });
+
+    it('GitHub: should ignore review comments that start a new thread', async () => {
+      const response = await sendGithubEvent('pull_request_review_comment', {
+        action: 'created',
+        pull_request: { node_id: 'pr_node', state: 'open' },
+        comment: { id: 302, node_id: 'rc_302', body: 'Nit', author_association: 'OWNER', user: { login: 'alice', type: 'User' } },
+      });
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ message: 'Event ignored.', reason: 'GitHub event "pull_request_review_comment" is not reviewable.' });
+    });
+
+    it('GitLab: should enqueue discussion replies from allowed users with the discussion id', async () => {
+      env.REVIEW_COMMAND_USERS = 'alice';
+      const payload = gitlabNote('Could you elaborate?');
+      payload.object_attributes = { ...payload.object_attributes, type: 'DiffNote', discussion_id: 'abc123' } as any;
+      const response = await sendGitlabEvent('Note Hook', payload);
+      expect(response.status).toBe(200);
+      expect(env.REVIEW_TASKS_QUEUE.send).toHaveBeenCalledWith({
+        source: 'gitlab',
+        eventId: 'gl_delivery_filter-gitlab-uuid',
+        originalPayload: payload,
+        reply: { commentId: 55, threadId: 'abc123' },
+      });
+    });
+
+    it('GitLab: should ignore commands when no allowlist is configured', async () => {
+      const response = await sendGitlabEvent('Note Hook', gitlabNote('/review'));
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ message: 'Event ignored.', reason: 'User "alice" is not allowed to run review commands.' });
+      expect(env.REVIEW_TASKS_QUEUE.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parseReviewCommand', () => {
+    it.each([
+      ['/review', { type: 'review' }],
+      ['/REVIEW General', { type: 'review', reviewType: 'general' }],
+      ['  /review detailed  ', { type: 'review', reviewType: 'detailed' }],
+      ['/ai explain what does this PR change?', { type: 'explain', question: 'what does this PR change?' }],
+      ['/ai explain lib/db.py why a transaction here?', { type: 'explain', filePath: 'lib/db.py', question: 'why a transaction here?' }],
+      ['please /review', null],
+      ['/review everything', null],
+      ['/reviewer', null],
+    ])('should parse %j', (text, expected) => {
+      expect(parseReviewCommand(text)).toEqual(expected);
+    });
+  });
+});
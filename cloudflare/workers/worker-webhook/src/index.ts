@@ -1,10 +1,30 @@
+import { getWebhookProvider, headShaOf, latestHeadKey, parseReviewCommand, reviewResultKey, tokenMatches, LATEST_HEAD_TTL_SECONDS, type VcsWebhookProvider } from '../../shared/vcs';
+import { fetchPullRequestPayload, parseManualReviewRequest } from './manual-review';
+
 export interface Env {
-	PROCESSED_EVENTS_KV: KVNamespace;
+	PROCESSED_EVENTS_KV: KVNamespace; // 事件去重，并记录每个 PR/MR 的最新 head 提交（可与 worker-reviewer 共用以跳过过时的审查）
 	REVIEW_TASKS_QUEUE: Queue;
 	GITHUB_WEBHOOK_SECRET?: string; 
 	GITLAB_WEBHOOK_SECRET?: string; 
+	BITBUCKET_WEBHOOK_SECRET?: string;
+	GITEA_WEBHOOK_SECRET?: string; // 同时用于 Forgejo
+	GITLAB_TENANTS_KV?: KVNamespace; // 多 GitLab 实例注册表，与 worker-reviewer 共用；webhookSecret 按实例或命名空间覆盖 GITLAB_WEBHOOK_SECRET
+	REVIEW_COMMAND_USERS?: string; // 逗号分隔的用户名列表，允许通过评论命令或评论回复触发审查
+	REVIEW_TRIGGER_TOKEN?: string; // 手动触发审查接口 POST /reviews 的 Bearer 令牌；未配置时该接口关闭
+	// 手动触发审查时用于读取 PR/MR 信息的凭据，与 worker-reviewer 的同名配置一致
+	GITHUB_TOKEN?: string;
+	GITHUB_APP_ID?: string; // 配置 GitHub App 时以安装令牌读取 PR，而不是 GITHUB_TOKEN
+	GITHUB_APP_PRIVATE_KEY?: string;
+	GITLAB_TOKEN?: string;
+	GITLAB_BASE_URL?: string;
+	BITBUCKET_TOKEN?: string;
+	GITEA_TOKEN?: string;
+	GITEA_BASE_URL?: string; // 同时用于 Forgejo
 }
 
+export type { ReviewCommand, ThreadReply } from '../../shared/vcs';
+export { parseReviewCommand };
+
 const jsonResponse = (data: any, status: number = 200) => {
     return new Response(JSON.stringify(data), {
         status,
@@ -23,9 +43,10 @@ export default {
         
         if (pathname.startsWith('/webhook/')) {
 			const source = pathname.split('/')[2];
+			const provider = getWebhookProvider(source);
 
-			if (!source || (source !== 'github' && source !== 'gitlab')) {
-				return jsonResponse({ error: 'Invalid source. Must be "github" or "gitlab".' }, 400);
+			if (!provider) {
+				return jsonResponse({ error: 'Invalid source. Must be "github", "gitlab", "bitbucket" or "gitea".' }, 400);
 			}
 
 			if (request.headers.get('content-type') !== 'application/json') {
@@ -44,13 +65,24 @@ export default {
 
 			try {
 				console.log(`Received webhook from ${source}. Validating signature...`);
-				const isValidSignature = await verifySignature(request, env, source, rawBody);
+				const isValidSignature = await provider.verifySignature(request.headers, rawBody, payload, env);
 				if (!isValidSignature) {
 				 return jsonResponse({ error: 'Invalid signature.' }, 401);
 				}
 				console.log(`Signature for ${source} webhook is valid.`);
 
-				const eventId = generateEventId(source, payload, request.headers); // Pass request.headers
+				const command = provider.getCommentCommand?.(payload, request.headers) ?? null;
+				const reply = command ? null : provider.getThreadReply?.(payload, request.headers) ?? null;
+				const skipReason = command || reply ? provider.getCommentSkipReason!(payload, env) : provider.getSkipReason(payload, request.headers);
+				if (skipReason) {
+					// Draft pushes are not reviewed, but a later command reviews their head; worker-reviewer must not see
+					// an older recorded head and treat that review as superseded.
+					if (!command && !reply) await recordLatestHead(provider, payload, env);
+					console.log(`Ignoring ${source} webhook: ${skipReason}`);
+					return jsonResponse({ message: 'Event ignored.', reason: skipReason }, 202);
+				}
+
+				const eventId = generateEventId(provider, payload, request.headers);
 				if (!eventId) {
 					console.error(`Could not generate event ID for ${source} payload:`, payload);
 					return jsonResponse({ error: 'Could not determine event ID for deduplication.' }, 400);
@@ -61,15 +93,22 @@ export default {
 				 console.log(`Event ${eventId} already processed.`);
 				 return jsonResponse({ message: 'Event already processed.', eventId }, 202);
 				}
+
+				if (!command && !reply) await recordLatestHead(provider, payload, env);
 				
 				await env.PROCESSED_EVENTS_KV.put(eventId, JSON.stringify({ timestamp: Date.now(), status: "received" }), { expirationTtl: 3600 });
 				console.log(`Event ${eventId} recorded in PROCESSED_EVENTS_KV.`);
 				
-				const taskPayload = {
+				const taskPayload: Record<string, any> = {
 				 source,
 				 eventId, 
 				 originalPayload: payload,
 				};
+				if (command) {
+					taskPayload.command = command;
+					if (command.type === 'review' && command.reviewType) taskPayload.reviewType = command.reviewType;
+				}
+				if (reply) taskPayload.reply = reply;
 				await env.REVIEW_TASKS_QUEUE.send(taskPayload);
 				console.log(`Task enqueued for event ${eventId} to REVIEW_TASKS_QUEUE.`);
 
@@ -81,93 +120,100 @@ export default {
 			}
 		}
 
+		if (pathname === '/reviews') {
+			return handleManualReview(request, env);
+		}
+
 		return jsonResponse({ error: 'Not found.' }, 404);
 	},
 };
 
-async function verifySignature(request: Request, env: Env, source: string, rawBody: string): Promise<boolean> {
-	if (source === 'github') {
-		const signatureHeader = request.headers.get('X-Hub-Signature-256');
-		if (!signatureHeader) {
-			console.warn('GitHub webhook missing X-Hub-Signature-256 header.');
-			return false;
-		}
-		if (!env.GITHUB_WEBHOOK_SECRET) {
-			console.error('GITHUB_WEBHOOK_SECRET is not set. Cannot verify GitHub signature.');
-			return false; 
-		}
-		const [algorithm, signatureHex] = signatureHeader.split('=');
-		if (algorithm !== 'sha256') {
-			console.warn(`Unsupported GitHub signature algorithm: ${algorithm}`);
-			return false;
-		}
+/**
+ * POST /reviews {source, repo, number, reviewType?, installationId?} queues a review of any open pull/merge request,
+ * e.g. to backfill reviews or re-run one after a prompt change. Disabled (404) unless REVIEW_TRIGGER_TOKEN is set;
+ * callers send it as a Bearer token and poll worker-reviewer's results API with the returned resultKey.
+ */
+async function handleManualReview(request: Request, env: Env): Promise<Response> {
+	if (!env.REVIEW_TRIGGER_TOKEN) {
+		return jsonResponse({ error: 'Not found.' }, 404);
+	}
+	const auth = /^Bearer\s+(.+)$/i.exec(request.headers.get('Authorization') || '');
+	if (!auth || !(await tokenMatches(auth[1].trim(), env.REVIEW_TRIGGER_TOKEN))) {
+		return jsonResponse({ error: 'Unauthorized.' }, 401);
+	}
 
-		const encoder = new TextEncoder();
-		const key = await crypto.subtle.importKey(
-			'raw',
-			encoder.encode(env.GITHUB_WEBHOOK_SECRET),
-			{ name: 'HMAC', hash: 'SHA-256' },
-			false,
-			['sign']
-		);
-		const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(rawBody));
-		
-        const hashArray = Array.from(new Uint8Array(mac));
-        const computedSignatureHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-
-		return computedSignatureHex === signatureHex;
-
-	} else if (source === 'gitlab') {
-		const tokenHeader = request.headers.get('X-Gitlab-Token');
-		if (!tokenHeader) {
-			console.warn('GitLab webhook missing X-Gitlab-Token header.');
-			return false;
-		}
-		if (!env.GITLAB_WEBHOOK_SECRET) {
-			console.error('GITLAB_WEBHOOK_SECRET is not set. Cannot verify GitLab token.');
-			return false; 
-		}
-		return tokenHeader === env.GITLAB_WEBHOOK_SECRET;
+	let body: any;
+	try {
+		body = await request.json();
+	} catch (e) {
+		const parseErrorMessage = e instanceof Error ? e.message : 'Unknown parsing error.';
+		return jsonResponse({ error: 'Invalid JSON payload. ' + parseErrorMessage }, 400);
+	}
+	const { request: manual, error } = parseManualReviewRequest(body);
+	if (!manual) {
+		return jsonResponse({ error }, 400);
 	}
-	return false; 
-}
 
-function generateEventId(source: string, payload: any, headers: Headers): string | null { // Added headers parameter
 	try {
-		if (source === 'github') {
-			if (payload.pull_request && payload.pull_request.node_id && payload.action) {
-				return `gh_pr_${payload.pull_request.node_id}_${payload.action}_${payload.pull_request.head?.sha || payload.after || 'unknown_sha'}`;
-			}
-			if (payload.ref && payload.after && payload.repository && payload.repository.node_id) {
-				return `gh_push_${payload.repository.node_id}_${payload.ref}_${payload.after}`;
-			}
-			if (payload.comment && payload.comment.node_id && payload.issue && payload.issue.node_id) {
-				return `gh_comment_${payload.comment.node_id}_on_issue_${payload.issue.node_id}`;
-			}
-			const deliveryId = headers.get('X-GitHub-Delivery'); // Use headers parameter
-			if (deliveryId) return `gh_delivery_${deliveryId}`;
-			console.warn('Could not determine a stable event ID for GitHub payload:', JSON.stringify(payload).substring(0,200));
-			return `gh_unknown_${crypto.randomUUID()}`; 
+		const fetched = await fetchPullRequestPayload(manual, env);
+		if (!fetched.success) {
+			return jsonResponse({ error: fetched.error }, fetched.status || 502);
+		}
 
-		} else if (source === 'gitlab') {
-			const deliveryId = headers.get('X-Gitlab-Event-UUID'); // Use headers parameter
-            if (deliveryId) return `gl_delivery_${deliveryId}`;
+		const provider = getWebhookProvider(manual.source)!;
+		const target = provider.normalise(fetched.payload, env);
+		const eventId = `manual_${manual.source}_${crypto.randomUUID()}`;
+		// A manual review is of the current head, so it also supersedes reviews queued for older commits.
+		await recordLatestHead(provider, fetched.payload, env);
+
+		const taskPayload: Record<string, any> = {
+			source: manual.source,
+			eventId,
+			originalPayload: fetched.payload,
+			// Sent as a review command so worker-reviewer reviews the whole request rather than only commits since its last review.
+			command: { type: 'review', ...(manual.reviewType ? { reviewType: manual.reviewType } : {}) },
+		};
+		if (manual.reviewType) taskPayload.reviewType = manual.reviewType;
+		await env.REVIEW_TASKS_QUEUE.send(taskPayload);
+		console.log(`Manual review task ${eventId} enqueued for ${manual.source} ${manual.repo}#${manual.number}.`);
+
+		return jsonResponse({
+			message: 'Review enqueued.',
+			eventId,
+			headSha: headShaOf(target),
+			resultKey: reviewResultKey(manual.source, target.repository.fullName, manual.number, eventId),
+		}, 202);
+	} catch (error) {
+		console.error('Error enqueuing manual review:', error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error.';
+		return jsonResponse({ error: `Error enqueuing manual review: ${errorMessage}` }, 500);
+	}
+}
 
-			if (payload.object_kind === 'merge_request' && payload.project && payload.project.id && payload.object_attributes && payload.object_attributes.iid && payload.object_attributes.last_commit && payload.object_attributes.last_commit.id) {
-				return `gl_mr_${payload.project.id}_${payload.object_attributes.iid}_${payload.object_attributes.last_commit.id}`;
-			}
-			if (payload.object_kind === 'push' && payload.project_id && payload.ref && payload.after) {
-				return `gl_push_${payload.project_id}_${payload.ref}_${payload.after}`;
-			}
-			if (payload.object_kind === 'note' && payload.project && payload.project.id && payload.object_attributes && payload.object_attributes.id) {
-				return `gl_note_${payload.project.id}_${payload.object_attributes.id}`;
-			}
-			console.warn('Could not determine a stable event ID for GitLab payload:', JSON.stringify(payload).substring(0,200));
-			return `gl_unknown_${crypto.randomUUID()}`; 
-		}
+function generateEventId(provider: VcsWebhookProvider, payload: any, headers: Headers): string | null {
+	try {
+		return provider.generateEventId(payload, headers);
 	} catch (e) {
 		console.error("Error generating event ID:", e, "Payload:", JSON.stringify(payload).substring(0,200));
 		return `error_event_id_${crypto.randomUUID()}`;
 	}
-	return null; 
-}
\ No newline at end of file
+}
+
+// Runs for every pull/merge request event that carries a head commit, ignored ones included. For reviewed events it
+// runs before the event is marked as processed, so a failed write makes the host redeliver the webhook instead of
+// leaving an older commit recorded as the latest, which would make worker-reviewer drop this push.
+async function recordLatestHead(provider: VcsWebhookProvider, payload: any, env: Env): Promise<void> {
+	let key: string | null;
+	let headSha: string | undefined;
+	try {
+		const target = provider.normalise(payload, {});
+		key = latestHeadKey(target);
+		headSha = headShaOf(target);
+	} catch (e) {
+		console.warn("Could not read the head commit from the payload:", e);
+		return;
+	}
+	if (!key || !headSha) return;
+	await env.PROCESSED_EVENTS_KV.put(key, headSha, { expirationTtl: LATEST_HEAD_TTL_SECONDS });
+	console.log(`Recorded ${headSha} as the latest head commit for ${key}.`);
+}
@@ -0,0 +1,224 @@
+import { gitlabApiBase, gitlabTenantKeys, VCS_SOURCES, type VcsSource } from '../../shared/vcs';
+import { createAppJwt } from '../../shared/github-app';
+
+// Host credentials used to read pull/merge requests; worker-webhook's Env provides them.
+export interface ManualReviewSettings {
+	GITHUB_TOKEN?: string;
+	GITHUB_APP_ID?: string;
+	GITHUB_APP_PRIVATE_KEY?: string;
+	GITLAB_TOKEN?: string;
+	GITLAB_BASE_URL?: string;
+	GITLAB_TENANTS_KV?: KVNamespace;
+	BITBUCKET_TOKEN?: string;
+	GITEA_TOKEN?: string;
+	GITEA_BASE_URL?: string;
+}
+
+export interface ManualReviewRequest {
+	source: VcsSource;
+	// "owner/name" on GitHub, Bitbucket and Gitea; the project path (with subgroups) on GitLab.
+	repo: string;
+	number: number;
+	reviewType?: 'detailed' | 'general';
+	// GitHub App installation to review as; with the app configured it defaults to the repository's installation.
+	installationId?: number;
+	// GitLab instance of the project, e.g. one registered in GITLAB_TENANTS_KV; defaults to GITLAB_BASE_URL.
+	instanceUrl?: string;
+}
+
+export interface ManualReviewPayloadResult {
+	success: boolean;
+	// Payload shaped like the host's pull/merge request webhook, so worker-reviewer handles it unchanged.
+	payload?: any;
+	error?: string;
+	// HTTP status to answer the caller with when success is false.
+	status?: number;
+}
+
+const REVIEW_TYPES = ['detailed', 'general'];
+const GITHUB_API_BASE = 'https://api.github.com';
+
+export function parseManualReviewRequest(body: any): { request?: ManualReviewRequest; error?: string } {
+	if (!body || typeof body !== 'object' || Array.isArray(body)) {
+		return { error: 'Request body must be a JSON object.' };
+	}
+	const { source, repo, number, reviewType, installationId, instanceUrl } = body;
+	if (!VCS_SOURCES.includes(source)) {
+		return { error: `"source" must be one of: ${VCS_SOURCES.join(', ')}.` };
+	}
+	// Review result keys are split on ':', so repository names must not contain one.
+	if (typeof repo !== 'string' || !/^[^\s:/]+(\/[^\s:/]+)+$/.test(repo)) {
+		return { error: '"repo" must be a repository path such as "owner/name".' };
+	}
+	const prNumber = typeof number === 'string' && /^\d+$/.test(number) ? Number(number) : number;
+	if (!Number.isInteger(prNumber) || prNumber < 1) {
+		return { error: '"number" must be a positive integer.' };
+	}
+	if (reviewType !== undefined && !REVIEW_TYPES.includes(reviewType)) {
+		return { error: `"reviewType" must be one of: ${REVIEW_TYPES.join(', ')}.` };
+	}
+	if (installationId !== undefined && (source !== 'github' || !Number.isInteger(installationId) || installationId < 1)) {
+		return { error: '"installationId" must be a positive integer and is only supported for GitHub.' };
+	}
+	if (instanceUrl !== undefined && (source !== 'gitlab' || !isHttpUrl(instanceUrl))) {
+		return { error: '"instanceUrl" must be an http(s) URL and is only supported for GitLab.' };
+	}
+	return { request: { source, repo, number: prNumber, reviewType, installationId, instanceUrl: instanceUrl?.replace(/\/+$/, '') } };
+}
+
+function isHttpUrl(value: unknown): value is string {
+	if (typeof value !== 'string') return false;
+	try {
+		return ['http:', 'https:'].includes(new URL(value).protocol);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Fetches the pull/merge request from its host and builds the payload its webhook would have sent. Closed or merged
+ * requests are refused (409) since worker-reviewer would post comments on a request nobody is looking at.
+ */
+export async function fetchPullRequestPayload(request: ManualReviewRequest, settings: ManualReviewSettings): Promise<ManualReviewPayloadResult> {
+	try {
+		switch (request.source) {
+			case 'github': return await fetchGithubPayload(request, settings);
+			case 'gitlab': return await fetchGitlabPayload(request, settings);
+			case 'bitbucket': return await fetchBitbucketPayload(request, settings);
+			case 'gitea': return await fetchGiteaPayload(request, settings);
+		}
+	} catch (error: any) {
+		console.error(`Error fetching ${request.source} ${request.repo}#${request.number}:`, error.message);
+		return { success: false, error: `Error fetching the pull request from ${request.source}: ${error.message}`, status: 502 };
+	}
+}
+
+async function fetchJson(url: string, headers: Record<string, string>, what: string, method: string = 'GET'): Promise<{ data?: any; failure?: ManualReviewPayloadResult }> {
+	const response = await fetch(url, { method, headers: { ...headers, 'User-Agent': 'Cloudflare-Worker-Code-Reviewer' } });
+	if (response.ok) return { data: await response.json() };
+	const errorBody = await response.text();
+	console.error(`Fetching ${what} failed: ${response.status} ${errorBody.substring(0, 200)}`);
+	// 404 also covers repositories the token cannot see.
+	return {
+		failure: response.status === 404
+			? { success: false, error: `${what} not found.`, status: 404 }
+			: { success: false, error: `Fetching ${what} failed: ${response.status}`, status: 502 },
+	};
+}
+
+const missingConfig = (name: string): ManualReviewPayloadResult =>
+	({ success: false, error: `${name} is not configured on worker-webhook.`, status: 503 });
+
+const notOpen = (what: string, state: string): ManualReviewPayloadResult =>
+	({ success: false, error: `${what} is ${state}; only open requests can be reviewed.`, status: 409 });
+
+async function fetchGithubPayload({ repo, number, installationId }: ManualReviewRequest, settings: ManualReviewSettings): Promise<ManualReviewPayloadResult> {
+	const auth = await githubAuth(repo, installationId, settings);
+	if (auth.failure) return auth.failure;
+	const what = `GitHub pull request ${repo}#${number}`;
+	const { data: pr, failure } = await fetchJson(`${GITHUB_API_BASE}/repos/${repo}/pulls/${number}`, {
+		'Authorization': `Bearer ${auth.token}`,
+		'Accept': 'application/vnd.github+json',
+	}, what);
+	if (failure) return failure;
+	if (pr.state !== 'open') return notOpen(what, pr.merged ? 'merged' : pr.state);
+	const payload: Record<string, any> = { action: 'manual', repository: pr.base?.repo, pull_request: pr };
+	if (auth.installationId) payload.installation = { id: auth.installationId };
+	return { success: true, payload };
+}
+
+// With the GitHub App configured the pull request is read as the installation worker-reviewer will review it as: the
+// requested one, or the one installed on the repository. Otherwise GITHUB_TOKEN is used, as in worker-reviewer.
+async function githubAuth(repo: string, installationId: number | undefined, settings: ManualReviewSettings): Promise<{ token?: string; installationId?: number; failure?: ManualReviewPayloadResult }> {
+	if (!settings.GITHUB_APP_ID || !settings.GITHUB_APP_PRIVATE_KEY) {
+		return settings.GITHUB_TOKEN ? { token: settings.GITHUB_TOKEN, installationId } : { failure: missingConfig('GITHUB_TOKEN') };
+	}
+	let jwt: string;
+	try {
+		jwt = await createAppJwt(settings.GITHUB_APP_ID, settings.GITHUB_APP_PRIVATE_KEY);
+	} catch (error: any) {
+		console.error(`Failed to sign GitHub App JWT: ${error.message}`);
+		return { failure: { success: false, error: `Invalid GITHUB_APP_PRIVATE_KEY: ${error.message}`, status: 503 } };
+	}
+	const headers = { 'Authorization': `Bearer ${jwt}`, 'Accept': 'application/vnd.github+json' };
+
+	let id = installationId;
+	if (!id) {
+		const installation = await fetchJson(`${GITHUB_API_BASE}/repos/${repo}/installation`, headers, `GitHub App installation on ${repo}`);
+		if (installation.failure) return { failure: installation.failure };
+		id = installation.data.id as number;
+	}
+	const created = await fetchJson(`${GITHUB_API_BASE}/app/installations/${id}/access_tokens`, headers, `GitHub App installation ${id}`, 'POST');
+	if (created.failure) return { failure: created.failure };
+	return { token: created.data.token, installationId: id };
+}
+
+// The project's instance is instanceUrl, else GITLAB_BASE_URL. Its GITLAB_TENANTS_KV entry, if any, supplies the token
+// and API URL, as in worker-reviewer; GITLAB_TOKEN is only sent to the GITLAB_BASE_URL instance.
+async function fetchGitlabPayload({ repo, number, instanceUrl: requestedUrl }: ManualReviewRequest, settings: ManualReviewSettings): Promise<ManualReviewPayloadResult> {
+	const defaultUrl = (settings.GITLAB_BASE_URL || 'https://gitlab.com').replace(/\/+$/, '');
+	const instanceUrl = requestedUrl || defaultUrl;
+	const isDefaultInstance = new URL(instanceUrl).host === new URL(defaultUrl).host;
+	let token = isDefaultInstance ? settings.GITLAB_TOKEN : undefined;
+	let baseUrl = instanceUrl;
+	if (settings.GITLAB_TENANTS_KV) {
+		for (const key of gitlabTenantKeys(`${instanceUrl}/${repo}`, repo)) {
+			const tenant = await settings.GITLAB_TENANTS_KV.get(key, 'json') as { baseUrl?: string; token?: string } | null;
+			if (tenant) {
+				token = tenant.token;
+				baseUrl = tenant.baseUrl || instanceUrl;
+				break;
+			}
+		}
+	}
+	if (!token) {
+		return isDefaultInstance
+			? missingConfig('GITLAB_TOKEN')
+			: { success: false, error: `No GitLab tenant is registered for ${new URL(instanceUrl).host} in GITLAB_TENANTS_KV.`, status: 400 };
+	}
+
+	const apiBase = gitlabApiBase({ GITLAB_BASE_URL: baseUrl });
+	const headers = { 'Authorization': `Bearer ${token}` };
+	const project = await fetchJson(`${apiBase}/projects/${encodeURIComponent(repo)}`, headers, `GitLab project ${repo}`);
+	if (project.failure) return project.failure;
+	const what = `GitLab merge request ${repo}!${number}`;
+	const { data: mr, failure } = await fetchJson(`${apiBase}/projects/${project.data.id}/merge_requests/${number}`, headers, what);
+	if (failure) return failure;
+	if (mr.state !== 'opened') return notOpen(what, mr.state);
+	return {
+		success: true,
+		payload: {
+			object_kind: 'merge_request',
+			project: {
+				id: project.data.id, path_with_namespace: project.data.path_with_namespace,
+				web_url: project.data.web_url, default_branch: project.data.default_branch,
+			},
+			object_attributes: { id: mr.id, iid: mr.iid, state: mr.state, action: 'manual', last_commit: { id: mr.sha } },
+		},
+	};
+}
+
+async function fetchBitbucketPayload({ repo, number }: ManualReviewRequest, settings: ManualReviewSettings): Promise<ManualReviewPayloadResult> {
+	if (!settings.BITBUCKET_TOKEN) return missingConfig('BITBUCKET_TOKEN');
+	const headers = { 'Authorization': `Bearer ${settings.BITBUCKET_TOKEN}` };
+	const what = `Bitbucket pull request ${repo}#${number}`;
+	const { data: pr, failure } = await fetchJson(`https://api.bitbucket.org/2.0/repositories/${repo}/pullrequests/${number}`, headers, what);
+	if (failure) return failure;
+	if (pr.state !== 'OPEN') return notOpen(what, String(pr.state).toLowerCase());
+	// The pull request only embeds a summary of its repository, without the main branch.
+	const repository = await fetchJson(`https://api.bitbucket.org/2.0/repositories/${repo}`, headers, `Bitbucket repository ${repo}`);
+	if (repository.failure) return repository.failure;
+	return { success: true, payload: { repository: repository.data, pullrequest: pr } };
+}
+
+async function fetchGiteaPayload({ repo, number }: ManualReviewRequest, settings: ManualReviewSettings): Promise<ManualReviewPayloadResult> {
+	if (!settings.GITEA_BASE_URL) return missingConfig('GITEA_BASE_URL');
+	if (!settings.GITEA_TOKEN) return missingConfig('GITEA_TOKEN');
+	const what = `Gitea pull request ${repo}#${number}`;
+	const { data: pr, failure } = await fetchJson(`${settings.GITEA_BASE_URL.replace(/\/+$/, '')}/api/v1/repos/${repo}/pulls/${number}`, {
+		'Authorization': `token ${settings.GITEA_TOKEN}`,
+	}, what);
+	if (failure) return failure;
+	if (pr.state !== 'open') return notOpen(what, pr.merged ? 'merged' : pr.state);
+	return { success: true, payload: { action: 'manual', repository: pr.base?.repo, pull_request: pr } };
+}